@@ -4,10 +4,13 @@ import { defineBackground } from 'wxt/utils/define-background';
 import { browser } from 'wxt/browser';
 
 import taskExecutor from '../services/task-executor';
-import taskService from '../services/task-service';
-import triggerService from '../services/trigger-service';
+import taskService, { TASKS_STORAGE_KEY } from '../services/task-service';
+import taskQueueService, { ENQUEUE_TASK_MESSAGE, TASK_QUEUE_ALARM_NAME } from '../services/task-queue-service';
+import triggerService, { EVENT_DEBOUNCE_ALARM_PREFIX, SCHEDULE_ALARM_PREFIX } from '../services/trigger-service';
 import { warmupBookmarkFavicons } from '../services/favicon-warmup-service';
-import { createDefaultTaskStorage, EventType } from '../types/task';
+import backupService from '../services/backup-service';
+import { createDefaultTaskStorage, EventType, TaskStorage } from '../types/task';
+import { hasScheduleChanges } from '../utils/schedule-utils';
 
 /**
  * 初始化所有后台服务
@@ -19,6 +22,10 @@ async function initializeServices() {
   await taskService.init();
   console.log('任务服务初始化完成');
 
+  // 初始化执行队列，被中断的执行重新排队（需在任务执行引擎恢复中断任务之前）
+  await taskQueueService.init();
+  console.log('任务执行队列初始化完成');
+
   // 初始化任务执行引擎
   await taskExecutor.init();
   console.log('任务执行引擎初始化完成');
@@ -27,6 +34,9 @@ async function initializeServices() {
   await triggerService.init();
   console.log('触发器服务初始化完成');
 
+  // 继续执行队列中等待的任务，不阻塞初始化
+  void taskQueueService.processQueue();
+
   console.log('MarksVault 服务初始化完成');
 }
 
@@ -84,7 +94,7 @@ export default defineBackground({
             lastUpdated: null,
             customData: {},
           },
-          tasks_data: createDefaultTaskStorage(), // 初始化任务存储
+          [TASKS_STORAGE_KEY]: createDefaultTaskStorage(), // 初始化任务存储
         });
       } else if (details.reason === 'update') {
         console.log(
@@ -138,6 +148,44 @@ export default defineBackground({
       await triggerService.handleEventTrigger(EventType.BOOKMARK_CHANGED, { id, moveInfo });
     });
 
+    // 监听定时任务、事件静默期与执行队列的 alarm
+    browser.alarms.onAlarm.addListener(async (alarm) => {
+      if (
+        !alarm.name.startsWith(SCHEDULE_ALARM_PREFIX) &&
+        !alarm.name.startsWith(EVENT_DEBOUNCE_ALARM_PREFIX) &&
+        alarm.name !== TASK_QUEUE_ALARM_NAME
+      ) {
+        return;
+      }
+      if (!await ensureServicesInitializedOrLog('alarms.onAlarm')) {
+        return;
+      }
+      if (await taskQueueService.handleAlarm(alarm.name)) {
+        return;
+      }
+      await triggerService.handleAlarm(alarm.name);
+    });
+
+    // 定时任务在页面中新建/修改/删除或启用状态变化后，重新同步定时任务的 alarm
+    // 任务执行时写入的状态与历史记录不需要同步
+    browser.storage.onChanged.addListener((changes, areaName) => {
+      const change = areaName === 'local' ? changes[TASKS_STORAGE_KEY] : undefined;
+      if (!change) {
+        return;
+      }
+      const oldStorage = change.oldValue as TaskStorage | undefined;
+      const newStorage = change.newValue as TaskStorage | undefined;
+      if (!hasScheduleChanges(oldStorage, newStorage)) {
+        return;
+      }
+      void (async () => {
+        if (!await ensureServicesInitializedOrLog('storage.onChanged')) {
+          return;
+        }
+        await triggerService.syncScheduledTasks();
+      })();
+    });
+
     // 由于在 manifest 中配置了 action.default_popup，chrome.action.onClicked 事件永远不会触发
     // 监听扩展图标点击事件的代码已注释掉
     // chrome.action.onClicked.addListener(async (tab) => {
@@ -229,6 +277,46 @@ export default defineBackground({
         return true;
       }
 
+      if (message.type === ENQUEUE_TASK_MESSAGE) {
+        void (async () => {
+          if (!await ensureServicesInitializedOrLog('runtime.onMessage:ENQUEUE_TASK')) {
+            return { success: false, error: '后台服务尚未准备就绪，请稍后重试' };
+          }
+
+          const taskId = message?.payload?.taskId as unknown;
+          const triggerSummary = message?.payload?.triggerSummary as unknown;
+          if (!taskId || typeof taskId !== 'string') {
+            return { success: false, error: '无效的任务ID' };
+          }
+
+          // 页面中触发的任务（如下游任务）由后台执行，页面关闭不影响执行；不等待执行完成
+          void taskQueueService
+            .enqueue(taskId, typeof triggerSummary === 'string' ? triggerSummary : undefined)
+            .catch(error => console.error(`执行队列中的任务 ${taskId} 时出错:`, error));
+          return { success: true };
+        })()
+          .then((response) => sendResponse(response))
+          .catch(respondError);
+
+        return true;
+      }
+
+      if (message.type === 'UNDO_LAST_RESTORE') {
+        void (async () => {
+          if (!await ensureServicesInitializedOrLog('runtime.onMessage:UNDO_LAST_RESTORE')) {
+            return { success: false, error: '后台服务尚未准备就绪，请稍后重试' };
+          }
+
+          // 在后台执行，避免弹窗关闭导致书签栏只还原了一部分
+          const result = await backupService.undoLastRestore();
+          return { success: result.success, error: result.error };
+        })()
+          .then((response) => sendResponse(response))
+          .catch(respondError);
+
+        return true;
+      }
+
       return;
     });
   },
@@ -1,15 +1,24 @@
-import React from 'react';
+import React, { useState } from 'react';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
 import Switch from '@mui/material/Switch';
 import FormControlLabel from '@mui/material/FormControlLabel';
 import FormGroup from '@mui/material/FormGroup';
 import Divider from '@mui/material/Divider';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import NotificationsIcon from '@mui/icons-material/Notifications';
 import CloudUploadIcon from '@mui/icons-material/CloudUpload';
 import { UserSettings } from '../../../utils/storage-service'; // Fixed import path
 import DashboardCard from '../shared/DashboardCard';
+import { DEFAULT_BACKUP_REPO } from '../../../services/github-storage-provider';
+import {
+    DEFAULT_BACKUP_PATH_TEMPLATE,
+    DEFAULT_DEVICE_NAME,
+    validateBackupPathTemplate
+} from '../../../utils/backup-layout';
+import { GfsRetentionPolicy, resolveGfsRetention } from '../../../utils/backup-retention';
 
 // 预定义主题颜色选项
 const THEME_COLORS = [
@@ -21,19 +30,74 @@ const THEME_COLORS = [
     { value: '#B58D77', label: '柔和橘' },
 ];
 
+// 保留策略相关的设置项
+export type BackupRetentionChanges = Partial<Pick<NonNullable<UserSettings['backup']>, 'retention' | 'gfs'>>;
+
+// GFS 保留策略的各项参数
+const GFS_FIELDS: Array<{ key: keyof GfsRetentionPolicy; label: string; max: number }> = [
+    { key: 'keepAllDays', label: '全部保留（天）', max: 365 },
+    { key: 'dailyDays', label: '每天保留一个（天）', max: 365 },
+    { key: 'weeklyDays', label: '每周保留一个（天）', max: 730 },
+    { key: 'monthlyMonths', label: '每月保留一个（月，0 = 永久）', max: 1200 },
+];
+
+// 备份位置相关的设置项
+export type BackupLocationChanges = Partial<Pick<
+    NonNullable<UserSettings['backup']>,
+    'owner' | 'repo' | 'branch' | 'pathTemplate' | 'deviceName'
+>>;
+
 interface GeneralSettingsProps {
     settings: UserSettings;
     onThemeColorChange: (color: string) => void;
     onNotificationChange: (setting: 'bookmarkChanges' | 'syncStatus' | 'backupReminders', checked: boolean) => void;
     onBackupLimitChange: (limit: number) => void;
+    onRetentionChange: (changes: BackupRetentionChanges) => void;
+    onBackupModeChange: (changes: { mode?: 'full' | 'incremental'; checkpointInterval?: number; compression?: boolean }) => void;
+    onUndoWindowChange: (minutes: number) => void;
+    onLocalFolderChange: (folder: string) => void;
+    onBackupLocationChange: (changes: BackupLocationChanges) => void;
+    hasPassphrase: boolean;
+    onEncryptionChange: (enabled: boolean) => void;
+    onPassphraseSave: (passphrase: string) => void;
 }
 
 const GeneralSettings: React.FC<GeneralSettingsProps> = ({
     settings,
     onThemeColorChange,
     onNotificationChange,
-    onBackupLimitChange
+    onBackupLimitChange,
+    onRetentionChange,
+    onBackupModeChange,
+    onUndoWindowChange,
+    onLocalFolderChange,
+    onBackupLocationChange,
+    hasPassphrase,
+    onEncryptionChange,
+    onPassphraseSave
 }) => {
+    const incremental = settings.backup?.mode === 'incremental';
+    const gfsRetention = settings.backup?.retention === 'gfs';
+    const gfsPolicy = resolveGfsRetention(settings.backup);
+    const encryption = settings.backup?.encryption === true;
+    const [passphrase, setPassphrase] = useState('');
+    // 路径模板只在有效时保存，编辑过程中的内容保存在本地
+    const [pathTemplate, setPathTemplate] = useState(settings.backup?.pathTemplate || '');
+    const pathTemplateError = pathTemplate.trim() ? validateBackupPathTemplate(pathTemplate.trim()) : null;
+
+    const handlePathTemplateChange = (value: string) => {
+        setPathTemplate(value);
+        if (!value.trim() || !validateBackupPathTemplate(value.trim())) {
+            onBackupLocationChange({ pathTemplate: value.trim() });
+        }
+    };
+
+    const handlePassphraseSave = () => {
+        onPassphraseSave(passphrase);
+        setPassphrase('');
+    };
+
+
     return (
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
             {/* 界面设置 */}
@@ -142,14 +206,205 @@ const GeneralSettings: React.FC<GeneralSettingsProps> = ({
                 icon={<CloudUploadIcon fontSize="small" sx={{ color: 'primary.main' }} />}
             >
                 <Box>
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                checked={gfsRetention}
+                                onChange={(e) => onRetentionChange({ retention: e.target.checked ? 'gfs' : 'count' })}
+                                color="primary"
+                                size="small"
+                            />
+                        }
+                        label={<Typography variant="body2">分层保留（GFS）</Typography>}
+                        sx={{ ml: 0, justifyContent: 'space-between', width: '100%' }}
+                        labelPlacement="start"
+                    />
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                        保留最近的全部备份，更早的备份按天、按周、按月各保留一个。每次备份成功后自动清理，已固定的备份不会被删除。
+                    </Typography>
+                    {gfsRetention && GFS_FIELDS.map(field => (
+                        <Box key={field.key} sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                            <Typography variant="body2">{field.label}</Typography>
+                            <input
+                                type="number"
+                                min="0"
+                                max={field.max}
+                                value={gfsPolicy[field.key]}
+                                onChange={(e) => onRetentionChange({
+                                    gfs: { ...gfsPolicy, [field.key]: Math.max(0, Math.min(field.max, parseInt(e.target.value) || 0)) }
+                                })}
+                                style={{
+                                    width: '60px',
+                                    padding: '4px 8px',
+                                    border: '1px solid rgba(255,255,255,0.2)',
+                                    borderRadius: '4px',
+                                    backgroundColor: 'rgba(0,0,0,0.2)',
+                                    color: 'inherit',
+                                    textAlign: 'center',
+                                    outline: 'none'
+                                }}
+                            />
+                        </Box>
+                    ))}
+                    {!gfsRetention && (
+                        <>
+                            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                                <Typography variant="body2">备份文件保留数量</Typography>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    value={settings.backup?.maxBackupsPerType || 10}
+                                    onChange={(e) => onBackupLimitChange(parseInt(e.target.value) || 0)}
+                                    style={{
+                                        width: '60px',
+                                        padding: '4px 8px',
+                                        border: '1px solid rgba(255,255,255,0.2)',
+                                        borderRadius: '4px',
+                                        backgroundColor: 'rgba(0,0,0,0.2)',
+                                        color: 'inherit',
+                                        textAlign: 'center',
+                                        outline: 'none'
+                                    }}
+                                />
+                            </Box>
+                            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                                每种类型的最大备份数量 (0 = 不限制)。超出限制时将自动删除最旧的备份。
+                            </Typography>
+                        </>
+                    )}
+                    <Divider sx={{ my: 1, opacity: 0.5 }} />
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                checked={incremental}
+                                onChange={(e) => onBackupModeChange({ mode: e.target.checked ? 'incremental' : 'full' })}
+                                color="primary"
+                                size="small"
+                            />
+                        }
+                        label={<Typography variant="body2">增量备份</Typography>}
+                        sx={{ ml: 0, justifyContent: 'space-between', width: '100%' }}
+                        labelPlacement="start"
+                    />
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                        只上传与上一次备份的差异，恢复时从完整检查点开始回放。
+                    </Typography>
+                    {incremental && (
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}>
+                            <Typography variant="body2">完整检查点间隔（次）</Typography>
+                            <input
+                                type="number"
+                                min="1"
+                                max="100"
+                                value={settings.backup?.checkpointInterval || 10}
+                                onChange={(e) => onBackupModeChange({ checkpointInterval: parseInt(e.target.value) || 1 })}
+                                style={{
+                                    width: '60px',
+                                    padding: '4px 8px',
+                                    border: '1px solid rgba(255,255,255,0.2)',
+                                    borderRadius: '4px',
+                                    backgroundColor: 'rgba(0,0,0,0.2)',
+                                    color: 'inherit',
+                                    textAlign: 'center',
+                                    outline: 'none'
+                                }}
+                            />
+                        </Box>
+                    )}
+                    <Divider sx={{ my: 1, opacity: 0.5 }} />
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                checked={settings.backup?.compression === true}
+                                onChange={(e) => onBackupModeChange({ compression: e.target.checked })}
+                                color="primary"
+                                size="small"
+                            />
+                        }
+                        label={<Typography variant="body2">压缩备份</Typography>}
+                        sx={{ ml: 0, justifyContent: 'space-between', width: '100%' }}
+                        labelPlacement="start"
+                    />
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                        以 gzip 格式（.json.gz）上传备份，书签较多时可显著减小文件体积并加快上传。
+                    </Typography>
+                    <Divider sx={{ my: 1, opacity: 0.5 }} />
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1, mb: 1 }}>
+                        <Typography variant="body2" sx={{ flexShrink: 0 }}>本地下载文件夹</Typography>
+                        <TextField
+                            size="small"
+                            placeholder={DEFAULT_BACKUP_REPO}
+                            value={settings.backup?.localFolder || ''}
+                            onChange={(e) => onLocalFolderChange(e.target.value)}
+                            sx={{ maxWidth: 180 }}
+                            inputProps={{ style: { padding: '4px 8px' } }}
+                        />
+                    </Box>
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                        存储位置为“本地下载”时，备份文件保存到浏览器下载目录中的该文件夹。
+                    </Typography>
+                    <Divider sx={{ my: 1, opacity: 0.5 }} />
+                    <Typography variant="body2" sx={{ mb: 1 }}>备份位置</Typography>
+                    <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 1, mb: 1 }}>
+                        <TextField
+                            size="small"
+                            label="所有者（用户或组织）"
+                            placeholder="当前账号"
+                            value={settings.backup?.owner || ''}
+                            onChange={(e) => onBackupLocationChange({ owner: e.target.value })}
+                            InputLabelProps={{ shrink: true }}
+                        />
+                        <TextField
+                            size="small"
+                            label="仓库"
+                            placeholder={DEFAULT_BACKUP_REPO}
+                            value={settings.backup?.repo || ''}
+                            onChange={(e) => onBackupLocationChange({ repo: e.target.value })}
+                            InputLabelProps={{ shrink: true }}
+                        />
+                        <TextField
+                            size="small"
+                            label="分支"
+                            placeholder="默认分支"
+                            value={settings.backup?.branch || ''}
+                            onChange={(e) => onBackupLocationChange({ branch: e.target.value })}
+                            InputLabelProps={{ shrink: true }}
+                        />
+                        <TextField
+                            size="small"
+                            label="设备名称"
+                            placeholder={DEFAULT_DEVICE_NAME}
+                            value={settings.backup?.deviceName || ''}
+                            onChange={(e) => onBackupLocationChange({ deviceName: e.target.value })}
+                            InputLabelProps={{ shrink: true }}
+                        />
+                    </Box>
+                    <TextField
+                        size="small"
+                        fullWidth
+                        label="路径模板"
+                        placeholder={DEFAULT_BACKUP_PATH_TEMPLATE}
+                        value={pathTemplate}
+                        onChange={(e) => handlePathTemplateChange(e.target.value)}
+                        error={!!pathTemplateError}
+                        helperText={pathTemplateError || '可用变量：{device}、{type}（bookmarks 或 settings）、{timestamp}（备份文件名，必须在最后）'}
+                        InputLabelProps={{ shrink: true }}
+                        sx={{ mb: 1 }}
+                    />
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                        备份、恢复、统计与清理都使用这里的仓库、分支与路径（WebDAV 使用“仓库”作为文件夹）。
+                        修改后可在“高级”页将默认仓库中的现有备份迁移过来。
+                    </Typography>
+                    <Divider sx={{ my: 1, opacity: 0.5 }} />
                     <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
-                        <Typography variant="body2">备份文件保留数量</Typography>
+                        <Typography variant="body2">撤销恢复时限（分钟）</Typography>
                         <input
                             type="number"
                             min="0"
-                            max="100"
-                            value={settings.backup?.maxBackupsPerType || 10}
-                            onChange={(e) => onBackupLimitChange(parseInt(e.target.value) || 0)}
+                            max="1440"
+                            value={settings.backup?.undoWindowMinutes ?? 30}
+                            onChange={(e) => onUndoWindowChange(parseInt(e.target.value) || 0)}
                             style={{
                                 width: '60px',
                                 padding: '4px 8px',
@@ -163,8 +418,47 @@ const GeneralSettings: React.FC<GeneralSettingsProps> = ({
                         />
                     </Box>
                     <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
-                        每种类型的最大备份数量 (0 = 不限制)。超出限制时将自动删除最旧的备份。
+                        恢复前会自动保存当前书签的本地快照，时限内可在快捷操作中撤销上次恢复 (0 = 不允许撤销)。
+                    </Typography>
+                    <Divider sx={{ my: 1, opacity: 0.5 }} />
+                    <FormControlLabel
+                        control={
+                            <Switch
+                                checked={encryption}
+                                onChange={(e) => onEncryptionChange(e.target.checked)}
+                                color="primary"
+                                size="small"
+                            />
+                        }
+                        label={<Typography variant="body2">加密备份</Typography>}
+                        sx={{ ml: 0, justifyContent: 'space-between', width: '100%' }}
+                        labelPlacement="start"
+                    />
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                        上传前在本地用口令加密备份内容，GitHub 上只保存密文。口令只保存在本机，不会同步或上传，其他设备需要单独设置，遗失后无法恢复加密的备份。
                     </Typography>
+                    {encryption && (
+                        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mt: 1 }}>
+                            <TextField
+                                type="password"
+                                size="small"
+                                fullWidth
+                                placeholder={hasPassphrase ? '已设置口令，输入新口令可替换' : '输入加密口令'}
+                                value={passphrase}
+                                onChange={(e) => setPassphrase(e.target.value)}
+                                autoComplete="new-password"
+                            />
+                            <Button
+                                variant="outlined"
+                                size="small"
+                                disabled={!passphrase}
+                                onClick={handlePassphraseSave}
+                                sx={{ flexShrink: 0 }}
+                            >
+                                保存口令
+                            </Button>
+                        </Box>
+                    )}
                 </Box>
             </DashboardCard>
         </Box>
@@ -23,12 +23,19 @@ import CloudUploadIcon from '@mui/icons-material/CloudUpload';
 import CloudDownloadIcon from '@mui/icons-material/CloudDownload';
 import GitHubIcon from '@mui/icons-material/GitHub';
 import SettingsIcon from '@mui/icons-material/Settings';
+import DriveFileMoveIcon from '@mui/icons-material/DriveFileMove';
+import RestoreIcon from '@mui/icons-material/Restore';
 import WarningIcon from '@mui/icons-material/Warning';
 import { ToastRef } from '../shared/Toast';
 import storageService from '../../../utils/storage-service';
 import backupService, { BackupType } from '../../../services/backup-service';
 import githubService from '../../../services/github-service';
+import storageProviderService from '../../../services/storage-provider-service';
+import { UploadedFileStorageProvider } from '../../../services/local-storage-provider';
+import { DEFAULT_BACKUP_REPO } from '../../../services/github-storage-provider';
 import { BackupStatus } from '../../../types/backup';
+import { DEFAULT_BACKUP_LAYOUT, resolveBackupLayout } from '../../../utils/backup-layout';
+import RestorePreviewDialog from '../SyncView/RestorePreviewDialog';
 
 interface SettingsActionsProps {
   toastRef?: React.RefObject<ToastRef>;
@@ -63,8 +70,13 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
   const [backupStatus, setBackupStatus] = useState<BackupStatus>({});
   const [credentialsChecked, setCredentialsChecked] = useState(false);
   const [hasGitHubCredentials, setHasGitHubCredentials] = useState(false);
+  const [uploadedBackup, setUploadedBackup] = useState<UploadedFileStorageProvider | null>(null);
+  const [isFileRestoring, setIsFileRestoring] = useState(false);
+  const [showMigrateConfirm, setShowMigrateConfirm] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupFileInputRef = useRef<HTMLInputElement>(null);
 
   // 加载GitHub凭据和备份状态
   useEffect(() => {
@@ -235,6 +247,46 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
     }
   };
   
+  // 选择书签备份文件后打开恢复预览
+  const handleBackupFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const content = new Uint8Array(await file.arrayBuffer());
+      setUploadedBackup(storageProviderService.createUploadedFileProvider(file.name, content));
+    } catch (error) {
+      console.error('读取备份文件时出错:', error);
+      toastRef?.current?.showToast('读取备份文件失败', 'error');
+    } finally {
+      // 重置文件输入，以便可以重新选择相同的文件
+      if (backupFileInputRef.current) {
+        backupFileInputRef.current.value = '';
+      }
+    }
+  };
+
+  // 确认预览后使用上传的备份文件恢复书签
+  const handleUploadedBackupRestore = async () => {
+    if (!uploadedBackup) return;
+
+    const provider = uploadedBackup;
+    setUploadedBackup(null);
+    setIsFileRestoring(true);
+    try {
+      const result = await backupService.restoreFromStorage(provider, true, provider.path, BackupType.BOOKMARKS);
+      if (!result.success) {
+        throw new Error(result.error || '恢复书签失败');
+      }
+      toastRef?.current?.showToast('已从备份文件恢复书签', 'success');
+    } catch (error) {
+      console.error('从备份文件恢复书签失败:', error);
+      toastRef?.current?.showToast(error instanceof Error ? error.message : String(error), 'error');
+    } finally {
+      setIsFileRestoring(false);
+    }
+  };
+  
   // GitHub备份设置
   const handleGitHubBackup = async () => {
     if (!hasGitHubCredentials) {
@@ -256,11 +308,8 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
       const user = await githubService.validateCredentials(credentialsResult.data);
       
       // 执行备份
-      const backupResult = await backupService.backupToGitHub(
-        credentialsResult.data,
-        user.login,
-        BackupType.SETTINGS
-      );
+      const provider = await storageProviderService.createGitHubBackupProvider(credentialsResult.data, user.login);
+      const backupResult = await backupService.backupToStorage(provider, BackupType.SETTINGS);
       
       if (!backupResult.success) {
         throw new Error(backupResult.error || '备份配置到GitHub失败');
@@ -308,9 +357,9 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
       const user = await githubService.validateCredentials(credentialsResult.data);
       
       // 执行恢复
-      const restoreResult = await backupService.restoreFromGitHub(
-        credentialsResult.data,
-        user.login,
+      const provider = await storageProviderService.createGitHubBackupProvider(credentialsResult.data, user.login);
+      const restoreResult = await backupService.restoreFromStorage(
+        provider,
         false,
         undefined,
         BackupType.SETTINGS
@@ -340,6 +389,54 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
   const handleCancelGitHubRestore = () => {
     setShowBackupRestoreConfirm(false);
   };
+
+  // 将默认位置（当前账号的 marksvault-backups 仓库、默认分支与默认目录结构）中的备份迁移到设置中的备份位置
+  const handleMigrateBackups = async () => {
+    setShowMigrateConfirm(false);
+    setIsMigrating(true);
+    setGitHubError(null);
+
+    try {
+      const credentialsResult = await storageService.getGitHubCredentials();
+      if (!credentialsResult.success || !credentialsResult.data) {
+        throw new Error('无法获取GitHub凭据，请在“概览”页配置');
+      }
+
+      const settingsResult = await storageService.getSettings();
+      const targetLayout = resolveBackupLayout(settingsResult.success ? settingsResult.data?.backup : undefined);
+      const location = await storageProviderService.getBackupLocation();
+
+      const user = await githubService.validateCredentials(credentialsResult.data);
+      const isDefaultLocation = (!location.owner || location.owner === user.login)
+        && location.repo === DEFAULT_BACKUP_REPO
+        && !location.branch
+        && targetLayout.pathTemplate === DEFAULT_BACKUP_LAYOUT.pathTemplate;
+      if (isDefaultLocation) {
+        toastRef?.current?.showToast('当前备份位置与默认位置相同，无需迁移', 'info');
+        return;
+      }
+
+      const source = storageProviderService.createGitHubProvider(credentialsResult.data, user.login);
+      const target = await storageProviderService.createGitHubBackupProvider(credentialsResult.data, user.login);
+      const result = await backupService.migrateBackups(source, target, DEFAULT_BACKUP_LAYOUT, targetLayout);
+      if (!result.success) {
+        throw new Error(result.error || '迁移备份失败');
+      }
+
+      const migratedCount = result.data?.migratedCount || 0;
+      toastRef?.current?.showToast(
+        migratedCount > 0 ? `已迁移 ${migratedCount} 个备份文件` : '默认位置中没有需要迁移的备份',
+        migratedCount > 0 ? 'success' : 'info'
+      );
+    } catch (error) {
+      console.error('迁移备份失败:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setGitHubError(errorMessage);
+      toastRef?.current?.showToast(errorMessage, 'error');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
   
   // 格式化时间显示
   const formatDate = (timestamp?: number): string => {
@@ -446,6 +543,42 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
               aria-label="导入配置文件"
             />
           </ListItem>
+
+          <ListItem 
+            sx={{ px: 1, py: 0.5 }}
+            secondaryAction={
+              <Button
+                variant="outlined"
+                color="primary"
+                size="small"
+                startIcon={isFileRestoring ? <CircularProgress size={16} /> : <RestoreIcon />}
+                onClick={() => backupFileInputRef.current?.click()}
+                disabled={isFileRestoring}
+                sx={{ minWidth: '90px', fontSize: '0.75rem' }}
+              >
+                恢复
+              </Button>
+            }
+          >
+            <ListItemText 
+              primary={
+                <Typography variant="body2">从备份文件恢复书签</Typography>
+              } 
+              secondary={
+                <Typography variant="caption" color="text.secondary">
+                  上传书签备份文件（.json 或 .json.gz），预览后恢复
+                </Typography>
+              }
+            />
+            <input
+              type="file"
+              ref={backupFileInputRef}
+              style={{ display: 'none' }}
+              accept=".json,.gz"
+              onChange={handleBackupFileSelected}
+              aria-label="选择书签备份文件"
+            />
+          </ListItem>
           
           <Divider sx={{ my: 1 }} />
           
@@ -542,6 +675,34 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
               }
             />
           </ListItem>
+
+          <ListItem 
+            sx={{ px: 1, py: 0.5 }}
+            secondaryAction={
+              <Button
+                variant="outlined"
+                color="primary"
+                size="small"
+                startIcon={isMigrating ? <CircularProgress size={16} /> : <DriveFileMoveIcon />}
+                onClick={() => setShowMigrateConfirm(true)}
+                disabled={isMigrating || isGitHubBackuping || isGitHubRestoring || !hasGitHubCredentials}
+                sx={{ minWidth: '90px', fontSize: '0.75rem' }}
+              >
+                迁移
+              </Button>
+            }
+          >
+            <ListItemText 
+              primary={
+                <Typography variant="body2">迁移现有备份</Typography>
+              } 
+              secondary={
+                <Typography variant="caption" color="text.secondary">
+                  将默认仓库中的备份复制到“备份位置”中设置的仓库、分支与路径
+                </Typography>
+              }
+            />
+          </ListItem>
         </List>
       </Paper>
       
@@ -670,6 +831,22 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
         </DialogActions>
       </Dialog>
       
+      {/* 上传备份文件的恢复预览与确认 */}
+      {uploadedBackup && (
+        <RestorePreviewDialog
+          open
+          onClose={() => setUploadedBackup(null)}
+          provider={uploadedBackup}
+          filePath={uploadedBackup.path}
+          onConfirm={handleUploadedBackupRestore}
+          description={
+            <Alert severity="warning" icon={<WarningIcon />}>
+              此操作将使用上传的备份文件恢复书签栏，并覆盖当前浏览器中的书签。请确认以下变化后再继续。
+            </Alert>
+          }
+        />
+      )}
+
       {/* GitHub恢复确认对话框 */}
       <Dialog
         open={showBackupRestoreConfirm}
@@ -701,6 +878,33 @@ const SettingsActions: React.FC<SettingsActionsProps> = ({ toastRef }) => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* 迁移备份确认对话框 */}
+      <Dialog
+        open={showMigrateConfirm}
+        onClose={() => setShowMigrateConfirm(false)}
+      >
+        <DialogTitle>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <DriveFileMoveIcon color="primary" />
+            <span>迁移现有备份</span>
+          </Box>
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            此操作会把仓库 {DEFAULT_BACKUP_REPO} 中的书签与配置备份复制到“常规设置 → 备份位置”中设置的仓库、分支与路径，
+            并在一次提交中写入。原仓库中的文件保持不变，确认迁移成功后可自行删除。
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowMigrateConfirm(false)} color="primary">
+            取消
+          </Button>
+          <Button onClick={handleMigrateBackups} variant="contained" color="primary">
+            开始迁移
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
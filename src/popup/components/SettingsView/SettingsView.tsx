@@ -7,7 +7,7 @@ import SettingsActions from './SettingsActions';
 import { useThemeContext } from '../../contexts/ThemeContext';
 import PageLayout from '../shared/PageLayout';
 import SettingsHeader from './SettingsHeader';
-import GeneralSettings from './GeneralSettings';
+import GeneralSettings, { BackupLocationChanges, BackupRetentionChanges } from './GeneralSettings';
 import AboutSettings from './AboutSettings';
 
 interface SettingsViewProps {
@@ -37,6 +37,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({ toastRef }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [tabValue, setTabValue] = useState(0);
+  const [hasPassphrase, setHasPassphrase] = useState(false);
 
   // 从存储服务加载设置
   useEffect(() => {
@@ -63,6 +64,9 @@ const SettingsView: React.FC<SettingsViewProps> = ({ toastRef }) => {
         } else {
           setError(result.error || '加载设置失败');
         }
+
+        const passphraseResult = await storageService.getBackupPassphrase();
+        setHasPassphrase(passphraseResult.success && !!passphraseResult.data);
       } catch (error) {
         console.error('加载设置时出错:', error);
         setError('加载设置时发生错误');
@@ -124,6 +128,86 @@ const SettingsView: React.FC<SettingsViewProps> = ({ toastRef }) => {
     });
   };
 
+  // 处理保留策略（按数量或 GFS 分层保留）更改
+  const handleRetentionChange = (changes: BackupRetentionChanges) => {
+    const backup = {
+      maxBackupsPerType: settings.backup?.maxBackupsPerType ?? 10,
+      ...(settings.backup || {}),
+      ...changes
+    };
+    setSettings({ ...settings, backup });
+    storageService.updateSettings({ backup });
+  };
+
+  // 处理备份模式、检查点间隔与压缩格式更改
+  const handleBackupModeChange = (changes: { mode?: 'full' | 'incremental'; checkpointInterval?: number; compression?: boolean }) => {
+    const backup = {
+      maxBackupsPerType: settings.backup?.maxBackupsPerType ?? 10,
+      ...(settings.backup || {}),
+      ...changes
+    };
+    if (changes.checkpointInterval !== undefined) {
+      backup.checkpointInterval = Math.max(1, Math.min(100, changes.checkpointInterval));
+    }
+    setSettings({ ...settings, backup });
+    storageService.updateSettings({ backup });
+  };
+
+  // 处理撤销恢复时限更改
+  const handleUndoWindowChange = (minutes: number) => {
+    const backup = {
+      maxBackupsPerType: settings.backup?.maxBackupsPerType ?? 10,
+      ...(settings.backup || {}),
+      undoWindowMinutes: Math.max(0, Math.min(1440, minutes))
+    };
+    setSettings({ ...settings, backup });
+    storageService.updateSettings({ backup });
+  };
+
+  // 处理本地下载文件夹更改
+  const handleLocalFolderChange = (folder: string) => {
+    const backup = {
+      maxBackupsPerType: settings.backup?.maxBackupsPerType ?? 10,
+      ...(settings.backup || {}),
+      localFolder: folder
+    };
+    setSettings({ ...settings, backup });
+    storageService.updateSettings({ backup });
+  };
+
+  // 处理备份位置（所有者、仓库、分支与路径模板）变化
+  const handleBackupLocationChange = (changes: BackupLocationChanges) => {
+    const backup = {
+      maxBackupsPerType: settings.backup?.maxBackupsPerType ?? 10,
+      ...(settings.backup || {}),
+      ...changes
+    };
+    setSettings({ ...settings, backup });
+    storageService.updateSettings({ backup });
+  };
+
+  // 处理备份加密开关
+  const handleEncryptionChange = (enabled: boolean) => {
+    const backup = {
+      maxBackupsPerType: settings.backup?.maxBackupsPerType ?? 10,
+      ...(settings.backup || {}),
+      encryption: enabled
+    };
+    setSettings({ ...settings, backup });
+    storageService.updateSettings({ backup });
+  };
+
+  // 保存备份加密口令
+  const handlePassphraseSave = async (passphrase: string) => {
+    const result = await storageService.saveBackupPassphrase(passphrase);
+    if (result.success) {
+      setHasPassphrase(true);
+      toastRef?.current?.showToast('加密口令已保存', 'success');
+    } else {
+      toastRef?.current?.showToast(result.error || '保存加密口令失败', 'error');
+    }
+  };
+
   if (loading) {
     return <LoadingIndicator />;
   }
@@ -145,6 +229,14 @@ const SettingsView: React.FC<SettingsViewProps> = ({ toastRef }) => {
             onThemeColorChange={handleThemeColorChange}
             onNotificationChange={handleNotificationChange}
             onBackupLimitChange={handleBackupLimitChange}
+            onRetentionChange={handleRetentionChange}
+            onBackupModeChange={handleBackupModeChange}
+            onUndoWindowChange={handleUndoWindowChange}
+            onLocalFolderChange={handleLocalFolderChange}
+            onBackupLocationChange={handleBackupLocationChange}
+            hasPassphrase={hasPassphrase}
+            onEncryptionChange={handleEncryptionChange}
+            onPassphraseSave={handlePassphraseSave}
           />
         )}
         {tabValue === 1 && (
@@ -17,8 +17,14 @@ import Divider from '@mui/material/Divider';
 import Box from '@mui/material/Box';
 import AccessTimeIcon from '@mui/icons-material/AccessTime';
 import DeleteIcon from '@mui/icons-material/Delete';
-import { GitHubCredentials } from '../../../utils/storage-service';
-import githubService from '../../../services/github-service';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined';
+import Tooltip from '@mui/material/Tooltip';
+import backupService from '../../../services/backup-service';
+import storageService from '../../../utils/storage-service';
+import { StorageProvider } from '../../../types/storage-provider';
+import { isCompressedBackupFile } from '../../../utils/backup-compression';
+import RestorePreviewDialog from './RestorePreviewDialog';
 
 interface BackupFile {
   name: string;
@@ -26,16 +32,16 @@ interface BackupFile {
   size: number;
   timestamp: string; // 解析后的可读时间戳
   rawTimestamp: string; // 原始时间戳字符串
-  sha: string; // 用于删除文件
+  sha?: string; // 用于删除文件
+  incremental: boolean; // 是否为增量备份
+  compressed: boolean; // 是否为 gzip 压缩备份
 }
 
 interface BackupSelectionDialogProps {
   open: boolean;
   onClose: () => void;
   onSelect: (filePath: string) => void;
-  credentials: GitHubCredentials;
-  username: string;
-  repoName: string;
+  provider: StorageProvider; // 备份所在的存储位置
   onRefreshRef?: React.MutableRefObject<(() => void) | null>;
 }
 
@@ -43,9 +49,7 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
   open,
   onClose,
   onSelect,
-  credentials,
-  username,
-  repoName,
+  provider,
   onRefreshRef
 }) => {
   const [loading, setLoading] = useState(true);
@@ -55,11 +59,13 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
   const [deletingFile, setDeletingFile] = useState<string | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<BackupFile | null>(null);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [pinnedPaths, setPinnedPaths] = useState<string[]>([]); // 已固定、不会被自动清理的备份
 
   // 从文件名中提取并格式化时间戳
   const parseTimestampFromFilename = (filename: string): { formatted: string; raw: string } => {
-    // 格式: bookmarks_backup_YYYYMMDDHHMMSS.json
-    const match = filename.match(/bookmarks_backup_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json/);
+    // 格式: bookmarks_backup_YYYYMMDDHHMMSS.json（完整）或 bookmarks_delta_YYYYMMDDHHMMSS.json（增量），压缩备份为 .json.gz
+    const match = filename.match(/bookmarks_(?:backup|delta)_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json(?:\.gz)?$/);
     
     if (match) {
       const [_, year, month, day, hour, minute, second] = match;
@@ -77,16 +83,12 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
     setError(null);
     
     try {
-      const files = await githubService.getRepositoryFiles(
-        credentials,
-        username,
-        repoName,
-        'bookmarks' // 指定从bookmarks文件夹获取文件
-      );
-      
-      // 只过滤书签备份文件，仅支持新格式
+      // 从备份设置中的书签备份文件夹获取书签备份文件（完整备份与增量备份）
+      const files = await backupService.listBookmarksBackups(provider);
+      const pinnedResult = await storageService.getPinnedBackups();
+      setPinnedPaths(pinnedResult.success ? pinnedResult.data : []);
+
       const backupFiles = files
-        .filter(file => file.name.startsWith('bookmarks_backup_') && file.name.endsWith('.json'))
         .map(file => {
           const { formatted, raw } = parseTimestampFromFilename(file.name);
           return {
@@ -95,7 +97,9 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
             size: file.size,
             timestamp: formatted,
             rawTimestamp: raw,
-            sha: file.sha  // 保存SHA值，用于删除
+            sha: file.sha,  // 保存SHA值，用于删除
+            incremental: file.name.startsWith('bookmarks_delta_'),
+            compressed: isCompressedBackupFile(file.name)
           };
         })
         // 按时间戳从新到旧排序
@@ -118,7 +122,7 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
       setError(null);
       loadBackupFiles();
     }
-  }, [open, credentials, username, repoName]);
+  }, [open, provider]);
 
   // 选择文件并关闭对话框
   const handleSelect = () => {
@@ -128,6 +132,17 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
     onClose();
   };
 
+  // 固定或取消固定备份，固定的备份不会被保留策略自动清理
+  const handlePinToggle = async (event: React.MouseEvent, file: BackupFile) => {
+    event.stopPropagation();
+    const result = await storageService.setBackupPinned(file.path, !pinnedPaths.includes(file.path));
+    if (result.success) {
+      setPinnedPaths(result.data);
+    } else {
+      setError(result.error || '固定备份失败');
+    }
+  };
+
   // 打开删除确认对话框
   const handleDeleteClick = (event: React.MouseEvent, file: BackupFile) => {
     event.stopPropagation(); // 阻止事件冒泡，避免触发选择
@@ -149,14 +164,13 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
     setDeletingFile(fileToDelete.path);
     
     try {
-      await githubService.deleteFile(
-        credentials,
-        username,
-        repoName,
-        fileToDelete.path,
-        `删除备份文件 ${fileToDelete.name}`,
-        fileToDelete.sha
-      );
+      await provider.deleteFile(fileToDelete, `删除备份文件 ${fileToDelete.name}`);
+      if (pinnedPaths.includes(fileToDelete.path)) {
+        const pinnedResult = await storageService.setBackupPinned(fileToDelete.path, false);
+        if (pinnedResult.success) {
+          setPinnedPaths(pinnedResult.data);
+        }
+      }
       
       // 从列表中移除已删除的文件
       setBackupFiles(prev => prev.filter(file => file.path !== fileToDelete.path));
@@ -166,7 +180,7 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
         setSelectedFile(null);
       }
       
-      // 添加延迟后重新加载文件列表，确保GitHub API同步完成
+      // 添加延迟后重新加载文件列表，确保存储位置的接口同步完成
       setTimeout(() => {
         loadBackupFiles();
       }, 1000);
@@ -239,23 +253,36 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
                   <ListItem 
                     disablePadding
                     secondaryAction={
-                      <IconButton 
-                        edge="end"
-                        aria-label="delete"
-                        onClick={(e) => handleDeleteClick(e, file)}
-                        disabled={deletingFile === file.path}
-                      >
-                        {deletingFile === file.path ? 
-                          <CircularProgress size={20} /> : 
-                          <DeleteIcon color="error" />
-                        }
-                      </IconButton>
+                      <>
+                        <Tooltip title={pinnedPaths.includes(file.path) ? '取消固定' : '固定此备份，自动清理时保留'}>
+                          <IconButton
+                            aria-label="pin"
+                            onClick={(e) => handlePinToggle(e, file)}
+                          >
+                            {pinnedPaths.includes(file.path) ?
+                              <PushPinIcon color="primary" /> :
+                              <PushPinOutlinedIcon />
+                            }
+                          </IconButton>
+                        </Tooltip>
+                        <IconButton 
+                          edge="end"
+                          aria-label="delete"
+                          onClick={(e) => handleDeleteClick(e, file)}
+                          disabled={deletingFile === file.path}
+                        >
+                          {deletingFile === file.path ? 
+                            <CircularProgress size={20} /> : 
+                            <DeleteIcon color="error" />
+                          }
+                        </IconButton>
+                      </>
                     }
                   >
                     <ListItemButton
                       selected={selectedFile === file.path}
                       onClick={() => setSelectedFile(file.path)}
-                      sx={{ pr: 6 }} // 为删除按钮留出空间
+                      sx={{ pr: 11 }} // 为固定和删除按钮留出空间
                     >
                       <ListItemText 
                         primary={
@@ -264,7 +291,7 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
                             {file.timestamp}
                           </Box>
                         }
-                        secondary={`文件大小: ${formatFileSize(file.size)}`}
+                        secondary={`${file.incremental ? '增量备份' : '完整备份'}${file.compressed ? '（压缩）' : ''}${pinnedPaths.includes(file.path) ? ' · 已固定' : ''} · 文件大小: ${formatFileSize(file.size)}`}
                       />
                     </ListItemButton>
                   </ListItem>
@@ -277,6 +304,12 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
         
         <DialogActions>
           <Button onClick={onClose}>取消</Button>
+          <Button
+            onClick={() => setPreviewOpen(true)}
+            disabled={!selectedFile || loading}
+          >
+            预览变化
+          </Button>
           <Button 
             onClick={handleSelect} 
             disabled={!selectedFile || loading}
@@ -288,6 +321,16 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
         </DialogActions>
       </Dialog>
 
+      {/* 恢复预览对话框 */}
+      {previewOpen && selectedFile && (
+        <RestorePreviewDialog
+          open={previewOpen}
+          onClose={() => setPreviewOpen(false)}
+          provider={provider}
+          filePath={selectedFile}
+        />
+      )}
+
       {/* 删除确认对话框 */}
       <Dialog
         open={deleteConfirmOpen}
@@ -300,6 +343,7 @@ const BackupSelectionDialog: React.FC<BackupSelectionDialogProps> = ({
         <DialogContent>
           <DialogContentText>
             您确定要删除这个备份吗？该操作不可恢复。
+            删除完整备份或中间的增量备份后，依赖它的后续增量备份将无法恢复。
             {fileToDelete && (
               <Box sx={{ mt: 2 }}>
                 <Typography variant="body2">
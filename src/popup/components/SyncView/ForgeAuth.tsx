@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import Box from '@mui/material/Box';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import CloudIcon from '@mui/icons-material/Cloud';
+import InfoIcon from '@mui/icons-material/Info';
+import ErrorIcon from '@mui/icons-material/Error';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
+import { browser } from 'wxt/browser';
+import storageService, { ForgeCredentials, ForgeType } from '../../../utils/storage-service';
+import giteaService from '../../../services/gitea-service';
+import gitlabService from '../../../services/gitlab-service';
+
+interface ForgeAuthProps {
+  type: ForgeType;
+  label: string;
+  urlPlaceholder: string;
+}
+
+/**
+ * 代码托管平台（Gitea / GitLab）连接表单
+ * 连接成功后保存实例地址与访问令牌，备份任务即可选择该平台作为存储位置
+ */
+const ForgeAuth: React.FC<ForgeAuthProps> = ({ type, label, urlPlaceholder }) => {
+  const [storedCredentials, setStoredCredentials] = useState<ForgeCredentials | null>(null);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [formErrors, setFormErrors] = useState({
+    baseUrl: '',
+    token: ''
+  });
+
+  useEffect(() => {
+    const loadCredentials = async () => {
+      const result = await storageService.getForgeCredentials(type);
+      if (result.success && result.data) {
+        setStoredCredentials(result.data);
+      }
+    };
+
+    loadCredentials();
+  }, [type]);
+
+  const validateForm = (): boolean => {
+    const errors = {
+      baseUrl: '',
+      token: ''
+    };
+
+    if (!/^https?:\/\/\S+$/.test(baseUrl.trim())) {
+      errors.baseUrl = `请输入以 http:// 或 https:// 开头的${label}地址`;
+    }
+    if (!token.trim()) {
+      errors.token = '访问令牌不能为空';
+    }
+
+    setFormErrors(errors);
+    return !errors.baseUrl && !errors.token;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const credentials: ForgeCredentials = {
+      baseUrl: baseUrl.trim().replace(/\/+$/, ''),
+      token: token.trim()
+    };
+
+    setIsConnecting(true);
+    setErrorMessage('');
+
+    try {
+      // 实例地址由用户填写，需要先申请该站点的访问权限
+      const origin = `${new URL(credentials.baseUrl).origin}/*`;
+      const granted = await browser.permissions.request({ origins: [origin] });
+      if (!granted) {
+        throw new Error('未授予访问该服务器的权限');
+      }
+
+      if (type === 'gitea') {
+        await giteaService.validateCredentials(credentials);
+      } else {
+        await gitlabService.validateCredentials(credentials);
+      }
+
+      const saveResult = await storageService.saveForgeCredentials(type, credentials);
+      if (!saveResult.success) {
+        throw new Error(saveResult.error);
+      }
+
+      setStoredCredentials(credentials);
+      setToken('');
+    } catch (error) {
+      setErrorMessage(`连接失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    const result = await storageService.clearForgeCredentials(type);
+    if (result.success) {
+      setStoredCredentials(null);
+    } else {
+      setErrorMessage(result.error || '断开连接失败');
+    }
+  };
+
+  return (
+    <Box sx={{ m: 0, backgroundColor: 'transparent', boxShadow: 'none' }}>
+      <Box sx={{ p: 1, '&:last-child': { pb: 1 } }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 0.5 }}>
+          <CloudIcon sx={{ mr: 1, color: 'text.secondary', fontSize: '1.2rem' }} />
+          <Typography variant="subtitle1" sx={{ fontWeight: 500 }}>{label}连接</Typography>
+        </Box>
+
+        {storedCredentials ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" noWrap title={storedCredentials.baseUrl} sx={{ flex: 1, minWidth: 0 }}>
+              {storedCredentials.baseUrl}
+            </Typography>
+            <Button
+              startIcon={<LinkOffIcon fontSize="small" />}
+              size="small"
+              color="inherit"
+              onClick={handleDisconnect}
+              sx={{ textTransform: 'none', flexShrink: 0 }}
+            >
+              断开
+            </Button>
+          </Box>
+        ) : (
+          <Box
+            component="form"
+            onSubmit={handleSubmit}
+            sx={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 1
+            }}
+          >
+            <Typography
+              variant="body2"
+              color="info.main"
+              sx={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                fontSize: '0.8rem',
+                mb: 1,
+                mt: 0.5
+              }}
+            >
+              <InfoIcon fontSize="small" sx={{ mr: 0.5, fontSize: '1rem', mt: 0.1 }} />
+              连接{label}后，可在备份和推送任务中选择{label}作为存储位置，备份仓库不存在时会自动创建。
+            </Typography>
+
+            <TextField
+              label={`${label}地址`}
+              variant="outlined"
+              fullWidth
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              error={!!formErrors.baseUrl}
+              helperText={formErrors.baseUrl || `例如 ${urlPlaceholder}`}
+              disabled={isConnecting}
+              size="small"
+              margin="dense"
+              InputLabelProps={{ shrink: true }}
+            />
+
+            <TextField
+              label="访问令牌"
+              variant="outlined"
+              fullWidth
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              error={!!formErrors.token}
+              helperText={formErrors.token || '需要仓库读写权限'}
+              disabled={isConnecting}
+              size="small"
+              margin="dense"
+              InputLabelProps={{ shrink: true }}
+            />
+
+            {errorMessage && (
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', mt: 0.5, mb: 0.5 }}>
+                <ErrorIcon color="error" fontSize="small" sx={{ mr: 0.5, fontSize: '1rem', mt: 0.1 }} />
+                <Typography variant="body2" color="error" sx={{ fontSize: '0.8rem' }}>
+                  {errorMessage}
+                </Typography>
+              </Box>
+            )}
+
+            <Button
+              type="submit"
+              variant="outlined"
+              color="primary"
+              fullWidth
+              disabled={isConnecting}
+              size="medium"
+              sx={{ mt: 0.5 }}
+            >
+              {isConnecting ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : `连接${label}`}
+            </Button>
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default ForgeAuth;
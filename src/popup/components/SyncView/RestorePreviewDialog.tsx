@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Alert from '@mui/material/Alert';
+import Switch from '@mui/material/Switch';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Typography from '@mui/material/Typography';
+import IconButton from '@mui/material/IconButton';
+import CircularProgress from '@mui/material/CircularProgress';
+import FolderIcon from '@mui/icons-material/Folder';
+import BookmarkIcon from '@mui/icons-material/Bookmark';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import backupService from '../../../services/backup-service';
+import { StorageProvider } from '../../../types/storage-provider';
+import { filterChangedNodes } from '../../../utils/bookmark-compare';
+import { BookmarkRootKind, RestoreChangeKind, RestorePreview, RestorePreviewNode } from '../../../types/backup';
+
+interface RestorePreviewDialogProps {
+  open: boolean;
+  onClose: () => void;
+  provider: StorageProvider; // 备份所在的存储位置
+  filePath?: string; // 不指定时预览最新备份
+  roots?: BookmarkRootKind[]; // 要恢复的根目录，不指定时只预览书签栏
+  description?: React.ReactNode; // 预览上方的说明文字
+  onConfirm?: () => void; // 提供时显示确认按钮
+  confirmLabel?: string;
+}
+
+// 各类变化的显示文字与颜色
+const CHANGE_META: Record<RestoreChangeKind, { label: string; color: 'success' | 'error' | 'info' | 'warning' | 'default' }> = {
+  added: { label: '新增', color: 'success' },
+  removed: { label: '删除', color: 'error' },
+  moved: { label: '移动', color: 'info' },
+  renamed: { label: '重命名', color: 'warning' },
+  unchanged: { label: '未变化', color: 'default' }
+};
+
+/**
+ * 恢复预览对话框
+ * 加载所选备份并与当前书签对比，以树形结构展示恢复后将发生的变化
+ */
+const RestorePreviewDialog: React.FC<RestorePreviewDialogProps> = ({
+  open,
+  onClose,
+  provider,
+  filePath,
+  roots,
+  description,
+  onConfirm,
+  confirmLabel = '确认恢复'
+}) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  const [collapsedKeys, setCollapsedKeys] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      setLoading(true);
+      setError(null);
+      setPreview(null);
+      setCollapsedKeys(new Set());
+
+      const result = await backupService.previewBookmarksRestore(provider, filePath, roots);
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setPreview(result.data as RestorePreview);
+      } else {
+        setError(result.error || '预览失败');
+      }
+      setLoading(false);
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, provider, filePath, roots]);
+
+  const toggleCollapsed = (key: string) => {
+    setCollapsedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderNodes = (nodes: RestorePreviewNode[], depth: number): React.ReactNode =>
+    nodes.map(node => {
+      const meta = CHANGE_META[node.change];
+      const hasChildren = !!node.children && node.children.length > 0;
+      const expanded = !collapsedKeys.has(node.key);
+      const hint = node.change === 'moved'
+        ? `原位置：${node.previousPath}${node.previousTitle ? `，原名称：${node.previousTitle}` : ''}`
+        : node.change === 'renamed'
+          ? `原名称：${node.previousTitle}`
+          : node.url;
+
+      return (
+        <React.Fragment key={node.key}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, pl: depth * 2, py: 0.25 }}>
+            {hasChildren ? (
+              <IconButton size="small" onClick={() => toggleCollapsed(node.key)} sx={{ p: 0.25 }}>
+                {expanded ? <ExpandMoreIcon fontSize="small" /> : <ChevronRightIcon fontSize="small" />}
+              </IconButton>
+            ) : (
+              <Box sx={{ width: 24 }} />
+            )}
+            {node.isFolder ? (
+              <FolderIcon fontSize="small" color="action" />
+            ) : (
+              <BookmarkIcon fontSize="small" color="action" />
+            )}
+            <Box sx={{ minWidth: 0, flexGrow: 1 }}>
+              <Typography
+                variant="body2"
+                noWrap
+                sx={{ textDecoration: node.change === 'removed' ? 'line-through' : 'none' }}
+              >
+                {node.title || '(无标题)'}
+              </Typography>
+              {hint && (
+                <Typography variant="caption" color="text.secondary" noWrap sx={{ display: 'block' }}>
+                  {hint}
+                </Typography>
+              )}
+            </Box>
+            {node.change !== 'unchanged' && (
+              <Chip label={meta.label} color={meta.color} size="small" variant="outlined" />
+            )}
+          </Box>
+          {hasChildren && expanded && renderNodes(node.children || [], depth + 1)}
+        </React.Fragment>
+      );
+    });
+
+  const visibleNodes = preview
+    ? (onlyChanges ? filterChangedNodes(preview.nodes) : preview.nodes)
+    : [];
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" aria-labelledby="restore-preview-dialog-title">
+      <DialogTitle id="restore-preview-dialog-title">恢复预览</DialogTitle>
+
+      <DialogContent dividers>
+        {description && (
+          <Box sx={{ mb: 2 }}>{description}</Box>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="warning">
+            无法生成恢复预览：{error}
+          </Alert>
+        ) : preview && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1, wordBreak: 'break-all' }}>
+              备份文件：{preview.filePath}
+              {preview.timestamp ? `（${new Date(preview.timestamp).toLocaleString()}）` : ''}
+            </Typography>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+              {(Object.keys(CHANGE_META) as RestoreChangeKind[]).map(kind => (
+                <Chip
+                  key={kind}
+                  label={`${CHANGE_META[kind].label} ${preview.summary[kind]}`}
+                  color={CHANGE_META[kind].color}
+                  size="small"
+                />
+              ))}
+            </Box>
+
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={onlyChanges}
+                  onChange={(e) => setOnlyChanges(e.target.checked)}
+                />
+              }
+              label={<Typography variant="body2">仅显示变化</Typography>}
+            />
+
+            <Box sx={{ maxHeight: 360, overflowY: 'auto', mt: 1 }}>
+              {visibleNodes.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                  恢复后书签不会发生变化。
+                </Typography>
+              ) : (
+                renderNodes(visibleNodes, 0)
+              )}
+            </Box>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">
+          {onConfirm ? '取消' : '关闭'}
+        </Button>
+        {onConfirm && (
+          <Button onClick={onConfirm} color="error" variant="contained" disabled={loading}>
+            {confirmLabel}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RestorePreviewDialog;
@@ -5,7 +5,10 @@ import Button from '@mui/material/Button';
 import IconButton from '@mui/material/IconButton';
 import Tooltip from '@mui/material/Tooltip';
 import GitHubIcon from '@mui/icons-material/GitHub';
+import Divider from '@mui/material/Divider';
 import GitHubAuth from './GitHubAuth';
+import WebDAVAuth from './WebDAVAuth';
+import ForgeAuth from './ForgeAuth';
 import SyncOperations from './SyncOperations';
 import LoadingIndicator from '../shared/LoadingIndicator';
 import { ToastRef } from '../shared/Toast';
@@ -63,7 +66,15 @@ const SyncView: React.FC<SyncViewProps> = ({
       }
     >
       {authStatus === AuthStatus.AUTHENTICATED && user ? (
-        <SyncOperations />
+        <>
+          <SyncOperations />
+          <Divider sx={{ my: 1 }} />
+          <WebDAVAuth />
+          <Divider sx={{ my: 1 }} />
+          <ForgeAuth type="gitea" label="Gitea" urlPlaceholder="https://gitea.example.com" />
+          <Divider sx={{ my: 1 }} />
+          <ForgeAuth type="gitlab" label="GitLab" urlPlaceholder="https://gitlab.com" />
+        </>
       ) : (
         <Box sx={{ display: 'flex', flexDirection: 'column', height: '100%', justifyContent: 'center', p: 2 }}>
           {errorMessage ? (
@@ -89,6 +100,13 @@ const SyncView: React.FC<SyncViewProps> = ({
             authStatus={authStatus}
             errorMessage=""
           />
+
+          <Divider sx={{ my: 1 }} />
+          <WebDAVAuth />
+          <Divider sx={{ my: 1 }} />
+          <ForgeAuth type="gitea" label="Gitea" urlPlaceholder="https://gitea.example.com" />
+          <Divider sx={{ my: 1 }} />
+          <ForgeAuth type="gitlab" label="GitLab" urlPlaceholder="https://gitlab.com" />
         </Box>
       )}
     </PageLayout>
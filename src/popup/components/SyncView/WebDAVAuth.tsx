@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import Box from '@mui/material/Box';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import StorageIcon from '@mui/icons-material/Storage';
+import InfoIcon from '@mui/icons-material/Info';
+import ErrorIcon from '@mui/icons-material/Error';
+import LinkOffIcon from '@mui/icons-material/LinkOff';
+import { browser } from 'wxt/browser';
+import storageService, { WebDAVCredentials } from '../../../utils/storage-service';
+import webdavService from '../../../services/webdav-service';
+
+/**
+ * WebDAV 连接表单
+ * 连接成功后保存配置，备份任务即可选择 WebDAV 作为存储位置
+ */
+const WebDAVAuth: React.FC = () => {
+  const [storedCredentials, setStoredCredentials] = useState<WebDAVCredentials | null>(null);
+  const [url, setUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [formErrors, setFormErrors] = useState({
+    url: '',
+    username: ''
+  });
+
+  useEffect(() => {
+    const loadCredentials = async () => {
+      const result = await storageService.getWebDAVCredentials();
+      if (result.success && result.data) {
+        setStoredCredentials(result.data);
+      }
+    };
+
+    loadCredentials();
+  }, []);
+
+  const validateForm = (): boolean => {
+    const errors = {
+      url: '',
+      username: ''
+    };
+
+    if (!/^https?:\/\/\S+$/.test(url.trim())) {
+      errors.url = '请输入以 http:// 或 https:// 开头的WebDAV地址';
+    }
+    if (!username.trim()) {
+      errors.username = '用户名不能为空';
+    }
+
+    setFormErrors(errors);
+    return !errors.url && !errors.username;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const credentials: WebDAVCredentials = {
+      url: url.trim(),
+      username: username.trim(),
+      password
+    };
+
+    setIsConnecting(true);
+    setErrorMessage('');
+
+    try {
+      // 服务器地址由用户填写，需要先申请该站点的访问权限
+      const origin = `${new URL(credentials.url).origin}/*`;
+      const granted = await browser.permissions.request({ origins: [origin] });
+      if (!granted) {
+        throw new Error('未授予访问该服务器的权限');
+      }
+
+      await webdavService.validateCredentials(credentials);
+
+      const saveResult = await storageService.saveWebDAVCredentials(credentials);
+      if (!saveResult.success) {
+        throw new Error(saveResult.error);
+      }
+
+      setStoredCredentials(credentials);
+      setPassword('');
+    } catch (error) {
+      setErrorMessage(`连接失败: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    const result = await storageService.clearWebDAVCredentials();
+    if (result.success) {
+      setStoredCredentials(null);
+    } else {
+      setErrorMessage(result.error || '断开连接失败');
+    }
+  };
+
+  return (
+    <Box sx={{ m: 0, backgroundColor: 'transparent', boxShadow: 'none' }}>
+      <Box sx={{ p: 1, '&:last-child': { pb: 1 } }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 0.5 }}>
+          <StorageIcon sx={{ mr: 1, color: 'text.secondary', fontSize: '1.2rem' }} />
+          <Typography variant="subtitle1" sx={{ fontWeight: 500 }}>WebDAV连接</Typography>
+        </Box>
+
+        {storedCredentials ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Typography variant="body2" noWrap title={storedCredentials.url}>
+                {storedCredentials.url}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                用户: {storedCredentials.username}
+              </Typography>
+            </Box>
+            <Button
+              startIcon={<LinkOffIcon fontSize="small" />}
+              size="small"
+              color="inherit"
+              onClick={handleDisconnect}
+              sx={{ textTransform: 'none', flexShrink: 0 }}
+            >
+              断开
+            </Button>
+          </Box>
+        ) : (
+          <Box
+            component="form"
+            onSubmit={handleSubmit}
+            sx={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 1
+            }}
+          >
+            <Typography
+              variant="body2"
+              color="info.main"
+              sx={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                fontSize: '0.8rem',
+                mb: 1,
+                mt: 0.5
+              }}
+            >
+              <InfoIcon fontSize="small" sx={{ mr: 0.5, fontSize: '1rem', mt: 0.1 }} />
+              连接 Nextcloud、ownCloud 或 NAS 的WebDAV文件夹后，可在备份任务中选择WebDAV作为存储位置。
+            </Typography>
+
+            <TextField
+              label="WebDAV地址"
+              variant="outlined"
+              fullWidth
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              error={!!formErrors.url}
+              helperText={formErrors.url || '例如 https://cloud.example.com/remote.php/dav/files/用户名/'}
+              disabled={isConnecting}
+              size="small"
+              margin="dense"
+              InputLabelProps={{ shrink: true }}
+            />
+
+            <TextField
+              label="用户名"
+              variant="outlined"
+              fullWidth
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              error={!!formErrors.username}
+              helperText={formErrors.username}
+              disabled={isConnecting}
+              size="small"
+              margin="dense"
+              InputLabelProps={{ shrink: true }}
+            />
+
+            <TextField
+              label="密码或应用专用密码"
+              variant="outlined"
+              fullWidth
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isConnecting}
+              size="small"
+              margin="dense"
+              InputLabelProps={{ shrink: true }}
+            />
+
+            {errorMessage && (
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', mt: 0.5, mb: 0.5 }}>
+                <ErrorIcon color="error" fontSize="small" sx={{ mr: 0.5, fontSize: '1rem', mt: 0.1 }} />
+                <Typography variant="body2" color="error" sx={{ fontSize: '0.8rem' }}>
+                  {errorMessage}
+                </Typography>
+              </Box>
+            )}
+
+            <Button
+              type="submit"
+              variant="outlined"
+              color="primary"
+              fullWidth
+              disabled={isConnecting}
+              size="medium"
+              sx={{ mt: 0.5 }}
+            >
+              {isConnecting ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : '连接WebDAV'}
+            </Button>
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default WebDAVAuth;
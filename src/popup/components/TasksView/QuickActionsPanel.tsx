@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { browser } from 'wxt/browser';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
@@ -9,12 +9,15 @@ import CloudUploadIcon from '@mui/icons-material/CloudUpload';
 import CloudDownloadIcon from '@mui/icons-material/CloudDownload';
 import TaskAltIcon from '@mui/icons-material/TaskAlt';
 import CachedIcon from '@mui/icons-material/Cached';
+import UndoIcon from '@mui/icons-material/Undo';
 import DashboardCard from '../shared/DashboardCard';
 import { useFaviconRefresh } from '../shared/FaviconRefreshContext';
 
 import taskExecutor from '../../../services/task-executor';
+import backupService from '../../../services/backup-service';
 import taskService, { SYSTEM_TASK_IDS } from '../../../services/task-service';
 import { AuthStatus, GitHubUser } from '../../../types/github';
+import { UndoableRestore } from '../../../types/backup';
 import { ToastRef } from '../shared/Toast';
 
 interface QuickActionsPanelProps {
@@ -39,8 +42,23 @@ const QuickActionsPanel: React.FC<QuickActionsPanelProps> = ({
   const [isBackingUp, setIsBackingUp] = useState(false);
   const [isOpeningRestore, setIsOpeningRestore] = useState(false);
   const [isWarmingFavicons, setIsWarmingFavicons] = useState(false);
+  const [isUndoingRestore, setIsUndoingRestore] = useState(false);
+  const [undoableRestore, setUndoableRestore] = useState<UndoableRestore | null>(null);
   const { bumpRefreshToken } = useFaviconRefresh();
 
+  const loadUndoableRestore = useCallback(async () => {
+    try {
+      setUndoableRestore(await backupService.getUndoableRestore());
+    } catch (error) {
+      console.error('获取可撤销的恢复失败:', error);
+      setUndoableRestore(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUndoableRestore();
+  }, [loadUndoableRestore]);
+
   const isAuthenticated = authStatus === AuthStatus.AUTHENTICATED && !!user;
 
   const ensureSystemTasksReady = async () => {
@@ -102,6 +120,28 @@ const QuickActionsPanel: React.FC<QuickActionsPanelProps> = ({
     }
   };
 
+  const handleUndoRestore = async () => {
+    setIsUndoingRestore(true);
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'UNDO_LAST_RESTORE' });
+      if (response?.success !== true) {
+        throw new Error(typeof response?.error === 'string' ? response.error : '撤销恢复失败');
+      }
+
+      toastRef?.current?.showToast('已撤销上次恢复，书签栏已还原', 'success');
+      onExecuted?.();
+    } catch (error) {
+      console.error('撤销恢复失败:', error);
+      toastRef?.current?.showToast(
+        error instanceof Error ? error.message : '撤销恢复失败',
+        'error',
+      );
+    } finally {
+      setIsUndoingRestore(false);
+      loadUndoableRestore();
+    }
+  };
+
   const handleWarmupFavicons = async () => {
     setIsWarmingFavicons(true);
 
@@ -213,6 +253,32 @@ const QuickActionsPanel: React.FC<QuickActionsPanelProps> = ({
           </Button>
         </Box>
 
+        {undoableRestore && (
+          <Box sx={{ mt: 1.5 }}>
+            <Button
+              variant="outlined"
+              color="warning"
+              fullWidth
+              startIcon={
+                isUndoingRestore ? <CircularProgress size={18} color="inherit" /> : <UndoIcon />
+              }
+              disabled={isBackingUp || isOpeningRestore || isUndoingRestore}
+              onClick={handleUndoRestore}
+              sx={{ py: 0.8 }}
+            >
+              {isUndoingRestore ? '撤销中...' : '撤销上次恢复'}
+            </Button>
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              sx={{ display: 'block', mt: 0.5, lineHeight: 1.4 }}
+            >
+              将书签栏还原为 {new Date(undoableRestore.timestamp).toLocaleString()} 恢复前的状态，
+              {new Date(undoableRestore.expiresAt).toLocaleTimeString()} 前有效。
+            </Typography>
+          </Box>
+        )}
+
         <Box sx={{ mt: 1.5 }}>
           <Button
             variant="outlined"
@@ -5,6 +5,7 @@ import BackupIcon from '@mui/icons-material/Backup';
 import CleaningServicesIcon from '@mui/icons-material/CleaningServices';
 import UploadIcon from '@mui/icons-material/Upload';
 import { Action, ActionType, BackupAction } from '../../../types/task';
+import { getStorageProviderLabel } from '../../../services/storage-provider-service';
 
 interface TaskActionInfoProps {
   action: Action;
@@ -29,7 +30,7 @@ const TaskActionInfo: React.FC<TaskActionInfoProps> = ({ action, compact = false
         <Box sx={{ display: 'flex', alignItems: 'center' }}>
           <BackupIcon fontSize="small" color="action" sx={{ fontSize: '14px' }} />
           <Typography variant="body2" sx={{ ml: 0.75, fontSize: '11px' }}>
-            {operationLabel} {operationLabel === '恢复' ? '自' : '到'} {target}
+            {operationLabel} {operationLabel === '恢复' ? '自' : '到'} {getStorageProviderLabel(target)}
           </Typography>
         </Box>
       );
@@ -47,7 +48,7 @@ const TaskActionInfo: React.FC<TaskActionInfoProps> = ({ action, compact = false
           操作: {operationLabel}
         </Typography>
         <Typography variant="body2" color="text.secondary" sx={{ ml: 3, fontSize: '11px' }}>
-          目标: {target}
+          目标: {getStorageProviderLabel(target)}
         </Typography>
         {backupAction.operation === 'restore' ? (
           <Typography variant="body2" color="text.secondary" sx={{ ml: 3, fontSize: '11px' }}>
@@ -58,6 +59,11 @@ const TaskActionInfo: React.FC<TaskActionInfoProps> = ({ action, compact = false
             提交消息: {options.commitMessage}
           </Typography>
         ) : null}
+        {backupAction.operation !== 'restore' && options?.includeSettings && (
+          <Typography variant="body2" color="text.secondary" sx={{ ml: 3, fontSize: '11px' }}>
+            内容: 书签与配置（单次提交）
+          </Typography>
+        )}
       </Box>
     );
   };
@@ -73,7 +79,7 @@ const TaskActionInfo: React.FC<TaskActionInfoProps> = ({ action, compact = false
         <Box sx={{ display: 'flex', alignItems: 'center' }}>
           <UploadIcon fontSize="small" color="action" sx={{ fontSize: '14px' }} />
           <Typography variant="body2" sx={{ ml: 0.75, fontSize: '11px' }}>
-            推送书签到 {target}/{options.repoName}
+            推送书签到 {getStorageProviderLabel(target)}/{options.repoName}
           </Typography>
         </Box>
       );
@@ -88,7 +94,7 @@ const TaskActionInfo: React.FC<TaskActionInfoProps> = ({ action, compact = false
           </Typography>
         </Box>
         <Typography variant="body2" color="text.secondary" sx={{ ml: 3, fontSize: '11px' }}>
-          目标: {target}/{options.repoName}
+          目标: {getStorageProviderLabel(target)}/{options.repoName}
         </Typography>
         <Typography variant="body2" color="text.secondary" sx={{ ml: 3, fontSize: '11px' }}>
           路径: {options.folderPath}
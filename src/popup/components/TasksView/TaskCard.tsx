@@ -28,10 +28,14 @@ import Tooltip from '@mui/material/Tooltip';
 import Chip from '@mui/material/Chip';
 import CircularProgress from '@mui/material/CircularProgress';
 import Alert from '@mui/material/Alert';
-import { Task, TaskStatus, TriggerType, ActionType, BackupAction } from '../../../types/task';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import PreviewIcon from '@mui/icons-material/Preview';
+import { Task, TaskStatus, TriggerType, ActionType, BackupAction, TaskStepResult, getTaskSteps, isDryRunAction } from '../../../types/task';
 import TaskStatusChip from './TaskStatusChip';
 import TaskTriggerInfo from './TaskTriggerInfo';
 import TaskActionInfo from './TaskActionInfo';
+import TaskRunLogView from './TaskRunLogView';
+import TaskPreviewDialog from './TaskPreviewDialog';
 import taskService from '../../../services/task-service';
 import taskExecutor from '../../../services/task-executor';
 import { 
@@ -41,9 +45,19 @@ import {
   combineStyles
 } from '../../styles/TaskStyles';
 import { formatDate, formatRelativeTime, getExecutionResultText } from '../../../utils/date-utils';
+import { getDownstreamTasks, getUpstreamTaskId } from '../../../utils/task-dependencies';
+
+// 多步骤任务中各步骤的状态文本
+const STEP_STATUS_LABELS: Record<TaskStepResult['status'], string> = {
+  success: '成功',
+  failed: '失败',
+  skipped: '无变化，已跳过',
+  not_run: '未执行'
+};
 
 interface TaskCardProps {
   task: Task;
+  allTasks?: Task[]; // 全部任务，用于显示上游/下游任务
   onStatusChange?: (taskId: string, success: boolean) => void;
   onEdit?: (taskId: string) => void;
   onDelete?: (taskId: string) => void;
@@ -55,6 +69,7 @@ interface TaskCardProps {
  */
 const TaskCard: React.FC<TaskCardProps> = ({ 
   task, 
+  allTasks = [],
   onStatusChange, 
   onEdit, 
   onDelete 
@@ -64,6 +79,12 @@ const TaskCard: React.FC<TaskCardProps> = ({
   const [executing, setExecuting] = useState(false);
   const [expandedHistory, setExpandedHistory] = useState<string | null>(null);
   const [historyExpanded, setHistoryExpanded] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+
+  // 任务依赖：上游任务（任务完成触发器）与在本任务完成后触发的下游任务
+  const upstreamTaskId = getUpstreamTaskId(task);
+  const upstreamTask = upstreamTaskId ? allTasks.find(item => item.id === upstreamTaskId) : undefined;
+  const downstreamTasks = getDownstreamTasks(allTasks, task.id);
   
   // 切换展开/折叠状态
   const handleExpandClick = () => {
@@ -164,7 +185,8 @@ const TaskCard: React.FC<TaskCardProps> = ({
     return getExecutionResultText(
       lastExecution.timestamp,
       lastExecution.success,
-      lastExecution.error
+      lastExecution.error,
+      lastExecution.skipped
     );
   };
   
@@ -198,6 +220,9 @@ const TaskCard: React.FC<TaskCardProps> = ({
   const canExecuteTask = task.status !== TaskStatus.RUNNING &&
                          task.status !== TaskStatus.DISABLED;
   
+  // 包含整理或恢复步骤的任务可以预览计划的变更
+  const canPreviewTask = getTaskSteps(task).some(step => isDryRunAction(step.action));
+  
   // 创建自定义样式对象，去除下边距
   const noBottomPaddingStyles = {
     pb: 0,
@@ -306,7 +331,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
                   }
                   disableTypography
                 />
-                {(execution.details || execution.error) && (
+                {(execution.details || execution.error || execution.logId) && (
                   <Box sx={{ display: 'flex', alignItems: 'center', ml: 0.5 }}>
                     {isExpanded ? 
                       <KeyboardArrowUpIcon sx={{ fontSize: 14 }} /> : 
@@ -317,7 +342,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
               </ListItemButton>
               
               {/* 展开的详情内容 */}
-              {(execution.details || execution.error) && (
+              {(execution.details || execution.error || execution.logId) && (
                 <Collapse in={isExpanded} timeout="auto" unmountOnExit>
                   <Box sx={{
                     px: 1,
@@ -327,7 +352,19 @@ const TaskCard: React.FC<TaskCardProps> = ({
                     borderRadius: 1,
                     mt: 0.5
                   }}>
-                    {execution.details && (
+                    {execution.steps ? (
+                      execution.steps.map(step => (
+                        <Typography
+                          key={step.index}
+                          variant="body2"
+                          sx={{ mb: 0.5, color: step.status === 'failed' ? 'error.main' : 'text.primary' }}
+                        >
+                          第 {step.index + 1} 步 {STEP_STATUS_LABELS[step.status]}
+                          {step.duration !== undefined && ` (${formatDuration(step.duration)})`}
+                          {(step.error || step.details) && `: ${step.error || step.details}`}
+                        </Typography>
+                      ))
+                    ) : execution.details && (
                       <Typography variant="body2" sx={{ mb: 0.5 }}>
                         {execution.details}
                       </Typography>
@@ -345,6 +382,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
                         {execution.error}
                       </Typography>
                     )}
+                    {execution.logId && <TaskRunLogView taskId={task.id} logId={execution.logId} />}
                   </Box>
                 </Collapse>
               )}
@@ -413,7 +451,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
         
         <Box sx={{ mt: 0.3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <Box sx={{ flex: 1 }}>
-            <TaskTriggerInfo trigger={task.trigger} compact />
+            <TaskTriggerInfo trigger={task.trigger} compact upstreamTaskName={upstreamTask?.name} />
           </Box>
           <Box sx={{ display: 'flex', alignItems: 'center' }}>
             {/* 手动任务：显示更显眼的执行按钮 */}
@@ -483,6 +521,14 @@ const TaskCard: React.FC<TaskCardProps> = ({
               </>
             )}
             
+            {canPreviewTask && (
+              <Tooltip title="预览（试运行，不修改书签）">
+                <IconButton onClick={() => setPreviewOpen(true)} size="small" sx={{ padding: 0.4 }}>
+                  <PreviewIcon sx={{ fontSize: '14px' }} />
+                </IconButton>
+              </Tooltip>
+            )}
+            
             <Tooltip title="编辑任务">
               <IconButton onClick={handleEdit} size="small" sx={{ padding: 0.4 }}>
                 <EditIcon sx={{ fontSize: '14px' }} />
@@ -497,9 +543,39 @@ const TaskCard: React.FC<TaskCardProps> = ({
           </Box>
         </Box>
         
+        {(upstreamTaskId || downstreamTasks.length > 0) && (
+          <Box sx={{ mt: 0.3, display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 0.5 }}>
+            <AccountTreeIcon color="action" sx={{ fontSize: '12px' }} />
+            {upstreamTaskId && (
+              <Chip
+                label={upstreamTask ? `上游: ${upstreamTask.name}` : '上游任务已删除'}
+                color={upstreamTask ? 'default' : 'warning'}
+                size="small"
+                variant="outlined"
+                sx={{ height: 16, fontSize: '9px' }}
+              />
+            )}
+            {downstreamTasks.length > 0 && (
+              <Tooltip title={`本任务完成后触发: ${downstreamTasks.map(item => item.name).join('、')}`}>
+                <Chip
+                  label={`下游: ${downstreamTasks.length > 1 ? `${downstreamTasks[0].name} 等 ${downstreamTasks.length} 个` : downstreamTasks[0].name}`}
+                  size="small"
+                  variant="outlined"
+                  sx={{ height: 16, fontSize: '9px' }}
+                />
+              </Tooltip>
+            )}
+          </Box>
+        )}
+
         <Box sx={{ mt: 0.3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <Box sx={{ flex: 1 }}>
-            <TaskActionInfo action={task.action} compact />
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <TaskActionInfo action={task.action} compact />
+              {task.steps && task.steps.length > 0 && (
+                <Chip label={`+${task.steps.length} 步`} size="small" sx={{ height: 16, fontSize: '9px' }} />
+              )}
+            </Box>
           </Box>
           <Button
             size="small"
@@ -543,7 +619,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
               触发器:
             </Typography>
             <Box sx={{ pl: 1 }}>
-              <TaskTriggerInfo trigger={task.trigger} compact={false} />
+              <TaskTriggerInfo trigger={task.trigger} compact={false} upstreamTaskName={upstreamTask?.name} />
             </Box>
             
             {/* 显示任务操作详情 */}
@@ -552,6 +628,14 @@ const TaskCard: React.FC<TaskCardProps> = ({
             </Typography>
             <Box sx={{ pl: 1 }}>
               <TaskActionInfo action={task.action} />
+              {task.steps?.map((step, index) => (
+                <Box key={step.id} sx={{ mt: 0.5 }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ fontSize: '10px' }}>
+                    第 {index + 2} 步{step.continueOnFailure ? '（失败后继续）' : ''}:
+                  </Typography>
+                  <TaskActionInfo action={step.action} compact />
+                </Box>
+              ))}
             </Box>
             
             {/* 任务执行历史 */}
@@ -592,6 +676,8 @@ const TaskCard: React.FC<TaskCardProps> = ({
           </Box>
         </CardContent>
       </Collapse>
+      
+      <TaskPreviewDialog open={previewOpen} task={task} onClose={() => setPreviewOpen(false)} />
     </Card>
   );
 };
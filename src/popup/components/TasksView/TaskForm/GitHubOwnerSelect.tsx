@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+import Autocomplete from '@mui/material/Autocomplete';
+import TextField from '@mui/material/TextField';
+import CircularProgress from '@mui/material/CircularProgress';
+import storageService from '../../../../utils/storage-service';
+import githubService from '../../../../services/github-service';
+
+interface OwnerOption {
+  login: string;
+  label: string; // 显示在列表中的说明，如“个人账号”“组织管理员”
+}
+
+interface GitHubOwnerSelectProps {
+  value: string;
+  onChange: (owner: string) => void;
+  helperText: string;
+}
+
+/**
+ * GitHub 仓库所有者选择
+ * 列出当前账号与其所属的组织，也可以直接输入组织名称（令牌没有 read:org 权限时无法列出组织）
+ */
+const GitHubOwnerSelect: React.FC<GitHubOwnerSelectProps> = ({ value, onChange, helperText }) => {
+  const [options, setOptions] = useState<OwnerOption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadOwners = async () => {
+      setLoading(true);
+      try {
+        const credentialsResult = await storageService.getGitHubCredentials();
+        if (!credentialsResult.success || !credentialsResult.data) return;
+
+        const credentials = credentialsResult.data;
+        const user = await githubService.validateCredentials(credentials);
+        const owners: OwnerOption[] = [{ login: user.login, label: '个人账号' }];
+        try {
+          const organizations = await githubService.getOrganizations(credentials);
+          owners.push(...organizations.map(org => ({
+            login: org.login,
+            label: org.role === 'admin' ? '组织管理员' : '组织成员'
+          })));
+        } catch (error) {
+          console.warn('获取组织列表失败，可直接输入组织名称:', error);
+        }
+        if (!cancelled) {
+          setOptions(owners);
+        }
+      } catch (error) {
+        console.error('获取仓库所有者失败:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadOwners();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <Autocomplete
+      freeSolo
+      size="small"
+      options={options.map(option => option.login)}
+      loading={loading}
+      value={value}
+      onInputChange={(_, newValue) => {
+        if (newValue.trim() !== value) {
+          onChange(newValue.trim());
+        }
+      }}
+      renderOption={(props, login) => (
+        <li {...props} key={login}>
+          {login}（{options.find(option => option.login === login)?.label}）
+        </li>
+      )}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label="仓库所有者"
+          placeholder="当前账号"
+          margin="dense"
+          helperText={helperText}
+          InputLabelProps={{ shrink: true }}
+          InputProps={{
+            ...params.InputProps,
+            endAdornment: (
+              <>
+                {loading ? <CircularProgress color="inherit" size={16} /> : null}
+                {params.InputProps.endAdornment}
+              </>
+            )
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default GitHubOwnerSelect;
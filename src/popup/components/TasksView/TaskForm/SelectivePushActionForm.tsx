@@ -4,6 +4,7 @@ import TextField from '@mui/material/TextField';
 import Stack from '@mui/material/Stack';
 import Typography from '@mui/material/Typography';
 import { SelectivePushAction } from '../../../../types/task';
+import GitHubOwnerSelect from './GitHubOwnerSelect';
 
 interface SelectivePushActionFormProps {
   action: SelectivePushAction;
@@ -22,6 +23,7 @@ const SelectivePushActionForm: React.FC<SelectivePushActionFormProps> = ({
 }) => {
   // 表单字段状态
   const [repoName, setRepoName] = useState<string>(action.options.repoName || 'menav');
+  const [owner, setOwner] = useState<string>(action.options.owner || '');
   const [folderPath, setFolderPath] = useState<string>(action.options.folderPath || 'bookmarks');
   const [commitMessage, setCommitMessage] = useState<string>(action.options.commitMessage || '选择性推送书签');
   
@@ -58,6 +60,7 @@ const SelectivePushActionForm: React.FC<SelectivePushActionFormProps> = ({
       options: {
         ...action.options,
         repoName,
+        owner: owner || undefined,
         folderPath,
         commitMessage
       }
@@ -65,7 +68,7 @@ const SelectivePushActionForm: React.FC<SelectivePushActionFormProps> = ({
     
     onChange(updatedAction);
     validateForm();
-  }, [repoName, folderPath, commitMessage]);
+  }, [repoName, owner, folderPath, commitMessage]);
 
   // 处理仓库名称变更
   const handleRepoNameChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -131,6 +134,14 @@ const SelectivePushActionForm: React.FC<SelectivePushActionFormProps> = ({
             }}
           />
 
+          {(action.target || 'github') === 'github' && (
+            <GitHubOwnerSelect
+              value={owner}
+              onChange={setOwner}
+              helperText="目标仓库的所有者，可选择有权限的组织；留空时使用当前账号"
+            />
+          )}
+
           <TextField
             fullWidth
             size="small"
@@ -21,6 +21,7 @@ import UploadIcon from '@mui/icons-material/Upload';
 import Autocomplete from '@mui/material/Autocomplete';
 import CircularProgress from '@mui/material/CircularProgress';
 import FolderIcon from '@mui/icons-material/Folder';
+import PreviewIcon from '@mui/icons-material/Preview';
 import {
   Action,
   ActionType,
@@ -28,17 +29,24 @@ import {
   OrganizeAction,
   PushAction,
   SelectivePushAction,
+  Task,
   createBackupAction,
+  createDefaultTask,
   createOrganizeAction,
   createPushAction,
-  createSelectivePushAction
+  createSelectivePushAction,
+  isDryRunAction
 } from '../../../../types/task';
+import { StorageProviderType } from '../../../../types/storage-provider';
+import { STORAGE_PROVIDER_OPTIONS } from '../../../../services/storage-provider-service';
 import Divider from '@mui/material/Divider';
 import Radio from '@mui/material/Radio';
 import RadioGroup from '@mui/material/RadioGroup';
 import Typography from '@mui/material/Typography';
 import bookmarkService from '../../../../utils/bookmark-service';
 import SelectivePushActionForm from './SelectivePushActionForm';
+import GitHubOwnerSelect from './GitHubOwnerSelect';
+import TaskPreviewDialog from '../TaskPreviewDialog';
 
 // 扩展的整理操作接口，用于UI渲染
 interface ExtendedOrganizeOperation {
@@ -80,6 +88,23 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
 }) => {
   // 操作类型
   const [actionType, setActionType] = useState<ActionType>(action.type);
+
+  // 正在预览的任务，为空时不显示预览对话框
+  const [previewTask, setPreviewTask] = useState<Task | null>(null);
+
+  // 备份/推送的存储位置
+  const [storageTarget, setStorageTarget] = useState<StorageProviderType>(
+    action.type === ActionType.BACKUP || action.type === ActionType.PUSH
+      ? (action as BackupAction | PushAction).target || 'github'
+      : 'github'
+  );
+
+  // 备份/推送的 GitHub 仓库所有者（用户或组织）
+  const [repoOwner, setRepoOwner] = useState<string>(
+    action.type === ActionType.BACKUP || action.type === ActionType.PUSH
+      ? (action as BackupAction | PushAction).options.owner || ''
+      : ''
+  );
   
   // 备份操作状态
   const [commitMessage, setCommitMessage] = useState<string>(
@@ -88,6 +113,9 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
   const [includeMetadata, setIncludeMetadata] = useState<boolean>(
     action.type === ActionType.BACKUP ? !!(action as BackupAction).options.includeMetadata : true
   );
+  const [includeSettings, setIncludeSettings] = useState<boolean>(
+    action.type === ActionType.BACKUP ? !!(action as BackupAction).options.includeSettings : false
+  );
   const [backupOperation, setBackupOperation] = useState<'backup' | 'restore'>(
     action.type === ActionType.BACKUP && 'operation' in action ? 
       (action as BackupAction).operation : 'backup'
@@ -98,6 +126,12 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
     (action as BackupAction).options.backupFilePath ? 
       String((action as BackupAction).options.backupFilePath) : ''
   );
+  const [restoreStrategy, setRestoreStrategy] = useState<'replace' | 'merge'>(
+    action.type === ActionType.BACKUP ? (action as BackupAction).options.restoreStrategy || 'replace' : 'replace'
+  );
+  const [removeAbsent, setRemoveAbsent] = useState<boolean>(
+    action.type === ActionType.BACKUP ? !!(action as BackupAction).options.removeAbsent : false
+  );
   
   // 推送操作状态
   const [pushRepoName, setPushRepoName] = useState<string>(
@@ -177,12 +211,20 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
   useEffect(() => {
     setActionType(action.type);
     
+    if (action.type === ActionType.BACKUP || action.type === ActionType.PUSH) {
+      setStorageTarget((action as BackupAction | PushAction).target || 'github');
+      setRepoOwner((action as BackupAction | PushAction).options.owner || '');
+    }
+
     if (action.type === ActionType.BACKUP) {
       const backupAction = action as BackupAction;
       setCommitMessage(backupAction.options.commitMessage || '');
       setIncludeMetadata(!!backupAction.options.includeMetadata);
+      setIncludeSettings(!!backupAction.options.includeSettings);
       setBackupOperation(backupAction.operation || 'backup');
       setBackupFilePath(backupAction.options.backupFilePath ? String(backupAction.options.backupFilePath) : '');
+      setRestoreStrategy(backupAction.options.restoreStrategy || 'replace');
+      setRemoveAbsent(!!backupAction.options.removeAbsent);
     } else if (action.type === ActionType.PUSH) {
       const pushAction = action as PushAction;
       setPushRepoName(pushAction.options.repoName || 'menav');
@@ -225,6 +267,29 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
     onChange(newAction, true);
   };
   
+  // 处理存储位置更改
+  const handleStorageTargetChange = (event: any) => {
+    const value = event.target.value as StorageProviderType;
+    setStorageTarget(value);
+
+    if (action.type === ActionType.BACKUP || action.type === ActionType.PUSH) {
+      onChange({ ...(action as BackupAction | PushAction), target: value }, true);
+    }
+  };
+
+  // 处理仓库所有者更改
+  const handleRepoOwnerChange = (owner: string) => {
+    setRepoOwner(owner);
+
+    if (action.type === ActionType.BACKUP) {
+      const backupAction = action as BackupAction;
+      onChange({ ...backupAction, options: { ...backupAction.options, owner: owner || undefined } }, true);
+    } else if (action.type === ActionType.PUSH) {
+      const pushAction = action as PushAction;
+      onChange({ ...pushAction, options: { ...pushAction.options, owner: owner || undefined } }, true);
+    }
+  };
+
   // 处理提交消息更改
   const handleCommitMessageChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const value = event.target.value;
@@ -261,6 +326,24 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
     }
   };
   
+  // 处理同时备份配置选项更改
+  const handleIncludeSettingsChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.checked;
+    setIncludeSettings(value);
+    
+    if (action.type === ActionType.BACKUP) {
+      const updatedAction: BackupAction = {
+        ...(action as BackupAction),
+        options: {
+          ...(action as BackupAction).options,
+          includeSettings: value
+        }
+      };
+      
+      onChange(updatedAction, true);
+    }
+  };
+  
   // 处理备份操作类型更改
   const handleBackupOperationChange = (event: any) => {
     const newOperation = event.target.value as 'backup' | 'restore';
@@ -299,6 +382,43 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
       onChange(updatedAction, true);
     }
   };
+
+  // 处理恢复策略更改
+  const handleRestoreStrategyChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value as 'replace' | 'merge';
+    setRestoreStrategy(value);
+
+    if (action.type === ActionType.BACKUP) {
+      const updatedAction: BackupAction = {
+        ...(action as BackupAction),
+        options: {
+          ...(action as BackupAction).options,
+          restoreStrategy: value,
+          removeAbsent: value === 'merge' ? removeAbsent : undefined
+        }
+      };
+
+      onChange(updatedAction, true);
+    }
+  };
+
+  // 处理合并恢复时是否删除多余书签的选项更改
+  const handleRemoveAbsentChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.checked;
+    setRemoveAbsent(value);
+
+    if (action.type === ActionType.BACKUP) {
+      const updatedAction: BackupAction = {
+        ...(action as BackupAction),
+        options: {
+          ...(action as BackupAction).options,
+          removeAbsent: value
+        }
+      };
+
+      onChange(updatedAction, true);
+    }
+  };
   
   // 处理推送仓库名称更改
   const handlePushRepoNameChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -501,6 +621,27 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
     return isValid;
   };
   
+  // 渲染存储位置选择
+  const renderStorageTargetSelect = (helperText: string) => (
+    <FormControl fullWidth size="small" margin="dense">
+      <InputLabel>存储位置</InputLabel>
+      <Select
+        value={storageTarget}
+        onChange={handleStorageTargetChange}
+        label="存储位置"
+      >
+        {STORAGE_PROVIDER_OPTIONS.map(option => (
+          <MenuItem key={option.type} value={option.type}>
+            {option.label}
+          </MenuItem>
+        ))}
+      </Select>
+      <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, ml: 1.5 }}>
+        {helperText}
+      </Typography>
+    </FormControl>
+  );
+
   // 渲染备份操作表单
   const renderBackupForm = () => {
     return (
@@ -541,6 +682,18 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
               />
             </RadioGroup>
           </FormControl>
+
+          {renderStorageTargetSelect(
+            STORAGE_PROVIDER_OPTIONS.find(option => option.type === storageTarget)?.description || ''
+          )}
+
+          {storageTarget === 'github' && (
+            <GitHubOwnerSelect
+              value={repoOwner}
+              onChange={handleRepoOwnerChange}
+              helperText="备份仓库的所有者，可选择有权限的组织；留空时使用设置中的备份位置"
+            />
+          )}
           
           <Divider sx={{ my: 1.5 }} />
           
@@ -555,7 +708,7 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
                   onChange={handleCommitMessageChange}
                   placeholder="例如: 每日备份"
                   margin="dense"
-                  helperText="提交到GitHub仓库时使用的提交信息"
+                  helperText="提交到仓库时使用的提交信息"
                 />
               </Grid>
               <Grid item xs={12}>
@@ -570,6 +723,18 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
                   label={<Typography variant="body2">包含元数据 (创建时间、访问频率等)</Typography>}
                 />
               </Grid>
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={
+                    <Checkbox 
+                      checked={includeSettings} 
+                      onChange={handleIncludeSettingsChange}
+                      size="small"
+                    />
+                  }
+                  label={<Typography variant="body2">同时备份配置 (书签与配置在同一次提交中写入)</Typography>}
+                />
+              </Grid>
             </Grid>
           ) : (
             <Grid container spacing={1.5}>
@@ -585,6 +750,41 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
                   helperText="如果留空，则使用最新的备份文件进行恢复"
                 />
               </Grid>
+              <Grid item xs={12}>
+                <Typography variant="body2" color="text.secondary">
+                  恢复方式:
+                </Typography>
+                <RadioGroup
+                  row
+                  name="restore-strategy"
+                  value={restoreStrategy}
+                  onChange={handleRestoreStrategyChange}
+                >
+                  <FormControlLabel
+                    value="replace"
+                    control={<Radio size="small" />}
+                    label={<Typography variant="body2">覆盖（清空后重建）</Typography>}
+                    sx={{ mr: 3 }}
+                  />
+                  <FormControlLabel
+                    value="merge"
+                    control={<Radio size="small" />}
+                    label={<Typography variant="body2">合并（只补齐缺失）</Typography>}
+                  />
+                </RadioGroup>
+                {restoreStrategy === 'merge' && (
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={removeAbsent}
+                        onChange={handleRemoveAbsentChange}
+                        size="small"
+                      />
+                    }
+                    label={<Typography variant="body2">删除备份中不存在的书签</Typography>}
+                  />
+                )}
+              </Grid>
             </Grid>
           )}
         </Box>
@@ -879,6 +1079,8 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
               作用：方便 <a href="https://github.com/rbetree/menav" target="_blank" rel="noopener noreferrer" style={{color: 'inherit', textDecoration: 'underline'}}>menav-个人导航站</a> 项目的“书签导入”功能
             </Typography>
           </Box>
+
+          {renderStorageTargetSelect('推送书签文件的目标存储位置')}
           
           <TextField
             fullWidth
@@ -888,11 +1090,19 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
             variant="outlined"
             value={pushRepoName}
             onChange={handlePushRepoNameChange}
-            helperText="推送的目标GitHub仓库名称，默认为menav"
+            helperText="推送的目标仓库名称（WebDAV 与本地下载为文件夹名称），默认为menav"
             InputLabelProps={{ 
               shrink: true,
             }}
           />
+
+          {storageTarget === 'github' && (
+            <GitHubOwnerSelect
+              value={repoOwner}
+              onChange={handleRepoOwnerChange}
+              helperText="目标仓库的所有者，可选择有权限的组织；留空时使用当前账号"
+            />
+          )}
           
           <TextField
             fullWidth
@@ -916,7 +1126,7 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
             variant="outlined"
             value={pushCommitMessage}
             onChange={handlePushCommitMessageChange}
-            helperText="GitHub提交消息，描述此次推送"
+            helperText="提交消息，描述此次推送"
             InputLabelProps={{ 
               shrink: true,
             }}
@@ -963,6 +1173,28 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
     }
   };
 
+  // 整理与恢复操作可以按当前配置试运行，预览计划的变更
+  const renderPreviewButton = () => {
+    if (!isDryRunAction(action)) return null;
+
+    return (
+      <Box sx={{ mt: 2 }}>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<PreviewIcon />}
+          onClick={() => setPreviewTask({ ...createDefaultTask(), name: '当前操作', action })}
+        >
+          预览
+        </Button>
+        <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+          按当前配置试运行，列出计划的变更，不修改书签
+        </Typography>
+        <TaskPreviewDialog open={!!previewTask} task={previewTask} onClose={() => setPreviewTask(null)} />
+      </Box>
+    );
+  };
+
   // 操作类型选项定义
   const actionTypeOptions = [
     { 
@@ -996,6 +1228,7 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
     return (
       <Box>
         {renderActionForm()}
+        {renderPreviewButton()}
       </Box>
     );
   }
@@ -1110,6 +1343,7 @@ const TaskActionForm: React.FC<TaskActionFormProps> = ({
         }}
       >
         {renderActionForm()}
+        {renderPreviewButton()}
       </Paper>
     </Box>
   );
@@ -12,6 +12,7 @@ import Divider from '@mui/material/Divider';
 import TaskBasicForm from './TaskBasicForm';
 import TaskTriggerForm from './TaskTriggerForm';
 import TaskActionForm from './TaskActionForm';
+import TaskStepsEditor from './TaskStepsEditor';
 import { Task, createDefaultTask } from '../../../../types/task';
 import taskService from '../../../../services/task-service';
 
@@ -49,6 +50,7 @@ const TaskDialog: React.FC<TaskDialogProps> = ({
   const [basicValid, setBasicValid] = useState(false);
   const [triggerValid, setTriggerValid] = useState(false);
   const [actionValid, setActionValid] = useState(false);
+  const [stepsValid, setStepsValid] = useState(true);
   
   // 是否为编辑模式
   const isEditMode = !!task;
@@ -61,12 +63,14 @@ const TaskDialog: React.FC<TaskDialogProps> = ({
       setBasicValid(!!task.name.trim()); // 简单示例
       setTriggerValid(true); // 假设 trigger 总是有效
       setActionValid(true); // 假设 action 总是有效
+      setStepsValid(true);
     } else {
       const defaultTask = createDefaultTask();
       setFormData(defaultTask);
       setBasicValid(!!defaultTask.name.trim());
       setTriggerValid(true);
       setActionValid(true);
+      setStepsValid(true);
     }
   }, [task]);
   
@@ -80,6 +84,7 @@ const TaskDialog: React.FC<TaskDialogProps> = ({
         setBasicValid(!!defaultTask.name.trim());
         setTriggerValid(true);
         setActionValid(true);
+        setStepsValid(true);
       }
     }
   }, [open, isEditMode]);
@@ -102,8 +107,14 @@ const TaskDialog: React.FC<TaskDialogProps> = ({
     setActionValid(isValid);
   };
   
+  // 处理后续步骤更新
+  const handleStepsChange = (changes: Pick<Task, 'continueOnFailure' | 'steps'>, isValid: boolean) => {
+    setFormData(prev => ({ ...prev, ...changes }));
+    setStepsValid(isValid);
+  };
+  
   // 判断整个表单是否有效
-  const isFormValid = basicValid && triggerValid && actionValid;
+  const isFormValid = basicValid && triggerValid && actionValid && stepsValid;
   
   // 处理保存任务
   const handleSave = async () => {
@@ -193,6 +204,7 @@ const TaskDialog: React.FC<TaskDialogProps> = ({
               trigger={formData.trigger}
               onChange={handleTriggerChange}
               currentAction={formData.action}
+              taskId={formData.id}
             />
           </Grid>
           
@@ -202,6 +214,14 @@ const TaskDialog: React.FC<TaskDialogProps> = ({
               onChange={handleActionChange}
             />
           </Grid>
+
+          <Grid item xs={12}>
+            <TaskStepsEditor
+              continueOnFailure={formData.continueOnFailure}
+              steps={formData.steps}
+              onChange={handleStepsChange}
+            />
+          </Grid>
         </Grid>
       </DialogContent>
       
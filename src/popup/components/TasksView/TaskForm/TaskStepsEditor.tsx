@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Checkbox from '@mui/material/Checkbox';
+import IconButton from '@mui/material/IconButton';
+import Typography from '@mui/material/Typography';
+import DeleteIcon from '@mui/icons-material/Delete';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import TaskActionForm from './TaskActionForm';
+import {
+  Action,
+  ActionType,
+  Task,
+  TaskStep,
+  createBackupAction,
+  createOrganizeAction,
+  createPushAction,
+  createTaskStep,
+  isFollowUpStepAction
+} from '../../../../types/task';
+
+// 后续步骤可选的操作类型
+const STEP_ACTION_OPTIONS: Array<{ value: ActionType; label: string }> = [
+  { value: ActionType.BACKUP, label: '备份书签' },
+  { value: ActionType.ORGANIZE, label: '整理书签' },
+  { value: ActionType.PUSH, label: '推送书签' },
+];
+
+const createStepAction = (type: ActionType): Action => {
+  switch (type) {
+    case ActionType.PUSH:
+      return createPushAction();
+    case ActionType.ORGANIZE:
+      return createOrganizeAction();
+    case ActionType.BACKUP:
+    default:
+      return createBackupAction('backup');
+  }
+};
+
+interface TaskStepsEditorProps {
+  continueOnFailure?: boolean;
+  steps?: TaskStep[];
+  onChange: (changes: Pick<Task, 'continueOnFailure' | 'steps'>, isValid: boolean) => void;
+}
+
+/**
+ * 多步骤任务的后续步骤编辑器
+ * 后续步骤在任务的操作完成后按顺序执行，每一步可设置失败后是否继续
+ */
+const TaskStepsEditor: React.FC<TaskStepsEditorProps> = ({ continueOnFailure, steps = [], onChange }) => {
+  // 配置无效的步骤ID（由各步骤的操作表单上报）
+  const [invalidStepIds, setInvalidStepIds] = useState<Set<string>>(new Set());
+
+  const emit = (nextSteps: TaskStep[], nextContinueOnFailure: boolean | undefined, invalid: Set<string>) => {
+    const isValid = nextSteps.every(step => !invalid.has(step.id) && isFollowUpStepAction(step.action));
+    onChange({
+      continueOnFailure: nextSteps.length > 0 ? nextContinueOnFailure : undefined,
+      steps: nextSteps.length > 0 ? nextSteps : undefined
+    }, isValid);
+  };
+
+  const updateSteps = (nextSteps: TaskStep[]) => {
+    emit(nextSteps, continueOnFailure, invalidStepIds);
+  };
+
+  const handleStepActionChange = (stepId: string, action: Action, isValid: boolean) => {
+    const invalid = new Set(invalidStepIds);
+    if (isValid) {
+      invalid.delete(stepId);
+    } else {
+      invalid.add(stepId);
+    }
+    setInvalidStepIds(invalid);
+    emit(steps.map(step => step.id === stepId ? { ...step, action } : step), continueOnFailure, invalid);
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const nextSteps = [...steps];
+    const [step] = nextSteps.splice(index, 1);
+    nextSteps.splice(index + offset, 0, step);
+    updateSteps(nextSteps);
+  };
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="body2" color="text.secondary" sx={{ fontSize: '12px' }}>
+          {steps.length > 0 ? `任务操作完成后依次执行以下 ${steps.length} 个步骤` : '可添加在任务操作之后依次执行的步骤'}
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<PlaylistAddIcon fontSize="small" />}
+          onClick={() => updateSteps([...steps, createTaskStep()])}
+        >
+          添加步骤
+        </Button>
+      </Box>
+
+      {steps.length > 0 && (
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={!!continueOnFailure}
+              onChange={(e) => emit(steps, e.target.checked || undefined, invalidStepIds)}
+            />
+          }
+          label={<Typography variant="body2">第 1 步（任务操作）失败后继续执行后续步骤</Typography>}
+        />
+      )}
+
+      {steps.map((step, index) => (
+        <Box key={step.id} sx={{ mt: 1, p: 1, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" fontWeight="medium" sx={{ whiteSpace: 'nowrap' }}>
+              第 {index + 2} 步
+            </Typography>
+            <Select
+              size="small"
+              value={step.action.type}
+              onChange={(e) => updateSteps(steps.map(item => item.id === step.id
+                ? { ...item, action: createStepAction(e.target.value as ActionType) }
+                : item))}
+              sx={{ flex: 1 }}
+            >
+              {STEP_ACTION_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value} dense>{option.label}</MenuItem>
+              ))}
+            </Select>
+            <IconButton size="small" disabled={index === 0} onClick={() => moveStep(index, -1)} title="上移">
+              <ArrowUpwardIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)} title="下移">
+              <ArrowDownwardIcon fontSize="small" />
+            </IconButton>
+            <IconButton size="small" onClick={() => updateSteps(steps.filter(item => item.id !== step.id))} title="删除步骤">
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={!!step.continueOnFailure}
+                onChange={(e) => updateSteps(steps.map(item => item.id === step.id
+                  ? { ...item, continueOnFailure: e.target.checked || undefined }
+                  : item))}
+              />
+            }
+            label={<Typography variant="body2">本步骤失败后继续执行后续步骤</Typography>}
+          />
+
+          <TaskActionForm
+            action={step.action}
+            onChange={(action, isValid) => handleStepActionChange(step.id, action, isValid)}
+            showOnlyDetails={true}
+          />
+
+          {!isFollowUpStepAction(step.action) && (
+            <Typography variant="body2" color="error" sx={{ fontSize: '12px' }}>
+              恢复书签只能作为任务的第一步，请改为备份或删除此步骤
+            </Typography>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default TaskStepsEditor;
@@ -5,18 +5,43 @@ import Select, { SelectChangeEvent } from '@mui/material/Select';
 import InputLabel from '@mui/material/InputLabel';
 import MenuItem from '@mui/material/MenuItem';
 import TextField from '@mui/material/TextField';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Checkbox from '@mui/material/Checkbox';
+import Chip from '@mui/material/Chip';
+import Typography from '@mui/material/Typography';
 import {
   Trigger,
   TriggerType,
   EventTrigger,
   EventType,
   ManualTrigger,
+  ScheduleTrigger,
+  ScheduleType,
+  Task,
+  TaskCompletedTrigger,
+  TaskCompletionCondition,
   ActionType,
   Action,
   BackupAction,
+  TriggerCondition,
+  createConditionGroup,
+  createConditionRule,
   createEventTrigger,
-  createManualTrigger
+  createManualTrigger,
+  createScheduleTrigger,
+  createTaskCompletedTrigger
 } from '../../../../types/task';
+import {
+  MIN_SCHEDULE_INTERVAL_MINUTES,
+  WEEKDAY_LABELS,
+  computeNextRunTime,
+  validateScheduleTrigger
+} from '../../../../utils/schedule-utils';
+import { formatTimestamp } from '../../../../utils/date-utils';
+import { getEffectiveCondition, validateTriggerCondition } from '../../../../utils/trigger-conditions';
+import { TASK_COMPLETION_OPTIONS, findDependencyCycle } from '../../../../utils/task-dependencies';
+import taskService, { isSystemTaskId } from '../../../../services/task-service';
+import TriggerConditionEditor from './TriggerConditionEditor';
 
 // 定义统一的触发方式类型
 type TriggerOption = {
@@ -34,19 +59,30 @@ const TRIGGER_OPTIONS: TriggerOption[] = [
   { value: 'event_bookmark_changed', label: '书签变更时', eventType: EventType.BOOKMARK_CHANGED },
 ];
 
+// 定时计划类型选项
+const SCHEDULE_OPTIONS: Array<{ value: ScheduleType; label: string }> = [
+  { value: ScheduleType.INTERVAL, label: '固定间隔' },
+  { value: ScheduleType.DAILY, label: '每天' },
+  { value: ScheduleType.WEEKLY, label: '每周' },
+  { value: ScheduleType.CRON, label: 'cron 表达式' },
+];
+
 interface TaskTriggerFormProps {
   trigger: Trigger;
   onChange: (updatedTrigger: Trigger, isValid: boolean) => void;
   currentAction?: Action;
+  taskId?: string; // 当前任务ID，用于在选择上游任务时排除自身并检查依赖循环
 }
 
 /**
  * 任务触发器配置表单组件
  * 用于选择任务的触发条件
  */
-const TaskTriggerForm: React.FC<TaskTriggerFormProps> = ({ trigger, onChange, currentAction }) => {
+const TaskTriggerForm: React.FC<TaskTriggerFormProps> = ({ trigger, onChange, currentAction, taskId }) => {
   // 触发器选项值
   const [triggerOptionValue, setTriggerOptionValue] = useState<string>('');
+  // 可作为上游任务的任务（选择“其他任务完成后”时加载）
+  const [upstreamCandidates, setUpstreamCandidates] = useState<Task[]>([]);
   
   const shouldForceManualTrigger =
     currentAction?.type === ActionType.SELECTIVE_PUSH ||
@@ -69,6 +105,10 @@ const TaskTriggerForm: React.FC<TaskTriggerFormProps> = ({ trigger, onChange, cu
   useEffect(() => {
     if (trigger.type === TriggerType.MANUAL) {
       setTriggerOptionValue('manual');
+    } else if (trigger.type === TriggerType.SCHEDULE) {
+      setTriggerOptionValue('schedule');
+    } else if (trigger.type === TriggerType.TASK_COMPLETED) {
+      setTriggerOptionValue('task_completed');
     } else if (trigger.type === TriggerType.EVENT) {
       const eventTrigger = trigger as EventTrigger;
       const eventType = eventTrigger.event;
@@ -81,6 +121,24 @@ const TaskTriggerForm: React.FC<TaskTriggerFormProps> = ({ trigger, onChange, cu
       }
     }
   }, [trigger]);
+
+  // 加载可选的上游任务
+  useEffect(() => {
+    if (trigger.type !== TriggerType.TASK_COMPLETED) return;
+
+    let cancelled = false;
+    const loadTasks = async () => {
+      const result = await taskService.getTasksByStatus();
+      if (result.success && !cancelled) {
+        setUpstreamCandidates((result.data as Task[]).filter(task => !isSystemTaskId(task.id)));
+      }
+    };
+
+    loadTasks();
+    return () => {
+      cancelled = true;
+    };
+  }, [trigger.type]);
   
   // 处理触发选项更改
   const handleTriggerOptionChange = (event: SelectChangeEvent<string>) => {
@@ -91,6 +149,11 @@ const TaskTriggerForm: React.FC<TaskTriggerFormProps> = ({ trigger, onChange, cu
       // 创建手动触发器
       const newTrigger = createManualTrigger('手动执行任务');
       onChange(newTrigger, true);
+    } else if (newValue === 'schedule') {
+      const newTrigger = createScheduleTrigger();
+      onChange(newTrigger, validateScheduleTrigger(newTrigger) === null);
+    } else if (newValue === 'task_completed') {
+      onChange(createTaskCompletedTrigger(), false);
     } else {
       const selectedOption = TRIGGER_OPTIONS.find(opt => opt.value === newValue);
       if (selectedOption) {
@@ -105,6 +168,254 @@ const TaskTriggerForm: React.FC<TaskTriggerFormProps> = ({ trigger, onChange, cu
     const newTrigger = createEventTrigger(eventType, undefined);
     onChange(newTrigger, true); // 事件触发器始终有效
   };
+
+  // 更新事件触发器的静默期
+  const handleDebounceChange = (value: string) => {
+    const minutes = value === '' ? 0 : Math.max(0, Math.min(1440, Math.floor(Number(value)) || 0));
+    const newTrigger: EventTrigger = { ...(trigger as EventTrigger), debounceMinutes: minutes };
+    onChange(newTrigger, isEventTriggerValid(newTrigger));
+  };
+
+  // 事件触发器的条件表达式必须有效
+  const isEventTriggerValid = (eventTrigger: EventTrigger): boolean => {
+    const condition = getEffectiveCondition(eventTrigger);
+    return !condition || validateTriggerCondition(condition) === null;
+  };
+
+  // 更新事件触发器的条件表达式，旧版 conditions 一并转换为条件表达式
+  const updateEventCondition = (condition?: TriggerCondition) => {
+    const newTrigger: EventTrigger = { ...(trigger as EventTrigger), condition, conditions: undefined };
+    onChange(newTrigger, isEventTriggerValid(newTrigger));
+  };
+
+  // 渲染书签变更事件的条件配置
+  const renderEventConditionFields = () => {
+    if (trigger.type !== TriggerType.EVENT || (trigger as EventTrigger).event !== EventType.BOOKMARK_CHANGED) {
+      return null;
+    }
+
+    const condition = getEffectiveCondition(trigger as EventTrigger);
+
+    return (
+      <Box sx={{ mt: 0.5 }}>
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={!!condition}
+              onChange={(e) => updateEventCondition(e.target.checked
+                ? { ...createConditionGroup('and'), children: [createConditionRule()] }
+                : undefined)}
+            />
+          }
+          label={<Typography variant="body2">仅在书签变更满足条件时执行</Typography>}
+        />
+        {condition && (
+          <TriggerConditionEditor condition={condition} onChange={updateEventCondition} />
+        )}
+      </Box>
+    );
+  };
+
+  // 检查任务完成触发器：必须选择上游任务，且依赖不能形成循环
+  const validateTaskCompletedTrigger = (completedTrigger: TaskCompletedTrigger): string | null => {
+    if (!completedTrigger.upstreamTaskId) {
+      return '请选择上游任务';
+    }
+
+    const tasks = Object.fromEntries(upstreamCandidates.map(task => [task.id, task]));
+    const currentTask = tasks[taskId || ''];
+    const cycle = findDependencyCycle(tasks, {
+      ...(currentTask || { name: '当前任务' }),
+      id: taskId || '',
+      trigger: completedTrigger
+    } as Task);
+    return cycle ? `任务依赖形成循环: ${cycle.map(task => task.name).join(' → ')}` : null;
+  };
+
+  // 更新任务完成触发器
+  const updateTaskCompletedTrigger = (changes: Partial<TaskCompletedTrigger>) => {
+    const newTrigger: TaskCompletedTrigger = { ...(trigger as TaskCompletedTrigger), ...changes };
+    onChange(newTrigger, validateTaskCompletedTrigger(newTrigger) === null);
+  };
+
+  // 渲染任务完成触发器配置
+  const renderTaskCompletedFields = () => {
+    if (trigger.type !== TriggerType.TASK_COMPLETED) return null;
+
+    const completedTrigger = trigger as TaskCompletedTrigger;
+    const validationError = validateTaskCompletedTrigger(completedTrigger);
+    const candidates = upstreamCandidates.filter(task => task.id !== taskId);
+
+    return (
+      <Box sx={{ mt: 0.5 }}>
+        <FormControl fullWidth size="small" margin="dense" error={!!validationError}>
+          <InputLabel id="upstream-task-label">上游任务</InputLabel>
+          <Select
+            labelId="upstream-task-label"
+            id="upstream-task"
+            value={candidates.some(task => task.id === completedTrigger.upstreamTaskId) ? completedTrigger.upstreamTaskId : ''}
+            label="上游任务"
+            onChange={(e) => updateTaskCompletedTrigger({ upstreamTaskId: e.target.value })}
+            MenuProps={{ PaperProps: { style: { maxHeight: 224 } } }}
+          >
+            {candidates.map(task => (
+              <MenuItem key={task.id} value={task.id} dense>
+                {task.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl fullWidth size="small" margin="dense">
+          <InputLabel id="upstream-result-label">触发时机</InputLabel>
+          <Select
+            labelId="upstream-result-label"
+            id="upstream-result"
+            value={completedTrigger.on}
+            label="触发时机"
+            onChange={(e) => updateTaskCompletedTrigger({ on: e.target.value as TaskCompletionCondition })}
+          >
+            {TASK_COMPLETION_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value} dense>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {validationError && (
+          <Typography variant="body2" color="error" sx={{ fontSize: '12px' }}>
+            {validationError}
+          </Typography>
+        )}
+      </Box>
+    );
+  };
+
+  // 更新定时触发器：计划变化后清空 nextRunAt，由后台按新计划重新计算
+  const updateScheduleTrigger = (changes: Partial<ScheduleTrigger>) => {
+    const newTrigger: ScheduleTrigger = {
+      ...(trigger as ScheduleTrigger),
+      ...changes,
+      nextRunAt: undefined
+    };
+    onChange(newTrigger, validateScheduleTrigger(newTrigger) === null);
+  };
+
+  // 切换每周执行的日期
+  const toggleWeekday = (day: number) => {
+    const current = (trigger as ScheduleTrigger).daysOfWeek || [];
+    const daysOfWeek = current.includes(day)
+      ? current.filter(d => d !== day)
+      : [...current, day].sort((a, b) => a - b);
+    updateScheduleTrigger({ daysOfWeek });
+  };
+
+  // 渲染定时计划配置
+  const renderScheduleFields = () => {
+    if (trigger.type !== TriggerType.SCHEDULE) return null;
+
+    const scheduleTrigger = trigger as ScheduleTrigger;
+    const validationError = validateScheduleTrigger(scheduleTrigger);
+    const nextRunAt = validationError ? null : computeNextRunTime(scheduleTrigger);
+
+    return (
+      <Box sx={{ mt: 0.5 }}>
+        <FormControl fullWidth size="small" margin="dense">
+          <InputLabel id="schedule-type-label">执行计划</InputLabel>
+          <Select
+            labelId="schedule-type-label"
+            id="schedule-type"
+            value={scheduleTrigger.schedule}
+            label="执行计划"
+            onChange={(e) => updateScheduleTrigger({ schedule: e.target.value as ScheduleType })}
+          >
+            {SCHEDULE_OPTIONS.map((option) => (
+              <MenuItem key={option.value} value={option.value} dense>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {scheduleTrigger.schedule === ScheduleType.INTERVAL && (
+          <TextField
+            label="间隔（分钟）"
+            type="number"
+            value={scheduleTrigger.intervalMinutes ?? ''}
+            onChange={(e) => updateScheduleTrigger({
+              intervalMinutes: e.target.value === '' ? undefined : Number(e.target.value)
+            })}
+            inputProps={{ min: MIN_SCHEDULE_INTERVAL_MINUTES, step: 1 }}
+            fullWidth
+            size="small"
+            margin="dense"
+          />
+        )}
+
+        {(scheduleTrigger.schedule === ScheduleType.DAILY ||
+          scheduleTrigger.schedule === ScheduleType.WEEKLY) && (
+          <TextField
+            label="执行时间"
+            type="time"
+            value={scheduleTrigger.time || ''}
+            onChange={(e) => updateScheduleTrigger({ time: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+            size="small"
+            margin="dense"
+          />
+        )}
+
+        {scheduleTrigger.schedule === ScheduleType.WEEKLY && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+            {WEEKDAY_LABELS.map((label, day) => (
+              <Chip
+                key={label}
+                label={label}
+                size="small"
+                color={scheduleTrigger.daysOfWeek?.includes(day) ? 'primary' : 'default'}
+                variant={scheduleTrigger.daysOfWeek?.includes(day) ? 'filled' : 'outlined'}
+                onClick={() => toggleWeekday(day)}
+              />
+            ))}
+          </Box>
+        )}
+
+        {scheduleTrigger.schedule === ScheduleType.CRON && (
+          <TextField
+            label="cron 表达式"
+            value={scheduleTrigger.cronExpression || ''}
+            onChange={(e) => updateScheduleTrigger({ cronExpression: e.target.value })}
+            fullWidth
+            size="small"
+            margin="dense"
+            helperText="格式：分 时 日 月 周，例如 0 2 * * 0 表示每周日 02:00"
+          />
+        )}
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              size="small"
+              checked={scheduleTrigger.catchUpMissed !== false}
+              onChange={(e) => updateScheduleTrigger({ catchUpMissed: e.target.checked })}
+            />
+          }
+          label={<Typography variant="body2">浏览器关闭期间错过的执行在下次启动时补跑</Typography>}
+        />
+
+        <Typography
+          variant="body2"
+          color={validationError ? 'error' : 'text.secondary'}
+          sx={{ fontSize: '12px' }}
+        >
+          {validationError || `下次执行: ${nextRunAt ? formatTimestamp(nextRunAt) : '无可用时间'}`}
+        </Typography>
+      </Box>
+    );
+  };
   
   return (
     <Box sx={{ width: '100%' }}>
@@ -128,6 +439,12 @@ const TaskTriggerForm: React.FC<TaskTriggerFormProps> = ({ trigger, onChange, cu
           <MenuItem value="manual" dense>
             手动触发
           </MenuItem>
+          <MenuItem value="schedule" dense>
+            定时执行
+          </MenuItem>
+          <MenuItem value="task_completed" dense>
+            其他任务完成后
+          </MenuItem>
           {TRIGGER_OPTIONS.map((option) => (
             <MenuItem
               key={option.value}
@@ -156,6 +473,28 @@ const TaskTriggerForm: React.FC<TaskTriggerFormProps> = ({ trigger, onChange, cu
           helperText="描述此手动任务的用途"
         />
       )}
+
+      {trigger.type === TriggerType.EVENT && (
+        <TextField
+          label="静默期（分钟）"
+          type="number"
+          value={(trigger as EventTrigger).debounceMinutes ?? 0}
+          onChange={(e) => handleDebounceChange(e.target.value)}
+          inputProps={{ min: 0, max: 1440, step: 1 }}
+          fullWidth
+          size="small"
+          margin="dense"
+          helperText={(trigger as EventTrigger).debounceMinutes
+            ? `最后一次事件发生 ${(trigger as EventTrigger).debounceMinutes} 分钟后合并执行一次`
+            : '0 表示每个事件发生后立即执行'}
+        />
+      )}
+
+      {renderEventConditionFields()}
+
+      {renderTaskCompletedFields()}
+
+      {renderScheduleFields()}
     </Box>
   );
 };
@@ -0,0 +1,349 @@
+import React, { useState, useEffect } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import FormControl from '@mui/material/FormControl';
+import Select from '@mui/material/Select';
+import InputLabel from '@mui/material/InputLabel';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Checkbox from '@mui/material/Checkbox';
+import IconButton from '@mui/material/IconButton';
+import Chip from '@mui/material/Chip';
+import Typography from '@mui/material/Typography';
+import DeleteIcon from '@mui/icons-material/Delete';
+import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
+import {
+  BookmarkChangeKind,
+  TriggerCondition,
+  TriggerConditionField,
+  TriggerConditionGroup,
+  TriggerConditionOperator,
+  TriggerConditionRule,
+  createConditionGroup,
+  createConditionRule
+} from '../../../../types/task';
+import {
+  CHANGE_KIND_OPTIONS,
+  CONDITION_FIELD_OPTIONS,
+  buildTriggerEventContext,
+  conditionUsesAncestors,
+  evaluateTriggerCondition,
+  getConditionOperators,
+  validateTriggerCondition
+} from '../../../../utils/trigger-conditions';
+import bookmarkService from '../../../../utils/bookmark-service';
+
+// 文件夹选项
+interface FolderOption {
+  id: string;
+  title: string;
+  fullPath: string;
+}
+
+// 条件组最多嵌套的层数
+const MAX_GROUP_DEPTH = 3;
+
+interface ConditionNodeProps {
+  condition: TriggerCondition;
+  folders: FolderOption[];
+  depth: number;
+  onChange: (condition: TriggerCondition) => void;
+  onRemove?: () => void;
+}
+
+/**
+ * 单条规则或条件组（递归渲染子条件）
+ */
+const ConditionNode: React.FC<ConditionNodeProps> = ({ condition, folders, depth, onChange, onRemove }) => {
+  const negateControl = (
+    <FormControlLabel
+      sx={{ mr: 0 }}
+      control={
+        <Checkbox
+          size="small"
+          checked={!!condition.negate}
+          onChange={(e) => onChange({ ...condition, negate: e.target.checked || undefined })}
+        />
+      }
+      label={<Typography variant="body2">取反</Typography>}
+    />
+  );
+
+  const removeButton = onRemove && (
+    <IconButton size="small" onClick={onRemove} title="删除">
+      <DeleteIcon fontSize="small" />
+    </IconButton>
+  );
+
+  if (condition.kind === 'group') {
+    const group = condition as TriggerConditionGroup;
+    const updateChild = (index: number, child: TriggerCondition) => {
+      onChange({ ...group, children: group.children.map((item, i) => i === index ? child : item) });
+    };
+    const removeChild = (index: number) => {
+      onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+    };
+
+    return (
+      <Box sx={{ borderLeft: 2, borderColor: 'divider', pl: 1, my: 0.5 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Select
+            size="small"
+            value={group.logic}
+            onChange={(e) => onChange({ ...group, logic: e.target.value as 'and' | 'or' })}
+            sx={{ fontSize: '13px' }}
+          >
+            <MenuItem value="and" dense>全部满足（AND）</MenuItem>
+            <MenuItem value="or" dense>任一满足（OR）</MenuItem>
+          </Select>
+          {negateControl}
+          {removeButton}
+        </Box>
+
+        {group.children.map((child, index) => (
+          <ConditionNode
+            key={index}
+            condition={child}
+            folders={folders}
+            depth={depth + 1}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+          />
+        ))}
+
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            size="small"
+            startIcon={<AddCircleOutlineIcon fontSize="small" />}
+            onClick={() => onChange({ ...group, children: [...group.children, createConditionRule()] })}
+          >
+            添加规则
+          </Button>
+          {depth < MAX_GROUP_DEPTH - 1 && (
+            <Button
+              size="small"
+              startIcon={<AddCircleOutlineIcon fontSize="small" />}
+              onClick={() => onChange({
+                ...group,
+                children: [...group.children, { ...createConditionGroup('or'), children: [createConditionRule()] }]
+              })}
+            >
+              添加条件组
+            </Button>
+          )}
+        </Box>
+      </Box>
+    );
+  }
+
+  const rule = condition as TriggerConditionRule;
+  const operators = getConditionOperators(rule.field);
+
+  // 切换字段时重置匹配方式与匹配值
+  const handleFieldChange = (field: TriggerConditionField) => {
+    onChange({ ...createConditionRule(field), negate: rule.negate });
+  };
+
+  const renderValueInput = () => {
+    if (rule.field === 'changeKind') {
+      return (
+        <Select
+          size="small"
+          fullWidth
+          value={rule.value}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+        >
+          {CHANGE_KIND_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value} dense>{option.label}</MenuItem>
+          ))}
+        </Select>
+      );
+    }
+
+    if (rule.field === 'folder') {
+      return (
+        <Select
+          size="small"
+          fullWidth
+          displayEmpty
+          value={folders.some(folder => folder.id === rule.value) ? rule.value : ''}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+          MenuProps={{ PaperProps: { style: { maxHeight: 224 } } }}
+        >
+          <MenuItem value="" dense disabled>选择文件夹</MenuItem>
+          {folders.map(folder => (
+            <MenuItem key={folder.id} value={folder.id} dense>{folder.fullPath}</MenuItem>
+          ))}
+        </Select>
+      );
+    }
+
+    return (
+      <TextField
+        size="small"
+        fullWidth
+        value={rule.value}
+        onChange={(e) => onChange({ ...rule, value: e.target.value })}
+        placeholder={rule.operator === 'glob' ? '例如 *://*.github.com/*' : rule.operator === 'regex' ? '例如 ^https://docs\\.' : ''}
+      />
+    );
+  };
+
+  return (
+    <Box sx={{ py: 0.5 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Select
+          size="small"
+          value={rule.field}
+          onChange={(e) => handleFieldChange(e.target.value as TriggerConditionField)}
+          sx={{ minWidth: 90 }}
+        >
+          {CONDITION_FIELD_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value} dense>{option.label}</MenuItem>
+          ))}
+        </Select>
+        <Select
+          size="small"
+          value={rule.operator}
+          onChange={(e) => onChange({ ...rule, operator: e.target.value as TriggerConditionOperator })}
+          sx={{ flex: 1 }}
+        >
+          {operators.map(option => (
+            <MenuItem key={option.value} value={option.value} dense>{option.label}</MenuItem>
+          ))}
+        </Select>
+        {negateControl}
+        {removeButton}
+      </Box>
+      <Box sx={{ mt: 0.5 }}>{renderValueInput()}</Box>
+    </Box>
+  );
+};
+
+interface TriggerConditionTesterProps {
+  condition: TriggerCondition;
+  folders: FolderOption[];
+}
+
+/**
+ * 条件测试器：输入一个假设的书签变更事件，实时显示是否满足条件
+ */
+const TriggerConditionTester: React.FC<TriggerConditionTesterProps> = ({ condition, folders }) => {
+  const [kind, setKind] = useState<BookmarkChangeKind>('created');
+  const [title, setTitle] = useState('');
+  const [url, setUrl] = useState('');
+  const [folderId, setFolderId] = useState('');
+  const [matched, setMatched] = useState<boolean | null>(null);
+
+  const validationError = validateTriggerCondition(condition);
+
+  useEffect(() => {
+    if (validationError) {
+      setMatched(null);
+      return;
+    }
+
+    let cancelled = false;
+    const evaluate = async () => {
+      const context = await buildTriggerEventContext(
+        { kind, title, url, parentIds: folderId ? [folderId] : [] },
+        conditionUsesAncestors(condition)
+      );
+      if (!cancelled) {
+        setMatched(evaluateTriggerCondition(condition, context));
+      }
+    };
+
+    evaluate();
+    return () => {
+      cancelled = true;
+    };
+  }, [condition, validationError, kind, title, url, folderId]);
+
+  return (
+    <Box sx={{ mt: 1, p: 1, bgcolor: 'action.hover', borderRadius: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="body2" fontWeight="medium">测试事件</Typography>
+        {validationError ? (
+          <Chip size="small" color="error" label={validationError} />
+        ) : matched !== null && (
+          <Chip size="small" color={matched ? 'success' : 'default'} label={matched ? '匹配，会触发任务' : '不匹配'} />
+        )}
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+        <FormControl size="small" sx={{ minWidth: 90 }}>
+          <InputLabel id="condition-test-kind-label">变更种类</InputLabel>
+          <Select
+            labelId="condition-test-kind-label"
+            label="变更种类"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as BookmarkChangeKind)}
+          >
+            {CHANGE_KIND_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value} dense>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField size="small" label="标题" value={title} onChange={(e) => setTitle(e.target.value)} fullWidth />
+      </Box>
+      <TextField size="small" label="URL" value={url} onChange={(e) => setUrl(e.target.value)} fullWidth margin="dense" />
+      <FormControl size="small" fullWidth margin="dense">
+        <InputLabel id="condition-test-folder-label">所在文件夹</InputLabel>
+        <Select
+          labelId="condition-test-folder-label"
+          label="所在文件夹"
+          value={folderId}
+          onChange={(e) => setFolderId(e.target.value)}
+          MenuProps={{ PaperProps: { style: { maxHeight: 224 } } }}
+        >
+          <MenuItem value="" dense>不指定</MenuItem>
+          {folders.map(folder => (
+            <MenuItem key={folder.id} value={folder.id} dense>{folder.fullPath}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Box>
+  );
+};
+
+interface TriggerConditionEditorProps {
+  condition: TriggerCondition;
+  onChange: (condition: TriggerCondition) => void;
+}
+
+/**
+ * 书签变更事件的条件编辑器
+ * 编辑由规则与 AND/OR/NOT 条件组构成的条件表达式，并提供实时测试
+ */
+const TriggerConditionEditor: React.FC<TriggerConditionEditorProps> = ({ condition, onChange }) => {
+  const [folders, setFolders] = useState<FolderOption[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadFolders = async () => {
+      try {
+        const result = await bookmarkService.getAllBookmarkFolders();
+        if (result.success && result.data && !cancelled) {
+          setFolders(result.data as FolderOption[]);
+        }
+      } catch (error) {
+        console.error('加载书签文件夹失败:', error);
+      }
+    };
+
+    loadFolders();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <Box>
+      <ConditionNode condition={condition} folders={folders} depth={0} onChange={onChange} />
+      <TriggerConditionTester condition={condition} folders={folders} />
+    </Box>
+  );
+};
+
+export default TriggerConditionEditor;
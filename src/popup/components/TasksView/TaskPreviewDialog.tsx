@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import Button from '@mui/material/Button';
+import Box from '@mui/material/Box';
+import Alert from '@mui/material/Alert';
+import Chip from '@mui/material/Chip';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import { Task, TaskExecutionResult } from '../../../types/task';
+import taskExecutor from '../../../services/task-executor';
+
+interface TaskPreviewDialogProps {
+  open: boolean;
+  task: Task | null; // 要试运行的任务，可以是尚未保存的表单数据
+  onClose: () => void;
+}
+
+// 计划变更类型的显示文字
+const OPERATION_LABELS: Record<string, string> = {
+  move: '移动',
+  delete: '删除',
+  rename: '重命名',
+  validate: '验证',
+  tag: '标签',
+  create: '新建',
+  remove: '删除'
+};
+
+// 默认显示的变更数量，其余的在展开后显示
+const VISIBLE_CHANGE_COUNT = 100;
+
+const cellStyles = { fontSize: '11px', py: 0.5, px: 1, wordBreak: 'break-all', verticalAlign: 'top' } as const;
+
+/**
+ * 任务试运行对话框
+ * 以试运行方式执行任务的整理与恢复步骤，列出每个书签计划的变化，不修改书签
+ */
+const TaskPreviewDialog: React.FC<TaskPreviewDialogProps> = ({ open, task, onClose }) => {
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<TaskExecutionResult | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    if (!open || !task) return;
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      setLoading(true);
+      setResult(null);
+      setShowAll(false);
+
+      const previewResult = await taskExecutor.previewTask(task);
+      if (cancelled) return;
+
+      setResult(previewResult);
+      setLoading(false);
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, task]);
+
+  const changes = result?.plannedChanges || [];
+  const visibleChanges = showAll ? changes : changes.slice(0, VISIBLE_CHANGE_COUNT);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" aria-labelledby="task-preview-dialog-title">
+      <DialogTitle id="task-preview-dialog-title">
+        预览{task?.name ? `：${task.name}` : ''}
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          试运行不会修改书签。多步骤任务的每一步都基于当前书签计算。
+        </Typography>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress />
+          </Box>
+        ) : result && (
+          <>
+            {!result.success && (
+              <Alert severity="warning" sx={{ mb: 1 }}>
+                无法生成预览：{result.error}
+              </Alert>
+            )}
+
+            {result.details && (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1, fontSize: '11px', wordBreak: 'break-all' }}>
+                {result.details}
+              </Typography>
+            )}
+
+            {changes.length === 0 ? (
+              result.success && (
+                <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                  执行后书签不会发生变化。
+                </Typography>
+              )
+            ) : (
+              <Box sx={{ maxHeight: 360, overflowY: 'auto' }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={cellStyles}>书签</TableCell>
+                      <TableCell sx={cellStyles}>当前</TableCell>
+                      <TableCell sx={cellStyles}>计划</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {visibleChanges.map((change, index) => (
+                      <TableRow key={`${change.id || change.title}_${index}`}>
+                        <TableCell sx={cellStyles}>
+                          <Chip
+                            label={OPERATION_LABELS[change.operation] || change.operation}
+                            size="small"
+                            variant="outlined"
+                            sx={{ height: 18, fontSize: '10px', mr: 0.5 }}
+                          />
+                          {change.title || change.url || '(无标题)'}
+                        </TableCell>
+                        <TableCell sx={cellStyles}>{change.current || '-'}</TableCell>
+                        <TableCell sx={cellStyles}>{change.planned}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {changes.length > VISIBLE_CHANGE_COUNT && (
+                  <Button size="small" onClick={() => setShowAll(!showAll)} sx={{ mt: 0.5 }}>
+                    {showAll ? '收起' : `显示全部 ${changes.length} 项`}
+                  </Button>
+                )}
+              </Box>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">
+          关闭
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TaskPreviewDialog;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import Link from '@mui/material/Link';
+import DownloadIcon from '@mui/icons-material/Download';
+import { TaskRunItemResult, TaskRunLog, TaskRunLogLevel } from '../../../types/task';
+import taskLogService from '../../../services/task-log-service';
+
+// 日志级别对应的文字颜色
+const LOG_LEVEL_COLORS: Record<TaskRunLogLevel, string> = {
+  info: 'text.primary',
+  warn: 'warning.main',
+  error: 'error.main'
+};
+
+// 书签处理结果的状态文本
+const ITEM_STATUS_LABELS: Record<TaskRunItemResult['status'], string> = {
+  success: '成功',
+  failed: '失败',
+  skipped: '跳过'
+};
+
+// 默认显示的书签结果数量，其余的在展开后显示
+const VISIBLE_ITEM_COUNT = 20;
+
+// 格式化字节数
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatTime = (time: number): string =>
+  new Date(time).toLocaleTimeString('zh-CN', { hour12: false });
+
+const sectionTitleStyles = { fontSize: '10px', fontWeight: 500, mt: 0.5, mb: 0.3 };
+const lineStyles = { fontSize: '9px', fontFamily: 'monospace', whiteSpace: 'pre-wrap', wordBreak: 'break-all' } as const;
+
+interface TaskRunLogViewProps {
+  taskId: string;
+  logId: string;
+}
+
+/**
+ * 单次执行的结构化日志
+ * 显示带时间戳的日志、写入的文件与提交以及各书签的处理结果，可导出为 JSON
+ */
+const TaskRunLogView: React.FC<TaskRunLogViewProps> = ({ taskId, logId }) => {
+  const [log, setLog] = useState<TaskRunLog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showAllItems, setShowAllItems] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadLog = async () => {
+      const result = await taskLogService.getRunLog(taskId, logId);
+      if (cancelled) return;
+      if (result.success) {
+        setLog(result.data as TaskRunLog);
+      } else {
+        setError(result.error || '加载执行日志失败');
+      }
+    };
+
+    loadLog();
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, logId]);
+
+  // 导出为 JSON 文件
+  const handleExport = () => {
+    if (!log) return;
+
+    const blob = new Blob([taskLogService.exportRunLog(log)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `marksvault-task-log-${log.taskId}-${new Date(log.startedAt).toISOString().replace(/[:.]/g, '-').slice(0, 19)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  if (error) {
+    return (
+      <Typography variant="body2" sx={{ fontSize: '9px', color: 'text.disabled', fontStyle: 'italic' }}>
+        {error}
+      </Typography>
+    );
+  }
+
+  if (!log) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 0.5 }}>
+        <CircularProgress size={12} />
+      </Box>
+    );
+  }
+
+  // 失败的书签排在前面
+  const items = [...log.items].sort((a, b) => Number(b.status === 'failed') - Number(a.status === 'failed'));
+  const visibleItems = showAllItems ? items : items.slice(0, VISIBLE_ITEM_COUNT);
+
+  return (
+    <Box sx={{ mt: 0.5, pt: 0.5, borderTop: 1, borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="body2" sx={sectionTitleStyles}>
+          运行日志
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<DownloadIcon sx={{ fontSize: '12px !important' }} />}
+          onClick={handleExport}
+          sx={{ fontSize: '9px', py: 0, minWidth: 0 }}
+        >
+          导出 JSON
+        </Button>
+      </Box>
+
+      {log.lines.map((line, index) => (
+        <Typography key={index} variant="body2" sx={{ ...lineStyles, color: LOG_LEVEL_COLORS[line.level] }}>
+          {formatTime(line.time)} {line.step !== undefined && `[第 ${line.step + 1} 步] `}{line.message}
+        </Typography>
+      ))}
+
+      {log.uploads.length > 0 && (
+        <>
+          <Typography variant="body2" sx={sectionTitleStyles}>
+            上传
+          </Typography>
+          {log.uploads.map((upload, index) => (
+            <Typography key={index} variant="body2" sx={lineStyles}>
+              {upload.provider}: {upload.filePath || '未知文件'}
+              {upload.bytes !== undefined && `（${formatBytes(upload.bytes)}）`}
+              {upload.commitSha && (
+                <>
+                  {' 提交 '}
+                  {upload.commitUrl ? (
+                    <Link href={upload.commitUrl} target="_blank" rel="noopener noreferrer">
+                      {upload.commitSha.slice(0, 7)}
+                    </Link>
+                  ) : upload.commitSha.slice(0, 7)}
+                </>
+              )}
+            </Typography>
+          ))}
+        </>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <Typography variant="body2" sx={sectionTitleStyles}>
+            书签处理结果（{items.filter(item => item.status === 'failed').length} 个失败 / 共 {items.length} 个）
+          </Typography>
+          {visibleItems.map((item, index) => (
+            <Typography
+              key={`${item.id}_${index}`}
+              variant="body2"
+              sx={{ ...lineStyles, color: item.status === 'failed' ? 'error.main' : 'text.secondary' }}
+            >
+              [{ITEM_STATUS_LABELS[item.status]}] {item.operation} “{item.title || item.url || item.id}”
+              {item.reason && `: ${item.reason}`}
+            </Typography>
+          ))}
+          {items.length > VISIBLE_ITEM_COUNT && (
+            <Button size="small" onClick={() => setShowAllItems(!showAllItems)} sx={{ fontSize: '9px', py: 0 }}>
+              {showAllItems ? '收起' : `显示全部 ${items.length} 个`}
+            </Button>
+          )}
+        </>
+      )}
+
+      {log.truncated && (
+        <Typography variant="body2" sx={{ fontSize: '9px', color: 'text.disabled', fontStyle: 'italic' }}>
+          日志过长，已省略中间的日志行与后面的书签结果
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default TaskRunLogView;
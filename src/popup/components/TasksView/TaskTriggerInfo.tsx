@@ -7,19 +7,24 @@ import NotificationsIcon from '@mui/icons-material/Notifications';
 import WebIcon from '@mui/icons-material/Web';
 import BookmarkIcon from '@mui/icons-material/Bookmark';
 import FilterAltIcon from '@mui/icons-material/FilterAlt';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
 import { Trigger, TriggerType, EventType } from '../../../types/task';
 import { formatTimestamp } from '../../../utils/date-utils';
+import { describeSchedule } from '../../../utils/schedule-utils';
+import { TASK_COMPLETION_OPTIONS } from '../../../utils/task-dependencies';
 
 interface TaskTriggerInfoProps {
   trigger: Trigger;
   compact?: boolean;
+  upstreamTaskName?: string; // 任务完成触发器的上游任务名称
 }
 
 /**
  * 任务触发器信息组件
  * 显示任务的触发条件信息
  */
-const TaskTriggerInfo: React.FC<TaskTriggerInfoProps> = ({ trigger, compact = false }) => {
+const TaskTriggerInfo: React.FC<TaskTriggerInfoProps> = ({ trigger, compact = false, upstreamTaskName }) => {
   // 获取事件图标
   const getEventIcon = (eventType: EventType) => {
     switch (eventType) {
@@ -147,6 +152,87 @@ const TaskTriggerInfo: React.FC<TaskTriggerInfoProps> = ({ trigger, compact = fa
     );
   };
 
+  // 渲染定时触发器信息
+  const renderScheduleTrigger = () => {
+    if (trigger.type !== TriggerType.SCHEDULE) return null;
+
+    const scheduleText = describeSchedule(trigger);
+
+    if (compact) {
+      return (
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <ScheduleIcon fontSize="small" color="action" sx={{ fontSize: '14px' }} />
+          <Typography variant="body2" sx={{ ml: 0.75, fontSize: '11px' }}>
+            定时: {scheduleText}
+          </Typography>
+        </Box>
+      );
+    }
+
+    return (
+      <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 0.5 }}>
+          <ScheduleIcon fontSize="small" color="action" sx={{ fontSize: '14px' }} />
+          <Typography variant="subtitle2" sx={{ ml: 0.75, fontSize: '12px' }}>
+            定时触发
+          </Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ ml: 3, fontSize: '11px' }}>
+          {scheduleText}
+        </Typography>
+
+        <Typography variant="body2" color="text.secondary" sx={{ ml: 3, mt: 0.5, fontSize: '11px' }}>
+          下次执行: {trigger.nextRunAt ? formatTimestamp(trigger.nextRunAt) : '等待后台计算'}
+        </Typography>
+
+        {trigger.lastTriggered && (
+          <Typography variant="body2" color="text.secondary" sx={{ ml: 3, mt: 0.5, fontSize: '11px' }}>
+            上次触发: {formatTimestamp(trigger.lastTriggered)}
+          </Typography>
+        )}
+      </Box>
+    );
+  };
+
+  // 渲染任务完成触发器信息
+  const renderTaskCompletedTrigger = () => {
+    if (trigger.type !== TriggerType.TASK_COMPLETED) return null;
+
+    const conditionText = TASK_COMPLETION_OPTIONS.find(option => option.value === trigger.on)?.label || '';
+    const upstreamText = upstreamTaskName ? `“${upstreamTaskName}”` : '上游任务';
+
+    if (compact) {
+      return (
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <AccountTreeIcon fontSize="small" color="action" sx={{ fontSize: '14px' }} />
+          <Typography variant="body2" sx={{ ml: 0.75, fontSize: '11px' }}>
+            {upstreamText}{conditionText}
+          </Typography>
+        </Box>
+      );
+    }
+
+    return (
+      <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 0.5 }}>
+          <AccountTreeIcon fontSize="small" color="action" sx={{ fontSize: '14px' }} />
+          <Typography variant="subtitle2" sx={{ ml: 0.75, fontSize: '12px' }}>
+            任务完成触发
+          </Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ ml: 3, fontSize: '11px' }}>
+          {upstreamText}{conditionText}
+        </Typography>
+
+        {trigger.lastTriggered && (
+          <Typography variant="body2" color="text.secondary" sx={{ ml: 3, mt: 0.5, fontSize: '11px' }}>
+            上次触发: {formatTimestamp(trigger.lastTriggered)}
+          </Typography>
+        )}
+      </Box>
+    );
+  };
+
   // 渲染事件触发器信息
   const renderEventTrigger = () => {
     if (trigger.type !== TriggerType.EVENT) return null;
@@ -197,6 +283,14 @@ const TaskTriggerInfo: React.FC<TaskTriggerInfoProps> = ({ trigger, compact = fa
   if (trigger.type === TriggerType.MANUAL) {
     return renderManualTrigger();
   }
+
+  if (trigger.type === TriggerType.SCHEDULE) {
+    return renderScheduleTrigger();
+  }
+
+  if (trigger.type === TriggerType.TASK_COMPLETED) {
+    return renderTaskCompletedTrigger();
+  }
   
   return renderEventTrigger();
 };
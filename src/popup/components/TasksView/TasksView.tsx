@@ -44,6 +44,7 @@ const TasksView: React.FC<TasksViewProps> = ({
   isAuthLoading
 }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [allTasks, setAllTasks] = useState<Task[]>([]); // 未按状态筛选的任务，用于显示任务依赖
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<TaskStatus | 'all'>('all');
@@ -63,9 +64,8 @@ const TasksView: React.FC<TasksViewProps> = ({
 
         setError(null);
 
-        const result = filterStatus === 'all'
-          ? await taskService.getTasksByStatus()
-          : await taskService.getTasksByStatus(filterStatus);
+        // 加载全部任务后在本地按状态筛选，任务卡片需要全部任务来显示上游/下游任务
+        const result = await taskService.getTasksByStatus();
 
         if (!isMounted) return;
 
@@ -77,7 +77,10 @@ const TasksView: React.FC<TasksViewProps> = ({
           const filteredTasks = taskList.filter(
             t => t && typeof t.id === 'string' && !isSystemTaskId(t.id)
           );
-          setTasks(filteredTasks);
+          setAllTasks(filteredTasks);
+          setTasks(filterStatus === 'all'
+            ? filteredTasks
+            : filteredTasks.filter(t => t.status === filterStatus));
         } else {
           setError(result.error || '获取任务列表失败');
         }
@@ -229,6 +232,7 @@ const TasksView: React.FC<TasksViewProps> = ({
           <TaskCard
             key={task.id}
             task={task}
+            allTasks={allTasks}
             onStatusChange={handleTaskStatusChange}
             onEdit={handleEditTask}
             onDelete={handleDeleteConfirm}
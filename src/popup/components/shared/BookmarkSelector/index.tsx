@@ -17,11 +17,13 @@ import CloseIcon from '@mui/icons-material/Close';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
 import { BookmarkSelection } from '../../../../types/task';
+import { BookmarkItem } from '../../../../utils/bookmark-service';
 
 interface BookmarkSelectorProps {
   selections: BookmarkSelection[];
   onChange: (selections: BookmarkSelection[]) => void;
   maxHeight?: string;
+  source?: BookmarkItem[]; // 书签树数据源（如备份文件中的书签），不提供时读取当前浏览器书签
 }
 
 // 扁平化项，包含索引和路径信息
@@ -39,6 +41,18 @@ const debugLog = (...args: unknown[]) => {
   globalThis.console.log(...args);
 };
 
+// 将 BookmarkItem 转换为浏览器书签节点结构（组件内以是否有 url 区分文件夹）
+const toTreeNode = (item: BookmarkItem): Browser.bookmarks.BookmarkTreeNode => ({
+  id: item.id,
+  parentId: item.parentId,
+  index: item.index,
+  title: item.title,
+  url: item.isFolder ? undefined : item.url,
+  dateAdded: item.dateAdded,
+  syncing: false,
+  children: item.isFolder ? (item.children || []).map(toTreeNode) : undefined
+});
+
 /**
  * 书签选择器组件
  * 支持混合选择书签和文件夹,并支持拖放重新排序
@@ -46,7 +60,8 @@ const debugLog = (...args: unknown[]) => {
 const BookmarkSelector: React.FC<BookmarkSelectorProps> = ({
   selections,
   onChange,
-  maxHeight = '400px'
+  maxHeight = '400px',
+  source
 }) => {
   // 状态管理
   const [bookmarkTree, setBookmarkTree] = useState<Browser.bookmarks.BookmarkTreeNode[]>([]);
@@ -60,7 +75,7 @@ const BookmarkSelector: React.FC<BookmarkSelectorProps> = ({
   const loadBookmarkTree = useCallback(async () => {
     setLoading(true);
     try {
-      const tree = await browser.bookmarks.getTree();
+      const tree = source ? source.map(toTreeNode) : await browser.bookmarks.getTree();
       setBookmarkTree(tree);
       
       // 默认展开根节点
@@ -73,7 +88,7 @@ const BookmarkSelector: React.FC<BookmarkSelectorProps> = ({
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [source]);
 
   // 组件挂载时加载书签树
   useEffect(() => {
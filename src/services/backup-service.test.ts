@@ -1,5 +1,11 @@
-import backupService from './backup-service';
+import backupService, { BackupType } from './backup-service';
 import githubService from './github-service';
+import { GitHubStorageProvider } from './github-storage-provider';
+import { StorageFile, StorageFileChange, StorageProvider } from '../types/storage-provider';
+import { DEFAULT_BACKUP_LAYOUT } from '../utils/backup-layout';
+import { hashBookmarkTree } from '../utils/bookmark-hash';
+import { ENCRYPTED_BACKUP_FORMAT, encryptBackupContent, fromBase64 } from '../utils/backup-crypto';
+import { compressBackupContent } from '../utils/backup-compression';
 import storageService from '../utils/storage-service';
 import bookmarkService from '../utils/bookmark-service';
 
@@ -9,6 +15,10 @@ jest.mock('./github-service', () => ({
     repoExists: jest.fn(),
     getRepositoryFiles: jest.fn(),
     getFileContent: jest.fn(),
+    createOrUpdateFile: jest.fn(),
+    deleteFile: jest.fn(),
+    commitFiles: jest.fn(),
+    ensureBranch: jest.fn(),
   },
 }));
 
@@ -16,6 +26,14 @@ jest.mock('../utils/storage-service', () => ({
   __esModule: true,
   default: {
     saveBackupStatus: jest.fn(),
+    getSettings: jest.fn(),
+    getStorageData: jest.fn(),
+    setStorageData: jest.fn(),
+    saveBackupStatsCache: jest.fn(),
+    getBackupPassphrase: jest.fn().mockResolvedValue({ success: true, data: null }),
+    getPinnedBackups: jest.fn().mockResolvedValue({ success: true, data: [] }),
+    getBackupStatus: jest.fn().mockResolvedValue({ success: true, data: {} }),
+    exportConfig: jest.fn(),
   },
 }));
 
@@ -44,8 +62,11 @@ jest.mock('../utils/bookmark-service', () => ({
     }) ?? roots.find(root => root.isFolder) ?? roots[0];
   }),
   default: {
+    getAllBookmarks: jest.fn(),
     getBookmarkRoots: jest.fn(),
     removeBookmarkTree: jest.fn(),
+    removeBookmark: jest.fn(),
+    getFolderChildren: jest.fn(),
     createFolder: jest.fn(),
     createBookmark: jest.fn(),
   },
@@ -57,6 +78,7 @@ describe('backup-service 恢复路径选择', () => {
   const mockedBookmark = bookmarkService as jest.Mocked<typeof bookmarkService>;
   const credentials = { token: 'test-token' };
   const username = 'alice';
+  const provider = new GitHubStorageProvider(credentials, username);
 
   const backupFileContent = JSON.stringify({
     timestamp: 1735600000000,
@@ -91,6 +113,8 @@ describe('backup-service 恢复路径选择', () => {
     jest.clearAllMocks();
     mockedGitHub.repoExists.mockResolvedValue(true);
     mockedStorage.saveBackupStatus.mockResolvedValue({ success: true });
+    mockedStorage.setStorageData.mockResolvedValue({ success: true });
+    mockedStorage.getSettings.mockResolvedValue({ success: true, data: { backup: { maxBackupsPerType: 0 } } });
     mockedBookmark.getBookmarkRoots.mockResolvedValue({
       success: true,
       data: [
@@ -133,14 +157,16 @@ describe('backup-service 恢复路径选择', () => {
     ]);
     mockedGitHub.getFileContent.mockRejectedValue(new Error('stop-here'));
 
-    const result = await backupService.restoreFromGitHub(credentials, username);
+    const result = await backupService.restoreFromStorage(provider);
 
     expect(result.success).toBe(false);
     expect(mockedGitHub.getFileContent).toHaveBeenCalledWith(
       credentials,
       username,
       'marksvault-backups',
-      'bookmarks/bookmarks_backup_20250202020202.json'
+      'bookmarks/bookmarks_backup_20250202020202.json',
+      'utf-8',
+      undefined
     );
   });
 
@@ -153,21 +179,23 @@ describe('backup-service 恢复路径选择', () => {
     ]);
     mockedGitHub.getFileContent.mockRejectedValue(new Error('stop-here'));
 
-    const result = await backupService.restoreFromGitHub(credentials, username);
+    const result = await backupService.restoreFromStorage(provider);
 
     expect(result.success).toBe(false);
     expect(mockedGitHub.getFileContent).toHaveBeenCalledWith(
       credentials,
       username,
       'marksvault-backups',
-      'bookmarks/bookmarks_backup_latest.json'
+      'bookmarks/bookmarks_backup_latest.json',
+      'utf-8',
+      undefined
     );
   });
 
   test('当不存在可恢复文件时，返回明确错误', async () => {
     mockedGitHub.getRepositoryFiles.mockResolvedValue([]);
 
-    const result = await backupService.restoreFromGitHub(credentials, username);
+    const result = await backupService.restoreFromStorage(provider);
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('未找到可恢复的书签备份文件');
@@ -187,7 +215,7 @@ describe('backup-service 恢复路径选择', () => {
       error: 'permission denied',
     } as any);
 
-    const result = await backupService.restoreFromGitHub(credentials, username);
+    const result = await backupService.restoreFromStorage(provider);
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('删除现有书签失败');
@@ -207,12 +235,86 @@ describe('backup-service 恢复路径选择', () => {
       error: 'invalid url',
     } as any);
 
-    const result = await backupService.restoreFromGitHub(credentials, username);
+    const result = await backupService.restoreFromStorage(provider);
 
     expect(result.success).toBe(false);
     expect(result.error).toContain('创建书签失败');
   });
 
+  test('恢复前保存本地快照，创建书签失败时自动回滚', async () => {
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      {
+        name: 'bookmarks_backup_20250202020202.json',
+        path: 'bookmarks/bookmarks_backup_20250202020202.json',
+      } as any,
+    ]);
+    mockedGitHub.getFileContent.mockResolvedValue({ content: backupFileContent } as any);
+    mockedBookmark.createBookmark
+      .mockResolvedValueOnce({ success: false, error: 'invalid url' } as any)
+      .mockResolvedValue({ success: true, data: { id: 'rollback-created' } } as any);
+
+    const result = await backupService.restoreFromStorage(provider);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('已自动回滚');
+    expect(mockedStorage.setStorageData).toHaveBeenCalledWith(
+      'bookmarks_restore_snapshot',
+      expect.objectContaining({
+        roots: [
+          {
+            rootId: '1',
+            bookmarks: [expect.objectContaining({ id: 'old-1', url: 'https://old.example.com' })],
+          },
+        ],
+      }),
+    );
+    expect(mockedBookmark.createBookmark).toHaveBeenLastCalledWith({
+      parentId: '1',
+      title: 'Old Bookmark',
+      url: 'https://old.example.com',
+      index: 0,
+    });
+    // 回滚成功后快照已无用
+    expect(mockedStorage.setStorageData).toHaveBeenLastCalledWith('bookmarks_restore_snapshot', null);
+  });
+
+  test('撤销时限内可撤销上次恢复，超时后快照被清除', async () => {
+    const snapshot = {
+      timestamp: Date.now() - 5 * 60 * 1000,
+      roots: [
+        {
+          rootId: '1',
+          bookmarks: [{ id: 's-1', title: 'Snapshot', url: 'https://snapshot.example.com', isFolder: false }],
+        },
+      ],
+    };
+    mockedStorage.getStorageData.mockResolvedValue({ success: true, data: snapshot });
+    mockedStorage.getSettings.mockResolvedValue({ success: true, data: { backup: { undoWindowMinutes: 30 } } });
+
+    const result = await backupService.undoLastRestore();
+
+    expect(result.success).toBe(true);
+    expect(mockedBookmark.removeBookmarkTree).toHaveBeenCalledWith('old-1');
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
+      parentId: '1',
+      title: 'Snapshot',
+      url: 'https://snapshot.example.com',
+    });
+    expect(mockedStorage.setStorageData).toHaveBeenCalledWith('bookmarks_restore_snapshot', null);
+
+    jest.clearAllMocks();
+    mockedStorage.getStorageData.mockResolvedValue({
+      success: true,
+      data: { ...snapshot, timestamp: Date.now() - 40 * 60 * 1000 },
+    });
+
+    const expired = await backupService.undoLastRestore();
+
+    expect(expired.success).toBe(false);
+    expect(mockedBookmark.removeBookmarkTree).not.toHaveBeenCalled();
+    expect(mockedStorage.setStorageData).toHaveBeenCalledWith('bookmarks_restore_snapshot', null);
+  });
+
   test('Firefox 书签栏ID（toolbar前缀）应能被正确识别', async () => {
     const firefoxBackupContent = JSON.stringify({
       timestamp: 1735600000000,
@@ -262,7 +364,7 @@ describe('backup-service 恢复路径选择', () => {
       ],
     } as any);
 
-    const result = await backupService.restoreFromGitHub(credentials, username);
+    const result = await backupService.restoreFromStorage(provider);
 
     expect(result.success).toBe(true);
     expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
@@ -272,6 +374,364 @@ describe('backup-service 恢复路径选择', () => {
     });
   });
 
+  test('恢复预览按内容对比当前书签栏，不修改书签', async () => {
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      {
+        name: 'bookmarks_backup_20250202020202.json',
+        path: 'bookmarks/bookmarks_backup_20250202020202.json',
+      } as any,
+    ]);
+    mockedGitHub.getFileContent.mockResolvedValue({ content: backupFileContent } as any);
+    mockedBookmark.getAllBookmarks.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          id: '0',
+          title: '',
+          isFolder: true,
+          children: [
+            {
+              id: '1',
+              title: 'Bookmarks Bar',
+              isFolder: true,
+              children: [
+                { id: '7', title: 'Example (old)', url: 'https://example.com', isFolder: false },
+                { id: '8', title: 'Old', url: 'https://old.example.com', isFolder: false },
+              ],
+            },
+          ],
+        },
+      ],
+    } as any);
+
+    const result = await backupService.previewBookmarksRestore(provider);
+
+    expect(result.success).toBe(true);
+    expect(result.data.filePath).toBe('bookmarks/bookmarks_backup_20250202020202.json');
+    expect(result.data.summary).toMatchObject({ renamed: 1, removed: 1, added: 0 });
+    expect(mockedBookmark.removeBookmarkTree).not.toHaveBeenCalled();
+    expect(mockedBookmark.createBookmark).not.toHaveBeenCalled();
+  });
+
+  test('试运行恢复只返回计划的变更，不保存快照也不修改书签', async () => {
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      {
+        name: 'bookmarks_backup_20250202020202.json',
+        path: 'bookmarks/bookmarks_backup_20250202020202.json',
+      } as any,
+    ]);
+    mockedGitHub.getFileContent.mockResolvedValue({ content: backupFileContent } as any);
+
+    const replaceResult = await backupService.restoreFromStorage(provider, false, undefined, BackupType.BOOKMARKS, {
+      dryRun: true,
+    });
+    expect(replaceResult.success).toBe(true);
+    expect(replaceResult.data.plannedChanges).toEqual([
+      expect.objectContaining({ title: 'Example', operation: 'create', current: '', planned: '新建于 Bookmarks Bar' }),
+      expect.objectContaining({ title: 'Old Bookmark', operation: 'remove', current: 'Bookmarks Bar', planned: '删除' }),
+    ]);
+
+    const mergeResult = await backupService.restoreFromStorage(provider, false, undefined, BackupType.BOOKMARKS, {
+      strategy: 'merge',
+      removeAbsent: true,
+      dryRun: true,
+    });
+    expect(mergeResult.success).toBe(true);
+    expect(mergeResult.data.merge).toEqual({ created: 1, kept: 0, removed: 1 });
+    expect(mergeResult.data.plannedChanges.map((change: any) => [change.operation, change.title])).toEqual([
+      ['create', 'Example'],
+      ['remove', 'Old Bookmark'],
+    ]);
+
+    expect(mockedStorage.setStorageData).not.toHaveBeenCalled();
+    expect(mockedStorage.saveBackupStatus).not.toHaveBeenCalled();
+    expect(mockedBookmark.removeBookmarkTree).not.toHaveBeenCalled();
+    expect(mockedBookmark.removeBookmark).not.toHaveBeenCalled();
+    expect(mockedBookmark.createBookmark).not.toHaveBeenCalled();
+  });
+
+  test('合并恢复保留现有书签，只创建缺失的书签', async () => {
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      {
+        name: 'bookmarks_backup_20250202020202.json',
+        path: 'bookmarks/bookmarks_backup_20250202020202.json',
+      } as any,
+    ]);
+    mockedGitHub.getFileContent.mockResolvedValue({ content: backupFileContent } as any);
+
+    const result = await backupService.restoreFromStorage(provider, false, undefined, BackupType.BOOKMARKS, {
+      strategy: 'merge',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.merge).toEqual({ created: 1, kept: 0, removed: 0 });
+    expect(mockedBookmark.removeBookmarkTree).not.toHaveBeenCalled();
+    expect(mockedBookmark.removeBookmark).not.toHaveBeenCalled();
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
+      parentId: '1',
+      title: 'Example',
+      url: 'https://example.com',
+    });
+  });
+
+  test('合并恢复按文件夹路径匹配，并可删除备份中不存在的书签', async () => {
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      {
+        name: 'bookmarks_backup_20250202020202.json',
+        path: 'bookmarks/bookmarks_backup_20250202020202.json',
+      } as any,
+    ]);
+    mockedGitHub.getFileContent.mockResolvedValue({
+      content: JSON.stringify({
+        timestamp: 1735600000000,
+        bookmarks: [
+          {
+            id: '0',
+            title: 'root',
+            isFolder: true,
+            children: [
+              {
+                id: '1',
+                title: 'Bookmarks Bar',
+                isFolder: true,
+                children: [
+                  {
+                    id: '10',
+                    title: '工作',
+                    isFolder: true,
+                    children: [
+                      { id: '11', title: 'Docs', url: 'https://docs.example.com', isFolder: false },
+                      { id: '12', title: 'Wiki', url: 'https://wiki.example.com', isFolder: false },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      }),
+    } as any);
+    mockedBookmark.getBookmarkRoots.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          id: '1',
+          title: 'Bookmarks Bar',
+          isFolder: true,
+          children: [
+            {
+              id: '20',
+              title: '工作',
+              isFolder: true,
+              children: [
+                { id: '21', title: 'Docs（本地标题）', url: 'https://docs.example.com', isFolder: false },
+                { id: '22', title: 'Local', url: 'https://local.example.com', isFolder: false },
+              ],
+            },
+            { id: '30', title: '临时', isFolder: true, children: [] },
+          ],
+        },
+      ],
+    } as any);
+    mockedBookmark.removeBookmark.mockResolvedValue({ success: true } as any);
+
+    const result = await backupService.restoreFromStorage(provider, false, undefined, BackupType.BOOKMARKS, {
+      strategy: 'merge',
+      removeAbsent: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.merge).toEqual({ created: 1, kept: 2, removed: 2 });
+    expect(mockedBookmark.createFolder).not.toHaveBeenCalled();
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledTimes(1);
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
+      parentId: '20',
+      title: 'Wiki',
+      url: 'https://wiki.example.com',
+    });
+    expect(mockedBookmark.removeBookmark).toHaveBeenCalledWith('22');
+    expect(mockedBookmark.removeBookmarkTree).toHaveBeenCalledWith('30');
+
+    // 撤销时只删除新建的书签并按原位置重建删除的节点，保留的书签不受影响
+    const snapshot = mockedStorage.setStorageData.mock.calls
+      .filter(([key]) => key === 'bookmarks_restore_snapshot')
+      .pop()?.[1];
+    expect(snapshot.changes.created).toEqual(['bookmark-created']);
+    jest.clearAllMocks();
+    mockedStorage.getStorageData.mockResolvedValue({ success: true, data: snapshot });
+    mockedStorage.getSettings.mockResolvedValue({ success: true, data: { backup: { undoWindowMinutes: 30 } } } as any);
+    mockedBookmark.removeBookmarkTree.mockResolvedValue({ success: true } as any);
+    mockedBookmark.createBookmark.mockResolvedValue({ success: true, data: { id: 'bookmark-recreated' } } as any);
+    mockedBookmark.createFolder.mockResolvedValue({ success: true, data: { id: 'folder-recreated' } } as any);
+
+    const undoResult = await backupService.undoLastRestore();
+
+    expect(undoResult.success).toBe(true);
+    expect(mockedBookmark.removeBookmarkTree).toHaveBeenCalledTimes(1);
+    expect(mockedBookmark.removeBookmarkTree).toHaveBeenCalledWith('bookmark-created');
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
+      parentId: '20',
+      title: 'Local',
+      url: 'https://local.example.com',
+      index: 1,
+    });
+    expect(mockedBookmark.createFolder).toHaveBeenCalledWith({ parentId: '1', title: '临时', index: 1 });
+    expect(mockedBookmark.getBookmarkRoots).not.toHaveBeenCalled();
+  });
+
+  test('恢复多个根目录时按浏览器映射，没有对应根目录的放入同名文件夹', async () => {
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      {
+        name: 'bookmarks_backup_20250202020202.json',
+        path: 'bookmarks/bookmarks_backup_20250202020202.json',
+      } as any,
+    ]);
+    mockedGitHub.getFileContent.mockResolvedValue({
+      content: JSON.stringify({
+        timestamp: 1735600000000,
+        bookmarks: [
+          {
+            id: 'root________',
+            title: '',
+            isFolder: true,
+            children: [
+              {
+                id: 'menu________',
+                title: 'Bookmarks Menu',
+                isFolder: true,
+                children: [{ id: 'm1', title: 'Menu', url: 'https://menu.example.com', isFolder: false }],
+              },
+              {
+                id: 'toolbar_____',
+                title: 'Bookmarks Toolbar',
+                isFolder: true,
+                children: [{ id: 't1', title: 'Toolbar', url: 'https://toolbar.example.com', isFolder: false }],
+              },
+              {
+                id: 'unfiled_____',
+                title: 'Other Bookmarks',
+                isFolder: true,
+                children: [{ id: 'u1', title: 'Unfiled', url: 'https://unfiled.example.com', isFolder: false }],
+              },
+            ],
+          },
+        ],
+      }),
+    } as any);
+    mockedBookmark.getBookmarkRoots.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          id: '1',
+          title: 'Bookmarks Bar',
+          isFolder: true,
+          children: [{ id: 'old-1', title: 'Old', url: 'https://old.example.com', isFolder: false }],
+        },
+        {
+          id: '2',
+          title: 'Other bookmarks',
+          isFolder: true,
+          children: [{ id: 'old-2', title: 'Old other', url: 'https://old-other.example.com', isFolder: false }],
+        },
+      ],
+    } as any);
+
+    const result = await backupService.restoreFromStorage(provider, false, undefined, BackupType.BOOKMARKS, {
+      roots: ['toolbar', 'menu'],
+    });
+
+    expect(result.success).toBe(true);
+    // 只清空书签栏，“其他书签”中原有的书签保持不变
+    expect(mockedBookmark.removeBookmarkTree).toHaveBeenCalledTimes(1);
+    expect(mockedBookmark.removeBookmarkTree).toHaveBeenCalledWith('old-1');
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
+      parentId: '1',
+      title: 'Toolbar',
+      url: 'https://toolbar.example.com',
+    });
+    expect(mockedBookmark.createFolder).toHaveBeenCalledWith({ parentId: '2', title: 'Bookmarks Menu' });
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
+      parentId: 'folder-created',
+      title: 'Menu',
+      url: 'https://menu.example.com',
+    });
+    expect(mockedBookmark.createBookmark).not.toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://unfiled.example.com' }),
+    );
+    expect(mockedStorage.setStorageData).toHaveBeenCalledWith(
+      'bookmarks_restore_snapshot',
+      expect.objectContaining({
+        roots: [
+          expect.objectContaining({ rootId: '1' }),
+          expect.objectContaining({ rootId: '2' }),
+        ],
+      }),
+    );
+  });
+
+  test('部分恢复只在目标文件夹下创建选中的子树', async () => {
+    mockedBookmark.getFolderChildren.mockResolvedValue({
+      success: true,
+      data: [{ id: 'keep-1', title: 'Keep', url: 'https://keep.example.com', isFolder: false }],
+    } as any);
+
+    const result = await backupService.restoreBookmarkSelections(
+      [
+        {
+          id: '10',
+          title: '工作',
+          type: 'folder',
+          children: [{ id: '11', title: 'Docs', type: 'bookmark', url: 'https://docs.example.com' }],
+        },
+      ],
+      'target-folder',
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ foldersCount: 1, bookmarksCount: 1 });
+    expect(mockedBookmark.createFolder).toHaveBeenCalledWith({ parentId: 'target-folder', title: '工作' });
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
+      parentId: 'folder-created',
+      title: 'Docs',
+      url: 'https://docs.example.com',
+    });
+    expect(mockedBookmark.removeBookmarkTree).not.toHaveBeenCalled();
+    expect(mockedBookmark.removeBookmark).not.toHaveBeenCalled();
+  });
+
+  test('部分恢复失败时删除本次已创建的节点，保留原有书签', async () => {
+    mockedBookmark.getFolderChildren
+      .mockResolvedValueOnce({
+        success: true,
+        data: [{ id: 'keep-1', title: 'Keep', url: 'https://keep.example.com', isFolder: false }],
+      } as any)
+      .mockResolvedValueOnce({
+        success: true,
+        data: [
+          { id: 'keep-1', title: 'Keep', url: 'https://keep.example.com', isFolder: false },
+          { id: 'folder-created', title: '工作', isFolder: true },
+        ],
+      } as any);
+    mockedBookmark.createBookmark.mockResolvedValue({ success: false, error: 'invalid url' } as any);
+
+    const result = await backupService.restoreBookmarkSelections(
+      [
+        {
+          id: '10',
+          title: '工作',
+          type: 'folder',
+          children: [{ id: '11', title: 'Docs', type: 'bookmark', url: 'https://docs.example.com' }],
+        },
+      ],
+      'target-folder',
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('创建书签失败');
+    expect(mockedBookmark.removeBookmarkTree).toHaveBeenCalledTimes(1);
+    expect(mockedBookmark.removeBookmarkTree).toHaveBeenCalledWith('folder-created');
+  });
+
   test('HTML 图标预加载应按域名去重，避免重复抓取', async () => {
     const service = backupService as any;
     const fetchIconSpy = jest
@@ -305,3 +765,528 @@ describe('backup-service 恢复路径选择', () => {
     fetchIconSpy.mockRestore();
   });
 });
+
+describe('backup-service 增量备份', () => {
+  const mockedGitHub = githubService as jest.Mocked<typeof githubService>;
+  const mockedStorage = storageService as jest.Mocked<typeof storageService>;
+  const mockedBookmark = bookmarkService as jest.Mocked<typeof bookmarkService>;
+  const credentials = { token: 'test-token' };
+  const username = 'alice';
+  const provider = new GitHubStorageProvider(credentials, username);
+
+  const tree = (children: Array<{ id: string; title: string; url: string }>) => [
+    {
+      id: '0',
+      title: '',
+      isFolder: true,
+      children: [
+        {
+          id: '1',
+          title: 'Bookmarks Bar',
+          isFolder: true,
+          children: children.map(child => ({ ...child, isFolder: false })),
+        },
+      ],
+    },
+  ];
+
+  const checkpointTree = tree([{ id: '10', title: 'A', url: 'https://a.example.com' }]);
+  const checkpointPath = 'bookmarks/bookmarks_backup_20250101000000.json';
+
+  const file = (path: string) => ({ name: path.split('/').pop(), path, sha: `sha-${path}` } as any);
+
+  beforeAll(() => {
+    // 备份数据的 source 字段依赖 navigator.platform
+    Object.defineProperty(globalThis, 'navigator', { value: { platform: 'test' }, configurable: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGitHub.repoExists.mockResolvedValue(true);
+    mockedGitHub.createOrUpdateFile.mockResolvedValue({ content: { html_url: 'https://github.com/file' } } as any);
+    mockedStorage.saveBackupStatus.mockResolvedValue({ success: true });
+    mockedStorage.setStorageData.mockResolvedValue({ success: true });
+    mockedStorage.getStorageData.mockResolvedValue({ success: true, data: null });
+    mockedStorage.getBackupStatus.mockResolvedValue({ success: true, data: {} });
+    mockedStorage.getSettings.mockResolvedValue({
+      success: true,
+      data: { backup: { maxBackupsPerType: 0, mode: 'incremental', checkpointInterval: 10 } },
+    } as any);
+  });
+
+  test('增量模式下只上传与上一个备份的差异', async () => {
+    mockedBookmark.getAllBookmarks.mockResolvedValue({
+      success: true,
+      data: tree([
+        { id: '10', title: 'A', url: 'https://a.example.com' },
+        { id: '11', title: 'B', url: 'https://b.example.com' },
+      ]),
+    } as any);
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([file(checkpointPath)]);
+    mockedGitHub.getFileContent.mockResolvedValue({
+      content: JSON.stringify({ timestamp: 1, bookmarks: checkpointTree }),
+    } as any);
+
+    const result = await backupService.backupToStorage(provider);
+
+    expect(result.success).toBe(true);
+    const [, , , path, content] = mockedGitHub.createOrUpdateFile.mock.calls[0];
+    expect(path).toMatch(/^bookmarks\/bookmarks_delta_\d{14}\.json$/);
+    const delta = JSON.parse(content);
+    expect(delta).toMatchObject({ type: 'delta', baseFile: checkpointPath, checkpointFile: checkpointPath, sequence: 1 });
+    expect(delta.diff.added.map((item: any) => item.id)).toEqual(['11']);
+    expect(mockedStorage.setStorageData).toHaveBeenCalledWith(
+      'bookmarks_incremental_base',
+      expect.objectContaining({ filePath: path, checkpointFile: checkpointPath, sequence: 1 })
+    );
+  });
+
+  test('达到检查点间隔时写入完整备份', async () => {
+    const deltaPath = 'bookmarks/bookmarks_delta_20250102000000.json';
+    mockedStorage.getSettings.mockResolvedValue({
+      success: true,
+      data: { backup: { maxBackupsPerType: 0, mode: 'incremental', checkpointInterval: 2 } },
+    } as any);
+    mockedBookmark.getAllBookmarks.mockResolvedValue({ success: true, data: checkpointTree } as any);
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([file(checkpointPath), file(deltaPath)]);
+    mockedStorage.getStorageData.mockResolvedValue({
+      success: true,
+      data: { filePath: deltaPath, checkpointFile: checkpointPath, sequence: 1, bookmarks: checkpointTree },
+    });
+
+    await backupService.backupToStorage(provider);
+
+    expect(mockedGitHub.createOrUpdateFile.mock.calls[0][3]).toMatch(/bookmarks_backup_\d{14}\.json$/);
+    expect(mockedGitHub.getFileContent).not.toHaveBeenCalled();
+  });
+
+  test('书签与最近一次远程备份相同时跳过上传', async () => {
+    const deltaPath = 'bookmarks/bookmarks_delta_20250102000000.json';
+    const contentHash = await hashBookmarkTree(checkpointTree);
+    mockedBookmark.getAllBookmarks.mockResolvedValue({ success: true, data: checkpointTree } as any);
+    mockedStorage.getStorageData.mockResolvedValue({
+      success: true,
+      data: { filePath: deltaPath, checkpointFile: checkpointPath, sequence: 1, bookmarks: checkpointTree },
+    });
+    mockedStorage.getBackupStatus.mockResolvedValue({
+      success: true,
+      data: { contentHash, lastBackupFilePath: deltaPath },
+    });
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([file(checkpointPath), file(deltaPath)]);
+
+    const skipped = await backupService.backupToStorage(provider);
+
+    expect(skipped).toMatchObject({ success: true, data: { skipped: true } });
+    expect(mockedGitHub.createOrUpdateFile).not.toHaveBeenCalled();
+    // 跳过时不计算增量，也不读取加密口令
+    expect(mockedStorage.getStorageData).not.toHaveBeenCalledWith('bookmarks_incremental_base');
+    expect(mockedStorage.getBackupPassphrase).not.toHaveBeenCalled();
+
+    // 同时备份配置时同样跳过
+    const skippedAll = await backupService.backupAllToStorage(provider);
+
+    expect(skippedAll).toMatchObject({ success: true, data: { skipped: true } });
+    expect(mockedGitHub.commitFiles).not.toHaveBeenCalled();
+    expect(mockedStorage.exportConfig).not.toHaveBeenCalled();
+
+    // 最新的远程备份不是上次写入的文件时（例如被其他设备覆盖），照常备份并记录哈希
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([file(checkpointPath)]);
+    const uploaded = await backupService.backupToStorage(provider);
+
+    expect(uploaded.data?.skipped).toBeUndefined();
+    expect(mockedGitHub.createOrUpdateFile).toHaveBeenCalledTimes(1);
+    expect(mockedStorage.saveBackupStatus).toHaveBeenCalledWith(expect.objectContaining({ contentHash }));
+  });
+
+  test('恢复增量备份时从检查点开始依次回放', async () => {
+    const firstDelta = 'bookmarks/bookmarks_delta_20250102000000.json';
+    const secondDelta = 'bookmarks/bookmarks_delta_20250103000000.json';
+    const contents: Record<string, unknown> = {
+      [checkpointPath]: { timestamp: 1, bookmarks: checkpointTree },
+      [firstDelta]: {
+        type: 'delta',
+        timestamp: 2,
+        baseFile: checkpointPath,
+        checkpointFile: checkpointPath,
+        sequence: 1,
+        diff: {
+          added: [{ id: '11', parentId: '1', title: 'B', url: 'https://b.example.com', isFolder: false }],
+          removed: [],
+          moved: [],
+          updated: [],
+          order: { '1': ['10', '11'] },
+        },
+      },
+      [secondDelta]: {
+        type: 'delta',
+        timestamp: 3,
+        baseFile: firstDelta,
+        checkpointFile: checkpointPath,
+        sequence: 2,
+        diff: {
+          added: [],
+          removed: [{ id: '10', parentId: '1', title: 'A', url: 'https://a.example.com', isFolder: false }],
+          moved: [],
+          updated: [],
+          order: { '1': ['11'] },
+        },
+      },
+    };
+    mockedGitHub.getFileContent.mockImplementation(async (_c, _u, _r, path) => ({
+      content: JSON.stringify(contents[path]),
+    }) as any);
+    mockedBookmark.getBookmarkRoots.mockResolvedValue({
+      success: true,
+      data: [{ id: '1', title: 'Bookmarks Bar', isFolder: true, children: [] }],
+    } as any);
+    mockedBookmark.createBookmark.mockResolvedValue({ success: true, data: { id: 'created' } } as any);
+
+    const result = await backupService.restoreFromStorage(provider, true, secondDelta);
+
+    expect(result.success).toBe(true);
+    expect(result.timestamp).toBe(3);
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledTimes(1);
+    expect(mockedBookmark.createBookmark).toHaveBeenCalledWith({
+      parentId: '1',
+      title: 'B',
+      url: 'https://b.example.com',
+    });
+  });
+
+  test('清理旧备份时保留最旧增量所依赖的检查点', async () => {
+    mockedStorage.getSettings.mockResolvedValue({
+      success: true,
+      data: { backup: { maxBackupsPerType: 2 } },
+    } as any);
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      file('bookmarks/bookmarks_backup_20250101000000.json'),
+      file('bookmarks/bookmarks_delta_20250102000000.json'),
+      file('bookmarks/bookmarks_backup_20250103000000.json'),
+      file('bookmarks/bookmarks_delta_20250104000000.json'),
+      file('bookmarks/bookmarks_delta_20250105000000.json'),
+    ]);
+    mockedGitHub.getFileContent.mockRejectedValue(new Error('skip stats'));
+    mockedGitHub.commitFiles.mockResolvedValue({ sha: 'commit-sha', branch: 'main', htmlUrl: 'https://github.com/commit' });
+
+    const result = await backupService.cleanupOldBackups(provider);
+
+    expect(result.deletedCount).toBe(2);
+    expect(mockedGitHub.deleteFile).not.toHaveBeenCalled();
+    expect(mockedGitHub.commitFiles).toHaveBeenCalledTimes(1);
+    expect(mockedGitHub.commitFiles.mock.calls[0][3]).toEqual([
+      { path: 'bookmarks/bookmarks_delta_20250102000000.json', delete: true },
+      { path: 'bookmarks/bookmarks_backup_20250101000000.json', delete: true },
+    ]);
+  });
+
+  test('GFS 保留策略跳过已固定的备份并返回被删除的文件', async () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(new Date('2025-06-30T12:00:00').getTime());
+    mockedStorage.getSettings.mockResolvedValue({
+      success: true,
+      data: { backup: { maxBackupsPerType: 1, retention: 'gfs', gfs: { keepAllDays: 7, dailyDays: 30, weeklyDays: 90 } } },
+    } as any);
+    (mockedStorage.getPinnedBackups as jest.Mock).mockResolvedValueOnce({
+      success: true,
+      data: ['settings/settings_backup_20250610080000.json'],
+    });
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      file('settings/settings_backup_20250629120000.json'),
+      file('settings/settings_backup_20250628120000.json'),
+      file('settings/settings_backup_20250610090000.json'),
+      file('settings/settings_backup_20250610080000.json'),
+      file('settings/settings_backup_20250609080000.json'),
+      file('settings/settings_backup_20250609070000.json'),
+    ]);
+    mockedGitHub.commitFiles.mockResolvedValue({ sha: 'commit-sha', branch: 'main', htmlUrl: 'https://github.com/commit' });
+
+    try {
+      const result = await backupService.cleanupOldBackups(provider, BackupType.SETTINGS);
+
+      expect(result.deletedFiles).toEqual(['settings/settings_backup_20250609070000.json']);
+      expect(mockedGitHub.commitFiles.mock.calls[0][3]).toEqual([
+        { path: 'settings/settings_backup_20250609070000.json', delete: true },
+      ]);
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+});
+
+describe('backup-service 加密与压缩备份', () => {
+  const mockedGitHub = githubService as jest.Mocked<typeof githubService>;
+  const mockedStorage = storageService as jest.Mocked<typeof storageService>;
+  const mockedBookmark = bookmarkService as jest.Mocked<typeof bookmarkService>;
+  const credentials = { token: 'test-token' };
+  const username = 'alice';
+  const provider = new GitHubStorageProvider(credentials, username);
+
+  const bookmarks = [
+    {
+      id: '0',
+      title: '',
+      isFolder: true,
+      children: [
+        {
+          id: '1',
+          title: 'Bookmarks Bar',
+          isFolder: true,
+          children: [{ id: '10', title: 'Secret', url: 'https://secret.example.com', isFolder: false }],
+        },
+      ],
+    },
+  ];
+
+  beforeAll(() => {
+    Object.defineProperty(globalThis, 'navigator', { value: { platform: 'test' }, configurable: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGitHub.repoExists.mockResolvedValue(true);
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([]);
+    mockedGitHub.createOrUpdateFile.mockResolvedValue({ content: { html_url: 'https://github.com/file' } } as any);
+    mockedStorage.saveBackupStatus.mockResolvedValue({ success: true });
+    mockedStorage.setStorageData.mockResolvedValue({ success: true });
+    mockedStorage.getStorageData.mockResolvedValue({ success: true, data: null });
+    mockedStorage.getSettings.mockResolvedValue({
+      success: true,
+      data: { backup: { maxBackupsPerType: 0, encryption: true } },
+    } as any);
+    mockedBookmark.getAllBookmarks.mockResolvedValue({ success: true, data: bookmarks } as any);
+  });
+
+  afterEach(() => {
+    mockedStorage.getBackupPassphrase.mockResolvedValue({ success: true, data: null });
+  });
+
+  test('开启加密时上传加密信封，恢复时用口令透明解密', async () => {
+    mockedStorage.getBackupPassphrase.mockResolvedValue({ success: true, data: 'correct horse' });
+
+    const backupResult = await backupService.backupToStorage(provider);
+
+    expect(backupResult.success).toBe(true);
+    const [, , , path, content] = mockedGitHub.createOrUpdateFile.mock.calls[0];
+    expect(JSON.parse(content)).toMatchObject({ format: 'marksvault-encrypted', version: 1 });
+    expect(content).not.toContain('secret.example.com');
+
+    mockedGitHub.getFileContent.mockResolvedValue({ content } as any);
+    const loadResult = await backupService.loadBookmarksBackupTree(provider, path);
+
+    expect(loadResult.success).toBe(true);
+    expect(loadResult.data.bookmarks[0].children[0].children[0].url).toBe('https://secret.example.com');
+  });
+
+  test('开启压缩时先压缩再加密后上传 .json.gz 文件，恢复时先解密再解压', async () => {
+    mockedStorage.getBackupPassphrase.mockResolvedValue({ success: true, data: 'correct horse' });
+    mockedStorage.getSettings.mockResolvedValue({
+      success: true,
+      data: { backup: { maxBackupsPerType: 0, encryption: true, compression: true } },
+    } as any);
+
+    const backupResult = await backupService.backupToStorage(provider);
+
+    expect(backupResult.success).toBe(true);
+    const [, , , path, content, , sha, encoding] = mockedGitHub.createOrUpdateFile.mock.calls[0];
+    expect(path).toMatch(/^bookmarks\/bookmarks_backup_\d{14}\.json\.gz$/);
+    expect(sha).toBeUndefined();
+    expect(encoding).toBe('base64');
+    const envelope = JSON.parse(new TextDecoder().decode(fromBase64(content as string)));
+    expect(envelope.format).toBe(ENCRYPTED_BACKUP_FORMAT);
+
+    mockedGitHub.getFileContent.mockResolvedValue({ content } as any);
+    const loadResult = await backupService.loadBookmarksBackupTree(provider, path);
+
+    expect(mockedGitHub.getFileContent).toHaveBeenCalledWith(credentials, username, 'marksvault-backups', path, 'base64', undefined);
+    expect(loadResult.success).toBe(true);
+    expect(loadResult.data.bookmarks[0].children[0].children[0].url).toBe('https://secret.example.com');
+  });
+
+  test('仍可读取以前先加密后压缩的 .json.gz 备份', async () => {
+    mockedStorage.getBackupPassphrase.mockResolvedValue({ success: true, data: 'correct horse' });
+    const backupData = { timestamp: 1700000000000, bookmarks: [{ id: '0', title: '', children: [] }] };
+    const legacyContent = await compressBackupContent(
+      await encryptBackupContent(JSON.stringify(backupData), 'correct horse')
+    );
+    mockedGitHub.getFileContent.mockResolvedValue({ content: legacyContent } as any);
+
+    const loadResult = await backupService.loadBookmarksBackupTree(provider, 'bookmarks/bookmarks_backup_20250101000000.json.gz');
+
+    expect(loadResult.success).toBe(true);
+    expect(loadResult.data.bookmarks).toEqual(backupData.bookmarks);
+  });
+
+  test('同时备份书签与配置时在一次提交中写入两个备份文件和清单', async () => {
+    mockedStorage.getSettings.mockResolvedValue({ success: true, data: { backup: { maxBackupsPerType: 0 } } } as any);
+    mockedStorage.exportConfig.mockResolvedValue({
+      success: true,
+      data: { schemaVersion: 1, app: 'MarksVault', local: {}, sync: {} },
+    });
+    mockedGitHub.commitFiles.mockResolvedValue({ sha: 'commit-sha', branch: 'main', htmlUrl: 'https://github.com/commit' });
+
+    const result = await backupService.backupAllToStorage(provider);
+
+    expect(result.success).toBe(true);
+    expect(mockedGitHub.createOrUpdateFile).not.toHaveBeenCalled();
+    expect(mockedGitHub.commitFiles).toHaveBeenCalledTimes(1);
+    const changes = mockedGitHub.commitFiles.mock.calls[0][3];
+    expect(changes.map(change => change.path)).toEqual([
+      expect.stringMatching(/^bookmarks\/bookmarks_backup_\d{14}\.json$/),
+      expect.stringMatching(/^settings\/settings_backup_\d{14}\.json$/),
+      'manifest.json',
+    ]);
+    const manifest = JSON.parse(changes[2].content as string);
+    expect(manifest.files.bookmarks.path).toBe(changes[0].path);
+    expect(manifest.files.settings.path).toBe(changes[1].path);
+    expect(mockedStorage.saveBackupStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ lastOperationStatus: 'success', lastBackupFilePath: changes[0].path })
+    );
+    expect(mockedStorage.setStorageData).toHaveBeenCalledWith(
+      'settings_backup_status',
+      expect.objectContaining({ lastOperationStatus: 'success', lastBackupFilePath: changes[1].path })
+    );
+  });
+
+  test('开启加密但未设置口令时拒绝上传', async () => {
+    const result = await backupService.backupToStorage(provider);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('尚未设置加密口令');
+    expect(mockedGitHub.createOrUpdateFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('backup-service 备份文件布局', () => {
+  const mockedGitHub = githubService as jest.Mocked<typeof githubService>;
+  const mockedStorage = storageService as jest.Mocked<typeof storageService>;
+  const mockedBookmark = bookmarkService as jest.Mocked<typeof bookmarkService>;
+  const provider = new GitHubStorageProvider({ token: 'test-token' }, 'alice', 'bookmarks-archive', 'backups');
+  const layout = { pathTemplate: '{device}/{type}/{timestamp}', device: 'laptop' };
+
+  // 内存中的存储位置，记录每次批量写入
+  const createMemoryProvider = (files: Record<string, string>) => {
+    const commits: StorageFileChange[][] = [];
+    const memory: StorageProvider = {
+      type: 'webdav',
+      name: '内存',
+      containerExists: async () => true,
+      ensureContainer: async () => undefined,
+      listFiles: async (folder: string): Promise<StorageFile[]> => Object.keys(files)
+        .filter(path => path.startsWith(`${folder}/`) && !path.slice(folder.length + 1).includes('/'))
+        .map(path => ({ name: path.split('/').pop() as string, path, size: files[path].length })),
+      readFile: async (path: string, encoding = 'utf-8') => {
+        if (!(path in files)) throw new Error(`文件不存在: ${path}`);
+        return encoding === 'base64' ? Buffer.from(files[path]).toString('base64') : files[path];
+      },
+      writeFile: async () => ({}),
+      writeFiles: async (changes: StorageFileChange[]) => {
+        commits.push(changes);
+        for (const change of changes) {
+          files[change.path] = change.encoding === 'base64'
+            ? Buffer.from(change.content || '', 'base64').toString()
+            : change.content || '';
+        }
+        return {};
+      },
+      deleteFile: async () => undefined,
+    };
+    return { memory, files, commits };
+  };
+
+  beforeAll(() => {
+    Object.defineProperty(globalThis, 'navigator', { value: { platform: 'test' }, configurable: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedGitHub.repoExists.mockResolvedValue(true);
+    mockedStorage.saveBackupStatus.mockResolvedValue({ success: true });
+    mockedStorage.setStorageData.mockResolvedValue({ success: true });
+    mockedStorage.getStorageData.mockResolvedValue({ success: true, data: null });
+    mockedStorage.getSettings.mockResolvedValue({
+      success: true,
+      data: { backup: { maxBackupsPerType: 0, pathTemplate: layout.pathTemplate, deviceName: 'laptop' } },
+    } as any);
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([]);
+    mockedGitHub.ensureBranch.mockResolvedValue(undefined);
+    mockedBookmark.getAllBookmarks.mockResolvedValue({
+      success: true,
+      data: [{ id: '0', title: '', isFolder: true, children: [{ id: '1', title: 'Bookmarks Bar', isFolder: true, children: [] }] }],
+    } as any);
+  });
+
+  test('按路径模板写入备份文件与清单，并提交到设置的分支', async () => {
+    mockedStorage.exportConfig.mockResolvedValue({
+      success: true,
+      data: { schemaVersion: 1, app: 'MarksVault', local: {}, sync: {} },
+    });
+    mockedGitHub.commitFiles.mockResolvedValue({ sha: 'commit-sha', branch: 'backups', htmlUrl: 'https://github.com/commit' });
+
+    const result = await backupService.backupAllToStorage(provider);
+
+    expect(result.success).toBe(true);
+    const [, owner, repo, changes, , branch] = mockedGitHub.commitFiles.mock.calls[0];
+    expect([owner, repo, branch]).toEqual(['alice', 'bookmarks-archive', 'backups']);
+    expect(mockedGitHub.ensureBranch).toHaveBeenCalledWith({ token: 'test-token' }, 'alice', 'bookmarks-archive', 'backups');
+    expect(changes.map(change => change.path)).toEqual([
+      expect.stringMatching(/^laptop\/bookmarks\/bookmarks_backup_\d{14}\.json$/),
+      expect.stringMatching(/^laptop\/settings\/settings_backup_\d{14}\.json$/),
+      'laptop/manifest.json',
+    ]);
+  });
+
+  test('只指定文件名时在模板对应的文件夹中查找要恢复的备份', async () => {
+    mockedGitHub.getFileContent.mockResolvedValue({
+      content: JSON.stringify({ timestamp: 5, bookmarks: [] }),
+    } as any);
+
+    const result = await backupService.loadBookmarksBackupTree(provider, 'bookmarks_backup_20250101000000.json');
+
+    expect(result.data?.filePath).toBe('laptop/bookmarks/bookmarks_backup_20250101000000.json');
+    expect(mockedGitHub.getFileContent).toHaveBeenCalledWith(
+      { token: 'test-token' }, 'alice', 'bookmarks-archive', 'laptop/bookmarks/bookmarks_backup_20250101000000.json', 'utf-8', 'backups'
+    );
+  });
+
+  test('迁移时在一次提交中复制备份，增量备份在新位置仍可回放', async () => {
+    const checkpoint = 'bookmarks/bookmarks_backup_20250101000000.json';
+    const delta = 'bookmarks/bookmarks_delta_20250102000000.json';
+    const source = createMemoryProvider({
+      [checkpoint]: JSON.stringify({
+        timestamp: 1,
+        bookmarks: [{ id: '1', title: 'Bookmarks Bar', isFolder: true, children: [] }],
+      }),
+      [delta]: JSON.stringify({
+        type: 'delta',
+        timestamp: 2,
+        baseFile: checkpoint,
+        checkpointFile: checkpoint,
+        sequence: 1,
+        diff: {
+          added: [{ id: '11', parentId: '1', title: 'B', url: 'https://b.example.com', isFolder: false }],
+          removed: [],
+          moved: [],
+          updated: [],
+          order: { '1': ['11'] },
+        },
+      }),
+      'bookmarks/notes.txt': 'not a backup',
+      'settings/settings_backup_20250101000000.json': '{}',
+      'manifest.json': '{}',
+    });
+    const target = createMemoryProvider({});
+
+    const result = await backupService.migrateBackups(source.memory, target.memory, DEFAULT_BACKUP_LAYOUT, layout);
+
+    expect(result).toMatchObject({ success: true, data: { migratedCount: 3 } });
+    expect(target.commits).toHaveLength(1);
+    expect(Object.keys(target.files).sort()).toEqual([
+      'laptop/bookmarks/bookmarks_backup_20250101000000.json',
+      'laptop/bookmarks/bookmarks_delta_20250102000000.json',
+      'laptop/settings/settings_backup_20250101000000.json',
+    ]);
+
+    const tree = await backupService.loadBookmarksBackupTree(target.memory, 'bookmarks_delta_20250102000000.json');
+    expect(tree.success).toBe(true);
+    expect(tree.data.bookmarks[0].children.map((item: any) => item.title)).toEqual(['B']);
+  });
+});
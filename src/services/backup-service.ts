@@ -1,24 +1,97 @@
-import { BookmarkBackup, BackupResult, BackupStatus } from '../types/backup';
-import { GitHubCredentials } from '../utils/storage-service';
+import {
+  BookmarkBackup,
+  BookmarkDeltaBackup,
+  BookmarkRootKind,
+  BookmarkMergeResult,
+  BookmarkRestoreOptions,
+  BackupManifest,
+  BackupResult,
+  BackupStatus,
+  RestorePreview,
+  RestoreChangeLog,
+  RestoreRootMapping,
+  RestoreSnapshot,
+  UndoableRestore
+} from '../types/backup';
 import { BookmarkItem, findBookmarkBar, isBookmarkBarNode } from '../utils/bookmark-service';
 import bookmarkService from '../utils/bookmark-service';
+import { StorageFile, StorageFileChange, StorageProvider } from '../types/storage-provider';
 import githubService from './github-service';
+import storageProviderService from './storage-provider-service';
 import storageService from '../utils/storage-service';
 import { getFaviconUrl } from '../utils/favicon-service';
-import { BookmarkSelection } from '../types/task';
+import { applyBookmarkDiff, diffBookmarkTrees } from '../utils/bookmark-diff';
+import { compareBookmarkTrees, toPlannedChanges } from '../utils/bookmark-compare';
+import { mapBookmarkRoots } from '../utils/bookmark-roots';
+import { decryptBackupContent, encryptBackupContent, toBase64 } from '../utils/backup-crypto';
+import {
+  BACKUP_FILE_EXTENSION,
+  COMPRESSED_BACKUP_FILE_EXTENSION,
+  compressBackupContent,
+  decompressBackupContent,
+  hasBackupFileExtension,
+  isCompressedBackupContent,
+  isCompressedBackupFile,
+  readCompressedBackupFile
+} from '../utils/backup-compression';
+import {
+  BackupLayout,
+  getBackupFolder,
+  getBackupManifestPath,
+  joinBackupPath,
+  resolveBackupLayout
+} from '../utils/backup-layout';
+import { resolveGfsRetention, selectBackupsToDelete } from '../utils/backup-retention';
+import { hashBookmarkTree } from '../utils/bookmark-hash';
+import { BookmarkSelection, PlannedBookmarkChange } from '../types/task';
 
-// 备份存储库名称
-const DEFAULT_BACKUP_REPO = 'marksvault-backups';
 // 备份文件路径：最新文件和带时间戳的历史文件
 const LATEST_BACKUP_PATH = 'bookmarks_backup_latest.json';
-// 设置文件备份文件夹路径
-const SETTINGS_FOLDER_PATH = 'settings';
+// 增量备份基线缓存：最近一次书签备份对应的完整书签树，避免每次都从仓库回放
+export const INCREMENTAL_BASE_CACHE_KEY = 'bookmarks_incremental_base';
+// 默认每隔多少次备份写入一次完整检查点
+const DEFAULT_CHECKPOINT_INTERVAL = 10;
+// 增量链的最大长度，防止损坏的 baseFile 引用导致无限回放
+const MAX_DELTA_CHAIN_LENGTH = 1000;
+// 恢复前的本地安全快照，用于恢复失败时回滚以及撤销上次恢复
+export const RESTORE_SNAPSHOT_STORAGE_KEY = 'bookmarks_restore_snapshot';
+// 默认在恢复后多少分钟内允许撤销
+const DEFAULT_UNDO_WINDOW_MINUTES = 30;
 // 备份类型常量
 export enum BackupType {
   BOOKMARKS = 'bookmarks',
   SETTINGS = 'settings'
 }
 
+// 一次书签恢复中对单个当前根目录的操作
+interface RootRestorePlan {
+  target: BookmarkItem; // 当前浏览器中的根目录（含子节点）
+  items: BookmarkItem[]; // 要恢复到该根目录下的书签
+  replaceAll: boolean; // 是否恢复整个根目录；否则只涉及与 wrappedTitles 同名的文件夹
+  wrappedTitles: Set<string>; // 无对应根目录时，包装备份根目录的文件夹标题
+}
+
+// 已生成、待上传的备份文件
+interface PreparedBackupFile {
+  type: BackupType;
+  path: string; // 仓库中的文件路径
+  content: string; // 上传内容（已按设置加密、压缩）
+  encoding: 'utf-8' | 'base64';
+  encrypted: boolean;
+  description: string; // 用于提交消息的备份类型描述
+  backupData: any; // 完整备份数据
+  deltaData: BookmarkDeltaBackup | null; // 增量备份数据，完整备份时为 null
+}
+
+// 上传内容的字节数，base64 内容按解码后的大小计算
+const getUploadSize = (content: string, encoding: 'utf-8' | 'base64' = 'utf-8'): number => {
+  if (encoding === 'base64') {
+    const padding = content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0;
+    return Math.floor(content.length * 3 / 4) - padding;
+  }
+  return new TextEncoder().encode(content).length;
+};
+
 class BackupService {
   private static instance: BackupService;
   private readonly FAVICON_FETCH_TIMEOUT_MS = 5000;
@@ -34,10 +107,23 @@ class BackupService {
   }
 
   /**
-   * 解析书签备份文件名中的时间戳（bookmarks_backup_YYYYMMDDHHMMSS.json）
+   * 解析书签备份文件名中的时间戳
+   * 完整备份：bookmarks_backup_YYYYMMDDHHMMSS.json；增量备份：bookmarks_delta_YYYYMMDDHHMMSS.json
+   * 压缩备份在此基础上使用 .json.gz 扩展名
    */
   private parseBookmarksBackupTimestamp(filename: string): number {
-    const match = filename.match(/bookmarks_backup_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json/);
+    const match = filename.match(/bookmarks_(?:backup|delta)_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json(?:\.gz)?$/);
+    if (!match) return 0;
+
+    const [, year, month, day, hour, minute, second] = match;
+    return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}`).getTime();
+  }
+
+  /**
+   * 解析书签或配置备份文件名中的时间戳（例如 settings_backup_20230415123045.json）
+   */
+  private parseBackupTimestamp(filename: string): number {
+    const match = filename.match(/_(?:backup|delta)_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json(?:\.gz)?$/);
     if (!match) return 0;
 
     const [, year, month, day, hour, minute, second] = match;
@@ -51,20 +137,205 @@ class BackupService {
     return this.parseBookmarksBackupTimestamp(filename) > 0;
   }
 
+  /**
+   * 是否为增量书签备份文件
+   */
+  private isDeltaBookmarksBackupFile(filename: string): boolean {
+    return filename.startsWith('bookmarks_delta_') && hasBackupFileExtension(filename);
+  }
+
+  /**
+   * 是否为书签备份文件（完整或增量）
+   */
+  private isBookmarksBackupFile(filename: string): boolean {
+    return (filename.startsWith('bookmarks_backup_') && hasBackupFileExtension(filename))
+      || this.isDeltaBookmarksBackupFile(filename);
+  }
+
+  /**
+   * 读取书签备份文件，增量文件会沿 baseFile 回溯到完整检查点后依次回放
+   * @returns 回放后的完整备份，以及所属检查点路径和增量序号（完整备份为 0）
+   */
+  private async loadBookmarksBackupChain(
+    provider: StorageProvider,
+    filePath: string
+  ): Promise<{ backup: BookmarkBackup; checkpointFile: string; sequence: number }> {
+    const deltas: BookmarkDeltaBackup[] = [];
+    const visited = new Set<string>();
+    let currentPath = filePath;
+
+    while (!visited.has(currentPath) && visited.size < MAX_DELTA_CHAIN_LENGTH) {
+      visited.add(currentPath);
+
+      const data = await this.readBackupFile(provider, currentPath);
+
+      if (data?.type !== 'delta') {
+        const checkpoint = data as BookmarkBackup;
+        if (!checkpoint.bookmarks || !Array.isArray(checkpoint.bookmarks)) {
+          throw new Error('备份文件格式不正确');
+        }
+
+        // 从检查点开始按时间顺序回放增量
+        const target = deltas[0];
+        const bookmarks = deltas
+          .slice()
+          .reverse()
+          .reduce((tree, delta) => applyBookmarkDiff(tree, delta.diff), checkpoint.bookmarks);
+
+        return {
+          backup: target
+            ? { ...checkpoint, timestamp: target.timestamp, bookmarks, metadata: target.metadata }
+            : checkpoint,
+          checkpointFile: currentPath,
+          sequence: target ? target.sequence : 0
+        };
+      }
+
+      const delta = data as BookmarkDeltaBackup;
+      if (!delta.diff || !delta.baseFile) {
+        throw new Error(`增量备份文件格式不正确: ${currentPath}`);
+      }
+      deltas.push(delta);
+      // 增量备份总是基于同一文件夹中的上一个备份，按文件名解析，迁移目录后备份链仍可回放
+      const baseName = delta.baseFile.split('/').pop() || delta.baseFile;
+      currentPath = joinBackupPath(currentPath.split('/').slice(0, -1).join('/'), baseName);
+    }
+
+    throw new Error(`增量备份链异常，无法回放: ${filePath}`);
+  }
+
+  /**
+   * 读取备份设置中的文件布局（路径模板与设备名称）
+   */
+  private async getBackupLayout(): Promise<BackupLayout> {
+    const settingsResult = await storageService.getSettings();
+    return resolveBackupLayout(settingsResult.success ? settingsResult.data?.backup : undefined);
+  }
+
+  /**
+   * 按备份设置编码待上传的备份内容：开启压缩时先 gzip 压缩明文，开启加密时再加密
+   * @returns 上传内容、内容编码以及对应的文件扩展名；开启加密但未设置口令时抛出错误
+   */
+  private async encodeBackupContent(
+    content: string
+  ): Promise<{ content: string; encoding: 'utf-8' | 'base64'; extension: string; encrypted: boolean }> {
+    const settingsResult = await storageService.getSettings();
+    const backupSettings = settingsResult.success ? settingsResult.data?.backup : undefined;
+    const encrypted = backupSettings?.encryption === true;
+
+    const compressed = backupSettings?.compression === true;
+    let encoded = compressed ? await compressBackupContent(content) : content;
+    if (encrypted) {
+      const passphraseResult = await storageService.getBackupPassphrase();
+      if (!passphraseResult.success || !passphraseResult.data) {
+        throw new Error('已开启备份加密，但尚未设置加密口令');
+      }
+      encoded = await encryptBackupContent(encoded, passphraseResult.data);
+      if (compressed) {
+        // .json.gz 文件总是以二进制上传，加密信封按 UTF-8 字节写入
+        encoded = toBase64(new TextEncoder().encode(encoded));
+      }
+    }
+
+    if (compressed) {
+      return { content: encoded, encoding: 'base64', extension: COMPRESSED_BACKUP_FILE_EXTENSION, encrypted };
+    }
+    return { content: encoded, encoding: 'utf-8', extension: BACKUP_FILE_EXTENSION, encrypted };
+  }
+
+  /**
+   * 读取并解析存储位置中的备份文件
+   * 加密备份使用已保存的口令透明解密，压缩备份（.json.gz）按压缩与加密的顺序解压
+   */
+  private async readBackupFile(
+    provider: StorageProvider,
+    filePath: string
+  ): Promise<any> {
+    const compressed = isCompressedBackupFile(filePath);
+    const rawContent = await provider.readFile(filePath, compressed ? 'base64' : 'utf-8');
+    const fileContent = compressed
+      ? await readCompressedBackupFile(rawContent)
+      : rawContent;
+    // 关闭加密后仍可能需要读取以前的加密备份，因此总是取出已保存的口令
+    const passphraseResult = await storageService.getBackupPassphrase();
+    const content = await decryptBackupContent(
+      fileContent,
+      passphraseResult.success ? passphraseResult.data : null
+    );
+    // 先压缩后加密的备份，解密后得到 gzip 数据
+    return JSON.parse(compressed && isCompressedBackupContent(content)
+      ? await decompressBackupContent(content)
+      : content);
+  }
+
+  /**
+   * 尝试生成增量备份数据
+   * 未开启增量模式、没有可用基线或到达检查点间隔时返回 null，调用方应写入完整备份
+   */
+  private async createDeltaBackupData(
+    provider: StorageProvider,
+    current: BookmarkBackup,
+    folder: string
+  ): Promise<BookmarkDeltaBackup | null> {
+    const settingsResult = await storageService.getSettings();
+    const backupSettings = settingsResult.success ? settingsResult.data?.backup : undefined;
+    // 无法读回文件的存储位置（本地下载）恢复时只能上传单个文件，始终写入完整备份
+    if (backupSettings?.mode !== 'incremental' || provider.writeOnly) {
+      return null;
+    }
+
+    const checkpointInterval = Math.max(1, backupSettings.checkpointInterval || DEFAULT_CHECKPOINT_INTERVAL);
+
+    try {
+      const files = await provider.listFiles(folder);
+      const latestFile = files
+        .filter(file => this.isTimestampedBookmarksBackupFile(file.name))
+        .sort((a, b) => this.parseBookmarksBackupTimestamp(b.name) - this.parseBookmarksBackupTimestamp(a.name))[0];
+      if (!latestFile) {
+        return null;
+      }
+
+      // 优先使用本地缓存的基线，缓存对应的不是仓库中最新的文件时再从仓库回放
+      let base: { bookmarks: BookmarkItem[]; checkpointFile: string; sequence: number };
+      const cacheResult = await storageService.getStorageData(INCREMENTAL_BASE_CACHE_KEY);
+      if (cacheResult.success && cacheResult.data?.filePath === latestFile.path) {
+        base = cacheResult.data;
+      } else {
+        const chain = await this.loadBookmarksBackupChain(provider, latestFile.path);
+        base = { bookmarks: chain.backup.bookmarks, checkpointFile: chain.checkpointFile, sequence: chain.sequence };
+      }
+
+      const sequence = base.sequence + 1;
+      if (sequence >= checkpointInterval) {
+        console.log(`已连续 ${base.sequence} 次增量备份，本次写入完整检查点`);
+        return null;
+      }
+
+      return {
+        version: '1.0',
+        type: 'delta',
+        timestamp: current.timestamp,
+        source: current.source,
+        baseFile: latestFile.path,
+        checkpointFile: base.checkpointFile,
+        sequence,
+        diff: diffBookmarkTrees(base.bookmarks, current.bookmarks),
+        metadata: current.metadata
+      };
+    } catch (error) {
+      console.warn('无法计算增量备份，改为完整备份:', error);
+      return null;
+    }
+  }
+
   /**
    * 解析“最新书签备份文件路径”
    * 优先选择时间戳备份文件；若不存在，回退到历史的 latest 文件名。
    */
   private async resolveLatestBookmarksBackupFilePath(
-    credentials: GitHubCredentials,
-    username: string
+    provider: StorageProvider
   ): Promise<string> {
-    const files = await githubService.getRepositoryFiles(
-      credentials,
-      username,
-      DEFAULT_BACKUP_REPO,
-      'bookmarks'
-    );
+    const files = await provider.listFiles(getBackupFolder(await this.getBackupLayout(), BackupType.BOOKMARKS));
 
     const timestampedFiles = files.filter(file => this.isTimestampedBookmarksBackupFile(file.name));
     if (timestampedFiles.length > 0) {
@@ -82,6 +353,159 @@ class BackupService {
     throw new Error('未找到可恢复的书签备份文件，请先进行备份');
   }
 
+  /**
+   * 书签内容是否与存储位置中最近一次备份相同
+   * 备份状态中的内容哈希一致，且最新的远程备份仍是该次备份写入的文件时，认为没有变化
+   */
+  private async isUnchangedSinceLastBackup(provider: StorageProvider, contentHash?: string): Promise<boolean> {
+    if (!contentHash) return false;
+
+    const statusResult = await storageService.getBackupStatus();
+    const status: BackupStatus = statusResult.success ? statusResult.data : {};
+    if (status.contentHash !== contentHash || !status.lastBackupFilePath) {
+      return false;
+    }
+
+    try {
+      return await this.resolveLatestBookmarksBackupFilePath(provider) === status.lastBackupFilePath;
+    } catch (error) {
+      // 无法确认远程备份时照常备份
+      console.warn('无法获取最新的远程备份，继续备份:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 解析要恢复的书签备份文件路径：只指定了文件名时补全书签备份文件夹，未指定时使用最新备份
+   */
+  private async resolveBookmarksRestoreFilePath(
+    provider: StorageProvider,
+    filePath?: string
+  ): Promise<string> {
+    if (filePath) {
+      return filePath.includes('/')
+        ? filePath
+        : joinBackupPath(getBackupFolder(await this.getBackupLayout(), BackupType.BOOKMARKS), filePath);
+    }
+    return this.resolveLatestBookmarksBackupFilePath(provider);
+  }
+
+  /**
+   * 从备份数据中找出要恢复到书签栏的书签
+   */
+  private selectBookmarksToRestore(backupData: BookmarkBackup): BookmarkItem[] {
+    // 从备份中查找合适的书签数据
+    let bookmarksToRestore: BookmarkItem[] = [];
+
+    // 尝试方法1: 查找标题为"书签栏"的项
+    const bookmarkBarInBackup = findBookmarkBar(
+      backupData.bookmarks.flatMap((root: BookmarkItem) => root.children || [])
+    );
+
+    if (bookmarkBarInBackup && bookmarkBarInBackup.children) {
+      console.log('方法1: 从备份中找到书签栏:', bookmarkBarInBackup.title);
+      bookmarksToRestore = bookmarkBarInBackup.children;
+    } else {
+      // 尝试方法2: 使用备份根节点的第一个子节点的子节点
+      console.log('方法1失败，尝试方法2');
+      if (backupData.bookmarks[0] && backupData.bookmarks[0].children) {
+        // 通常第一个子节点会是书签栏
+        const firstChild = backupData.bookmarks[0].children[0];
+        if (firstChild && firstChild.children) {
+          console.log('方法2: 使用第一个子节点的子节点');
+          bookmarksToRestore = firstChild.children;
+        } else if (backupData.bookmarks[0].children) {
+          // 如果第一个子节点没有子节点，使用所有子节点
+          console.log('方法2: 使用所有子节点');
+          bookmarksToRestore = backupData.bookmarks[0].children;
+        }
+      }
+    }
+
+    // 方法3: 最后尝试用直接的书签数据
+    if (bookmarksToRestore.length === 0) {
+      console.log('方法3: 直接使用根书签数据');
+      // 如果前两种方法都找不到，直接使用根书签数据
+      if (backupData.bookmarks[0] && backupData.bookmarks[0].children) {
+        bookmarksToRestore = backupData.bookmarks[0].children;
+      } else {
+        bookmarksToRestore = backupData.bookmarks;
+      }
+    }
+
+    if (bookmarksToRestore.length === 0) {
+      throw new Error('备份数据中找不到可恢复的书签');
+    }
+
+    return bookmarksToRestore;
+  }
+
+  /**
+   * 规划书签恢复：把备份中选中的根目录映射到当前浏览器的根目录，按目标根目录分组
+   * 书签栏沿用 selectBookmarksToRestore 的识别逻辑，兼容旧格式备份
+   * @param backupData 备份数据
+   * @param liveRoots 当前浏览器的根目录（含子节点）
+   * @param kinds 要恢复的根目录类型
+   */
+  private planBookmarksRestore(
+    backupData: BookmarkBackup,
+    liveRoots: BookmarkItem[],
+    kinds: BookmarkRootKind[]
+  ): RootRestorePlan[] {
+    const plans = new Map<string, RootRestorePlan>();
+    const planFor = (target: BookmarkItem): RootRestorePlan => {
+      let plan = plans.get(target.id);
+      if (!plan) {
+        plan = { target, items: [], replaceAll: false, wrappedTitles: new Set() };
+        plans.set(target.id, plan);
+      }
+      return plan;
+    };
+
+    if (kinds.includes('toolbar')) {
+      // 兼容 Chrome/Edge/Firefox：按 ID + 标题双策略识别书签栏。
+      const bookmarkBar = findBookmarkBar(liveRoots);
+      if (!bookmarkBar) {
+        throw new Error('找不到书签栏，无法恢复书签');
+      }
+      console.log('找到书签栏:', bookmarkBar.id, bookmarkBar.title);
+
+      const plan = planFor(bookmarkBar);
+      plan.items.push(...this.selectBookmarksToRestore(backupData));
+      plan.replaceAll = true;
+    }
+
+    const backupRoots = backupData.bookmarks.flatMap((root: BookmarkItem) => root.children || []);
+    for (const mapping of mapBookmarkRoots(backupRoots, liveRoots)) {
+      if (mapping.kind === 'toolbar' || !kinds.includes(mapping.kind)) continue;
+
+      const source = backupRoots.find(root => root.id === mapping.sourceId);
+      const target = liveRoots.find(root => root.id === mapping.targetId);
+      if (!source || !target) continue;
+
+      const plan = planFor(target);
+      if (mapping.wrapped) {
+        plan.items.push({ id: source.id, title: source.title, isFolder: true, children: source.children || [] });
+        plan.wrappedTitles.add(source.title);
+      } else {
+        plan.items.push(...(source.children || []));
+        plan.replaceAll = true;
+      }
+    }
+
+    return Array.from(plans.values());
+  }
+
+  /**
+   * 恢复计划在目标根目录下涉及的现有节点：整个根目录，或仅与包装文件夹同名的文件夹
+   */
+  private getPlanScope(plan: RootRestorePlan): BookmarkItem[] {
+    const children = plan.target.children || [];
+    return plan.replaceAll
+      ? children
+      : children.filter(child => child.isFolder && plan.wrappedTitles.has(child.title));
+  }
+
   /**
    * 创建书签备份
    * @returns 序列化的书签备份数据
@@ -125,7 +549,8 @@ class BackupService {
       bookmarks,
       metadata: {
         totalBookmarks,
-        totalFolders
+        totalFolders,
+        contentHash: await hashBookmarkTree(bookmarks)
       }
     };
 
@@ -150,148 +575,190 @@ class BackupService {
   }
 
   /**
-   * 备份到GitHub
-   * @param credentials GitHub认证凭据
-   * @param username GitHub用户名
+   * 生成备份文件名中的时间戳（YYYYMMDDHHMMSS）
+   */
+  private formatBackupTimestamp(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    const seconds = String(date.getSeconds()).padStart(2, '0');
+
+    return `${year}${month}${day}${hours}${minutes}${seconds}`;
+  }
+
+  /**
+   * 生成待上传的备份文件
+   * 书签备份在增量模式下只包含与上一个备份的差异，并定期写入完整检查点
+   * @param timestamp 文件名中的时间戳
+   * @param layout 备份文件布局
+   * @param bookmarksData 已生成的书签备份数据，不传时重新读取书签
+   */
+  private async prepareBackupFile(
+    provider: StorageProvider,
+    type: BackupType,
+    timestamp: string,
+    layout: BackupLayout,
+    bookmarksData?: BookmarkBackup
+  ): Promise<PreparedBackupFile> {
+    const isSettings = type === BackupType.SETTINGS;
+    const folder = getBackupFolder(layout, type);
+    const backupData = isSettings
+      ? await this.createSettingsBackupData()
+      : bookmarksData || await this.createBackupData();
+
+    const deltaData = isSettings
+      ? null
+      : await this.createDeltaBackupData(provider, backupData, folder);
+
+    // 序列化数据，按设置在本地加密、压缩后再上传
+    const encoded = await this.encodeBackupContent(JSON.stringify(deltaData || backupData, null, 2));
+    const fileName = `${type}_${deltaData ? 'delta' : 'backup'}_${timestamp}${encoded.extension}`;
+
+    return {
+      type,
+      path: joinBackupPath(folder, fileName),
+      content: encoded.content,
+      encoding: encoded.encoding,
+      encrypted: encoded.encrypted,
+      description: isSettings ? '配置' : '书签',
+      backupData,
+      deltaData
+    };
+  }
+
+  /**
+   * 保存备份状态
+   * 配置备份状态存储在另一个键中，避免与书签备份状态混淆
+   */
+  private async saveTypedBackupStatus(type: BackupType, status: BackupStatus): Promise<void> {
+    if (type === BackupType.SETTINGS) {
+      await storageService.setStorageData('settings_backup_status', status);
+    } else {
+      await storageService.saveBackupStatus(status);
+    }
+  }
+
+  /**
+   * 备份文件上传成功后保存备份状态，书签备份同时缓存增量基线，并按保留策略清理旧备份
+   * @returns 被清理的旧备份文件路径
+   */
+  private async finishBackup(
+    provider: StorageProvider,
+    file: PreparedBackupFile,
+    status: BackupStatus
+  ): Promise<string[]> {
+    await this.saveTypedBackupStatus(file.type, status);
+
+    if (file.type === BackupType.BOOKMARKS) {
+      // 缓存本次备份后的书签树，作为下一次增量备份的基线（写入失败时下次从仓库回放）
+      await storageService.setStorageData(INCREMENTAL_BASE_CACHE_KEY, {
+        filePath: file.path,
+        checkpointFile: file.deltaData ? file.deltaData.checkpointFile : file.path,
+        sequence: file.deltaData ? file.deltaData.sequence : 0,
+        bookmarks: file.backupData.bookmarks
+      });
+    }
+
+    // 按保留策略清理旧备份文件
+    try {
+      const cleanupResult = await this.cleanupOldBackups(provider, file.type);
+
+      if (cleanupResult.deletedCount > 0) {
+        console.log(`已清理 ${cleanupResult.deletedCount} 个旧的 ${file.type} 备份文件`);
+      }
+      return cleanupResult.deletedFiles;
+    } catch (cleanupError) {
+      // 清理失败不应影响备份结果，只记录日志
+      console.error('清理旧备份文件失败:', cleanupError);
+      return [];
+    }
+  }
+
+  /**
+   * 备份到存储位置
+   * @param provider 备份存储位置
    * @param type 备份类型 (bookmarks 或 settings)
    * @returns 备份结果
    */
-  async backupToGitHub(
-    credentials: GitHubCredentials,
-    username: string,
+  async backupToStorage(
+    provider: StorageProvider,
     type: BackupType = BackupType.BOOKMARKS
   ): Promise<BackupResult> {
     try {
-      // 1. 创建备份数据 (根据类型)
-      let backupData: any;
-      let backupFolder: string;
-      let backupDescription: string;
-
-      if (type === BackupType.SETTINGS) {
-        backupData = await this.createSettingsBackupData();
-        backupFolder = SETTINGS_FOLDER_PATH;
-        backupDescription = '配置';
-      } else {
-        backupData = await this.createBackupData();
-        backupFolder = 'bookmarks';
-        backupDescription = '书签';
-      }
+      // 1. 确保存储库存在
+      await provider.ensureContainer();
 
-      // 2. 确保存储库存在
-      const repoExists = await githubService.repoExists(credentials, username, DEFAULT_BACKUP_REPO);
-      if (!repoExists) {
-        // 创建新存储库
-        try {
-          const createRepoResult = await githubService.createRepo(credentials, DEFAULT_BACKUP_REPO, true);
-
-          // 检查创建结果中是否有_repoExisted标记，表示仓库已存在但成功获取了信息
-          if (createRepoResult._repoExisted) {
-            console.log('仓库已存在，使用现有仓库');
-          } else {
-            // 给存储库一些时间初始化
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        } catch (repoError) {
-          // 如果创建仓库失败，再次检查仓库是否存在
-          console.error('创建仓库失败，再次检查仓库是否存在:', repoError);
-          const recheckedExists = await githubService.repoExists(credentials, username, DEFAULT_BACKUP_REPO);
-
-          if (!recheckedExists) {
-            // 如果确实不存在，则抛出原始错误
-            throw repoError;
-          } else {
-            console.log('仓库已存在，继续备份流程');
-          }
-        }
+      // 2. 书签与最近一次备份相同时不再上传，避免产生重复的备份文件
+      // 在计算增量、加密和压缩之前比较书签树的哈希，没有变化时不做这些工作
+      const bookmarksData = type === BackupType.BOOKMARKS ? await this.createBackupData() : undefined;
+      if (bookmarksData && await this.isUnchangedSinceLastBackup(provider, bookmarksData.metadata?.contentHash)) {
+        console.log('书签自上次备份以来没有变化，跳过备份');
+        return {
+          success: true,
+          data: {
+            skipped: true,
+            timestamp: bookmarksData.timestamp
+          },
+          timestamp: bookmarksData.timestamp
+        };
       }
 
-      // 3. 序列化数据
-      const backupContent = JSON.stringify(backupData, null, 2);
-
-      // 4. 生成带详细时间戳的文件路径
+      // 3. 生成带详细时间戳的备份文件
       const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, '0');
-      const day = String(now.getDate()).padStart(2, '0');
-      const hours = String(now.getHours()).padStart(2, '0');
-      const minutes = String(now.getMinutes()).padStart(2, '0');
-      const seconds = String(now.getSeconds()).padStart(2, '0');
-
-      const timestamp = `${year}${month}${day}${hours}${minutes}${seconds}`;
-      const fileName = `${type}_backup_${timestamp}.json`;
-      // 将文件保存到对应文件夹
-      const backupFilePath = `${backupFolder}/${fileName}`;
-
-      // GitHub API对于不存在的目录会自动创建
-      // 但我们可以先检查目录是否存在于仓库中
-      // 5. 上传新备份文件
-      console.log(`开始上传备份文件: ${backupFilePath}`);
+      const file = await this.prepareBackupFile(
+        provider,
+        type,
+        this.formatBackupTimestamp(now),
+        await this.getBackupLayout(),
+        bookmarksData
+      );
+      const contentHash = file.backupData.metadata?.contentHash;
+
+      // 4. 上传新备份文件
+      console.log(`开始上传备份文件: ${file.path}`);
       try {
-        const uploadResult = await githubService.createOrUpdateFile(
-          credentials,
-          username,
-          DEFAULT_BACKUP_REPO,
-          backupFilePath,
-          backupContent,
-          `添加${backupDescription}备份 - ${now.toLocaleString()}`
+        const uploadResult = await provider.writeFile(
+          file.path,
+          file.content,
+          `添加${file.description}${file.deltaData ? '增量' : ''}备份 - ${now.toLocaleString()}`,
+          file.encoding
         );
         console.log('备份文件上传成功');
 
-        // 6. 保存备份状态
-        const backupStatus: BackupStatus = {
+        // 5. 保存备份状态并清理旧备份
+        const deletedBackups = await this.finishBackup(provider, file, {
           lastBackupTime: now.getTime(),
-          backupFileUrl: uploadResult.content.html_url,
-          lastBackupFilePath: backupFilePath,
+          backupFileUrl: uploadResult.url,
+          lastBackupFilePath: file.path,
+          contentHash,
           lastOperationStatus: 'success'
-        };
-
-        if (type === BackupType.SETTINGS) {
-          // 配置备份状态存储在另一个键中，避免与书签备份状态混淆
-          await storageService.setStorageData('settings_backup_status', backupStatus);
-        } else {
-          await storageService.saveBackupStatus(backupStatus);
-        }
-
-        // 清理超出限制的旧备份文件
-        try {
-          const cleanupResult = await this.cleanupOldBackups(
-            credentials,
-            username,
-            type
-          );
-
-          if (cleanupResult.deletedCount > 0) {
-            console.log(`已清理 ${cleanupResult.deletedCount} 个旧的 ${type} 备份文件`);
-          }
-        } catch (cleanupError) {
-          // 清理失败不应影响备份结果，只记录日志
-          console.error('清理旧备份文件失败:', cleanupError);
-        }
+        });
 
-        // 7. 返回成功结果
+        // 6. 返回成功结果
         return {
           success: true,
           data: {
-            fileUrl: uploadResult.content.html_url,
-            timestamp: backupData.timestamp,
-            filePath: backupFilePath
+            fileUrl: uploadResult.url,
+            timestamp: file.backupData.timestamp,
+            filePath: file.path,
+            incremental: !!file.deltaData,
+            deletedBackups,
+            commitSha: uploadResult.commitSha,
+            commitUrl: uploadResult.commitUrl,
+            bytesUploaded: getUploadSize(file.content, file.encoding)
           },
-          timestamp: backupData.timestamp
+          timestamp: file.backupData.timestamp
         };
       } catch (uploadError) {
         console.error(`上传备份文件失败:`, uploadError);
 
         // 保存失败状态
-        const backupStatus: BackupStatus = {
+        await this.saveTypedBackupStatus(type, {
           lastOperationStatus: 'failed',
           errorMessage: uploadError instanceof Error ? uploadError.message : String(uploadError)
-        };
-
-        if (type === BackupType.SETTINGS) {
-          await storageService.setStorageData('settings_backup_status', backupStatus);
-        } else {
-          await storageService.saveBackupStatus(backupStatus);
-        }
+        });
 
         return {
           success: false,
@@ -302,397 +769,1094 @@ class BackupService {
       console.error(`${type}备份失败:`, error);
 
       // 保存失败状态
-      const backupStatus: BackupStatus = {
+      await this.saveTypedBackupStatus(type, {
         lastOperationStatus: 'failed',
         errorMessage: error instanceof Error ? error.message : String(error)
+      });
+
+      return {
+        success: false,
+        error: `备份失败: ${error instanceof Error ? error.message : String(error)}`
       };
+    }
+  }
 
-      if (type === BackupType.SETTINGS) {
-        await storageService.setStorageData('settings_backup_status', backupStatus);
-      } else {
-        await storageService.saveBackupStatus(backupStatus);
+  /**
+   * 同时备份书签与配置到存储位置
+   * 书签备份、配置备份与清单文件批量写入，GitHub 上通过 Git Data API 在同一次提交中完成，不会出现只写入一部分的情况
+   * 书签与最近一次备份相同时与 backupToStorage 一样跳过整次备份
+   * @param provider 备份存储位置
+   * @param commitMessage 提交消息，留空时自动生成
+   * @returns 备份结果
+   */
+  async backupAllToStorage(
+    provider: StorageProvider,
+    commitMessage?: string
+  ): Promise<BackupResult> {
+    try {
+      // 1. 确保存储库存在
+      await provider.ensureContainer();
+
+      // 书签没有变化时不再生成和上传备份文件
+      const bookmarksData = await this.createBackupData();
+      if (await this.isUnchangedSinceLastBackup(provider, bookmarksData.metadata?.contentHash)) {
+        console.log('书签自上次备份以来没有变化，跳过备份');
+        return {
+          success: true,
+          data: {
+            skipped: true,
+            timestamp: bookmarksData.timestamp
+          },
+          timestamp: bookmarksData.timestamp
+        };
+      }
+
+      // 2. 使用相同时间戳生成书签与配置备份文件
+      const now = new Date();
+      const timestamp = this.formatBackupTimestamp(now);
+      const layout = await this.getBackupLayout();
+      const manifestPath = getBackupManifestPath(layout);
+      const bookmarksFile = await this.prepareBackupFile(provider, BackupType.BOOKMARKS, timestamp, layout, bookmarksData);
+      const settingsFile = await this.prepareBackupFile(provider, BackupType.SETTINGS, timestamp, layout);
+
+      // 3. 清单只记录文件路径与格式，不包含书签内容
+      const manifest: BackupManifest = {
+        app: 'MarksVault',
+        version: 1,
+        timestamp: now.getTime(),
+        files: {
+          bookmarks: {
+            path: bookmarksFile.path,
+            incremental: !!bookmarksFile.deltaData,
+            encrypted: bookmarksFile.encrypted
+          },
+          settings: {
+            path: settingsFile.path,
+            incremental: false,
+            encrypted: settingsFile.encrypted
+          }
+        }
+      };
+
+      // 4. 一次提交写入全部文件
+      console.log(`开始提交备份文件: ${bookmarksFile.path}, ${settingsFile.path}`);
+      const changes: StorageFileChange[] = [
+        { path: bookmarksFile.path, content: bookmarksFile.content, encoding: bookmarksFile.encoding },
+        { path: settingsFile.path, content: settingsFile.content, encoding: settingsFile.encoding },
+        { path: manifestPath, content: JSON.stringify(manifest, null, 2) }
+      ];
+      const writeResult = await provider.writeFiles(
+        changes,
+        commitMessage || `添加书签与配置备份 - ${now.toLocaleString()}`
+      );
+      console.log('备份提交成功:', writeResult.url);
+
+      // 5. 分别保存两类备份的状态并清理旧备份
+      const deletedBackups: string[] = [];
+      for (const file of [bookmarksFile, settingsFile]) {
+        deletedBackups.push(...await this.finishBackup(provider, file, {
+          lastBackupTime: now.getTime(),
+          backupFileUrl: writeResult.fileUrls?.[file.path] ?? writeResult.url,
+          lastBackupFilePath: file.path,
+          contentHash: file.backupData.metadata?.contentHash,
+          lastOperationStatus: 'success'
+        }));
+      }
+
+      return {
+        success: true,
+        data: {
+          fileUrl: writeResult.url,
+          timestamp: now.getTime(),
+          filePath: bookmarksFile.path,
+          settingsFilePath: settingsFile.path,
+          manifestPath,
+          incremental: !!bookmarksFile.deltaData,
+          deletedBackups,
+          commitSha: writeResult.commitSha,
+          commitUrl: writeResult.commitUrl,
+          bytesUploaded: changes.reduce((total, change) => total + getUploadSize(change.content || '', change.encoding), 0)
+        },
+        timestamp: now.getTime()
+      };
+    } catch (error) {
+      console.error('书签与配置备份失败:', error);
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      for (const type of [BackupType.BOOKMARKS, BackupType.SETTINGS]) {
+        await this.saveTypedBackupStatus(type, { lastOperationStatus: 'failed', errorMessage });
       }
 
       return {
         success: false,
-        error: `备份失败: ${error instanceof Error ? error.message : String(error)}`
+        error: `备份失败: ${errorMessage}`
       };
     }
   }
 
   /**
-   * 从GitHub恢复
-   * @param credentials GitHub认证凭据
-   * @param username GitHub用户名
+   * 从存储位置恢复
+   * @param provider 备份存储位置
    * @param type 恢复类型 (bookmarks 或 settings)
    * @param useTimestampedFile 是否使用带时间戳的文件而不是最新文件
    * @param timestampedFilePath 带时间戳的文件路径(如果useTimestampedFile为true)
+   * @param options 书签恢复选项（恢复策略等），仅对书签恢复生效
    * @returns 恢复结果
    */
-  async restoreFromGitHub(
-    credentials: GitHubCredentials,
-    username: string,
+  async restoreFromStorage(
+    provider: StorageProvider,
     useTimestampedFile: boolean = false,
     timestampedFilePath?: string,
-    type: BackupType = BackupType.BOOKMARKS
+    type: BackupType = BackupType.BOOKMARKS,
+    options: BookmarkRestoreOptions = {}
   ): Promise<BackupResult> {
     if (type === BackupType.SETTINGS) {
-      return this.restoreSettingsFromGitHub(credentials, username, useTimestampedFile, timestampedFilePath);
+      return this.restoreSettingsFromStorage(provider, useTimestampedFile, timestampedFilePath);
     } else {
-      return this.restoreBookmarksFromGitHub(credentials, username, useTimestampedFile, timestampedFilePath);
+      return this.restoreBookmarksFromStorage(provider, useTimestampedFile, timestampedFilePath, options);
     }
   }
 
   /**
-   * 从GitHub恢复配置（历史类型名为 SETTINGS）
-   * @param credentials GitHub认证凭据
-   * @param username GitHub用户名
+   * 从存储位置恢复配置（历史类型名为 SETTINGS）
+   * @param provider 备份存储位置
    * @param useTimestampedFile 是否使用带时间戳的文件
    * @param timestampedFilePath 带时间戳的文件路径
    * @returns 恢复结果
    */
-  private async restoreSettingsFromGitHub(
-    credentials: GitHubCredentials,
-    username: string,
+  private async restoreSettingsFromStorage(
+    provider: StorageProvider,
     useTimestampedFile: boolean = false,
     timestampedFilePath?: string
   ): Promise<BackupResult> {
     try {
       // 1. 确保存储库存在
-      const repoExists = await githubService.repoExists(credentials, username, DEFAULT_BACKUP_REPO);
+      const repoExists = await provider.containerExists();
       if (!repoExists) {
         throw new Error('备份存储库不存在，请先进行备份');
       }
 
       let filePath: string;
+      const settingsFolder = getBackupFolder(await this.getBackupLayout(), BackupType.SETTINGS);
 
       if (useTimestampedFile && timestampedFilePath) {
         // 如果指定了时间戳文件，使用指定的文件
-        filePath = timestampedFilePath.startsWith(SETTINGS_FOLDER_PATH) ?
-          timestampedFilePath : `${SETTINGS_FOLDER_PATH}/${timestampedFilePath}`;
+        filePath = timestampedFilePath.includes('/') ?
+          timestampedFilePath : joinBackupPath(settingsFolder, timestampedFilePath);
       } else {
         // 否则，获取配置备份文件夹中的所有文件，找到最新的备份文件
-        console.log(`尝试获取目录内容: ${SETTINGS_FOLDER_PATH}`);
+        console.log(`尝试获取目录内容: ${settingsFolder}`);
         try {
-          const files = await githubService.getRepositoryFiles(
-            credentials,
-            username,
-            DEFAULT_BACKUP_REPO,
-            SETTINGS_FOLDER_PATH
-          );
+          const files = await provider.listFiles(settingsFolder);
 
           console.log(`获取到${files.length}个文件:`, files.map(f => f.name).join(', '));
 
           // 过滤获取所有配置备份文件（历史命名为 settings_backup_）
           const settingsBackupFiles = files.filter(
-            file => file.name.startsWith('settings_backup_') && file.name.endsWith('.json')
+            file => file.name.startsWith('settings_backup_') && hasBackupFileExtension(file.name)
           );
 
-          console.log(`找到${settingsBackupFiles.length}个配置备份文件`);
+          console.log(`找到${settingsBackupFiles.length}个配置备份文件`);
+
+          if (settingsBackupFiles.length === 0) {
+            throw new Error('未找到配置备份文件，请先进行备份');
+          }
+
+          // 解析文件名中的时间戳，以便找到最新文件
+          const parseTimestamp = (filename: string): number => {
+            const match = filename.match(/settings_backup_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json(?:\.gz)?$/);
+            if (match) {
+              const [_, year, month, day, hour, minute, second] = match;
+              return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}`).getTime();
+            }
+            return 0;
+          };
+
+          // 按时间戳降序排序文件，取第一个（最新的）
+          const latestFile = settingsBackupFiles
+            .sort((a, b) => parseTimestamp(b.name) - parseTimestamp(a.name))[0];
+
+          filePath = latestFile.path;
+          console.log(`选择最新的配置备份文件: ${filePath}`);
+        } catch (error) {
+          console.error('获取仓库文件列表失败:', error);
+          throw new Error(`获取仓库文件列表失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      // 2. 获取备份文件内容
+      console.log('尝试获取配置备份文件:', filePath);
+      // 3. 解析备份数据（加密备份会先解密）
+      const backupData = await this.readBackupFile(provider, filePath);
+
+      // 4. 兼容两种格式：
+      // - 新版：配置快照（schemaVersion/app/local...），复用 storageService.importConfig
+      // - 旧版：仅 settings（backupData.settings），保持兼容
+      const looksLikeConfig = backupData
+        && typeof backupData === 'object'
+        && backupData.schemaVersion === 1
+        && backupData.app === 'MarksVault'
+        && backupData.local
+        && typeof backupData.local === 'object';
+
+      if (looksLikeConfig) {
+        const result = await storageService.importConfig(backupData, { importLocalStorage: false });
+        if (!result.success) {
+          throw new Error(`导入配置失败: ${result.error}`);
+        }
+      } else if (backupData.settings && typeof backupData.settings === 'object') {
+        const result = await storageService.saveSettings(backupData.settings);
+        if (!result.success) {
+          throw new Error(`保存设置失败: ${result.error}`);
+        }
+      } else {
+        throw new Error('备份文件格式不正确');
+      }
+
+      // 6. 保存恢复状态
+      const now = new Date();
+      const restoreStatus: BackupStatus = {
+        lastRestoreTime: now.getTime(),
+        lastOperationStatus: 'success'
+      };
+
+      await storageService.setStorageData('settings_backup_status', restoreStatus);
+
+      // 7. 返回成功结果
+      return {
+        success: true,
+        data: {
+          timestamp: typeof backupData?.timestamp === 'number'
+            ? backupData.timestamp
+            : Date.now(),
+          filePath
+        },
+        timestamp: typeof backupData?.timestamp === 'number'
+          ? backupData.timestamp
+          : undefined
+      };
+    } catch (error) {
+      console.error('配置恢复失败:', error);
+
+      // 保存失败状态
+      const restoreStatus: BackupStatus = {
+        lastOperationStatus: 'failed',
+        errorMessage: error instanceof Error ? error.message : String(error)
+      };
+
+      await storageService.setStorageData('settings_backup_status', restoreStatus);
+
+      return {
+        success: false,
+          error: `恢复失败: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * 从存储位置恢复书签
+   * @param provider 备份存储位置
+   * @param useTimestampedFile 是否使用带时间戳的文件而不是最新文件
+   * @param timestampedFilePath 带时间戳的文件路径(如果useTimestampedFile为true)
+   * @param options 书签恢复选项
+   * @returns 恢复结果
+   */
+  private async restoreBookmarksFromStorage(
+    provider: StorageProvider,
+    useTimestampedFile: boolean = false,
+    timestampedFilePath?: string,
+    options: BookmarkRestoreOptions = {}
+  ): Promise<BackupResult> {
+    try {
+      // 1. 确保存储库存在
+      const repoExists = await provider.containerExists();
+      if (!repoExists) {
+        throw new Error('备份存储库不存在，请先进行备份');
+      }
+
+      // 2. 获取备份文件内容
+      const filePath = await this.resolveBookmarksRestoreFilePath(
+        provider,
+        useTimestampedFile ? timestampedFilePath : undefined
+      );
+
+      // 3. 解析备份数据（增量备份会从检查点开始回放），并验证数据格式
+      const { backup: backupData } = await this.loadBookmarksBackupChain(provider, filePath);
+
+      console.log('备份数据结构:', JSON.stringify(backupData.bookmarks.map((b: BookmarkItem) => ({ id: b.id, title: b.title, children: b.children?.length || 0 }))));
+
+      // 5. 执行恢复操作
+      // 5.1 获取书签根文件夹
+      const rootsResult = await bookmarkService.getBookmarkRoots();
+      if (!rootsResult.success || !rootsResult.data) {
+        throw new Error(`获取书签根文件夹失败: ${rootsResult.error}`);
+      }
+
+      const roots = rootsResult.data;
+      console.log('浏览器书签根:', JSON.stringify(roots.map((r: BookmarkItem) => ({ id: r.id, title: r.title }))));
+
+      // 5.2 把备份中选中的根目录映射到当前浏览器，准备要恢复的书签数据
+      const kinds: BookmarkRootKind[] = options.roots && options.roots.length > 0 ? options.roots : ['toolbar'];
+      const plans = this.planBookmarksRestore(backupData, roots, kinds);
+      if (plans.length === 0) {
+        throw new Error('备份中找不到所选的根目录');
+      }
+
+      const restoredCount = plans.reduce((sum, plan) => sum + plan.items.length, 0);
+      console.log(`准备恢复 ${restoredCount} 个书签项到 ${plans.length} 个根目录`);
+
+      // 试运行：不保存快照，也不修改书签和恢复状态
+      if (options.dryRun) {
+        return await this.planBookmarksRestoreChanges(plans, options, {
+          timestamp: backupData.timestamp,
+          bookmarksCount: backupData.metadata?.totalBookmarks || restoredCount,
+          roots: kinds
+        });
+      }
+
+      // 5.3 删除或修改任何书签之前，先把涉及的根目录完整保存到本地，用于失败回滚和撤销
+      const snapshot: RestoreSnapshot = {
+        timestamp: Date.now(),
+        roots: plans.map(plan => ({ rootId: plan.target.id, bookmarks: plan.target.children || [] })),
+        filePath
+      };
+      const snapshotResult = await storageService.setStorageData(RESTORE_SNAPSHOT_STORAGE_KEY, snapshot);
+      if (!snapshotResult.success) {
+        throw new Error(`保存恢复前快照失败，已取消恢复: ${snapshotResult.error || '未知错误'}`);
+      }
+
+      // 5.4 开始恢复过程，记录每一步改动，回滚与撤销时只回退这些改动，未涉及的书签保持原ID
+      const merge = options.strategy === 'merge';
+      const mergeResult: BookmarkMergeResult = { created: 0, kept: 0, removed: 0 };
+      const changeLog: RestoreChangeLog = { created: [], removed: [] };
+      try {
+        for (const plan of plans) {
+          const scope = this.getPlanScope(plan);
+
+          if (merge) {
+            // 合并恢复：不清空根目录，只补齐缺失的书签
+            await this.mergeBookmarks(scope, plan.items, plan.target.id, !!options.removeAbsent, mergeResult, undefined, changeLog);
+            continue;
+          }
+
+          // 先移除现有书签
+          console.log(`${plan.target.title} 中有 ${scope.length} 个书签项将被清除`);
+          for (const child of scope) {
+            const removeResult = await bookmarkService.removeBookmarkTree(child.id);
+            if (!removeResult.success) {
+              throw new Error(`删除现有书签失败: ${child.title || child.id} (${removeResult.error || '未知错误'})`);
+            }
+            changeLog.removed.push({
+              parentId: plan.target.id,
+              index: child.index ?? (plan.target.children || []).indexOf(child),
+              node: child
+            });
+          }
+
+          // 恢复书签
+          await this.createBookmarkTree(plan.items, plan.target.id, changeLog.created);
+        }
+        console.log(merge ? '合并恢复完成:' : '成功恢复书签', merge ? mergeResult : '');
+      } catch (restoreError) {
+        console.error('恢复过程中发生错误，正在回滚到恢复前的书签:', restoreError);
+        const message = restoreError instanceof Error ? restoreError.message : String(restoreError);
+
+        const rollbackResult = await this.restoreSnapshot({ ...snapshot, changes: changeLog });
+        if (!rollbackResult.success) {
+          // 回滚失败时保留快照，用户仍可通过“撤销上次恢复”重试
+          throw new Error(`${message}；自动回滚失败: ${rollbackResult.error}`);
+        }
+
+        await storageService.setStorageData(RESTORE_SNAPSHOT_STORAGE_KEY, null);
+        throw new Error(`${message}；已自动回滚到恢复前的书签`);
+      }
+
+      // 保存改动记录供撤销使用，保存失败时撤销仍可按快照重建根目录
+      await storageService.setStorageData(RESTORE_SNAPSHOT_STORAGE_KEY, { ...snapshot, changes: changeLog });
+
+      // 6. 保存恢复状态
+      const backupStatus: BackupStatus = {
+        lastRestoreTime: Date.now(),
+        lastOperationStatus: 'success'
+      };
+
+      await storageService.saveBackupStatus(backupStatus);
+
+      // 7. 返回成功结果
+      return {
+        success: true,
+        data: {
+          timestamp: backupData.timestamp,
+          bookmarksCount: backupData.metadata?.totalBookmarks || restoredCount,
+          roots: kinds,
+          ...(merge ? { strategy: 'merge', merge: mergeResult } : {})
+        },
+        timestamp: backupData.timestamp
+      };
+    } catch (error) {
+      console.error('书签恢复失败:', error);
+
+      if (options.dryRun) {
+        return {
+          success: false,
+          error: `试运行失败: ${error instanceof Error ? error.message : String(error)}`
+        };
+      }
+
+      // 保存失败状态
+      const backupStatus: BackupStatus = {
+        lastOperationStatus: 'failed',
+        errorMessage: error instanceof Error ? error.message : String(error)
+      };
+
+      await storageService.saveBackupStatus(backupStatus);
+
+      return {
+        success: false,
+        error: `恢复失败: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * 计算恢复计划对应的书签变更，不修改任何书签
+   * 覆盖恢复按内容对比当前书签与恢复后的书签；合并恢复按合并规则逐项记录
+   * @param plans 各根目录的恢复计划
+   * @param options 书签恢复选项
+   * @param data 附加到结果中的备份信息
+   */
+  private async planBookmarksRestoreChanges(
+    plans: RootRestorePlan[],
+    options: BookmarkRestoreOptions,
+    data: Record<string, unknown>
+  ): Promise<BackupResult> {
+    const plannedChanges: PlannedBookmarkChange[] = [];
+
+    if (options.strategy === 'merge') {
+      const mergeResult: BookmarkMergeResult = { created: 0, kept: 0, removed: 0 };
+      for (const plan of plans) {
+        await this.mergeBookmarks(this.getPlanScope(plan), plan.items, plan.target.id, !!options.removeAbsent, mergeResult, {
+          changes: plannedChanges,
+          path: plan.target.title
+        });
+      }
+      return {
+        success: true,
+        data: { ...data, dryRun: true, strategy: 'merge', merge: mergeResult, plannedChanges }
+      };
+    }
+
+    for (const plan of plans) {
+      const { nodes } = compareBookmarkTrees(plan.target.children || [], this.getExpectedChildren(plan));
+      plannedChanges.push(...toPlannedChanges(nodes, plan.target.title));
+    }
+    return {
+      success: true,
+      data: { ...data, dryRun: true, plannedChanges }
+    };
+  }
+
+  /**
+   * 恢复后根目录下的内容：计划涉及的节点被替换，其余保持不变
+   * @param plan 根目录的恢复计划
+   */
+  private getExpectedChildren(plan: RootRestorePlan): BookmarkItem[] {
+    const scope = new Set(this.getPlanScope(plan));
+    return [...(plan.target.children || []).filter(child => !scope.has(child)), ...plan.items];
+  }
+
+  /**
+   * 在指定文件夹下按顺序递归创建书签树，任一节点创建失败即抛出错误
+   * @param items 要创建的书签节点
+   * @param parentId 目标文件夹ID
+   * @param createdIds 记录在目标文件夹下直接创建的节点ID
+   */
+  private async createBookmarkTree(items: BookmarkItem[], parentId: string, createdIds?: string[]): Promise<void> {
+    for (const item of items) {
+      try {
+        if (item.isFolder) {
+          // 创建文件夹
+          const folderResult = await bookmarkService.createFolder({
+            parentId,
+            title: item.title
+          });
+
+          if (!folderResult.success || !folderResult.data?.id) {
+            throw new Error(`创建文件夹失败: ${item.title} (${folderResult.error || '未知错误'})`);
+          }
+          createdIds?.push(folderResult.data.id);
+
+          // 递归创建子书签
+          if (item.children && item.children.length > 0) {
+            await this.createBookmarkTree(item.children, folderResult.data.id);
+          }
+        } else if (item.url) {
+          // 创建书签
+          const bookmarkResult = await bookmarkService.createBookmark({
+            parentId,
+            title: item.title,
+            url: item.url
+          });
+
+          if (!bookmarkResult.success) {
+            throw new Error(`创建书签失败: ${item.title} (${bookmarkResult.error || '未知错误'})`);
+          }
+          if (bookmarkResult.data?.id) {
+            createdIds?.push(bookmarkResult.data.id);
+          }
+        }
+      } catch (itemError) {
+        throw new Error(
+          `处理书签项 ${item.title} 时失败: ${itemError instanceof Error ? itemError.message : String(itemError)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * 将书签还原到恢复前的状态
+   * 有改动记录时只回退记录的改动；否则清空快照涉及的根目录后按快照重建
+   * @param snapshot 恢复前保存的本地快照
+   * @returns 还原结果
+   */
+  private async restoreSnapshot(snapshot: RestoreSnapshot): Promise<BackupResult> {
+    try {
+      if (snapshot.changes) {
+        await this.revertRestoreChanges(snapshot.changes);
+        return { success: true, timestamp: snapshot.timestamp };
+      }
+
+      const rootsResult = await bookmarkService.getBookmarkRoots();
+      if (!rootsResult.success || !rootsResult.data) {
+        throw new Error(`获取书签根文件夹失败: ${rootsResult.error}`);
+      }
+
+      for (const { rootId, bookmarks } of snapshot.roots) {
+        const root = (rootsResult.data as BookmarkItem[]).find(item => item.id === rootId);
+        if (!root) {
+          throw new Error(`找不到书签根目录: ${rootId}`);
+        }
+
+        for (const child of root.children || []) {
+          const removeResult = await bookmarkService.removeBookmarkTree(child.id);
+          if (!removeResult.success) {
+            throw new Error(`删除书签失败: ${child.title || child.id} (${removeResult.error || '未知错误'})`);
+          }
+        }
+
+        await this.createBookmarkTree(bookmarks, root.id);
+      }
+
+      return { success: true, timestamp: snapshot.timestamp };
+    } catch (error) {
+      console.error('还原恢复前快照失败:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * 回退恢复过程中的改动：删除新建的节点，再把删除的节点按原来的位置重新创建
+   * @param changes 恢复过程中的改动记录
+   */
+  private async revertRestoreChanges(changes: RestoreChangeLog): Promise<void> {
+    for (const id of [...changes.created].reverse()) {
+      const removeResult = await bookmarkService.removeBookmarkTree(id);
+      if (!removeResult.success) {
+        throw new Error(`删除恢复时新建的书签失败: ${id} (${removeResult.error || '未知错误'})`);
+      }
+    }
+
+    // 按原位置从小到大插入，插入后其余节点的位置与恢复前一致
+    const removed = [...changes.removed].sort((a, b) => a.index - b.index);
+    for (const { parentId, index, node } of removed) {
+      const createResult = node.isFolder
+        ? await bookmarkService.createFolder({ parentId, title: node.title, index })
+        : await bookmarkService.createBookmark({ parentId, title: node.title, url: node.url || '', index });
+      if (!createResult.success || !createResult.data?.id) {
+        throw new Error(`重新创建书签失败: ${node.title || node.id} (${createResult.error || '未知错误'})`);
+      }
+      if (node.isFolder && node.children?.length) {
+        await this.createBookmarkTree(node.children, createResult.data.id);
+      }
+    }
+  }
+
+  /**
+   * 获取仍可撤销的上次恢复；超过撤销时限的快照会被清除
+   * @returns 可撤销的恢复信息，不存在或已过期时为 null
+   */
+  async getUndoableRestore(): Promise<UndoableRestore | null> {
+    const snapshotResult = await storageService.getStorageData(RESTORE_SNAPSHOT_STORAGE_KEY);
+    const snapshot = snapshotResult.success ? snapshotResult.data as RestoreSnapshot | null : null;
+    if (!snapshot?.timestamp || !Array.isArray(snapshot.roots)) {
+      return null;
+    }
+
+    const settingsResult = await storageService.getSettings();
+    const windowMinutes = settingsResult.data?.backup?.undoWindowMinutes ?? DEFAULT_UNDO_WINDOW_MINUTES;
+    const expiresAt = snapshot.timestamp + windowMinutes * 60 * 1000;
+
+    if (Date.now() >= expiresAt) {
+      await storageService.setStorageData(RESTORE_SNAPSHOT_STORAGE_KEY, null);
+      return null;
+    }
+
+    return {
+      timestamp: snapshot.timestamp,
+      expiresAt,
+      filePath: snapshot.filePath
+    };
+  }
+
+  /**
+   * 撤销上次恢复：回退上次恢复对书签的改动
+   * @returns 撤销结果
+   */
+  async undoLastRestore(): Promise<BackupResult> {
+    const undoable = await this.getUndoableRestore();
+    if (!undoable) {
+      return {
+        success: false,
+        error: '没有可撤销的恢复，或已超过撤销时限'
+      };
+    }
+
+    const snapshotResult = await storageService.getStorageData(RESTORE_SNAPSHOT_STORAGE_KEY);
+    const result = await this.restoreSnapshot(snapshotResult.data as RestoreSnapshot);
+    if (!result.success) {
+      return {
+        success: false,
+        error: `撤销恢复失败: ${result.error}`
+      };
+    }
+
+    await storageService.setStorageData(RESTORE_SNAPSHOT_STORAGE_KEY, null);
+    return result;
+  }
+
+  /**
+   * 合并恢复：在同一文件夹内按 URL（书签）或标题（文件夹）匹配，逐层递归即为按 URL + 文件夹路径匹配。
+   * 已存在的节点保持原ID，只创建缺失的节点；removeAbsent 时删除备份中不存在的节点。
+   * @param existing 当前文件夹下的现有子节点
+   * @param items 备份中该文件夹下的子节点
+   * @param parentId 当前文件夹ID
+   * @param removeAbsent 是否删除备份中不存在的节点
+   * @param result 统计结果（原地累加）
+   * @param plan 试运行时记录计划的变更而不修改书签，path 为当前文件夹路径
+   * @param changeLog 记录实际的改动，用于回滚与撤销
+   */
+  private async mergeBookmarks(
+    existing: BookmarkItem[],
+    items: BookmarkItem[],
+    parentId: string,
+    removeAbsent: boolean,
+    result: BookmarkMergeResult,
+    plan?: { changes: PlannedBookmarkChange[]; path: string },
+    changeLog?: RestoreChangeLog
+  ): Promise<void> {
+    const unmatched = [...existing];
+    const takeMatch = (predicate: (node: BookmarkItem) => boolean): BookmarkItem | undefined => {
+      const index = unmatched.findIndex(predicate);
+      return index >= 0 ? unmatched.splice(index, 1)[0] : undefined;
+    };
+
+    for (const item of items) {
+      if (item.isFolder) {
+        const match = takeMatch(node => node.isFolder && node.title === item.title);
+        let folderId = match?.id;
 
-          if (settingsBackupFiles.length === 0) {
-            throw new Error('未找到配置备份文件，请先进行备份');
+        if (match) {
+          result.kept++;
+        } else if (plan) {
+          plan.changes.push({ title: item.title, isFolder: true, operation: 'create', current: '', planned: `新建于 ${plan.path}` });
+          result.created++;
+        } else {
+          const folderResult = await bookmarkService.createFolder({ parentId, title: item.title });
+          if (!folderResult.success || !folderResult.data?.id) {
+            throw new Error(`创建文件夹失败: ${item.title} (${folderResult.error || '未知错误'})`);
           }
+          folderId = folderResult.data.id;
+          changeLog?.created.push(folderResult.data.id);
+          result.created++;
+        }
 
-          // 解析文件名中的时间戳，以便找到最新文件
-          const parseTimestamp = (filename: string): number => {
-            const match = filename.match(/settings_backup_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json/);
-            if (match) {
-              const [_, year, month, day, hour, minute, second] = match;
-              return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}`).getTime();
-            }
-            return 0;
-          };
+        // 新建文件夹中的内容随文件夹一起撤销，不再逐项记录
+        await this.mergeBookmarks(
+          match?.children || [],
+          item.children || [],
+          folderId as string,
+          removeAbsent,
+          result,
+          plan && { changes: plan.changes, path: `${plan.path} / ${item.title}` },
+          match ? changeLog : undefined
+        );
+      } else if (item.url) {
+        if (takeMatch(node => !node.isFolder && node.url === item.url)) {
+          result.kept++;
+          continue;
+        }
 
-          // 按时间戳降序排序文件，取第一个（最新的）
-          const latestFile = settingsBackupFiles
-            .sort((a, b) => parseTimestamp(b.name) - parseTimestamp(a.name))[0];
+        if (plan) {
+          plan.changes.push({ title: item.title, url: item.url, operation: 'create', current: '', planned: `新建于 ${plan.path}` });
+          result.created++;
+          continue;
+        }
 
-          filePath = latestFile.path;
-          console.log(`选择最新的配置备份文件: ${filePath}`);
-        } catch (error) {
-          console.error('获取仓库文件列表失败:', error);
-          throw new Error(`获取仓库文件列表失败: ${error instanceof Error ? error.message : String(error)}`);
+        const bookmarkResult = await bookmarkService.createBookmark({ parentId, title: item.title, url: item.url });
+        if (!bookmarkResult.success) {
+          throw new Error(`创建书签失败: ${item.title} (${bookmarkResult.error || '未知错误'})`);
+        }
+        if (bookmarkResult.data?.id) {
+          changeLog?.created.push(bookmarkResult.data.id);
         }
+        result.created++;
       }
+    }
 
-      // 2. 获取备份文件内容
-      console.log('尝试获取配置备份文件:', filePath);
-      const fileData = await githubService.getFileContent(
-        credentials,
-        username,
-        DEFAULT_BACKUP_REPO,
-        filePath
-      );
+    if (!removeAbsent) return;
+
+    const countNodes = (node: BookmarkItem): number =>
+      1 + (node.children || []).reduce((sum, child) => sum + countNodes(child), 0);
+
+    for (const node of unmatched) {
+      if (plan) {
+        plan.changes.push({
+          id: node.id,
+          title: node.title,
+          url: node.url,
+          isFolder: node.isFolder || undefined,
+          operation: 'remove',
+          current: plan.path,
+          planned: '删除'
+        });
+        result.removed += countNodes(node);
+        continue;
+      }
 
-      // 3. 解析备份数据
-      const backupData = JSON.parse(fileData.content);
+      const removeResult = node.isFolder
+        ? await bookmarkService.removeBookmarkTree(node.id)
+        : await bookmarkService.removeBookmark(node.id);
+      if (!removeResult.success) {
+        throw new Error(`删除书签失败: ${node.title || node.id} (${removeResult.error || '未知错误'})`);
+      }
+      changeLog?.removed.push({ parentId, index: node.index ?? existing.indexOf(node), node });
+      result.removed += countNodes(node);
+    }
+  }
 
-      // 4. 兼容两种格式：
-      // - 新版：配置快照（schemaVersion/app/local...），复用 storageService.importConfig
-      // - 旧版：仅 settings（backupData.settings），保持兼容
-      const looksLikeConfig = backupData
-        && typeof backupData === 'object'
-        && backupData.schemaVersion === 1
-        && backupData.app === 'MarksVault'
-        && backupData.local
-        && typeof backupData.local === 'object';
+  /**
+   * 预览书签恢复：加载备份并与当前书签按内容对比，不修改任何书签
+   * @param provider 备份存储位置
+   * @param filePath 备份文件路径，不指定时使用最新备份
+   * @param roots 要恢复的根目录，默认只预览书签栏
+   * @returns 预览结果，data 为 RestorePreview
+   */
+  async previewBookmarksRestore(
+    provider: StorageProvider,
+    filePath?: string,
+    roots: BookmarkRootKind[] = ['toolbar']
+  ): Promise<BackupResult> {
+    try {
+      const repoExists = await provider.containerExists();
+      if (!repoExists) {
+        throw new Error('备份存储库不存在，请先进行备份');
+      }
 
-      if (looksLikeConfig) {
-        const result = await storageService.importConfig(backupData, { importLocalStorage: false });
-        if (!result.success) {
-          throw new Error(`导入配置失败: ${result.error}`);
-        }
-      } else if (backupData.settings && typeof backupData.settings === 'object') {
-        const result = await storageService.saveSettings(backupData.settings);
-        if (!result.success) {
-          throw new Error(`保存设置失败: ${result.error}`);
-        }
-      } else {
-        throw new Error('备份文件格式不正确');
+      const resolvedPath = await this.resolveBookmarksRestoreFilePath(provider, filePath);
+      const { backup } = await this.loadBookmarksBackupChain(provider, resolvedPath);
+
+      const bookmarksResult = await bookmarkService.getAllBookmarks();
+      if (!bookmarksResult.success || !bookmarksResult.data) {
+        throw new Error(`获取书签失败: ${bookmarksResult.error}`);
       }
 
-      // 6. 保存恢复状态
-      const now = new Date();
-      const restoreStatus: BackupStatus = {
-        lastRestoreTime: now.getTime(),
-        lastOperationStatus: 'success'
-      };
+      const liveRoots = (bookmarksResult.data as BookmarkItem[]).flatMap(root => root.children || []);
+      const plans = this.planBookmarksRestore(backup, liveRoots, roots.length > 0 ? roots : ['toolbar']);
+      if (plans.length === 0) {
+        throw new Error('备份中找不到所选的根目录');
+      }
 
-      await storageService.setStorageData('settings_backup_status', restoreStatus);
+      // 只涉及一个根目录时直接展示其内容，否则以根目录作为顶层文件夹
+      const comparison = plans.length === 1
+        ? compareBookmarkTrees(plans[0].target.children || [], this.getExpectedChildren(plans[0]))
+        : compareBookmarkTrees(
+          plans.map(plan => plan.target),
+          plans.map(plan => ({ ...plan.target, children: this.getExpectedChildren(plan) }))
+        );
+
+      const preview: RestorePreview = {
+        filePath: resolvedPath,
+        timestamp: backup.timestamp,
+        ...comparison
+      };
 
-      // 7. 返回成功结果
       return {
         success: true,
-        data: {
-          timestamp: typeof backupData?.timestamp === 'number'
-            ? backupData.timestamp
-            : Date.now(),
-          filePath
-        },
-        timestamp: typeof backupData?.timestamp === 'number'
-          ? backupData.timestamp
-          : undefined
+        data: preview,
+        timestamp: backup.timestamp
       };
     } catch (error) {
-      console.error('配置恢复失败:', error);
-
-      // 保存失败状态
-      const restoreStatus: BackupStatus = {
-        lastOperationStatus: 'failed',
-        errorMessage: error instanceof Error ? error.message : String(error)
-      };
-
-      await storageService.setStorageData('settings_backup_status', restoreStatus);
-
+      console.error('预览书签恢复失败:', error);
       return {
         success: false,
-          error: `恢复失败: ${error instanceof Error ? error.message : String(error)}`
+        error: `预览失败: ${error instanceof Error ? error.message : String(error)}`
       };
     }
   }
 
   /**
-   * 从GitHub恢复书签
-   * @param credentials GitHub认证凭据
-   * @param username GitHub用户名
-   * @param useTimestampedFile 是否使用带时间戳的文件而不是最新文件
-   * @param timestampedFilePath 带时间戳的文件路径(如果useTimestampedFile为true)
-   * @returns 恢复结果
+   * 获取备份中各个根目录与当前浏览器根目录的对应关系，用于选择要恢复的根目录
+   * @param provider 备份存储位置
+   * @param filePath 备份文件路径，不指定时使用最新备份
+   * @returns data 为 RestoreRootMapping[]
    */
-  private async restoreBookmarksFromGitHub(
-    credentials: GitHubCredentials,
-    username: string,
-    useTimestampedFile: boolean = false,
-    timestampedFilePath?: string
+  async getRestoreRootMappings(
+    provider: StorageProvider,
+    filePath?: string
   ): Promise<BackupResult> {
     try {
-      // 1. 确保存储库存在
-      const repoExists = await githubService.repoExists(credentials, username, DEFAULT_BACKUP_REPO);
-      if (!repoExists) {
-        throw new Error('备份存储库不存在，请先进行备份');
-      }
-
-      // 2. 获取备份文件内容
-      const filePath = useTimestampedFile && timestampedFilePath
-        ? (timestampedFilePath.startsWith('bookmarks/') ? timestampedFilePath : `bookmarks/${timestampedFilePath}`)
-        : await this.resolveLatestBookmarksBackupFilePath(credentials, username);
-
-      const fileData = await githubService.getFileContent(
-        credentials,
-        username,
-        DEFAULT_BACKUP_REPO,
-        filePath
-      );
-
-      // 3. 解析备份数据
-      const backupData = JSON.parse(fileData.content) as BookmarkBackup;
-
-      // 4. 验证数据格式
-      if (!backupData.bookmarks || !Array.isArray(backupData.bookmarks)) {
-        throw new Error('备份文件格式不正确');
+      const treeResult = await this.loadBookmarksBackupTree(provider, filePath);
+      if (!treeResult.success || !treeResult.data) {
+        throw new Error(treeResult.error || '加载备份内容失败');
       }
 
-      console.log('备份数据结构:', JSON.stringify(backupData.bookmarks.map((b: BookmarkItem) => ({ id: b.id, title: b.title, children: b.children?.length || 0 }))));
-
-      // 5. 执行恢复操作
-      // 5.1 获取书签根文件夹
       const rootsResult = await bookmarkService.getBookmarkRoots();
       if (!rootsResult.success || !rootsResult.data) {
         throw new Error(`获取书签根文件夹失败: ${rootsResult.error}`);
       }
 
-      const roots = rootsResult.data;
-      console.log('浏览器书签根:', JSON.stringify(roots.map((r: BookmarkItem) => ({ id: r.id, title: r.title }))));
+      const backupRoots = (treeResult.data.bookmarks as BookmarkItem[]).flatMap(root => root.children || []);
+      const mappings: RestoreRootMapping[] = mapBookmarkRoots(backupRoots, rootsResult.data as BookmarkItem[]);
 
-      // 兼容 Chrome/Edge/Firefox：按 ID + 标题双策略识别书签栏。
-      const bookmarkBar = findBookmarkBar(roots);
-      if (!bookmarkBar) {
-        throw new Error('找不到书签栏，无法恢复书签');
+      return {
+        success: true,
+        data: mappings
+      };
+    } catch (error) {
+      console.error('获取根目录映射失败:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * 加载备份文件中的完整书签树（增量备份会从检查点回放），用于浏览备份内容
+   * @param provider 备份存储位置
+   * @param filePath 备份文件路径，不指定时使用最新备份
+   * @returns data 为 { filePath, timestamp, bookmarks }
+   */
+  async loadBookmarksBackupTree(
+    provider: StorageProvider,
+    filePath?: string
+  ): Promise<BackupResult> {
+    try {
+      const repoExists = await provider.containerExists();
+      if (!repoExists) {
+        throw new Error('备份存储库不存在，请先进行备份');
       }
 
-      console.log('找到书签栏:', bookmarkBar.id, bookmarkBar.title);
+      const resolvedPath = await this.resolveBookmarksRestoreFilePath(provider, filePath);
+      const { backup } = await this.loadBookmarksBackupChain(provider, resolvedPath);
 
-      // 5.2 准备要恢复的书签数据
-      // 从备份中查找合适的书签数据
-      let bookmarksToRestore: BookmarkItem[] = [];
+      return {
+        success: true,
+        data: {
+          filePath: resolvedPath,
+          timestamp: backup.timestamp,
+          bookmarks: backup.bookmarks
+        },
+        timestamp: backup.timestamp
+      };
+    } catch (error) {
+      console.error('加载备份内容失败:', error);
+      return {
+        success: false,
+        error: `加载备份内容失败: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
 
-      // 尝试方法1: 查找标题为"书签栏"的项
-      const bookmarkBarInBackup = findBookmarkBar(
-        backupData.bookmarks.flatMap((root: BookmarkItem) => root.children || [])
-      );
+  /**
+   * 列出书签备份文件夹中的所有书签备份文件（完整与增量）
+   * @param provider 备份存储位置
+   */
+  async listBookmarksBackups(provider: StorageProvider): Promise<StorageFile[]> {
+    const files = await provider.listFiles(getBackupFolder(await this.getBackupLayout(), BackupType.BOOKMARKS));
+    return files.filter(file => this.isBookmarksBackupFile(file.name));
+  }
 
-      if (bookmarkBarInBackup && bookmarkBarInBackup.children) {
-        console.log('方法1: 从备份中找到书签栏:', bookmarkBarInBackup.title);
-        bookmarksToRestore = bookmarkBarInBackup.children;
-      } else {
-        // 尝试方法2: 使用备份根节点的第一个子节点的子节点
-        console.log('方法1失败，尝试方法2');
-        if (backupData.bookmarks[0] && backupData.bookmarks[0].children) {
-          // 通常第一个子节点会是书签栏
-          const firstChild = backupData.bookmarks[0].children[0];
-          if (firstChild && firstChild.children) {
-            console.log('方法2: 使用第一个子节点的子节点');
-            bookmarksToRestore = firstChild.children;
-          } else if (backupData.bookmarks[0].children) {
-            // 如果第一个子节点没有子节点，使用所有子节点
-            console.log('方法2: 使用所有子节点');
-            bookmarksToRestore = backupData.bookmarks[0].children;
-          }
-        }
+  /**
+   * 将已有的书签与配置备份复制到新的备份位置与文件布局下，所有文件在同一次提交中写入
+   * 原位置的文件保持不变；增量备份按文件名解析检查点，复制后备份链仍可回放
+   * @param source 原备份存储位置
+   * @param target 新备份存储位置
+   * @param sourceLayout 原文件布局
+   * @param targetLayout 新文件布局
+   * @returns 迁移结果，data 包含迁移的文件数量
+   */
+  async migrateBackups(
+    source: StorageProvider,
+    target: StorageProvider,
+    sourceLayout: BackupLayout,
+    targetLayout: BackupLayout
+  ): Promise<BackupResult> {
+    try {
+      if (!(await source.containerExists())) {
+        throw new Error('原备份存储库不存在，没有需要迁移的备份');
       }
 
-      // 方法3: 最后尝试用直接的书签数据
-      if (bookmarksToRestore.length === 0) {
-        console.log('方法3: 直接使用根书签数据');
-        // 如果前两种方法都找不到，直接使用根书签数据
-        if (backupData.bookmarks[0] && backupData.bookmarks[0].children) {
-          bookmarksToRestore = backupData.bookmarks[0].children;
-        } else {
-          bookmarksToRestore = backupData.bookmarks;
+      const changes: StorageFileChange[] = [];
+      for (const type of [BackupType.BOOKMARKS, BackupType.SETTINGS]) {
+        let files: StorageFile[];
+        try {
+          files = await source.listFiles(getBackupFolder(sourceLayout, type));
+        } catch (error) {
+          // 文件夹不存在表示没有该类型的备份
+          console.log(`原位置没有${type}备份:`, error);
+          continue;
+        }
+
+        const targetFolder = getBackupFolder(targetLayout, type);
+        const backupFiles = files.filter(file => type === BackupType.SETTINGS
+          ? file.name.startsWith('settings_backup_') && hasBackupFileExtension(file.name)
+          : this.isBookmarksBackupFile(file.name));
+        for (const file of backupFiles) {
+          // 以 Base64 原样复制，压缩与加密的备份无需解码
+          changes.push({
+            path: joinBackupPath(targetFolder, file.name),
+            content: await source.readFile(file.path, 'base64'),
+            encoding: 'base64'
+          });
         }
       }
 
-      if (bookmarksToRestore.length === 0) {
-        throw new Error('备份数据中找不到可恢复的书签');
+      if (changes.length === 0) {
+        return { success: true, data: { migratedCount: 0 } };
       }
 
-      console.log(`准备恢复 ${bookmarksToRestore.length} 个书签项`);
+      await target.ensureContainer();
+      const result = await target.writeFiles(changes, `迁移 ${changes.length} 个备份文件`);
 
-      // 5.3 递归删除现有书签
-      // 保存现有书签的备份，以防恢复失败
-      const existingBookmarks = bookmarkBar.children || [];
-      console.log(`当前有 ${existingBookmarks.length} 个书签项将被清除`);
+      // 统计信息改为来自新位置
+      await this.getBackupStats(target, true);
 
-      // 5.4 递归创建新书签的函数
-      const createBookmarks = async (
-        items: BookmarkItem[],
-        parentId: string
-      ): Promise<void> => {
-        for (const item of items) {
-          try {
-            if (item.isFolder) {
-              // 创建文件夹
-              const folderResult = await bookmarkService.createFolder({
-                parentId,
-                title: item.title
-              });
-
-              if (!folderResult.success || !folderResult.data?.id) {
-                throw new Error(`创建文件夹失败: ${item.title} (${folderResult.error || '未知错误'})`);
-              }
-
-              // 递归创建子书签
-              if (item.children && item.children.length > 0) {
-                await createBookmarks(item.children, folderResult.data.id);
-              }
-            } else if (item.url) {
-              // 创建书签
-              const bookmarkResult = await bookmarkService.createBookmark({
-                parentId,
-                title: item.title,
-                url: item.url
-              });
-
-              if (!bookmarkResult.success) {
-                throw new Error(`创建书签失败: ${item.title} (${bookmarkResult.error || '未知错误'})`);
-              }
-            }
-          } catch (itemError) {
-            throw new Error(
-              `处理书签项 ${item.title} 时失败: ${itemError instanceof Error ? itemError.message : String(itemError)}`
-            );
-          }
-        }
+      return {
+        success: true,
+        data: { migratedCount: changes.length, url: result.url }
+      };
+    } catch (error) {
+      console.error('迁移备份失败:', error);
+      return {
+        success: false,
+        error: `迁移备份失败: ${error instanceof Error ? error.message : String(error)}`
       };
+    }
+  }
 
-      // 5.5 开始恢复过程
-      // 先移除现有书签
-      try {
-        for (const child of bookmarkBar.children || []) {
-          const removeResult = await bookmarkService.removeBookmarkTree(child.id);
-          if (!removeResult.success) {
-            throw new Error(`删除现有书签失败: ${child.title || child.id} (${removeResult.error || '未知错误'})`);
+  /**
+   * 部分恢复：将备份中选中的文件夹/书签创建到指定文件夹下，不修改其他任何书签。
+   * 中途失败时删除本次已创建的节点，目标文件夹保持原样。
+   * @param selections 从备份书签树中选中的项（文件夹包含完整子树）
+   * @param targetFolderId 恢复到的目标文件夹ID
+   * @param options dryRun 为 true 时只返回计划新建的书签，不修改书签
+   * @returns 恢复结果，data 包含恢复的书签与文件夹数量
+   */
+  async restoreBookmarkSelections(
+    selections: BookmarkSelection[],
+    targetFolderId: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<BackupResult> {
+    try {
+      if (selections.length === 0) {
+        throw new Error('未选择要恢复的书签或文件夹');
+      }
+
+      const beforeResult = await bookmarkService.getFolderChildren(targetFolderId);
+      if (!beforeResult.success || !beforeResult.data) {
+        throw new Error(`获取目标文件夹失败: ${beforeResult.error}`);
+      }
+      const existingIds = new Set((beforeResult.data as BookmarkItem[]).map(item => item.id));
+
+      const toBookmarkItem = (selection: BookmarkSelection): BookmarkItem => ({
+        id: selection.id,
+        title: selection.title,
+        url: selection.url,
+        isFolder: selection.type === 'folder',
+        children: selection.children?.map(toBookmarkItem)
+      });
+      const items = selections.map(toBookmarkItem);
+
+      if (options.dryRun) {
+        const folderResult = await bookmarkService.getBookmarkById(targetFolderId);
+        const folderTitle: string = folderResult.data?.title || targetFolderId;
+        const plannedChanges: PlannedBookmarkChange[] = [];
+        const planItems = (nodes: BookmarkItem[], path: string) => {
+          for (const node of nodes) {
+            plannedChanges.push({
+              title: node.title,
+              url: node.url,
+              isFolder: node.isFolder || undefined,
+              operation: 'create',
+              current: '',
+              planned: `新建于 ${path}`
+            });
+            planItems(node.children || [], `${path} / ${node.title}`);
           }
-        }
-        console.log('成功清除现有书签');
+        };
+        planItems(items, folderTitle);
+        return {
+          success: true,
+          data: { targetFolderId, dryRun: true, plannedChanges }
+        };
+      }
 
-        // 恢复书签
-        await createBookmarks(bookmarksToRestore, bookmarkBar.id);
-        console.log('成功恢复书签');
+      try {
+        await this.createBookmarkTree(items, targetFolderId);
       } catch (restoreError) {
-        console.error('恢复过程中发生错误:', restoreError);
+        console.error('部分恢复过程中发生错误，正在删除已创建的书签:', restoreError);
+        const afterResult = await bookmarkService.getFolderChildren(targetFolderId);
+        for (const item of (afterResult.data || []) as BookmarkItem[]) {
+          if (existingIds.has(item.id)) continue;
+          await (item.isFolder
+            ? bookmarkService.removeBookmarkTree(item.id)
+            : bookmarkService.removeBookmark(item.id));
+        }
         throw restoreError;
       }
 
-      // 6. 保存恢复状态
-      const backupStatus: BackupStatus = {
-        lastRestoreTime: Date.now(),
-        lastOperationStatus: 'success'
+      const counts = { bookmarks: 0, folders: 0 };
+      const countItems = (nodes: BookmarkItem[]) => {
+        for (const node of nodes) {
+          if (node.isFolder) {
+            counts.folders++;
+            countItems(node.children || []);
+          } else if (node.url) {
+            counts.bookmarks++;
+          }
+        }
       };
+      countItems(items);
 
-      await storageService.saveBackupStatus(backupStatus);
+      await storageService.saveBackupStatus({
+        lastRestoreTime: Date.now(),
+        lastOperationStatus: 'success'
+      });
 
-      // 7. 返回成功结果
       return {
         success: true,
         data: {
-          timestamp: backupData.timestamp,
-          bookmarksCount: backupData.metadata?.totalBookmarks || bookmarksToRestore.length
-        },
-        timestamp: backupData.timestamp
+          targetFolderId,
+          bookmarksCount: counts.bookmarks,
+          foldersCount: counts.folders
+        }
       };
     } catch (error) {
-      console.error('书签恢复失败:', error);
-
-      // 保存失败状态
-      const backupStatus: BackupStatus = {
-        lastOperationStatus: 'failed',
-        errorMessage: error instanceof Error ? error.message : String(error)
-      };
-
-      await storageService.saveBackupStatus(backupStatus);
-
+      console.error('部分恢复失败:', error);
       return {
         success: false,
         error: `恢复失败: ${error instanceof Error ? error.message : String(error)}`
@@ -702,14 +1866,12 @@ class BackupService {
 
   /**
    * 获取备份统计信息
-   * @param credentials GitHub凭据
-   * @param username GitHub用户名
+   * @param provider 备份存储位置
    * @param forceRefresh 是否强制刷新（忽略缓存）
    * @returns 备份统计信息
    */
   async getBackupStats(
-    credentials: GitHubCredentials,
-    username: string,
+    provider: StorageProvider,
     forceRefresh: boolean = false
   ): Promise<{
     totalBackups: number;
@@ -733,21 +1895,14 @@ class BackupService {
         }
       }
 
-      // 2. 缓存无效或强制刷新，从GitHub获取数据
-      console.log('从GitHub获取备份统计信息');
+      // 2. 缓存无效或强制刷新，从存储位置获取数据
+      console.log(`从${provider.name}获取备份统计信息`);
 
-      // 获取所有备份文件 (从bookmarks文件夹)
-      const files = await githubService.getRepositoryFiles(
-        credentials,
-        username,
-        DEFAULT_BACKUP_REPO,
-        'bookmarks'
-      );
+      // 获取书签备份文件夹中的所有备份文件
+      const files = await provider.listFiles(getBackupFolder(await this.getBackupLayout(), BackupType.BOOKMARKS));
 
-      // 过滤并计算备份文件数量
-      const backupFiles = files.filter(
-        file => file.name.startsWith('bookmarks_backup_') && file.name.endsWith('.json')
-      );
+      // 过滤并计算备份文件数量（完整备份与增量备份）
+      const backupFiles = files.filter(file => this.isBookmarksBackupFile(file.name));
 
       const totalBackups = backupFiles.length;
 
@@ -755,20 +1910,9 @@ class BackupService {
         return { totalBackups: 0 };
       }
 
-      // 解析文件名中的时间戳
-      const parseTimestamp = (filename: string): number => {
-        // 使用新格式的正则表达式
-        const match = filename.match(/bookmarks_backup_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json/);
-        if (match) {
-          const [_, year, month, day, hour, minute, second] = match;
-          return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}`).getTime();
-        }
-        return 0;
-      };
-
       // 提取时间戳并排序
       const timestamps = backupFiles
-        .map(file => parseTimestamp(file.name))
+        .map(file => this.parseBookmarksBackupTimestamp(file.name))
         .filter(ts => ts > 0)
         .sort((a, b) => a - b);
 
@@ -782,7 +1926,7 @@ class BackupService {
 
       // 获取最新备份文件(按时间戳排序)
       const latestFile = backupFiles
-        .sort((a, b) => parseTimestamp(b.name) - parseTimestamp(a.name))[0];
+        .sort((a, b) => this.parseBookmarksBackupTimestamp(b.name) - this.parseBookmarksBackupTimestamp(a.name))[0];
 
       if (latestFile) {
         // 设置文件大小
@@ -790,14 +1934,11 @@ class BackupService {
 
         // 获取文件内容以提取详细信息
         try {
-          const fileData = await githubService.getFileContent(
-            credentials,
-            username,
-            DEFAULT_BACKUP_REPO,
-            latestFile.path // 已经包含了bookmarks/前缀
-          );
-
-          const backupData = JSON.parse(fileData.content) as BookmarkBackup;
+          // 增量备份文件中的元数据同样描述回放后的完整书签树
+          const backupData = await this.readBackupFile(
+            provider,
+            latestFile.path // 已经包含了所在文件夹
+          ) as BookmarkBackup | BookmarkDeltaBackup;
 
           // 提取元数据
           if (backupData.metadata) {
@@ -930,8 +2071,9 @@ class BackupService {
       // 获取GitHub用户名
       const userResult = await githubService.validateCredentials(credentialsResult.data);
 
-      // 获取统计信息
-      const stats = await this.getBackupStats(credentialsResult.data, userResult.login, forceRefreshStats);
+      // 获取统计信息（使用设置中的备份仓库与分支）
+      const provider = await storageProviderService.createGitHubBackupProvider(credentialsResult.data, userResult.login);
+      const stats = await this.getBackupStats(provider, forceRefreshStats);
 
       // 更新状态
       const updatedStatus = { ...baseStatus, stats };
@@ -1291,18 +2433,14 @@ class BackupService {
   }
 
   /**
-   * 推送书签到GitHub
-   * @param credentials GitHub认证凭据
-   * @param username GitHub用户名
-   * @param repoName 目标仓库名称，默认为menav
+   * 推送HTML格式的书签到存储位置
+   * @param provider 推送目标存储位置（GitHub 为目标仓库，默认 menav）
    * @param folderPath 目标文件夹路径，默认为bookmarks
    * @param commitMessage 提交消息
    * @returns 推送结果
    */
-  async pushBookmarksToGitHub(
-    credentials: GitHubCredentials,
-    username: string,
-    repoName: string = 'menav',
+  async pushBookmarks(
+    provider: StorageProvider,
     folderPath: string = 'bookmarks',
     commitMessage: string = '自动推送书签'
   ): Promise<BackupResult> {
@@ -1310,33 +2448,8 @@ class BackupService {
       // 1. 创建HTML格式的书签数据
       const htmlBookmarkData = await this.createHtmlBookmarkData();
 
-      // 2. 确保存储库存在
-      const repoExists = await githubService.repoExists(credentials, username, repoName);
-      if (!repoExists) {
-        // 创建新存储库
-        try {
-          const createRepoResult = await githubService.createRepo(credentials, repoName, true);
-
-          // 检查创建结果中是否有_repoExisted标记，表示仓库已存在但成功获取了信息
-          if (createRepoResult._repoExisted) {
-            console.log('目标仓库已存在，使用现有仓库');
-          } else {
-            // 给新创建的仓库一些时间初始化
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        } catch (repoError) {
-          // 如果创建仓库失败，再次检查仓库是否存在
-          console.error('创建目标仓库失败，再次检查仓库是否存在:', repoError);
-          const recheckedExists = await githubService.repoExists(credentials, username, repoName);
-
-          if (!recheckedExists) {
-            // 如果确实不存在，则抛出原始错误
-            throw repoError;
-          } else {
-            console.log('目标仓库已存在，继续推送流程');
-          }
-        }
-      }
+      // 2. 确保目标存储位置存在
+      await provider.ensureContainer();
 
       // 3. 生成文件名 (格式: bookmarks_YYYYMMDD.html)
       const now = new Date();
@@ -1349,10 +2462,7 @@ class BackupService {
       const filePath = folderPath ? `${folderPath}/${fileName}` : fileName;
 
       // 4. 上传HTML书签文件
-      const uploadResult = await githubService.createOrUpdateFile(
-        credentials,
-        username,
-        repoName,
+      const uploadResult = await provider.writeFile(
         filePath,
         htmlBookmarkData,
         commitMessage || `推送书签 - ${now.toLocaleString()}`
@@ -1361,7 +2471,7 @@ class BackupService {
       // 5. 保存状态 (使用与备份相同的状态结构，但区分开)
       const backupStatus: BackupStatus = {
         lastBackupTime: now.getTime(),
-        backupFileUrl: uploadResult.content.html_url,
+        backupFileUrl: uploadResult.url,
         lastBackupFilePath: filePath,
         lastOperationStatus: 'success'
       };
@@ -1378,9 +2488,12 @@ class BackupService {
       return {
         success: true,
         data: {
-          fileUrl: uploadResult.content.html_url,
+          fileUrl: uploadResult.url,
           timestamp: now.getTime(),
-          filePath: filePath
+          filePath: filePath,
+          commitSha: uploadResult.commitSha,
+          commitUrl: uploadResult.commitUrl,
+          bytesUploaded: getUploadSize(htmlBookmarkData)
         },
         timestamp: now.getTime()
       };
@@ -1403,105 +2516,77 @@ class BackupService {
   }
 
   /**
-   * 清理超出限制的旧备份文件
-   * @param credentials GitHub凭据
-   * @param username GitHub用户名
+   * 按保留策略清理旧备份文件
+   * 支持按数量保留与按时间分层（GFS）保留，已固定的备份和被保留的增量备份所依赖的文件不会被删除
+   * @param provider 备份存储位置
    * @param type 备份类型 (书签或配置)
-   * @returns 清理结果
+   * @returns 清理结果，deletedFiles 为被删除的文件路径
    */
   async cleanupOldBackups(
-    credentials: GitHubCredentials,
-    username: string,
+    provider: StorageProvider,
     type: BackupType = BackupType.BOOKMARKS
-  ): Promise<{ success: boolean; deletedCount: number; error?: string }> {
+  ): Promise<{ success: boolean; deletedCount: number; deletedFiles: string[]; error?: string }> {
     try {
-      // 1. 获取用户设置，检查最大备份数量限制
+      // 1. 获取用户设置中的保留策略
       const settingsResult = await storageService.getSettings();
       if (!settingsResult.success) {
-        return { success: true, deletedCount: 0 }; // 无法获取设置，不执行清理
+        return { success: true, deletedCount: 0, deletedFiles: [] }; // 无法获取设置，不执行清理
       }
 
-      const maxBackups = settingsResult.data?.backup?.maxBackupsPerType || 0;
-      if (maxBackups <= 0) {
-        return { success: true, deletedCount: 0 }; // 没有设置限制或限制为0，不执行清理
+      const backupSettings = settingsResult.data?.backup;
+      const mode = backupSettings?.retention === 'gfs' ? 'gfs' : 'count';
+      const maxBackups = backupSettings?.maxBackupsPerType || 0;
+      if (mode === 'count' && maxBackups <= 0) {
+        return { success: true, deletedCount: 0, deletedFiles: [] }; // 没有设置限制或限制为0，不执行清理
       }
 
-      // 2. 确定要检查的文件夹路径
-      const folderPath = type === BackupType.SETTINGS ? SETTINGS_FOLDER_PATH : 'bookmarks';
-
-      // 3. 获取该类型的所有备份文件
-      const files = await githubService.getRepositoryFiles(
-        credentials,
-        username,
-        DEFAULT_BACKUP_REPO,
-        folderPath
-      );
-
-      // 4. 根据备份类型过滤文件
-      const filePrefix = type === BackupType.SETTINGS ? 'settings_backup_' : 'bookmarks_backup_';
-      let backupFiles = files.filter(
-        file => file.name.startsWith(filePrefix) && file.name.endsWith('.json')
+      // 2. 获取该类型的所有备份文件
+      const folderPath = getBackupFolder(resolveBackupLayout(backupSettings), type);
+      const files = await provider.listFiles(folderPath);
+      const backupFiles = files.filter(file => type === BackupType.SETTINGS
+        ? file.name.startsWith('settings_backup_') && hasBackupFileExtension(file.name)
+        : this.isBookmarksBackupFile(file.name));
+
+      // 3. 按保留策略计算要删除的文件（从新到旧）
+      const pinnedResult = await storageService.getPinnedBackups();
+      const filesToDelete = selectBackupsToDelete(
+        backupFiles.map(file => ({
+          path: file.path,
+          timestamp: this.parseBackupTimestamp(file.name),
+          incremental: this.isDeltaBookmarksBackupFile(file.name)
+        })),
+        {
+          mode,
+          maxBackups,
+          gfs: resolveGfsRetention(backupSettings),
+          pinned: pinnedResult.success ? pinnedResult.data : []
+        }
       );
-
-      // 如果文件数量没有超过限制，不需要清理
-      if (backupFiles.length <= maxBackups) {
-        console.log(`${type} 备份文件数量 (${backupFiles.length}) 未超过限制 (${maxBackups})`);
-        return { success: true, deletedCount: 0 };
+      if (filesToDelete.length === 0) {
+        console.log(`${type} 备份文件 (${backupFiles.length}) 均在保留范围内`);
+        return { success: true, deletedCount: 0, deletedFiles: [] };
       }
 
-      // 5. 解析文件名中的时间戳
-      const parseTimestamp = (filename: string): number => {
-        // 匹配文件名中的时间戳部分 (例如: xxx_backup_20230415123045.json)
-        const match = filename.match(/_backup_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.json/);
-        if (match) {
-          const [_, year, month, day, hour, minute, second] = match;
-          return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}`).getTime();
-        }
-        return 0;
-      };
-
-      // 6. 按时间戳排序（从新到旧）
-      backupFiles = backupFiles.sort(
-        (a, b) => parseTimestamp(b.name) - parseTimestamp(a.name)
+      // 4. 所有旧文件在同一次提交中删除
+      const deletedFiles = filesToDelete.map(file => file.path);
+      await provider.writeFiles(
+        deletedFiles.map(path => ({ path, delete: true })),
+        `自动清理 ${deletedFiles.length} 个旧的${type === BackupType.SETTINGS ? '配置' : '书签'}备份文件`
       );
+      console.log(`已删除旧备份文件: ${deletedFiles.join(', ')}`);
 
-      // 7. 保留最新的 maxBackups 个文件，删除其余文件
-      const filesToDelete = backupFiles.slice(maxBackups);
-      console.log(`需要删除 ${filesToDelete.length} 个旧的 ${type} 备份文件`);
-
-      let deletedCount = 0;
-      for (const file of filesToDelete) {
-        try {
-          await githubService.deleteFile(
-            credentials,
-            username,
-            DEFAULT_BACKUP_REPO,
-            file.path,
-            `自动清理旧的${type === BackupType.SETTINGS ? '配置' : '书签'}备份文件`,
-            file.sha
-          );
-          deletedCount++;
-          console.log(`已删除旧备份文件: ${file.path}`);
-        } catch (deleteError) {
-          console.error(`删除文件 ${file.path} 失败:`, deleteError);
-          // 继续删除其他文件
-        }
-      }
-
-      // 8. 更新备份统计信息（如果有删除操作）
-      if (deletedCount > 0) {
-        if (type === BackupType.BOOKMARKS) {
-          // 强制刷新书签备份统计信息
-          await this.getBackupStats(credentials, username, true);
-        }
+      // 5. 强制刷新书签备份统计信息
+      if (type === BackupType.BOOKMARKS) {
+        await this.getBackupStats(provider, true);
       }
 
-      return { success: true, deletedCount };
+      return { success: true, deletedCount: deletedFiles.length, deletedFiles };
     } catch (error) {
       console.error('清理旧备份文件失败:', error);
       return {
         success: false,
         deletedCount: 0,
+        deletedFiles: [],
         error: `清理失败: ${error instanceof Error ? error.message : String(error)}`
       };
     }
@@ -0,0 +1,248 @@
+import { ForgeCredentials } from '../utils/storage-service';
+
+export class GiteaApiError extends Error {
+  public readonly status: number;
+  public readonly data?: unknown;
+
+  constructor(status: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'GiteaApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// 仓库目录中的条目
+export interface GiteaContentEntry {
+  name: string;
+  path: string;
+  sha: string;
+  size: number;
+  type: 'file' | 'dir' | 'symlink' | 'submodule';
+  content?: string; // 读取单个文件时为 Base64 内容
+  html_url?: string;
+}
+
+// 批量修改文件中的单个操作
+export interface GiteaFileOperation {
+  operation: 'create' | 'update' | 'delete';
+  path: string;
+  content?: string; // Base64 内容
+  sha?: string; // 更新、删除时需要
+}
+
+/**
+ * Gitea API 服务（兼容 Forgejo）
+ * 基础地址为实例地址，例如 https://gitea.example.com
+ */
+export class GiteaService {
+  private static instance: GiteaService;
+
+  private constructor() {}
+
+  static getInstance(): GiteaService {
+    if (!GiteaService.instance) {
+      GiteaService.instance = new GiteaService();
+    }
+    return GiteaService.instance;
+  }
+
+  /**
+   * 获取实例中的页面地址
+   */
+  getWebUrl(credentials: ForgeCredentials, path: string): string {
+    return `${credentials.baseUrl.replace(/\/+$/, '')}/${path}`;
+  }
+
+  private encodePath(path: string): string {
+    return path.split('/').map(segment => encodeURIComponent(segment)).join('/');
+  }
+
+  private refQuery(ref?: string): string {
+    return ref ? `?ref=${encodeURIComponent(ref)}` : '';
+  }
+
+  private async request<T>(
+    credentials: ForgeCredentials,
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const headers = new Headers();
+    headers.append('Accept', 'application/json');
+    headers.append('Content-Type', 'application/json');
+    headers.append('Authorization', `token ${credentials.token}`);
+
+    const response = await fetch(`${credentials.baseUrl.replace(/\/+$/, '')}/api/v1${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      let errorData: unknown = undefined;
+      try {
+        errorData = await response.json();
+      } catch {
+        // ignore
+      }
+      throw new GiteaApiError(
+        response.status,
+        `Gitea API error: ${response.status} - ${JSON.stringify(errorData)}`,
+        errorData
+      );
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return await response.json() as T;
+  }
+
+  /**
+   * 验证凭据，返回当前用户名
+   */
+  async validateCredentials(credentials: ForgeCredentials): Promise<{ login: string }> {
+    const user = await this.request<{ login: string }>(credentials, 'GET', '/user');
+    return { login: user.login };
+  }
+
+  /**
+   * 检查仓库是否存在
+   */
+  async repoExists(credentials: ForgeCredentials, owner: string, repo: string): Promise<boolean> {
+    try {
+      await this.request(credentials, 'GET', `/repos/${owner}/${repo}`);
+      return true;
+    } catch (error) {
+      if (error instanceof GiteaApiError && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 在当前用户或指定组织下创建仓库，仓库已存在（409）时不报错
+   * @param org 所属组织，不指定时创建在当前用户下
+   */
+  async createRepo(
+    credentials: ForgeCredentials,
+    name: string,
+    isPrivate: boolean = true,
+    org?: string
+  ): Promise<void> {
+    try {
+      await this.request(credentials, 'POST', org ? `/orgs/${org}/repos` : '/user/repos', {
+        name,
+        private: isPrivate,
+        auto_init: true,
+        description: 'MarksVault书签备份仓库'
+      });
+    } catch (error) {
+      if (error instanceof GiteaApiError && error.status === 409) {
+        console.log('仓库已存在，使用现有仓库');
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 确保分支存在，不存在时基于仓库默认分支创建
+   */
+  async ensureBranch(credentials: ForgeCredentials, owner: string, repo: string, branch: string): Promise<void> {
+    try {
+      await this.request(credentials, 'GET', `/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}`);
+    } catch (error) {
+      if (!(error instanceof GiteaApiError && error.status === 404)) {
+        throw error;
+      }
+      await this.request(credentials, 'POST', `/repos/${owner}/${repo}/branches`, { new_branch_name: branch });
+    }
+  }
+
+  /**
+   * 获取目录内容，目录不存在时抛出 404 错误
+   * @param path 目录路径，空字符串表示仓库根目录
+   * @param ref 分支名称，默认为仓库默认分支
+   */
+  async getDirectory(
+    credentials: ForgeCredentials,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): Promise<GiteaContentEntry[]> {
+    const contentsPath = path ? `contents/${this.encodePath(path)}` : 'contents';
+    return this.request<GiteaContentEntry[]>(
+      credentials,
+      'GET',
+      `/repos/${owner}/${repo}/${contentsPath}${this.refQuery(ref)}`
+    );
+  }
+
+  /**
+   * 获取单个文件，文件不存在时返回 null
+   * @param ref 分支名称，默认为仓库默认分支
+   */
+  async getFile(
+    credentials: ForgeCredentials,
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): Promise<GiteaContentEntry | null> {
+    try {
+      return await this.request<GiteaContentEntry>(
+        credentials,
+        'GET',
+        `/repos/${owner}/${repo}/contents/${this.encodePath(path)}${this.refQuery(ref)}`
+      );
+    } catch (error) {
+      if (error instanceof GiteaApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 在一次提交中创建、更新或删除多个文件（Gitea 1.20+）
+   * @param branch 目标分支，默认为仓库默认分支
+   * @returns 提交的 SHA、页面地址与各文件的页面地址
+   */
+  async changeFiles(
+    credentials: ForgeCredentials,
+    owner: string,
+    repo: string,
+    files: GiteaFileOperation[],
+    message: string,
+    branch?: string
+  ): Promise<{ commitSha?: string; commitUrl?: string; fileUrls: Record<string, string> }> {
+    const result = await this.request<{
+      files?: Array<GiteaContentEntry | null>;
+      commit?: { sha?: string; html_url?: string };
+    }>(credentials, 'POST', `/repos/${owner}/${repo}/contents`, {
+      files: files.map(file => ({
+        operation: file.operation,
+        path: file.path,
+        content: file.content,
+        sha: file.sha
+      })),
+      message,
+      branch
+    });
+
+    const fileUrls: Record<string, string> = {};
+    for (const file of result.files || []) {
+      if (file?.html_url) {
+        fileUrls[file.path] = file.html_url;
+      }
+    }
+    return { commitSha: result.commit?.sha, commitUrl: result.commit?.html_url, fileUrls };
+  }
+}
+
+const giteaService = GiteaService.getInstance();
+export default giteaService;
@@ -0,0 +1,134 @@
+import { GiteaStorageProvider } from './gitea-storage-provider';
+
+const BASE_URL = 'https://gitea.example.com';
+const credentials = { baseUrl: `${BASE_URL}/`, token: 'gitea-token' };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('gitea-storage-provider Gitea 存储位置', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    (global as any).fetch = fetchMock;
+  });
+
+  const requestOf = (index: number) => {
+    const [url, init] = fetchMock.mock.calls[index] as [string, RequestInit];
+    return {
+      url,
+      method: init.method,
+      headers: init.headers as Headers,
+      body: init.body ? JSON.parse(init.body as string) : undefined
+    };
+  };
+
+  test('仓库不存在时在当前用户下自动创建', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ message: 'Not Found' }, 404))
+      .mockResolvedValueOnce(jsonResponse({ login: 'Alice' }))
+      .mockResolvedValueOnce(jsonResponse({ name: 'marksvault-backups' }, 201));
+
+    await new GiteaStorageProvider(credentials, 'alice').ensureContainer();
+
+    expect(requestOf(0).url).toBe(`${BASE_URL}/api/v1/repos/alice/marksvault-backups`);
+    expect(requestOf(0).headers.get('Authorization')).toBe('token gitea-token');
+    expect(requestOf(1).url).toBe(`${BASE_URL}/api/v1/user`);
+    expect(requestOf(2)).toMatchObject({
+      url: `${BASE_URL}/api/v1/user/repos`,
+      method: 'POST',
+      body: { name: 'marksvault-backups', private: true, auto_init: true }
+    });
+  });
+
+  test('所有者为组织时在该组织下创建仓库', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ message: 'Not Found' }, 404))
+      .mockResolvedValueOnce(jsonResponse({ login: 'alice' }))
+      .mockResolvedValueOnce(jsonResponse({ name: 'marksvault-backups' }, 201));
+
+    await new GiteaStorageProvider(credentials, 'team').ensureContainer();
+
+    expect(requestOf(2)).toMatchObject({
+      url: `${BASE_URL}/api/v1/orgs/team/repos`,
+      method: 'POST',
+      body: { name: 'marksvault-backups', private: true }
+    });
+  });
+
+  test('批量写入在一次提交中区分创建、更新与删除', async () => {
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      if (init.method === 'POST') {
+        return jsonResponse({
+          files: [{ path: 'bookmarks/new.json', html_url: `${BASE_URL}/alice/marksvault-backups/src/branch/main/bookmarks/new.json` }],
+          commit: { sha: 'abc', html_url: `${BASE_URL}/alice/marksvault-backups/commit/abc` }
+        }, 201);
+      }
+      if (url.endsWith('/contents/bookmarks')) {
+        return jsonResponse([
+          { name: 'old.json', path: 'bookmarks/old.json', sha: 'sha-old.json', size: 1, type: 'file' },
+          { name: 'archive', path: 'bookmarks/archive', sha: 'sha-archive', size: 0, type: 'dir' }
+        ]);
+      }
+      if (url.endsWith('/contents')) {
+        return jsonResponse([
+          { name: 'manifest.json', path: 'manifest.json', sha: 'sha-manifest.json', size: 1, type: 'file' }
+        ]);
+      }
+      return jsonResponse({ message: 'Not Found' }, 404);
+    });
+
+    const provider = new GiteaStorageProvider(credentials, 'alice');
+    const result = await provider.writeFiles([
+      { path: 'bookmarks/new.json', content: '{"a":"书签"}' },
+      { path: 'manifest.json', content: 'AAEC', encoding: 'base64' },
+      { path: 'bookmarks/old.json', delete: true }
+    ], '添加书签备份');
+
+    const commitRequests = fetchMock.mock.calls.filter(([, init]) => init.method === 'POST');
+    expect(commitRequests).toHaveLength(1);
+    // 每个父目录只列出一次，不逐个下载文件
+    expect(fetchMock.mock.calls.filter(([, init]) => init.method === 'GET').map(([url]) => url)).toEqual([
+      `${BASE_URL}/api/v1/repos/alice/marksvault-backups/contents/bookmarks`,
+      `${BASE_URL}/api/v1/repos/alice/marksvault-backups/contents`
+    ]);
+    expect(requestOf(fetchMock.mock.calls.length - 1)).toMatchObject({
+      url: `${BASE_URL}/api/v1/repos/alice/marksvault-backups/contents`,
+      body: {
+        message: '添加书签备份',
+        files: [
+          { operation: 'create', path: 'bookmarks/new.json', content: Buffer.from('{"a":"书签"}').toString('base64') },
+          { operation: 'update', path: 'manifest.json', content: 'AAEC', sha: 'sha-manifest.json' },
+          { operation: 'delete', path: 'bookmarks/old.json', sha: 'sha-old.json' }
+        ]
+      }
+    });
+    expect(result).toEqual({
+      url: `${BASE_URL}/alice/marksvault-backups/commit/abc`,
+      fileUrls: { 'bookmarks/new.json': `${BASE_URL}/alice/marksvault-backups/src/branch/main/bookmarks/new.json` },
+      commitSha: 'abc',
+      commitUrl: `${BASE_URL}/alice/marksvault-backups/commit/abc`
+    });
+  });
+
+  test('列出目录中的文件并解码读取的内容', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse([
+        { name: 'a.json', path: 'bookmarks/a.json', sha: 'sha-a', size: 10, type: 'file' },
+        { name: 'sub', path: 'bookmarks/sub', sha: 'sha-sub', size: 0, type: 'dir' }
+      ]))
+      .mockResolvedValueOnce(jsonResponse({
+        name: 'a.json', path: 'bookmarks/a.json', sha: 'sha-a', size: 10, type: 'file',
+        content: 'eyJi\nIjox\nfQ=='
+      }));
+
+    const provider = new GiteaStorageProvider(credentials, 'alice', 'my-backups');
+
+    await expect(provider.listFiles('bookmarks')).resolves.toEqual([
+      { name: 'a.json', path: 'bookmarks/a.json', size: 10, sha: 'sha-a' }
+    ]);
+    await expect(provider.readFile('bookmarks/a.json')).resolves.toBe('{"b":1}');
+    expect(requestOf(1).url).toBe(`${BASE_URL}/api/v1/repos/alice/my-backups/contents/bookmarks/a.json`);
+  });
+});
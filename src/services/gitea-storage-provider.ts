@@ -0,0 +1,138 @@
+import { ForgeCredentials } from '../utils/storage-service';
+import {
+  StorageContentEncoding,
+  StorageFile,
+  StorageFileChange,
+  StorageProvider,
+  StorageWriteResult
+} from '../types/storage-provider';
+import { fromBase64, toBase64 } from '../utils/backup-crypto';
+import { DEFAULT_BACKUP_REPO } from './github-storage-provider';
+import giteaService, { GiteaApiError, GiteaFileOperation } from './gitea-service';
+
+/**
+ * Gitea 存储提供方：以仓库作为容器，通过 contents API 读写文件，
+ * 批量写入使用一次提交完成
+ */
+export class GiteaStorageProvider implements StorageProvider {
+  readonly type = 'gitea' as const;
+  readonly name = 'Gitea';
+
+  /**
+   * @param credentials Gitea连接配置
+   * @param owner 仓库所有者用户名或组织名
+   * @param repo 仓库名称
+   * @param branch 分支名称，不指定时使用仓库默认分支
+   */
+  constructor(
+    private readonly credentials: ForgeCredentials,
+    private readonly owner: string,
+    private readonly repo: string = DEFAULT_BACKUP_REPO,
+    private readonly branch?: string
+  ) { }
+
+  async containerExists(): Promise<boolean> {
+    return giteaService.repoExists(this.credentials, this.owner, this.repo);
+  }
+
+  async ensureContainer(): Promise<void> {
+    if (!(await this.containerExists())) {
+      // 所有者不是当前账号时创建在该组织下
+      const { login } = await giteaService.validateCredentials(this.credentials);
+      const org = login.toLowerCase() === this.owner.toLowerCase() ? undefined : this.owner;
+      await giteaService.createRepo(this.credentials, this.repo, true, org);
+    }
+    if (this.branch) {
+      await giteaService.ensureBranch(this.credentials, this.owner, this.repo, this.branch);
+    }
+  }
+
+  async listFiles(folder: string): Promise<StorageFile[]> {
+    const entries = await giteaService.getDirectory(this.credentials, this.owner, this.repo, folder, this.branch);
+    return entries
+      .filter(entry => entry.type === 'file')
+      .map(entry => ({ name: entry.name, path: entry.path, size: entry.size, sha: entry.sha }));
+  }
+
+  async readFile(path: string, encoding: StorageContentEncoding = 'utf-8'): Promise<string> {
+    const file = await giteaService.getFile(this.credentials, this.owner, this.repo, path, this.branch);
+    if (!file || file.content === undefined) {
+      throw new Error(`文件不存在: ${path}`);
+    }
+
+    const base64 = file.content.replace(/\s/g, '');
+    return encoding === 'base64' ? base64 : new TextDecoder().decode(fromBase64(base64));
+  }
+
+  async writeFile(
+    path: string,
+    content: string,
+    message: string,
+    encoding: StorageContentEncoding = 'utf-8'
+  ): Promise<StorageWriteResult> {
+    const result = await this.writeFiles([{ path, content, encoding }], message);
+    return { url: result.fileUrls?.[path] ?? result.url, commitSha: result.commitSha, commitUrl: result.commitUrl };
+  }
+
+  async writeFiles(changes: StorageFileChange[], message: string): Promise<StorageWriteResult> {
+    // 更新与删除需要文件当前的 SHA
+    const existingShas = await this.getExistingShas(changes.map(change => change.path));
+    const operations: GiteaFileOperation[] = [];
+    for (const change of changes) {
+      const sha = existingShas.get(change.path);
+      if (change.delete) {
+        if (sha) {
+          operations.push({ operation: 'delete', path: change.path, sha });
+        }
+        continue;
+      }
+
+      const content = change.encoding === 'base64'
+        ? change.content || ''
+        : toBase64(new TextEncoder().encode(change.content || ''));
+      operations.push(sha
+        ? { operation: 'update', path: change.path, content, sha }
+        : { operation: 'create', path: change.path, content });
+    }
+
+    if (operations.length === 0) {
+      return {};
+    }
+
+    const result = await giteaService.changeFiles(
+      this.credentials,
+      this.owner,
+      this.repo,
+      operations,
+      message,
+      this.branch
+    );
+    return { url: result.commitUrl, fileUrls: result.fileUrls, commitSha: result.commitSha, commitUrl: result.commitUrl };
+  }
+
+  async deleteFile(file: StorageFile, message: string): Promise<void> {
+    await this.writeFiles([{ path: file.path, delete: true }], message);
+  }
+
+  /**
+   * 按父目录列出文件获取已有文件的 SHA，每个目录只请求一次而不下载文件内容
+   */
+  private async getExistingShas(paths: string[]): Promise<Map<string, string>> {
+    const folders = new Set(paths.map(path => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : ''));
+    const shas = new Map<string, string>();
+    for (const folder of folders) {
+      try {
+        const entries = await giteaService.getDirectory(this.credentials, this.owner, this.repo, folder, this.branch);
+        entries
+          .filter(entry => entry.type === 'file')
+          .forEach(entry => shas.set(entry.path, entry.sha));
+      } catch (error) {
+        // 目录尚不存在时其中的文件都需要新建
+        if (!(error instanceof GiteaApiError && error.status === 404)) {
+          throw error;
+        }
+      }
+    }
+    return shas;
+  }
+}
@@ -33,3 +33,116 @@ describe('github-service.validateCredentials', () => {
   });
 });
 
+
+describe('github-service.commitFiles', () => {
+  const json = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+
+  beforeEach(() => {
+    (global as any).fetch = jest.fn();
+  });
+
+  test('创建 Blob、树与提交后更新分支，删除项的 sha 为 null', async () => {
+    (global as any).fetch
+      .mockResolvedValueOnce(json(200, { default_branch: 'main' }))
+      .mockResolvedValueOnce(json(201, { sha: 'blob-1' }))
+      .mockResolvedValueOnce(json(200, { object: { sha: 'head-1' } }))
+      .mockResolvedValueOnce(json(200, { sha: 'head-1', tree: { sha: 'tree-1' } }))
+      .mockResolvedValueOnce(json(201, { sha: 'tree-2' }))
+      .mockResolvedValueOnce(json(201, { sha: 'commit-1', html_url: 'https://github.com/commit-1' }))
+      .mockResolvedValueOnce(json(200, { object: { sha: 'commit-1' } }));
+
+    const result = await githubService.commitFiles(
+      { token: 'test-token' } as any,
+      'alice',
+      'backups',
+      [
+        { path: 'bookmarks/new.json', content: '{}' },
+        { path: 'bookmarks/old.json', delete: true },
+      ],
+      '备份',
+    );
+
+    expect(result).toEqual({ sha: 'commit-1', branch: 'main', htmlUrl: 'https://github.com/commit-1' });
+    const calls = (global as any).fetch.mock.calls;
+    expect(calls).toHaveLength(7);
+    expect(JSON.parse(calls[4][1].body)).toEqual({
+      base_tree: 'tree-1',
+      tree: [
+        { path: 'bookmarks/new.json', mode: '100644', type: 'blob', sha: 'blob-1' },
+        { path: 'bookmarks/old.json', mode: '100644', type: 'blob', sha: null },
+      ],
+    });
+    expect(calls[6][0]).toBe('https://api.github.com/repos/alice/backups/git/refs/heads/main');
+    expect(JSON.parse(calls[6][1].body)).toEqual({ sha: 'commit-1', force: false });
+  });
+
+  test('分支被并发更新时基于最新提交重试', async () => {
+    (global as any).fetch
+      .mockResolvedValueOnce(json(200, { object: { sha: 'head-1' } }))
+      .mockResolvedValueOnce(json(200, { sha: 'head-1', tree: { sha: 'tree-1' } }))
+      .mockResolvedValueOnce(json(201, { sha: 'tree-2' }))
+      .mockResolvedValueOnce(json(201, { sha: 'commit-1', html_url: 'u1' }))
+      .mockResolvedValueOnce(json(422, { message: 'Update is not a fast forward' }))
+      .mockResolvedValueOnce(json(200, { object: { sha: 'head-2' } }))
+      .mockResolvedValueOnce(json(200, { sha: 'head-2', tree: { sha: 'tree-3' } }))
+      .mockResolvedValueOnce(json(201, { sha: 'tree-4' }))
+      .mockResolvedValueOnce(json(201, { sha: 'commit-2', html_url: 'u2' }))
+      .mockResolvedValueOnce(json(200, { object: { sha: 'commit-2' } }));
+
+    const result = await githubService.commitFiles(
+      { token: 'test-token' } as any,
+      'alice',
+      'backups',
+      [{ path: 'old.json', delete: true }],
+      '清理',
+      'main',
+    );
+
+    expect(result.sha).toBe('commit-2');
+    expect(JSON.parse((global as any).fetch.mock.calls[8][1].body).parents).toEqual(['head-2']);
+  });
+});
+
+describe('github-service 组织仓库', () => {
+  const json = (status: number, body: unknown) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  });
+
+  beforeEach(() => {
+    (global as any).fetch = jest.fn();
+  });
+
+  test('指定组织时在组织下创建仓库', async () => {
+    (global as any).fetch.mockResolvedValueOnce(json(201, { name: 'marksvault-backups' }));
+
+    await githubService.createRepo({ token: 'test-token' } as any, 'marksvault-backups', true, 'my-org');
+
+    const [url, init] = (global as any).fetch.mock.calls[0];
+    expect(url).toBe('https://api.github.com/orgs/my-org/repos');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toMatchObject({ name: 'marksvault-backups', private: true });
+  });
+
+  test('列出当前账号所属的组织及角色', async () => {
+    (global as any).fetch.mockResolvedValueOnce(json(200, [
+      { role: 'admin', organization: { login: 'my-org', avatar_url: 'https://avatars/my-org' } },
+      { role: 'member', organization: { login: 'team', avatar_url: 'https://avatars/team' } },
+    ]));
+
+    const organizations = await githubService.getOrganizations({ token: 'test-token' } as any);
+
+    expect((global as any).fetch.mock.calls[0][0]).toBe(
+      'https://api.github.com/user/memberships/orgs?state=active&per_page=100'
+    );
+    expect(organizations).toEqual([
+      { login: 'my-org', avatar_url: 'https://avatars/my-org', role: 'admin' },
+      { login: 'team', avatar_url: 'https://avatars/team', role: 'member' },
+    ]);
+  });
+});
@@ -1,4 +1,4 @@
-import { GitHubCredentials, GitHubUser } from '../types/github';
+import { GitCommitResult, GitFileChange, GitHubCredentials, GitHubOrganization, GitHubUser } from '../types/github';
 
 export class GitHubApiError extends Error {
   public readonly status: number;
@@ -12,6 +12,9 @@ export class GitHubApiError extends Error {
   }
 }
 
+// 分支被并发更新导致提交无法快进时的最大重试次数
+const MAX_COMMIT_ATTEMPTS = 3;
+
 export class GitHubService {
   private static instance: GitHubService;
   private baseUrl = 'https://api.github.com';
@@ -75,6 +78,8 @@ export class GitHubService {
    * @param content 文件内容
    * @param message 提交消息
    * @param sha 如果更新现有文件则需要提供此参数
+   * @param encoding 文件内容的编码：utf-8 为文本，base64 表示内容已是 Base64 编码的二进制数据
+   * @param branch 目标分支，默认为仓库默认分支
    * @returns 创建或更新的文件信息
    */
   async createOrUpdateFile(
@@ -84,13 +89,17 @@ export class GitHubService {
     path: string,
     content: string,
     message: string,
-    sha?: string
+    sha?: string,
+    encoding: 'utf-8' | 'base64' = 'utf-8',
+    branch?: string
   ): Promise<any> {
     const headers = this.getAuthHeaders(credentials);
     const url = `${this.baseUrl}/repos/${owner}/${repo}/contents/${path}`;
     
     // Base64编码内容
-    const contentEncoded = btoa(unescape(encodeURIComponent(content)));
+    const contentEncoded = encoding === 'base64'
+      ? content
+      : btoa(unescape(encodeURIComponent(content)));
     
     const body: any = {
       message,
@@ -101,6 +110,9 @@ export class GitHubService {
     if (sha) {
       body.sha = sha;
     }
+    if (branch) {
+      body.branch = branch;
+    }
     
     try {
       const response = await fetch(url, {
@@ -127,16 +139,21 @@ export class GitHubService {
    * @param owner 仓库所有者用户名
    * @param repo 仓库名称
    * @param path 文件路径
+   * @param encoding 返回内容的编码：utf-8 解码为文本，base64 原样返回 Base64 数据（用于二进制文件）
+   * @param ref 读取的分支，默认为仓库默认分支
    * @returns 文件内容和元数据
    */
   async getFileContent(
     credentials: GitHubCredentials,
     owner: string,
     repo: string,
-    path: string
+    path: string,
+    encoding: 'utf-8' | 'base64' = 'utf-8',
+    ref?: string
   ): Promise<{ content: string; sha: string; metadata: any }> {
     const headers = this.getAuthHeaders(credentials);
-    const url = `${this.baseUrl}/repos/${owner}/${repo}/contents/${path}`;
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    const url = `${this.baseUrl}/repos/${owner}/${repo}/contents/${path}${query}`;
     
     try {
       const response = await fetch(url, {
@@ -155,8 +172,14 @@ export class GitHubService {
       
       const data = await response.json();
       
-      // GitHub返回的内容是Base64编码的
-      const content = decodeURIComponent(escape(atob(data.content)));
+      // GitHub返回的内容是Base64编码的；超过 1MB 的文件不返回内容，改用 Blob 接口读取
+      const base64Content = data.encoding === 'none' || (!data.content && data.size > 0)
+        ? (await this.getBlob(credentials, owner, repo, data.sha)).content
+        : data.content;
+      const normalizedContent = String(base64Content).replace(/\s/g, '');
+      const content = encoding === 'base64'
+        ? normalizedContent
+        : decodeURIComponent(escape(atob(normalizedContent)));
       
       return {
         content,
@@ -208,15 +231,17 @@ export class GitHubService {
    * @param credentials GitHub凭据
    * @param name 仓库名称
    * @param isPrivate 是否为私有仓库
+   * @param org 所属组织，不指定时创建在当前账号下
    * @returns 创建的仓库信息
    */
   async createRepo(
     credentials: GitHubCredentials,
     name: string,
-    isPrivate: boolean = true
+    isPrivate: boolean = true,
+    org?: string
   ): Promise<any> {
     const headers = this.getAuthHeaders(credentials);
-    const url = `${this.baseUrl}/user/repos`;
+    const url = org ? `${this.baseUrl}/orgs/${org}/repos` : `${this.baseUrl}/user/repos`;
     
     const body = {
       name,
@@ -244,8 +269,7 @@ export class GitHubService {
           
           // 尝试获取现有仓库信息
           try {
-            const ownerResponse = await this.validateCredentials(credentials);
-            const ownerName = ownerResponse.login;
+            const ownerName = org || (await this.validateCredentials(credentials)).login;
             
             const existingRepoResponse = await fetch(`${this.baseUrl}/repos/${ownerName}/${name}`, {
               method: 'GET',
@@ -284,13 +308,15 @@ export class GitHubService {
    * @param owner 仓库所有者用户名
    * @param repo 仓库名称
    * @param path 可选的目录路径
+   * @param ref 读取的分支，默认为仓库默认分支
    * @returns 文件列表
    */
   async getRepositoryFiles(
     credentials: GitHubCredentials,
     owner: string,
     repo: string,
-    path: string = ''
+    path: string = '',
+    ref?: string
   ): Promise<Array<{name: string; path: string; sha: string; size: number; url: string; download_url: string; type: string}>> {
     const headers = this.getAuthHeaders(credentials);
     // 添加缓存控制头，确保每次都获取最新数据
@@ -299,7 +325,8 @@ export class GitHubService {
     
     // 添加时间戳参数到URL，避免缓存
     const timestamp = new Date().getTime();
-    const url = `${this.baseUrl}/repos/${owner}/${repo}/contents/${path}?timestamp=${timestamp}`;
+    const refQuery = ref ? `&ref=${encodeURIComponent(ref)}` : '';
+    const url = `${this.baseUrl}/repos/${owner}/${repo}/contents/${path}?timestamp=${timestamp}${refQuery}`;
     
     try {
       const response = await fetch(url, {
@@ -332,6 +359,7 @@ export class GitHubService {
    * @param path 文件路径
    * @param message 提交消息
    * @param sha 文件的SHA标识符，必需
+   * @param branch 目标分支，默认为仓库默认分支
    * @returns 删除操作的结果
    */
   async deleteFile(
@@ -340,14 +368,16 @@ export class GitHubService {
     repo: string,
     path: string,
     message: string,
-    sha: string
+    sha: string,
+    branch?: string
   ): Promise<any> {
     const headers = this.getAuthHeaders(credentials);
     const url = `${this.baseUrl}/repos/${owner}/${repo}/contents/${path}`;
     
     const body = {
       message,
-      sha
+      sha,
+      ...(branch ? { branch } : {})
     };
     
     try {
@@ -368,6 +398,286 @@ export class GitHubService {
       throw error;
     }
   }
+
+  /**
+   * 调用 GitHub REST 接口并解析 JSON 响应，失败时抛出 GitHubApiError
+   */
+  private async request<T>(
+    credentials: GitHubCredentials,
+    method: 'GET' | 'POST' | 'PATCH',
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: this.getAuthHeaders(credentials),
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      let errorData: unknown = undefined;
+      try {
+        errorData = await response.json();
+      } catch {
+        // ignore
+      }
+      throw new GitHubApiError(
+        response.status,
+        `GitHub API error: ${response.status} - ${JSON.stringify(errorData)}`,
+        errorData
+      );
+    }
+
+    return await response.json() as T;
+  }
+
+  /**
+   * 获取当前账号所属的组织（需要令牌具有 read:org 权限）
+   * @returns 已加入的组织及当前账号在其中的角色
+   */
+  async getOrganizations(credentials: GitHubCredentials): Promise<GitHubOrganization[]> {
+    const memberships = await this.request<Array<{
+      role: 'admin' | 'member';
+      organization: { login: string; avatar_url: string };
+    }>>(credentials, 'GET', '/user/memberships/orgs?state=active&per_page=100');
+
+    return memberships.map(membership => ({
+      login: membership.organization.login,
+      avatar_url: membership.organization.avatar_url,
+      role: membership.role
+    }));
+  }
+
+  /**
+   * 获取仓库的默认分支名称
+   */
+  async getDefaultBranch(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string
+  ): Promise<string> {
+    const data = await this.request<{ default_branch: string }>(credentials, 'GET', `/repos/${owner}/${repo}`);
+    return data.default_branch;
+  }
+
+  /**
+   * 获取分支引用指向的提交 SHA
+   * @param branch 分支名称
+   */
+  async getRef(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<string> {
+    const data = await this.request<{ object: { sha: string } }>(
+      credentials,
+      'GET',
+      `/repos/${owner}/${repo}/git/ref/heads/${branch}`
+    );
+    return data.object.sha;
+  }
+
+  /**
+   * 确保分支存在，不存在时基于仓库默认分支创建
+   * @param branch 分支名称
+   */
+  async ensureBranch(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<void> {
+    try {
+      await this.getRef(credentials, owner, repo, branch);
+      return;
+    } catch (error) {
+      if (!(error instanceof GitHubApiError && error.status === 404)) {
+        throw error;
+      }
+    }
+
+    const defaultBranch = await this.getDefaultBranch(credentials, owner, repo);
+    const sha = await this.getRef(credentials, owner, repo, defaultBranch);
+    await this.request(credentials, 'POST', `/repos/${owner}/${repo}/git/refs`, {
+      ref: `refs/heads/${branch}`,
+      sha
+    });
+  }
+
+  /**
+   * 获取提交信息
+   * @returns 提交 SHA 及其根树 SHA
+   */
+  async getCommit(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    sha: string
+  ): Promise<{ sha: string; treeSha: string }> {
+    const data = await this.request<{ sha: string; tree: { sha: string } }>(
+      credentials,
+      'GET',
+      `/repos/${owner}/${repo}/git/commits/${sha}`
+    );
+    return { sha: data.sha, treeSha: data.tree.sha };
+  }
+
+  /**
+   * 读取 Blob 内容（支持最大 100MB 的文件）
+   * @returns Base64 编码的内容
+   */
+  async getBlob(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    sha: string
+  ): Promise<{ content: string; size: number }> {
+    return this.request<{ content: string; size: number }>(
+      credentials,
+      'GET',
+      `/repos/${owner}/${repo}/git/blobs/${sha}`
+    );
+  }
+
+  /**
+   * 创建 Blob
+   * @param content 文件内容
+   * @param encoding 内容编码：utf-8 为文本，base64 表示内容已是 Base64 编码的二进制数据
+   * @returns Blob 的 SHA
+   */
+  async createBlob(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    content: string,
+    encoding: 'utf-8' | 'base64' = 'utf-8'
+  ): Promise<string> {
+    const data = await this.request<{ sha: string }>(
+      credentials,
+      'POST',
+      `/repos/${owner}/${repo}/git/blobs`,
+      { content, encoding }
+    );
+    return data.sha;
+  }
+
+  /**
+   * 基于已有的树创建新树
+   * @param baseTreeSha 基础树 SHA
+   * @param entries 变更的文件，sha 为 null 表示删除该文件
+   * @returns 新树的 SHA
+   */
+  async createTree(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    baseTreeSha: string,
+    entries: Array<{ path: string; sha: string | null }>
+  ): Promise<string> {
+    const data = await this.request<{ sha: string }>(
+      credentials,
+      'POST',
+      `/repos/${owner}/${repo}/git/trees`,
+      {
+        base_tree: baseTreeSha,
+        tree: entries.map(entry => ({ path: entry.path, mode: '100644', type: 'blob', sha: entry.sha }))
+      }
+    );
+    return data.sha;
+  }
+
+  /**
+   * 创建提交
+   * @returns 新提交的 SHA 与页面地址
+   */
+  async createCommit(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    message: string,
+    treeSha: string,
+    parents: string[]
+  ): Promise<{ sha: string; htmlUrl: string }> {
+    const data = await this.request<{ sha: string; html_url: string }>(
+      credentials,
+      'POST',
+      `/repos/${owner}/${repo}/git/commits`,
+      { message, tree: treeSha, parents }
+    );
+    return { sha: data.sha, htmlUrl: data.html_url };
+  }
+
+  /**
+   * 将分支引用移动到指定提交（只允许快进）
+   */
+  async updateRef(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    branch: string,
+    sha: string
+  ): Promise<void> {
+    await this.request(
+      credentials,
+      'PATCH',
+      `/repos/${owner}/${repo}/git/refs/heads/${branch}`,
+      { sha, force: false }
+    );
+  }
+
+  /**
+   * 在一次提交中写入和删除多个文件
+   * 所有变更要么全部生效、要么全部不生效；分支在提交期间被更新时会基于最新提交重试
+   * @param changes 文件变更列表
+   * @param message 提交消息
+   * @param branch 目标分支，默认为仓库默认分支
+   * @returns 提交结果
+   */
+  async commitFiles(
+    credentials: GitHubCredentials,
+    owner: string,
+    repo: string,
+    changes: GitFileChange[],
+    message: string,
+    branch?: string
+  ): Promise<GitCommitResult> {
+    try {
+      const targetBranch = branch || await this.getDefaultBranch(credentials, owner, repo);
+
+      // Blob 与分支状态无关，只需创建一次
+      const entries: Array<{ path: string; sha: string | null }> = [];
+      for (const change of changes) {
+        entries.push({
+          path: change.path,
+          sha: change.delete
+            ? null
+            : await this.createBlob(credentials, owner, repo, change.content ?? '', change.encoding)
+        });
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        const headSha = await this.getRef(credentials, owner, repo, targetBranch);
+        const head = await this.getCommit(credentials, owner, repo, headSha);
+        const treeSha = await this.createTree(credentials, owner, repo, head.treeSha, entries);
+        const commit = await this.createCommit(credentials, owner, repo, message, treeSha, [headSha]);
+
+        try {
+          await this.updateRef(credentials, owner, repo, targetBranch, commit.sha);
+          return { sha: commit.sha, branch: targetBranch, htmlUrl: commit.htmlUrl };
+        } catch (error) {
+          // 422 表示无法快进（分支已被其他提交更新），基于最新提交重试
+          if (!(error instanceof GitHubApiError) || error.status !== 422 || attempt >= MAX_COMMIT_ATTEMPTS) {
+            throw error;
+          }
+          console.warn(`分支 ${targetBranch} 已更新，重新提交 (第 ${attempt + 1} 次)`);
+        }
+      }
+    } catch (error) {
+      console.error('Committing files failed:', error);
+      throw error;
+    }
+  }
 }
 
 export default GitHubService.getInstance();
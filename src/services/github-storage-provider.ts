@@ -0,0 +1,120 @@
+import { GitHubCredentials } from '../types/github';
+import {
+  StorageContentEncoding,
+  StorageFile,
+  StorageFileChange,
+  StorageProvider,
+  StorageWriteResult
+} from '../types/storage-provider';
+import githubService from './github-service';
+
+// 默认的备份仓库名称
+export const DEFAULT_BACKUP_REPO = 'marksvault-backups';
+
+/**
+ * GitHub 存储提供方：以仓库作为容器，通过 GitHub API 读写文件
+ */
+export class GitHubStorageProvider implements StorageProvider {
+  readonly type = 'github' as const;
+  readonly name = 'GitHub';
+
+  /**
+   * @param credentials GitHub凭据
+   * @param owner 仓库所有者（用户名或组织名）
+   * @param repo 仓库名称
+   * @param branch 分支名称，不指定时使用仓库默认分支
+   */
+  constructor(
+    private readonly credentials: GitHubCredentials,
+    private readonly owner: string,
+    private readonly repo: string = DEFAULT_BACKUP_REPO,
+    private readonly branch?: string
+  ) { }
+
+  async containerExists(): Promise<boolean> {
+    return githubService.repoExists(this.credentials, this.owner, this.repo);
+  }
+
+  async ensureContainer(): Promise<void> {
+    if (!(await this.containerExists())) {
+      await this.createContainer();
+    }
+    if (this.branch) {
+      await githubService.ensureBranch(this.credentials, this.owner, this.repo, this.branch);
+    }
+  }
+
+  private async createContainer(): Promise<void> {
+    // 创建新存储库：所有者不是当前账号时创建在该组织下
+    try {
+      const user = await githubService.validateCredentials(this.credentials);
+      const org = user.login.toLowerCase() === this.owner.toLowerCase() ? undefined : this.owner;
+      const createRepoResult = await githubService.createRepo(this.credentials, this.repo, true, org);
+
+      // 检查创建结果中是否有_repoExisted标记，表示仓库已存在但成功获取了信息
+      if (createRepoResult._repoExisted) {
+        console.log('仓库已存在，使用现有仓库');
+      } else {
+        // 给存储库一些时间初始化
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    } catch (repoError) {
+      // 如果创建仓库失败，再次检查仓库是否存在
+      console.error('创建仓库失败，再次检查仓库是否存在:', repoError);
+      const recheckedExists = await this.containerExists();
+
+      if (!recheckedExists) {
+        // 如果确实不存在，则抛出原始错误
+        throw repoError;
+      } else {
+        console.log('仓库已存在，继续操作');
+      }
+    }
+  }
+
+  async listFiles(folder: string): Promise<StorageFile[]> {
+    const files = await githubService.getRepositoryFiles(this.credentials, this.owner, this.repo, folder, this.branch);
+    return files.map(file => ({ name: file.name, path: file.path, size: file.size, sha: file.sha }));
+  }
+
+  async readFile(path: string, encoding: StorageContentEncoding = 'utf-8'): Promise<string> {
+    const fileData = await githubService.getFileContent(this.credentials, this.owner, this.repo, path, encoding, this.branch);
+    return fileData.content;
+  }
+
+  async writeFile(
+    path: string,
+    content: string,
+    message: string,
+    encoding: StorageContentEncoding = 'utf-8'
+  ): Promise<StorageWriteResult> {
+    const result = await githubService.createOrUpdateFile(
+      this.credentials,
+      this.owner,
+      this.repo,
+      path,
+      content,
+      message,
+      undefined,
+      encoding,
+      this.branch
+    );
+    return { url: result.content.html_url, commitSha: result.commit?.sha, commitUrl: result.commit?.html_url };
+  }
+
+  async writeFiles(changes: StorageFileChange[], message: string): Promise<StorageWriteResult> {
+    const commit = await githubService.commitFiles(this.credentials, this.owner, this.repo, changes, message, this.branch);
+    const fileUrls: Record<string, string> = {};
+    for (const change of changes.filter(change => !change.delete)) {
+      fileUrls[change.path] = `https://github.com/${this.owner}/${this.repo}/blob/${commit.branch}/${change.path}`;
+    }
+    return { url: commit.htmlUrl, fileUrls, commitSha: commit.sha, commitUrl: commit.htmlUrl };
+  }
+
+  async deleteFile(file: StorageFile, message: string): Promise<void> {
+    if (!file.sha) {
+      throw new Error(`缺少文件 ${file.path} 的 SHA，无法删除`);
+    }
+    await githubService.deleteFile(this.credentials, this.owner, this.repo, file.path, message, file.sha, this.branch);
+  }
+}
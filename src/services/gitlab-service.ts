@@ -0,0 +1,246 @@
+import { ForgeCredentials } from '../utils/storage-service';
+
+export class GitLabApiError extends Error {
+  public readonly status: number;
+  public readonly data?: unknown;
+
+  constructor(status: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'GitLabApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// 项目信息（只包含用到的字段）
+export interface GitLabProject {
+  id: number;
+  default_branch?: string;
+  web_url: string;
+}
+
+// 仓库树中的条目，GitLab 的树接口不返回文件大小
+export interface GitLabTreeEntry {
+  id: string; // blob SHA
+  name: string;
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+// 提交中的单个文件操作
+export interface GitLabCommitAction {
+  action: 'create' | 'update' | 'delete';
+  file_path: string;
+  content?: string;
+  encoding?: 'text' | 'base64';
+}
+
+// 分页接口每页的条目数
+const PAGE_SIZE = 100;
+
+/**
+ * GitLab API 服务（v4），支持 gitlab.com 与自建实例
+ * 基础地址为实例地址，例如 https://gitlab.example.com
+ */
+export class GitLabService {
+  private static instance: GitLabService;
+
+  private constructor() {}
+
+  static getInstance(): GitLabService {
+    if (!GitLabService.instance) {
+      GitLabService.instance = new GitLabService();
+    }
+    return GitLabService.instance;
+  }
+
+  /**
+   * 项目标识：URL 编码的“所有者/仓库名”
+   */
+  private projectId(owner: string, repo: string): string {
+    return encodeURIComponent(`${owner}/${repo}`);
+  }
+
+  private async request<T>(
+    credentials: ForgeCredentials,
+    method: 'GET' | 'HEAD' | 'POST',
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const headers = new Headers();
+    headers.append('Accept', 'application/json');
+    headers.append('Content-Type', 'application/json');
+    headers.append('PRIVATE-TOKEN', credentials.token);
+
+    const response = await fetch(`${credentials.baseUrl.replace(/\/+$/, '')}/api/v4${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      let errorData: unknown = undefined;
+      try {
+        errorData = await response.json();
+      } catch {
+        // ignore
+      }
+      throw new GitLabApiError(
+        response.status,
+        `GitLab API error: ${response.status} - ${JSON.stringify(errorData)}`,
+        errorData
+      );
+    }
+
+    if (method === 'HEAD') {
+      return undefined as T;
+    }
+    return await response.json() as T;
+  }
+
+  /**
+   * 验证凭据，返回当前用户名
+   */
+  async validateCredentials(credentials: ForgeCredentials): Promise<{ login: string }> {
+    const user = await this.request<{ username: string }>(credentials, 'GET', '/user');
+    return { login: user.username };
+  }
+
+  /**
+   * 获取项目信息，项目不存在时返回 null
+   */
+  async getProject(credentials: ForgeCredentials, owner: string, repo: string): Promise<GitLabProject | null> {
+    try {
+      return await this.request<GitLabProject>(credentials, 'GET', `/projects/${this.projectId(owner, repo)}`);
+    } catch (error) {
+      if (error instanceof GitLabApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 在当前用户下创建私有项目，并以 README 初始化默认分支
+   */
+  async createProject(credentials: ForgeCredentials, name: string): Promise<GitLabProject> {
+    return this.request<GitLabProject>(credentials, 'POST', '/projects', {
+      name,
+      path: name,
+      visibility: 'private',
+      initialize_with_readme: true,
+      description: 'MarksVault书签备份仓库'
+    });
+  }
+
+  /**
+   * 确保分支存在，不存在时基于项目默认分支创建
+   */
+  async ensureBranch(
+    credentials: ForgeCredentials,
+    owner: string,
+    repo: string,
+    branch: string,
+    ref: string
+  ): Promise<void> {
+    const branchesPath = `/projects/${this.projectId(owner, repo)}/repository/branches`;
+    try {
+      await this.request(credentials, 'GET', `${branchesPath}/${encodeURIComponent(branch)}`);
+    } catch (error) {
+      if (!(error instanceof GitLabApiError && error.status === 404)) {
+        throw error;
+      }
+      await this.request(credentials, 'POST', branchesPath, { branch, ref });
+    }
+  }
+
+  /**
+   * 列出目录中的条目（自动翻页），目录不存在时抛出 404 错误
+   */
+  async getTree(
+    credentials: ForgeCredentials,
+    owner: string,
+    repo: string,
+    path: string,
+    ref: string
+  ): Promise<GitLabTreeEntry[]> {
+    const entries: GitLabTreeEntry[] = [];
+    for (let page = 1; ; page++) {
+      const query = `path=${encodeURIComponent(path)}&ref=${encodeURIComponent(ref)}&per_page=${PAGE_SIZE}&page=${page}`;
+      const pageEntries = await this.request<GitLabTreeEntry[]>(
+        credentials,
+        'GET',
+        `/projects/${this.projectId(owner, repo)}/repository/tree?${query}`
+      );
+      entries.push(...pageEntries);
+      if (pageEntries.length < PAGE_SIZE) {
+        return entries;
+      }
+    }
+  }
+
+  /**
+   * 读取文件，返回 Base64 编码的内容
+   */
+  async getFile(
+    credentials: ForgeCredentials,
+    owner: string,
+    repo: string,
+    path: string,
+    ref: string
+  ): Promise<{ content: string; size: number }> {
+    return this.request<{ content: string; size: number }>(
+      credentials,
+      'GET',
+      `/projects/${this.projectId(owner, repo)}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`
+    );
+  }
+
+  /**
+   * 检查文件是否存在
+   */
+  async fileExists(
+    credentials: ForgeCredentials,
+    owner: string,
+    repo: string,
+    path: string,
+    ref: string
+  ): Promise<boolean> {
+    try {
+      await this.request(
+        credentials,
+        'HEAD',
+        `/projects/${this.projectId(owner, repo)}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof GitLabApiError && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 在一次提交中创建、更新或删除多个文件
+   * @returns 提交的页面地址
+   */
+  async createCommit(
+    credentials: ForgeCredentials,
+    owner: string,
+    repo: string,
+    branch: string,
+    actions: GitLabCommitAction[],
+    message: string
+  ): Promise<{ id: string; web_url: string }> {
+    return this.request<{ id: string; web_url: string }>(
+      credentials,
+      'POST',
+      `/projects/${this.projectId(owner, repo)}/repository/commits`,
+      { branch, commit_message: message, actions }
+    );
+  }
+}
+
+const gitlabService = GitLabService.getInstance();
+export default gitlabService;
@@ -0,0 +1,99 @@
+import { GitLabStorageProvider } from './gitlab-storage-provider';
+
+const BASE_URL = 'https://gitlab.example.com';
+const credentials = { baseUrl: BASE_URL, token: 'gitlab-token' };
+const PROJECT_PATH = `${BASE_URL}/api/v4/projects/alice%2Fmarksvault-backups`;
+const project = { id: 7, default_branch: 'trunk', web_url: `${BASE_URL}/alice/marksvault-backups` };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('gitlab-storage-provider GitLab 存储位置', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    (global as any).fetch = fetchMock;
+  });
+
+  test('项目不存在时自动创建私有项目', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ message: '404 Project Not Found' }, 404))
+      .mockResolvedValueOnce(jsonResponse(project, 201));
+
+    await new GitLabStorageProvider(credentials, 'alice').ensureContainer();
+
+    const [url, init] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect(fetchMock.mock.calls[0][0]).toBe(PROJECT_PATH);
+    expect((init.headers as Headers).get('PRIVATE-TOKEN')).toBe('gitlab-token');
+    expect(url).toBe(`${BASE_URL}/api/v4/projects`);
+    expect(JSON.parse(init.body as string)).toMatchObject({
+      name: 'marksvault-backups',
+      visibility: 'private',
+      initialize_with_readme: true
+    });
+  });
+
+  test('批量写入在默认分支上生成一次提交', async () => {
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url === PROJECT_PATH) return jsonResponse(project);
+      if (init.method === 'HEAD') {
+        return new Response(null, { status: url.includes('manifest.json') ? 200 : 404 });
+      }
+      return jsonResponse({ id: 'abc', web_url: `${project.web_url}/-/commit/abc` }, 201);
+    });
+
+    const provider = new GitLabStorageProvider(credentials, 'alice');
+    const result = await provider.writeFiles([
+      { path: 'bookmarks/new.json', content: '{}' },
+      { path: 'manifest.json', content: 'AAEC', encoding: 'base64' },
+      { path: 'bookmarks/old.json', delete: true }
+    ], '添加书签备份');
+
+    const commits = fetchMock.mock.calls.filter(([, init]) => init.method === 'POST');
+    expect(commits).toHaveLength(1);
+    expect(commits[0][0]).toBe(`${PROJECT_PATH}/repository/commits`);
+    expect(JSON.parse(commits[0][1].body as string)).toEqual({
+      branch: 'trunk',
+      commit_message: '添加书签备份',
+      actions: [
+        { action: 'create', file_path: 'bookmarks/new.json', content: '{}', encoding: 'text' },
+        { action: 'update', file_path: 'manifest.json', content: 'AAEC', encoding: 'base64' },
+        { action: 'delete', file_path: 'bookmarks/old.json' }
+      ]
+    });
+    expect(result).toEqual({
+      url: `${project.web_url}/-/commit/abc`,
+      fileUrls: {
+        'bookmarks/new.json': `${project.web_url}/-/blob/trunk/bookmarks/new.json`,
+        'manifest.json': `${project.web_url}/-/blob/trunk/manifest.json`
+      },
+      commitSha: 'abc',
+      commitUrl: `${project.web_url}/-/commit/abc`
+    });
+  });
+
+  test('列出目录中的文件并解码读取的内容', async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url === PROJECT_PATH) return jsonResponse(project);
+      if (url.includes('/repository/tree')) {
+        return jsonResponse([
+          { id: 'sha-a', name: 'a.json', path: 'bookmarks/a.json', type: 'blob' },
+          { id: 'sha-sub', name: 'sub', path: 'bookmarks/sub', type: 'tree' }
+        ]);
+      }
+      return jsonResponse({ content: 'eyJiIjoxfQ==', size: 7 });
+    });
+
+    const provider = new GitLabStorageProvider(credentials, 'alice');
+
+    await expect(provider.listFiles('bookmarks')).resolves.toEqual([
+      { name: 'a.json', path: 'bookmarks/a.json', size: 0, sha: 'sha-a' }
+    ]);
+    await expect(provider.readFile('bookmarks/a.json')).resolves.toBe('{"b":1}');
+    expect(fetchMock).toHaveBeenCalledWith(
+      `${PROJECT_PATH}/repository/files/bookmarks%2Fa.json?ref=trunk`,
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { ForgeCredentials } from '../utils/storage-service';
+import {
+  StorageContentEncoding,
+  StorageFile,
+  StorageFileChange,
+  StorageProvider,
+  StorageWriteResult
+} from '../types/storage-provider';
+import { fromBase64 } from '../utils/backup-crypto';
+import { DEFAULT_BACKUP_REPO } from './github-storage-provider';
+import gitlabService, { GitLabCommitAction, GitLabProject } from './gitlab-service';
+
+/**
+ * GitLab 存储提供方：以项目作为容器，读写指定分支（默认为项目默认分支）上的文件，
+ * 批量写入通过 commits API 在一次提交中完成
+ */
+export class GitLabStorageProvider implements StorageProvider {
+  readonly type = 'gitlab' as const;
+  readonly name = 'GitLab';
+
+  private project: GitLabProject | null = null;
+
+  /**
+   * @param credentials GitLab连接配置
+   * @param owner 项目所有者用户名
+   * @param repo 项目名称
+   * @param branch 分支名称，不指定时使用项目默认分支
+   */
+  constructor(
+    private readonly credentials: ForgeCredentials,
+    private readonly owner: string,
+    private readonly repo: string = DEFAULT_BACKUP_REPO,
+    private readonly branch?: string
+  ) { }
+
+  private async getProject(): Promise<GitLabProject> {
+    if (!this.project) {
+      this.project = await gitlabService.getProject(this.credentials, this.owner, this.repo);
+      if (!this.project) {
+        throw new Error(`仓库不存在: ${this.owner}/${this.repo}`);
+      }
+    }
+    return this.project;
+  }
+
+  private async getBranch(): Promise<string> {
+    return this.branch || (await this.getProject()).default_branch || 'main';
+  }
+
+  async containerExists(): Promise<boolean> {
+    return (await gitlabService.getProject(this.credentials, this.owner, this.repo)) !== null;
+  }
+
+  async ensureContainer(): Promise<void> {
+    const project = await gitlabService.getProject(this.credentials, this.owner, this.repo);
+    this.project = project || await gitlabService.createProject(this.credentials, this.repo);
+    if (this.branch) {
+      await gitlabService.ensureBranch(
+        this.credentials,
+        this.owner,
+        this.repo,
+        this.branch,
+        this.project.default_branch || 'main'
+      );
+    }
+  }
+
+  async listFiles(folder: string): Promise<StorageFile[]> {
+    const entries = await gitlabService.getTree(this.credentials, this.owner, this.repo, folder, await this.getBranch());
+    // 树接口不返回文件大小，统计中的文件大小记为 0
+    return entries
+      .filter(entry => entry.type === 'blob')
+      .map(entry => ({ name: entry.name, path: entry.path, size: 0, sha: entry.id }));
+  }
+
+  async readFile(path: string, encoding: StorageContentEncoding = 'utf-8'): Promise<string> {
+    const file = await gitlabService.getFile(this.credentials, this.owner, this.repo, path, await this.getBranch());
+    const base64 = file.content.replace(/\s/g, '');
+    return encoding === 'base64' ? base64 : new TextDecoder().decode(fromBase64(base64));
+  }
+
+  async writeFile(
+    path: string,
+    content: string,
+    message: string,
+    encoding: StorageContentEncoding = 'utf-8'
+  ): Promise<StorageWriteResult> {
+    const result = await this.writeFiles([{ path, content, encoding }], message);
+    return { url: result.fileUrls?.[path] ?? result.url, commitSha: result.commitSha, commitUrl: result.commitUrl };
+  }
+
+  async writeFiles(changes: StorageFileChange[], message: string): Promise<StorageWriteResult> {
+    const project = await this.getProject();
+    const branch = await this.getBranch();
+
+    // GitLab 区分创建与更新，需要先确认文件是否已存在
+    const actions: GitLabCommitAction[] = [];
+    const fileUrls: Record<string, string> = {};
+    for (const change of changes) {
+      if (change.delete) {
+        actions.push({ action: 'delete', file_path: change.path });
+        continue;
+      }
+
+      const exists = await gitlabService.fileExists(this.credentials, this.owner, this.repo, change.path, branch);
+      actions.push({
+        action: exists ? 'update' : 'create',
+        file_path: change.path,
+        content: change.content || '',
+        encoding: change.encoding === 'base64' ? 'base64' : 'text'
+      });
+      fileUrls[change.path] = `${project.web_url}/-/blob/${branch}/${change.path}`;
+    }
+
+    const commit = await gitlabService.createCommit(this.credentials, this.owner, this.repo, branch, actions, message);
+    return { url: commit.web_url, fileUrls, commitSha: commit.id, commitUrl: commit.web_url };
+  }
+
+  async deleteFile(file: StorageFile, message: string): Promise<void> {
+    await this.writeFiles([{ path: file.path, delete: true }], message);
+  }
+}
@@ -0,0 +1,101 @@
+import { browser } from 'wxt/browser';
+import { LocalStorageProvider, UploadedFileStorageProvider } from './local-storage-provider';
+import backupService from './backup-service';
+import { compressBackupContent } from '../utils/backup-compression';
+import { fromBase64 } from '../utils/backup-crypto';
+
+describe('local-storage-provider 本地存储位置', () => {
+  const downloads = {
+    download: jest.fn(),
+    search: jest.fn(),
+    removeFile: jest.fn(),
+    erase: jest.fn(),
+    onChanged: {
+      addListener: jest.fn(),
+      removeListener: jest.fn()
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    downloads.search.mockResolvedValue([]);
+    (browser as any).downloads = downloads;
+  });
+
+  test('备份文件下载到指定的子文件夹', async () => {
+    downloads.download.mockResolvedValue(1);
+    const provider = new LocalStorageProvider('my-backups');
+
+    await provider.writeFile('bookmarks/bookmarks_backup_20250101000000.json', '{}', '添加书签备份');
+
+    expect(downloads.download).toHaveBeenCalledWith(expect.objectContaining({
+      filename: 'my-backups/bookmarks/bookmarks_backup_20250101000000.json',
+      conflictAction: 'overwrite',
+      saveAs: false
+    }));
+    expect(provider.writeOnly).toBe(true);
+    await expect(provider.readFile()).rejects.toThrow('无法直接读取');
+  });
+
+  test('下载结束后才释放 Blob URL', async () => {
+    const revokeSpy = jest.spyOn(URL, 'revokeObjectURL');
+    downloads.download.mockResolvedValue(7);
+    downloads.search.mockResolvedValue([{ id: 7, state: 'in_progress' }]);
+    const provider = new LocalStorageProvider();
+
+    await provider.writeFile('bookmarks/bookmarks_backup_20250101000000.json', '{}', '添加书签备份');
+
+    const objectUrl = downloads.download.mock.calls[0][0].url;
+    const listener = downloads.onChanged.addListener.mock.calls[0][0];
+    expect(revokeSpy).not.toHaveBeenCalled();
+
+    listener({ id: 8, state: { current: 'complete' } });
+    expect(revokeSpy).not.toHaveBeenCalled();
+
+    listener({ id: 7, state: { current: 'complete' } });
+    expect(revokeSpy).toHaveBeenCalledWith(objectUrl);
+    expect(downloads.onChanged.removeListener).toHaveBeenCalledWith(listener);
+    revokeSpy.mockRestore();
+  });
+
+  test('只列出子文件夹中仍存在的下载，并按下载记录删除旧备份', async () => {
+    downloads.search.mockResolvedValue([
+      { id: 3, filename: '/home/alice/Downloads/marksvault-backups/bookmarks/bookmarks_backup_20250101000000.json', fileSize: 20, exists: true },
+      { id: 4, filename: 'C:\\Users\\alice\\Downloads\\marksvault-backups\\bookmarks\\bookmarks_backup_20250102000000.json', fileSize: 30, exists: true },
+      { id: 5, filename: '/home/alice/Downloads/marksvault-backups/bookmarks/bookmarks_backup_20241231000000.json', fileSize: 10, exists: false }
+    ]);
+    const provider = new LocalStorageProvider();
+
+    const files = await provider.listFiles('bookmarks');
+    expect(files).toEqual([
+      { name: 'bookmarks_backup_20250101000000.json', path: 'bookmarks/bookmarks_backup_20250101000000.json', size: 20, sha: '3' },
+      { name: 'bookmarks_backup_20250102000000.json', path: 'bookmarks/bookmarks_backup_20250102000000.json', size: 30, sha: '4' }
+    ]);
+    expect(new RegExp(downloads.search.mock.calls[0][0].filenameRegex).test(
+      '/Downloads/marksvault-backups/bookmarks/sub/file.json'
+    )).toBe(false);
+
+    await provider.writeFiles([{ path: 'bookmarks/bookmarks_backup_20250101000000.json', delete: true }], '清理旧备份');
+    expect(downloads.removeFile).toHaveBeenCalledWith(3);
+    expect(downloads.erase).toHaveBeenCalledWith({ id: 3 });
+    expect(downloads.download).not.toHaveBeenCalled();
+  });
+
+  test('上传的压缩备份文件可以走预览恢复流程读取', async () => {
+    const backup = {
+      version: '1.0',
+      timestamp: 1735689600000,
+      source: 'test',
+      bookmarks: [{ id: '1', title: '书签栏', children: [{ id: '2', title: '示例', url: 'https://example.com' }] }]
+    };
+    const content = fromBase64(await compressBackupContent(JSON.stringify(backup)));
+    const provider = new UploadedFileStorageProvider('bookmarks_backup_20250101000000.json.gz', content);
+
+    const result = await backupService.loadBookmarksBackupTree(provider, provider.path);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.filePath).toBe('bookmarks/bookmarks_backup_20250101000000.json.gz');
+    expect(result.data?.bookmarks).toEqual(backup.bookmarks);
+    await expect(provider.writeFile()).rejects.toThrow('只读');
+  });
+});
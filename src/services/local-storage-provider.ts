@@ -0,0 +1,205 @@
+import { browser } from 'wxt/browser';
+import {
+  StorageContentEncoding,
+  StorageFile,
+  StorageFileChange,
+  StorageProvider,
+  StorageWriteResult
+} from '../types/storage-provider';
+import { fromBase64, toBase64 } from '../utils/backup-crypto';
+import { DEFAULT_BACKUP_REPO } from './github-storage-provider';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getMimeType = (path: string, encoding: StorageContentEncoding): string => {
+  if (encoding === 'base64') return 'application/octet-stream';
+  if (path.endsWith('.json')) return 'application/json';
+  if (path.endsWith('.html')) return 'text/html';
+  return 'text/plain';
+};
+
+/**
+ * 下载完成或中断后释放 Blob URL
+ * 浏览器在下载过程中仍会读取 Blob URL，开始下载后立即释放会导致下载失败
+ */
+const revokeObjectUrlWhenDownloadEnds = async (downloadId: number, objectUrl: string): Promise<void> => {
+  const listener = (delta: { id: number; state?: { current?: string } }) => {
+    if (delta.id !== downloadId) return;
+    if (delta.state?.current === 'complete' || delta.state?.current === 'interrupted') {
+      release();
+    }
+  };
+  const release = () => {
+    browser.downloads.onChanged.removeListener(listener);
+    URL.revokeObjectURL(objectUrl);
+  };
+  browser.downloads.onChanged.addListener(listener);
+
+  // 注册监听前下载可能已经结束
+  const [item] = await browser.downloads.search({ id: downloadId });
+  if (item && item.state !== 'in_progress') {
+    release();
+  }
+};
+
+/**
+ * 本地下载存储提供方：通过浏览器下载把备份文件保存到下载目录下的子文件夹
+ * 下载的文件无法被扩展读回，因此只能写入与清理；恢复时需要用户上传备份文件
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly type = 'local' as const;
+  readonly name = '本地下载';
+  readonly writeOnly = true;
+
+  /**
+   * @param folder 下载目录中的子文件夹名称
+   */
+  constructor(private readonly folder: string = DEFAULT_BACKUP_REPO) { }
+
+  async containerExists(): Promise<boolean> {
+    return true;
+  }
+
+  async ensureContainer(): Promise<void> {
+    // 下载时浏览器会自动创建所需的文件夹
+  }
+
+  /**
+   * 列出之前由扩展下载、且仍存在于磁盘上的文件，sha 字段保存下载记录 ID
+   */
+  async listFiles(folder: string): Promise<StorageFile[]> {
+    const separator = '[\\\\/]';
+    const filenameRegex = `${separator}${escapeRegExp(this.folder)}${separator}${escapeRegExp(folder)}${separator}[^\\\\/]+$`;
+    const items = await browser.downloads.search({ filenameRegex, state: 'complete' });
+
+    return items
+      .filter(item => item.exists !== false)
+      .map(item => {
+        const name = item.filename.split(/[\\/]/).pop() || item.filename;
+        return { name, path: `${folder}/${name}`, size: item.fileSize, sha: String(item.id) };
+      });
+  }
+
+  async readFile(): Promise<string> {
+    throw new Error('本地下载的备份文件无法直接读取，请在“设置 → 高级”中上传备份文件进行恢复');
+  }
+
+  async writeFile(
+    path: string,
+    content: string,
+    _message: string,
+    encoding: StorageContentEncoding = 'utf-8'
+  ): Promise<StorageWriteResult> {
+    const bytes = encoding === 'base64' ? fromBase64(content) : new TextEncoder().encode(content);
+    const mimeType = getMimeType(path, encoding);
+
+    // Service Worker 中没有 URL.createObjectURL，此时改用 data URL
+    const objectUrl = typeof URL.createObjectURL === 'function'
+      ? URL.createObjectURL(new Blob([bytes], { type: mimeType }))
+      : null;
+    let downloadId: number;
+    try {
+      downloadId = await browser.downloads.download({
+        url: objectUrl || `data:${mimeType};base64,${toBase64(bytes)}`,
+        filename: `${this.folder}/${path}`,
+        conflictAction: 'overwrite',
+        saveAs: false
+      });
+    } catch (error) {
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+      throw error;
+    }
+    if (objectUrl) {
+      await revokeObjectUrlWhenDownloadEnds(downloadId, objectUrl);
+    }
+    return {};
+  }
+
+  async writeFiles(changes: StorageFileChange[], message: string): Promise<StorageWriteResult> {
+    const deletions = changes.filter(change => change.delete);
+    if (deletions.length > 0) {
+      const folders = [...new Set(deletions.map(change => change.path.split('/').slice(0, -1).join('/')))];
+      const existing = (await Promise.all(folders.map(folder => this.listFiles(folder)))).flat();
+      for (const change of deletions) {
+        const file = existing.find(item => item.path === change.path);
+        if (file) {
+          await this.deleteFile(file);
+        }
+      }
+    }
+
+    for (const change of changes) {
+      if (!change.delete) {
+        await this.writeFile(change.path, change.content || '', message, change.encoding);
+      }
+    }
+    return {};
+  }
+
+  async deleteFile(file: StorageFile): Promise<void> {
+    if (!file.sha) {
+      throw new Error(`缺少下载记录，无法删除文件: ${file.path}`);
+    }
+    const id = Number(file.sha);
+    await browser.downloads.removeFile(id);
+    await browser.downloads.erase({ id });
+  }
+}
+
+/**
+ * 上传的备份文件：只包含一个只读文件的存储提供方
+ * 用于让上传的文件走与远程备份相同的预览、恢复流程
+ */
+export class UploadedFileStorageProvider implements StorageProvider {
+  readonly type = 'local' as const;
+  readonly name = '本地文件';
+  readonly path: string;
+
+  /**
+   * @param fileName 上传的文件名
+   * @param content 文件的原始字节
+   * @param folder 文件所属的备份文件夹（bookmarks 或 settings）
+   */
+  constructor(
+    private readonly fileName: string,
+    private readonly content: Uint8Array,
+    private readonly folder: string = 'bookmarks'
+  ) {
+    this.path = `${folder}/${fileName}`;
+  }
+
+  async containerExists(): Promise<boolean> {
+    return true;
+  }
+
+  async ensureContainer(): Promise<void> {
+    // 无需创建
+  }
+
+  async listFiles(folder: string): Promise<StorageFile[]> {
+    return folder === this.folder
+      ? [{ name: this.fileName, path: this.path, size: this.content.length }]
+      : [];
+  }
+
+  async readFile(path: string, encoding: StorageContentEncoding = 'utf-8'): Promise<string> {
+    if (path !== this.path) {
+      throw new Error(`上传的文件中不包含: ${path}`);
+    }
+    return encoding === 'base64' ? toBase64(this.content) : new TextDecoder().decode(this.content);
+  }
+
+  async writeFile(): Promise<StorageWriteResult> {
+    throw new Error('上传的备份文件是只读的');
+  }
+
+  async writeFiles(): Promise<StorageWriteResult> {
+    throw new Error('上传的备份文件是只读的');
+  }
+
+  async deleteFile(): Promise<void> {
+    throw new Error('上传的备份文件是只读的');
+  }
+}
@@ -5,6 +5,8 @@ jest.mock('../utils/bookmark-service', () => ({
   __esModule: true,
   default: {
     getAllBookmarks: jest.fn(),
+    getBookmarksInFolder: jest.fn(),
+    moveBookmark: jest.fn(),
     removeBookmark: jest.fn(),
     updateBookmark: jest.fn(),
   },
@@ -146,4 +148,29 @@ describe('organize-service 失败处理', () => {
     expect(mockedFetch.mock.calls[0][1].method).toBe('HEAD');
     expect(mockedFetch.mock.calls[1][1].method).toBe('GET');
   });
+
+  test('试运行返回每个操作计划的变更，不修改书签也不发送请求', async () => {
+    mockedBookmarkService.getBookmarksInFolder.mockResolvedValue({ success: true, data: [] } as any);
+
+    const results = await organizeService.organizeBookmarks([
+      { operation: 'move', target: 'folder-1', filters: { pattern: 'example.com' } },
+      { operation: 'delete', filters: { pattern: 'example.com' } },
+      { operation: 'rename', newName: '{index}-{domain}', filters: { pattern: 'example.com' } },
+      { operation: 'tag', newName: 'Important', filters: { pattern: 'example.com' } },
+      { operation: 'validate', filters: { pattern: 'example.com' } },
+    ], { dryRun: true });
+
+    expect(results.every(result => result.success)).toBe(true);
+    expect(results.map(result => result.plannedChanges?.map(change => [change.id, change.current, change.planned]))).toEqual([
+      [['bookmark-1', 'Folder', '移动到 Folder']],
+      [['bookmark-1', 'Folder', '删除']],
+      [['bookmark-1', 'Example', '1-example.com']],
+      [['bookmark-1', 'Example', '[Important] Example']],
+      [['bookmark-1', 'https://example.com', '检查链接是否可访问，不修改书签']],
+    ]);
+    expect(mockedBookmarkService.moveBookmark).not.toHaveBeenCalled();
+    expect(mockedBookmarkService.removeBookmark).not.toHaveBeenCalled();
+    expect(mockedBookmarkService.updateBookmark).not.toHaveBeenCalled();
+    expect(mockedFetch).not.toHaveBeenCalled();
+  });
 });
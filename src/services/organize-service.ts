@@ -5,6 +5,7 @@
 
 import { BookmarkItem } from '../utils/bookmark-service';
 import bookmarkService from '../utils/bookmark-service';
+import { PlannedBookmarkChange, TaskRunItemResult } from '../types/task';
 
 // 整理操作类型
 export type OrganizeOperationType = 'move' | 'delete' | 'rename' | 'validate' | 'tag';
@@ -31,8 +32,58 @@ export interface OrganizeResult {
   processedCount: number;       // 处理的书签数量
   details: string;              // 操作详情
   error?: string;               // 错误信息
+  items?: TaskRunItemResult[];  // 各书签的处理结果
+  plannedChanges?: PlannedBookmarkChange[]; // 试运行计划的变更
 }
 
+// 整理选项
+export interface OrganizeOptions {
+  dryRun?: boolean; // 试运行：只返回计划的变更，不修改书签
+}
+
+// 试运行上下文
+interface OrganizePlanContext {
+  folderPaths: Map<string, string>; // 文件夹ID到完整路径
+}
+
+// 生成单个书签的处理结果
+const toItemResult = (
+  bookmark: BookmarkItem,
+  operation: OrganizeOperationType,
+  status: TaskRunItemResult['status'],
+  reason?: string
+): TaskRunItemResult => ({
+  id: bookmark.id,
+  title: bookmark.title,
+  url: bookmark.url,
+  operation,
+  status,
+  reason
+});
+
+// 生成单个书签的计划变更
+const toPlannedChange = (
+  bookmark: BookmarkItem,
+  operation: OrganizeOperationType,
+  current: string,
+  planned: string
+): PlannedBookmarkChange => ({
+  id: bookmark.id,
+  title: bookmark.title,
+  url: bookmark.url,
+  operation,
+  current,
+  planned
+});
+
+// 生成试运行结果
+const toPlannedResult = (details: string, plannedChanges: PlannedBookmarkChange[]): OrganizeResult => ({
+  success: true,
+  processedCount: plannedChanges.length,
+  details,
+  plannedChanges
+});
+
 /**
  * 书签整理服务
  */
@@ -125,12 +176,31 @@ class OrganizeService {
     }
   }
   
+  /**
+   * 生成文件夹ID到完整路径的映射，用于描述书签的当前位置
+   * @param bookmarks 书签树
+   */
+  private buildFolderPaths(bookmarks: BookmarkItem[]): Map<string, string> {
+    const folderPaths = new Map<string, string>();
+    const walk = (items: BookmarkItem[], parentPath: string) => {
+      for (const item of items) {
+        if (!item.isFolder) continue;
+        const path = item.title ? (parentPath ? `${parentPath} / ${item.title}` : item.title) : parentPath;
+        folderPaths.set(item.id, path || '/');
+        walk(item.children || [], path);
+      }
+    };
+    walk(bookmarks, '');
+    return folderPaths;
+  }
+
   /**
    * 执行书签整理操作
    * @param operations 整理操作数组
+   * @param options 整理选项，试运行时只返回计划的变更
    * @returns 操作结果数组
    */
-  public async organizeBookmarks(operations: OrganizeOperation[]): Promise<OrganizeResult[]> {
+  public async organizeBookmarks(operations: OrganizeOperation[], options: OrganizeOptions = {}): Promise<OrganizeResult[]> {
     const results: OrganizeResult[] = [];
     
     try {
@@ -142,6 +212,9 @@ class OrganizeService {
       }
       
       const bookmarks = bookmarksResult.data;
+      const plan: OrganizePlanContext | undefined = options.dryRun
+        ? { folderPaths: this.buildFolderPaths(bookmarks) }
+        : undefined;
       
       // 对每个操作执行相应的处理
       for (const operation of operations) {
@@ -149,19 +222,19 @@ class OrganizeService {
         
         switch (operation.operation) {
           case 'move':
-            result = await this.moveBookmarks(bookmarks, operation);
+            result = await this.moveBookmarks(bookmarks, operation, plan);
             break;
           case 'delete':
-            result = await this.deleteBookmarks(bookmarks, operation);
+            result = await this.deleteBookmarks(bookmarks, operation, plan);
             break;
           case 'rename':
-            result = await this.renameBookmarks(bookmarks, operation);
+            result = await this.renameBookmarks(bookmarks, operation, plan);
             break;
           case 'validate':
-            result = await this.validateBookmarks(bookmarks, operation);
+            result = await this.validateBookmarks(bookmarks, operation, plan);
             break;
           case 'tag':
-            result = await this.tagBookmarks(bookmarks, operation);
+            result = await this.tagBookmarks(bookmarks, operation, plan);
             break;
 
           default:
@@ -278,9 +351,14 @@ class OrganizeService {
    * 移动书签操作
    * @param bookmarks 书签树
    * @param operation 移动操作配置
+   * @param plan 试运行上下文，提供时不移动书签
    * @returns 操作结果
    */
-  private async moveBookmarks(bookmarks: BookmarkItem[], operation: OrganizeOperation): Promise<OrganizeResult> {
+  private async moveBookmarks(
+    bookmarks: BookmarkItem[],
+    operation: OrganizeOperation,
+    plan?: OrganizePlanContext
+  ): Promise<OrganizeResult> {
     console.log('执行移动书签操作:', operation);
     
     // 验证目标文件夹
@@ -330,9 +408,23 @@ class OrganizeService {
       };
     }
     
+    if (plan) {
+      const targetPath = plan.folderPaths.get(operation.target) || operation.target;
+      return toPlannedResult(
+        `将移动 ${filteredBookmarks.length} 个书签到 "${targetPath}"`,
+        filteredBookmarks.map(bookmark => toPlannedChange(
+          bookmark,
+          'move',
+          plan.folderPaths.get(bookmark.parentId || '') || bookmark.parentId || '',
+          `移动到 ${targetPath}`
+        ))
+      );
+    }
+    
     let successCount = 0;
     let errorCount = 0;
     let errorDetails: string[] = [];
+    const items: TaskRunItemResult[] = [];
     
     // 执行移动操作
     for (const bookmark of filteredBookmarks) {
@@ -342,18 +434,22 @@ class OrganizeService {
         const result = await bookmarkService.moveBookmark(bookmark.id, { parentId: operation.target });
         if (result.success) {
           successCount++;
+          items.push(toItemResult(bookmark, 'move', 'success'));
           console.log(`成功移动书签 "${bookmark.title}"`);
         } else {
           errorCount++;
           const errorMsg = `移动书签 "${bookmark.title}" 失败: ${result.error}`;
           console.error(errorMsg);
           errorDetails.push(errorMsg);
+          items.push(toItemResult(bookmark, 'move', 'failed', result.error));
         }
       } catch (error) {
         errorCount++;
-        const errorMsg = `移动书签 ${bookmark.id} 失败: ${error instanceof Error ? error.message : String(error)}`;
+        const reason = error instanceof Error ? error.message : String(error);
+        const errorMsg = `移动书签 ${bookmark.id} 失败: ${reason}`;
         console.error(errorMsg);
         errorDetails.push(errorMsg);
+        items.push(toItemResult(bookmark, 'move', 'failed', reason));
       }
     }
     
@@ -365,7 +461,8 @@ class OrganizeService {
       success: errorCount === 0,
       processedCount: successCount,
       details: details + (errorDetails.length > 0 ? `。错误详情: ${errorDetails.join('; ')}` : ''),
-      error: errorCount > 0 ? `${errorCount} 个书签移动失败` : undefined
+      error: errorCount > 0 ? `${errorCount} 个书签移动失败` : undefined,
+      items
     };
   }
   
@@ -373,9 +470,14 @@ class OrganizeService {
    * 删除书签操作
    * @param bookmarks 书签树
    * @param operation 删除操作配置
+   * @param plan 试运行上下文，提供时不删除书签
    * @returns 操作结果
    */
-  private async deleteBookmarks(bookmarks: BookmarkItem[], operation: OrganizeOperation): Promise<OrganizeResult> {
+  private async deleteBookmarks(
+    bookmarks: BookmarkItem[],
+    operation: OrganizeOperation,
+    plan?: OrganizePlanContext
+  ): Promise<OrganizeResult> {
     // 过滤出符合条件的书签
     const filteredBookmarks = this.filterBookmarks(bookmarks, operation.filters);
     
@@ -388,8 +490,21 @@ class OrganizeService {
       };
     }
     
+    if (plan) {
+      return toPlannedResult(
+        `将删除 ${filteredBookmarks.length} 个书签`,
+        filteredBookmarks.map(bookmark => toPlannedChange(
+          bookmark,
+          'delete',
+          plan.folderPaths.get(bookmark.parentId || '') || bookmark.parentId || '',
+          '删除'
+        ))
+      );
+    }
+    
     let successCount = 0;
     let errorCount = 0;
+    const items: TaskRunItemResult[] = [];
     
     // 执行删除操作
     for (const bookmark of filteredBookmarks) {
@@ -398,13 +513,16 @@ class OrganizeService {
         const result = await bookmarkService.removeBookmark(bookmark.id);
         if (result.success) {
           successCount++;
+          items.push(toItemResult(bookmark, 'delete', 'success'));
         } else {
           errorCount++;
           console.error(`删除书签 ${bookmark.id} 失败:`, result.error);
+          items.push(toItemResult(bookmark, 'delete', 'failed', result.error));
         }
       } catch (error) {
         console.error(`删除书签 ${bookmark.id} 失败:`, error);
         errorCount++;
+        items.push(toItemResult(bookmark, 'delete', 'failed', error instanceof Error ? error.message : String(error)));
       }
     }
     
@@ -413,7 +531,8 @@ class OrganizeService {
       success: errorCount === 0,
       processedCount: successCount,
       details: `成功删除 ${successCount} 个书签${errorCount > 0 ? `，失败 ${errorCount} 个` : ''}`,
-      error: errorCount > 0 ? `${errorCount} 个书签删除失败` : undefined
+      error: errorCount > 0 ? `${errorCount} 个书签删除失败` : undefined,
+      items
     };
   }
   
@@ -421,9 +540,14 @@ class OrganizeService {
    * 重命名书签操作
    * @param bookmarks 书签树
    * @param operation 重命名操作配置
+   * @param plan 试运行上下文，提供时不重命名书签
    * @returns 操作结果
    */
-  private async renameBookmarks(bookmarks: BookmarkItem[], operation: OrganizeOperation): Promise<OrganizeResult> {
+  private async renameBookmarks(
+    bookmarks: BookmarkItem[],
+    operation: OrganizeOperation,
+    plan?: OrganizePlanContext
+  ): Promise<OrganizeResult> {
     // 验证新名称模板
     if (!operation.newName) {
       return {
@@ -448,20 +572,25 @@ class OrganizeService {
     
     let successCount = 0;
     let errorCount = 0;
+    const items: TaskRunItemResult[] = [];
+    
+    if (plan) {
+      const template = operation.newName;
+      return toPlannedResult(
+        `将重命名 ${filteredBookmarks.length} 个书签`,
+        filteredBookmarks.map((bookmark, index) => toPlannedChange(
+          bookmark,
+          'rename',
+          bookmark.title,
+          this.formatNewName(template, bookmark, index + 1)
+        ))
+      );
+    }
     
     // 执行重命名操作
     for (const bookmark of filteredBookmarks) {
       try {
-        // 处理名称模板，替换变量
-        let newName = operation.newName;
-        
-        // 支持简单的变量替换，如 {title}, {domain}, {index}
-        newName = newName.replace(/{title}/g, bookmark.title);
-        
-        const urlDomain = bookmark.url ? this.extractDomain(bookmark.url) : '';
-        newName = newName.replace(/{domain}/g, urlDomain);
-        
-        newName = newName.replace(/{index}/g, (successCount + 1).toString());
+        const newName = this.formatNewName(operation.newName, bookmark, successCount + 1);
         
         // 调用Chrome API更新书签
         const result = await bookmarkService.updateBookmark(bookmark.id, {
@@ -469,13 +598,16 @@ class OrganizeService {
         });
         if (result.success) {
           successCount++;
+          items.push(toItemResult(bookmark, 'rename', 'success', `重命名为 "${newName}"`));
         } else {
           errorCount++;
           console.error(`重命名书签 ${bookmark.id} 失败:`, result.error);
+          items.push(toItemResult(bookmark, 'rename', 'failed', result.error));
         }
       } catch (error) {
         console.error(`重命名书签 ${bookmark.id} 失败:`, error);
         errorCount++;
+        items.push(toItemResult(bookmark, 'rename', 'failed', error instanceof Error ? error.message : String(error)));
       }
     }
     
@@ -484,7 +616,8 @@ class OrganizeService {
       success: errorCount === 0,
       processedCount: successCount,
       details: `成功重命名 ${successCount} 个书签${errorCount > 0 ? `，失败 ${errorCount} 个` : ''}`,
-      error: errorCount > 0 ? `${errorCount} 个书签重命名失败` : undefined
+      error: errorCount > 0 ? `${errorCount} 个书签重命名失败` : undefined,
+      items
     };
   }
   
@@ -492,9 +625,14 @@ class OrganizeService {
    * 验证书签操作（检查死链接）
    * @param bookmarks 书签树
    * @param operation 验证操作配置
+   * @param plan 试运行上下文，提供时不发送请求
    * @returns 操作结果
    */
-  private async validateBookmarks(bookmarks: BookmarkItem[], operation: OrganizeOperation): Promise<OrganizeResult> {
+  private async validateBookmarks(
+    bookmarks: BookmarkItem[],
+    operation: OrganizeOperation,
+    plan?: OrganizePlanContext
+  ): Promise<OrganizeResult> {
     // 过滤出符合条件的书签
     const filteredBookmarks = this.filterBookmarks(bookmarks, operation.filters);
     
@@ -517,9 +655,22 @@ class OrganizeService {
       };
     }
 
+    if (plan) {
+      return toPlannedResult(
+        `将验证 ${bookmarksToValidate.length} 个书签的链接`,
+        bookmarksToValidate.map(bookmark => toPlannedChange(
+          bookmark,
+          'validate',
+          bookmark.url || '',
+          '检查链接是否可访问，不修改书签'
+        ))
+      );
+    }
+
     let validCount = 0;
     let invalidCount = 0;
     const invalidDetails: string[] = [];
+    const items: TaskRunItemResult[] = [];
     let cursor = 0;
 
     const worker = async () => {
@@ -532,11 +683,13 @@ class OrganizeService {
         const validationResult = await this.validateBookmarkUrl(bookmark.url);
         if (validationResult.valid) {
           validCount++;
+          items.push(toItemResult(bookmark, 'validate', 'success'));
         } else {
           invalidCount++;
           invalidDetails.push(
             `"${bookmark.title}" (${bookmark.url}): ${validationResult.reason || '不可访问'}`
           );
+          items.push(toItemResult(bookmark, 'validate', 'failed', validationResult.reason || '不可访问'));
         }
       }
     };
@@ -551,10 +704,26 @@ class OrganizeService {
         + (invalidDetails.length > 0
           ? `。异常详情: ${invalidDetails.slice(0, 5).join('; ')}`
           : ''),
-      error: invalidCount > 0 ? `${invalidCount} 个书签验证失败` : undefined
+      error: invalidCount > 0 ? `${invalidCount} 个书签验证失败` : undefined,
+      items
     };
   }
   
+  /**
+   * 处理名称模板，支持简单的变量替换，如 {title}, {domain}, {index}
+   * @param template 名称模板
+   * @param bookmark 书签
+   * @param index 序号，从 1 开始
+   * @returns 新名称
+   */
+  private formatNewName(template: string, bookmark: BookmarkItem, index: number): string {
+    const urlDomain = bookmark.url ? this.extractDomain(bookmark.url) : '';
+    return template
+      .replace(/{title}/g, bookmark.title)
+      .replace(/{domain}/g, urlDomain)
+      .replace(/{index}/g, index.toString());
+  }
+  
   /**
    * 从URL中提取域名
    * @param url URL字符串
@@ -573,9 +742,14 @@ class OrganizeService {
    * 为书签添加标签操作
    * @param bookmarks 书签树
    * @param operation 标签操作配置
+   * @param plan 试运行上下文，提供时不修改书签标题
    * @returns 操作结果
    */
-  private async tagBookmarks(bookmarks: BookmarkItem[], operation: OrganizeOperation): Promise<OrganizeResult> {
+  private async tagBookmarks(
+    bookmarks: BookmarkItem[],
+    operation: OrganizeOperation,
+    plan?: OrganizePlanContext
+  ): Promise<OrganizeResult> {
     // 验证标签名称
     if (!operation.newName) {
       return {
@@ -598,8 +772,18 @@ class OrganizeService {
       };
     }
     
+    if (plan) {
+      const tagPrefix = `[${operation.newName}] `;
+      // 已有该标签的书签不会变化，不列入计划
+      const plannedChanges = filteredBookmarks
+        .filter(bookmark => !bookmark.title.startsWith(tagPrefix))
+        .map(bookmark => toPlannedChange(bookmark, 'tag', bookmark.title, tagPrefix + bookmark.title));
+      return toPlannedResult(`将为 ${plannedChanges.length} 个书签添加标签`, plannedChanges);
+    }
+    
     let successCount = 0;
     let errorCount = 0;
+    const items: TaskRunItemResult[] = [];
     
     // 执行添加标签操作 (通过在标题前添加标签实现)
     for (const bookmark of filteredBookmarks) {
@@ -613,17 +797,21 @@ class OrganizeService {
           });
           if (result.success) {
             successCount++;
+            items.push(toItemResult(bookmark, 'tag', 'success'));
           } else {
             errorCount++;
             console.error(`为书签 ${bookmark.id} 添加标签失败:`, result.error);
+            items.push(toItemResult(bookmark, 'tag', 'failed', result.error));
           }
         } else {
           // 标签已存在，算作处理成功
           successCount++;
+          items.push(toItemResult(bookmark, 'tag', 'skipped', '已有该标签'));
         }
       } catch (error) {
         console.error(`为书签 ${bookmark.id} 添加标签失败:`, error);
         errorCount++;
+        items.push(toItemResult(bookmark, 'tag', 'failed', error instanceof Error ? error.message : String(error)));
       }
     }
     
@@ -632,7 +820,8 @@ class OrganizeService {
       success: errorCount === 0,
       processedCount: successCount,
       details: `成功为 ${successCount} 个书签添加标签${errorCount > 0 ? `，失败 ${errorCount} 个` : ''}`,
-      error: errorCount > 0 ? `${errorCount} 个书签添加标签失败` : undefined
+      error: errorCount > 0 ? `${errorCount} 个书签添加标签失败` : undefined,
+      items
     };
   }
   
@@ -0,0 +1,95 @@
+import { browser } from 'wxt/browser';
+import storageProviderService from './storage-provider-service';
+import githubService from './github-service';
+import storageService from '../utils/storage-service';
+import { StorageProvider } from '../types/storage-provider';
+
+jest.mock('./github-service', () => ({
+  __esModule: true,
+  default: {
+    validateCredentials: jest.fn(),
+    getFileContent: jest.fn(),
+    getRepositoryFiles: jest.fn(),
+  },
+}));
+
+describe('storage-provider-service 存储位置', () => {
+  const mockedGitHub = githubService as jest.Mocked<typeof githubService>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await browser.storage.sync.clear();
+    await browser.storage.local.clear();
+  });
+
+  test('未配置GitHub凭据时返回明确错误', async () => {
+    const result = await storageProviderService.createProvider('github');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('未找到GitHub凭据');
+    expect(mockedGitHub.validateCredentials).not.toHaveBeenCalled();
+  });
+
+  test('凭据失效时返回错误和处理建议', async () => {
+    await storageService.saveGitHubCredentials({ token: 'expired-token' });
+    mockedGitHub.validateCredentials.mockRejectedValue(new Error('Bad credentials'));
+
+    const result = await storageProviderService.createProvider('github');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('GitHub凭据无效或已过期: Bad credentials');
+    expect(result.details).toBeTruthy();
+  });
+
+  test('GitHub 存储位置读写指定仓库中的文件', async () => {
+    const credentials = { token: 'test-token' };
+    await storageService.saveGitHubCredentials(credentials);
+    mockedGitHub.validateCredentials.mockResolvedValue({ login: 'alice' } as any);
+    mockedGitHub.getFileContent.mockResolvedValue({ content: 'hello', sha: 'sha-1' } as any);
+    mockedGitHub.getRepositoryFiles.mockResolvedValue([
+      { name: 'a.json', path: 'bookmarks/a.json', size: 10, sha: 'sha-a', type: 'file' } as any,
+    ]);
+
+    const result = await storageProviderService.createProvider('github', 'my-backups');
+    expect(result.success).toBe(true);
+    const provider = result.data as StorageProvider;
+
+    expect(provider.type).toBe('github');
+    await expect(provider.readFile('bookmarks/a.json')).resolves.toBe('hello');
+    expect(mockedGitHub.getFileContent).toHaveBeenCalledWith(credentials, 'alice', 'my-backups', 'bookmarks/a.json', 'utf-8', undefined);
+    await expect(provider.listFiles('bookmarks')).resolves.toEqual([
+      { name: 'a.json', path: 'bookmarks/a.json', size: 10, sha: 'sha-a' },
+    ]);
+  });
+
+  test('未指定容器时使用设置中的备份所有者、仓库与分支', async () => {
+    const credentials = { token: 'test-token' };
+    await storageService.saveGitHubCredentials(credentials);
+    await storageService.updateSettings({
+      backup: { maxBackupsPerType: 10, owner: ' my-org ', repo: 'bookmarks-archive', branch: 'backups' },
+    });
+    mockedGitHub.validateCredentials.mockResolvedValue({ login: 'alice' } as any);
+    mockedGitHub.getFileContent.mockResolvedValue({ content: 'hello', sha: 'sha-1' } as any);
+
+    const result = await storageProviderService.createProvider('github');
+    await (result.data as StorageProvider).readFile('bookmarks/a.json');
+
+    expect(mockedGitHub.getFileContent).toHaveBeenCalledWith(
+      credentials, 'my-org', 'bookmarks-archive', 'bookmarks/a.json', 'utf-8', 'backups'
+    );
+
+    // 任务中指定的所有者优先于设置中的所有者
+    const orgResult = await storageProviderService.createProvider('github', undefined, 'other-org');
+    await (orgResult.data as StorageProvider).readFile('bookmarks/a.json');
+    expect(mockedGitHub.getFileContent).toHaveBeenLastCalledWith(
+      credentials, 'other-org', 'bookmarks-archive', 'bookmarks/a.json', 'utf-8', 'backups'
+    );
+
+    // 指定了容器的推送任务不受备份位置影响
+    const pushResult = await storageProviderService.createProvider('github', 'menav');
+    await (pushResult.data as StorageProvider).readFile('bookmarks/a.json');
+    expect(mockedGitHub.getFileContent).toHaveBeenLastCalledWith(
+      credentials, 'alice', 'menav', 'bookmarks/a.json', 'utf-8', undefined
+    );
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * 备份存储位置服务
+ * 根据任务配置的存储位置类型创建对应的存储提供方，并负责加载、校验所需的凭据
+ */
+
+import { GitHubCredentials } from '../types/github';
+import { StorageProvider, StorageProviderType } from '../types/storage-provider';
+import { DEFAULT_BACKUP_REPO, GitHubStorageProvider } from './github-storage-provider';
+import { WebDAVStorageProvider } from './webdav-storage-provider';
+import { GiteaStorageProvider } from './gitea-storage-provider';
+import { GitLabStorageProvider } from './gitlab-storage-provider';
+import { LocalStorageProvider, UploadedFileStorageProvider } from './local-storage-provider';
+import githubService from './github-service';
+import webdavService from './webdav-service';
+import giteaService from './gitea-service';
+import gitlabService from './gitlab-service';
+import storageService, { ForgeType } from '../utils/storage-service';
+
+// 可选存储位置的展示信息
+export interface StorageProviderOption {
+  type: StorageProviderType;
+  label: string;
+  description: string;
+}
+
+export const STORAGE_PROVIDER_OPTIONS: StorageProviderOption[] = [
+  { type: 'github', label: 'GitHub', description: '保存到 GitHub 私有仓库' },
+  { type: 'gitea', label: 'Gitea', description: '保存到自建 Gitea / Forgejo 仓库' },
+  { type: 'gitlab', label: 'GitLab', description: '保存到 GitLab 或自建 GitLab 仓库' },
+  { type: 'webdav', label: 'WebDAV', description: '保存到 Nextcloud、ownCloud 或 NAS 等 WebDAV 服务器' },
+  { type: 'local', label: '本地下载', description: '通过浏览器下载保存到本地，无需网络账号' }
+];
+
+/**
+ * 获取存储位置的显示名称
+ */
+export const getStorageProviderLabel = (type?: StorageProviderType): string =>
+  STORAGE_PROVIDER_OPTIONS.find(option => option.type === type)?.label || 'GitHub';
+
+// 备份位置：所有者留空时使用当前登录的账号，分支留空时使用仓库默认分支
+export interface BackupLocation {
+  owner?: string;
+  repo: string;
+  branch?: string;
+}
+
+// 创建存储提供方的结果，失败时 details 给出处理建议
+export interface StorageProviderResult {
+  success: boolean;
+  data?: StorageProvider;
+  error?: string;
+  details?: string;
+}
+
+class StorageProviderService {
+  private static instance: StorageProviderService;
+
+  private constructor() { }
+
+  public static getInstance(): StorageProviderService {
+    if (!StorageProviderService.instance) {
+      StorageProviderService.instance = new StorageProviderService();
+    }
+    return StorageProviderService.instance;
+  }
+
+  /**
+   * 读取设置中的备份位置（所有者、仓库与分支）
+   */
+  async getBackupLocation(): Promise<BackupLocation> {
+    const settingsResult = await storageService.getSettings();
+    const backup = settingsResult.success ? settingsResult.data?.backup : undefined;
+    return {
+      owner: backup?.owner?.trim() || undefined,
+      repo: backup?.repo?.trim() || DEFAULT_BACKUP_REPO,
+      branch: backup?.branch?.trim() || undefined
+    };
+  }
+
+  /**
+   * 使用已保存的凭据创建存储提供方
+   * @param type 存储位置类型，默认为 GitHub
+   * @param container 容器名称（代码托管平台为仓库名，WebDAV 为文件夹）；
+   *   不指定时使用设置中的备份位置，指定时使用该容器的默认分支
+   * @param owner 仓库所有者（用户或组织），不指定时使用备份位置中的所有者或当前账号
+   * @returns 创建结果
+   */
+  async createProvider(
+    type: StorageProviderType = 'github',
+    container?: string,
+    owner?: string
+  ): Promise<StorageProviderResult> {
+    const location: BackupLocation = container === undefined
+      ? await this.getBackupLocation()
+      : { repo: container };
+    if (owner?.trim()) {
+      location.owner = owner.trim();
+    }
+
+    switch (type) {
+      case 'github':
+        return this.createGitHubProviderFromStorage(location);
+      case 'gitea':
+      case 'gitlab':
+        return this.createForgeProviderFromStorage(type, location);
+      case 'webdav':
+        return this.createWebDAVProviderFromStorage(location.repo);
+      case 'local':
+        return this.createLocalProviderFromStorage(container);
+      default:
+        return {
+          success: false,
+          error: `不支持的存储位置: ${type}`,
+          details: '任务配置错误，请修改任务设置中的存储位置'
+        };
+    }
+  }
+
+  /**
+   * 使用已验证的 GitHub 凭据创建存储提供方
+   * @param credentials GitHub凭据
+   * @param username 仓库所有者（用户或组织）
+   * @param repo 仓库名称，默认使用备份仓库
+   * @param branch 分支名称，默认使用仓库默认分支
+   */
+  createGitHubProvider(
+    credentials: GitHubCredentials,
+    username: string,
+    repo: string = DEFAULT_BACKUP_REPO,
+    branch?: string
+  ): StorageProvider {
+    return new GitHubStorageProvider(credentials, username, repo, branch);
+  }
+
+  /**
+   * 使用已验证的 GitHub 凭据创建指向设置中备份位置的存储提供方
+   * @param credentials GitHub凭据
+   * @param login 当前登录的用户名，设置中未指定所有者时使用
+   */
+  async createGitHubBackupProvider(credentials: GitHubCredentials, login: string): Promise<StorageProvider> {
+    const location = await this.getBackupLocation();
+    return this.createGitHubProvider(credentials, location.owner || login, location.repo, location.branch);
+  }
+
+  /**
+   * 为上传的备份文件创建只读存储提供方，用于预览和恢复
+   * @param fileName 文件名
+   * @param content 文件的原始字节
+   */
+  createUploadedFileProvider(fileName: string, content: Uint8Array): UploadedFileStorageProvider {
+    return new UploadedFileStorageProvider(fileName, content);
+  }
+
+  private async createGitHubProviderFromStorage(location: BackupLocation): Promise<StorageProviderResult> {
+    const credentialsResult = await storageService.getGitHubCredentials();
+    if (!credentialsResult.success || !credentialsResult.data) {
+      console.error('未找到GitHub凭据');
+      return {
+        success: false,
+        error: '未找到GitHub凭据，请先在“概览”页配置GitHub账号',
+        details: '请打开扩展的“概览”页面，完成GitHub账号授权后再执行此任务'
+      };
+    }
+
+    const credentials = credentialsResult.data;
+
+    // 获取GitHub用户名并验证凭据有效性
+    try {
+      console.log(`验证GitHub凭据...`);
+      const userResult = await githubService.validateCredentials(credentials);
+      console.log(`GitHub凭据验证成功，用户: ${userResult.login}`);
+      return {
+        success: true,
+        data: this.createGitHubProvider(
+          credentials,
+          location.owner || userResult.login,
+          location.repo,
+          location.branch
+        )
+      };
+    } catch (error) {
+      console.error(`GitHub凭据验证失败:`, error);
+      return {
+        success: false,
+        error: `GitHub凭据无效或已过期: ${error instanceof Error ? error.message : String(error)}`,
+        details: '请重新登录GitHub账号，更新授权信息后再执行此任务'
+      };
+    }
+  }
+
+  private async createForgeProviderFromStorage(
+    type: ForgeType,
+    location: BackupLocation
+  ): Promise<StorageProviderResult> {
+    const label = getStorageProviderLabel(type);
+    const credentialsResult = await storageService.getForgeCredentials(type);
+    if (!credentialsResult.success || !credentialsResult.data) {
+      console.error(`未找到${label}连接配置`);
+      return {
+        success: false,
+        error: `未找到${label}连接配置，请先在“概览”页连接${label}`,
+        details: `请打开扩展的“概览”页面，填写${label}地址和访问令牌后再执行此任务`
+      };
+    }
+
+    const credentials = credentialsResult.data;
+
+    // 获取用户名并验证访问令牌有效性
+    try {
+      if (type === 'gitea') {
+        const user = await giteaService.validateCredentials(credentials);
+        return {
+          success: true,
+          data: new GiteaStorageProvider(credentials, location.owner || user.login, location.repo, location.branch)
+        };
+      }
+      const user = await gitlabService.validateCredentials(credentials);
+      return {
+        success: true,
+        data: new GitLabStorageProvider(credentials, location.owner || user.login, location.repo, location.branch)
+      };
+    } catch (error) {
+      console.error(`${label}凭据验证失败:`, error);
+      return {
+        success: false,
+        error: `${label}凭据无效或已过期: ${error instanceof Error ? error.message : String(error)}`,
+        details: `请在“概览”页重新连接${label}，更新访问令牌后再执行此任务`
+      };
+    }
+  }
+
+  private async createWebDAVProviderFromStorage(folder?: string): Promise<StorageProviderResult> {
+    const credentialsResult = await storageService.getWebDAVCredentials();
+    if (!credentialsResult.success || !credentialsResult.data) {
+      console.error('未找到WebDAV连接配置');
+      return {
+        success: false,
+        error: '未找到WebDAV连接配置，请先在“概览”页连接WebDAV服务器',
+        details: '请打开扩展的“概览”页面，填写WebDAV地址和账号后再执行此任务'
+      };
+    }
+
+    const credentials = credentialsResult.data;
+
+    try {
+      await webdavService.validateCredentials(credentials);
+      return {
+        success: true,
+        data: new WebDAVStorageProvider(credentials, folder || DEFAULT_BACKUP_REPO)
+      };
+    } catch (error) {
+      console.error(`WebDAV连接验证失败:`, error);
+      return {
+        success: false,
+        error: `WebDAV连接失败: ${error instanceof Error ? error.message : String(error)}`,
+        details: '请检查WebDAV地址、账号和密码，以及服务器是否可以访问'
+      };
+    }
+  }
+
+  private async createLocalProviderFromStorage(folder?: string): Promise<StorageProviderResult> {
+    // 未指定文件夹时使用设置中的下载子文件夹
+    const settingsResult = await storageService.getSettings();
+    const localFolder = settingsResult.success ? settingsResult.data?.backup?.localFolder?.trim() : undefined;
+    return {
+      success: true,
+      data: new LocalStorageProvider(folder || localFolder || DEFAULT_BACKUP_REPO)
+    };
+  }
+}
+
+const storageProviderService = StorageProviderService.getInstance();
+export default storageProviderService;
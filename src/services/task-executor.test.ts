@@ -1,7 +1,22 @@
 import { browser } from 'wxt/browser';
 import taskExecutor from './task-executor';
 import taskService from './task-service';
-import { createBackupAction, createEventTrigger, EventType, TaskStatus } from '../types/task';
+import organizeService from './organize-service';
+import taskLogService from './task-log-service';
+import taskQueueService from './task-queue-service';
+import backupService from './backup-service';
+import storageProviderService from './storage-provider-service';
+import {
+  createBackupAction,
+  createEventTrigger,
+  createManualTrigger,
+  createOrganizeAction,
+  createPushAction,
+  createTaskStep,
+  EventType,
+  Task,
+  TaskStatus
+} from '../types/task';
 
 describe('task-executor 安全策略', () => {
   beforeEach(async () => {
@@ -26,3 +41,152 @@ describe('task-executor 安全策略', () => {
   });
 });
 
+describe('task-executor 多步骤任务', () => {
+  beforeEach(async () => {
+    await browser.storage.local.clear();
+    await browser.storage.sync.clear();
+    jest.spyOn(organizeService, 'organizeBookmarks').mockResolvedValue([
+      { success: true, processedCount: 2, details: '验证了 2 个书签' }
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // 第一步是事件触发的恢复操作，必然被安全策略拒绝
+  const createPipelineTask = async (overrides: Partial<Task>) => {
+    await taskService.createTask({
+      id: 'pipeline_task',
+      name: '多步骤任务',
+      status: TaskStatus.ENABLED,
+      trigger: createEventTrigger(EventType.BROWSER_STARTUP),
+      action: createBackupAction('restore'),
+      ...overrides,
+    });
+  };
+
+  test('步骤失败且未设置失败后继续时，后续步骤不再执行', async () => {
+    await createPipelineTask({ steps: [createTaskStep(createOrganizeAction())] });
+
+    const result = await taskExecutor.executeTask('pipeline_task');
+
+    expect(result.success).toBe(false);
+    expect(result.steps?.map(step => step.status)).toEqual(['failed', 'not_run']);
+    expect(organizeService.organizeBookmarks).not.toHaveBeenCalled();
+
+    const saved = await taskService.getTaskById('pipeline_task');
+    expect((saved.data as Task).history.lastExecution?.steps).toHaveLength(2);
+    expect((saved.data as Task).status).toBe(TaskStatus.FAILED);
+  });
+
+  test('失败后继续的步骤不阻止后续步骤，后续步骤中的恢复操作被拒绝', async () => {
+    await createPipelineTask({
+      continueOnFailure: true,
+      steps: [
+        { ...createTaskStep(createBackupAction('restore')), continueOnFailure: true },
+        createTaskStep(createOrganizeAction())
+      ]
+    });
+
+    const result = await taskExecutor.executeTask('pipeline_task');
+
+    expect(result.success).toBe(true);
+    expect(result.steps?.map(step => step.status)).toEqual(['failed', 'failed', 'success']);
+    expect(result.steps?.[1].error).toContain('只能作为任务的第一步');
+    expect(result.details).toContain('执行 3 个步骤：成功 1 个，失败 2 个');
+    expect(organizeService.organizeBookmarks).toHaveBeenCalledTimes(1);
+  });
+
+  test('每次执行保存结构化日志，包含各步骤的日志与书签处理结果', async () => {
+    jest.spyOn(organizeService, 'organizeBookmarks').mockResolvedValue([{
+      success: false,
+      processedCount: 1,
+      details: '成功移动 1 个书签，失败 1 个',
+      error: '1 个书签移动失败',
+      items: [
+        { id: '1', title: 'A', operation: 'move', status: 'success' },
+        { id: '2', title: 'B', operation: 'move', status: 'failed', reason: '目标文件夹不存在' }
+      ]
+    }]);
+    await createPipelineTask({ continueOnFailure: true, steps: [createTaskStep(createOrganizeAction())] });
+
+    const result = await taskExecutor.executeTask('pipeline_task');
+
+    const saved = await taskService.getTaskById('pipeline_task');
+    expect((saved.data as Task).history.lastExecution?.logId).toBe(result.logId);
+
+    const log = await taskLogService.getRunLog('pipeline_task', result.logId as string);
+    expect(log.success).toBe(true);
+    expect(log.data).toMatchObject({ taskId: 'pipeline_task', taskName: '多步骤任务', success: false });
+    expect(log.data.items).toEqual([
+      { id: '1', title: 'A', operation: 'move', status: 'success' },
+      { id: '2', title: 'B', operation: 'move', status: 'failed', reason: '目标文件夹不存在' }
+    ]);
+    expect(log.data.lines.filter((line: any) => line.level === 'error').map((line: any) => [line.step, line.message])).toEqual([
+      [0, '恢复书签属于高风险操作，必须使用手动触发任务'],
+      [1, '第 1 个整理操作（move）: 成功移动 1 个书签，失败 1 个'],
+      [1, '1 个操作失败，请检查详情']
+    ]);
+  });
+  test('试运行汇总整理步骤计划的变更，不记录执行历史也不更新任务状态', async () => {
+    jest.spyOn(organizeService, 'organizeBookmarks').mockResolvedValue([{
+      success: true,
+      processedCount: 1,
+      details: '将删除 1 个书签',
+      plannedChanges: [{ id: '1', title: 'A', operation: 'delete', current: '书签栏', planned: '删除' }]
+    }]);
+    await createPipelineTask({ action: createOrganizeAction(), steps: [createTaskStep(createBackupAction('backup'))] });
+    const task = (await taskService.getTaskById('pipeline_task')).data as Task;
+
+    const result = await taskExecutor.previewTask(task);
+
+    expect(result).toMatchObject({ success: true, dryRun: true });
+    expect(result.plannedChanges).toEqual([{ id: '1', title: 'A', operation: 'delete', current: '书签栏', planned: '删除' }]);
+    expect(result.details).toContain('第 2 步: 该操作不修改本地书签，试运行时不执行');
+    expect(organizeService.organizeBookmarks).toHaveBeenCalledWith(expect.any(Array), { dryRun: true });
+
+    const saved = (await taskService.getTaskById('pipeline_task')).data as Task;
+    expect(saved.history.lastExecution).toBeUndefined();
+    expect(saved.status).toBe(TaskStatus.ENABLED);
+    expect((await taskLogService.getTaskRunLogs('pipeline_task')).data).toEqual([]);
+  });
+});
+
+describe('task-executor 临时性失败重试', () => {
+  beforeEach(async () => {
+    await browser.storage.local.clear();
+    await browser.storage.sync.clear();
+    await browser.alarms.clearAll();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('推送遇到 5xx 错误时由执行队列按退避时间重新排队', async () => {
+    jest.spyOn(storageProviderService, 'createProvider').mockResolvedValue({ success: true, data: { name: 'GitHub' } as any });
+    jest.spyOn(backupService, 'pushBookmarks').mockResolvedValue({ success: false, error: 'GitHub API error: 503' });
+    await taskService.createTask({
+      id: 'push_task',
+      name: '推送书签',
+      status: TaskStatus.ENABLED,
+      trigger: createManualTrigger(),
+      action: createPushAction(),
+    });
+    await taskQueueService.init();
+
+    const before = Date.now();
+    await taskQueueService.enqueue('push_task', '手动触发');
+
+    const queue = await taskQueueService.getQueue();
+    expect(queue).toEqual([expect.objectContaining({ taskId: 'push_task', attempt: 1, startedAt: undefined })]);
+    expect(queue[0].runAfter).toBeGreaterThan(before);
+    expect(backupService.pushBookmarks).toHaveBeenCalledTimes(1);
+
+    // 等待重试期间不记录失败，任务保持启用
+    const saved = (await taskService.getTaskById('push_task')).data as Task;
+    expect(saved.status).toBe(TaskStatus.ENABLED);
+    expect(saved.history.lastExecution).toBeUndefined();
+  });
+});
@@ -13,27 +13,41 @@ import {
   SelectivePushAction,
   BookmarkSelection,
   TaskExecutionResult,
+  TaskStepResult,
+  PlannedBookmarkChange,
   TriggerType,
+  getTaskSteps,
+  isDryRunAction,
+  isFollowUpStepAction,
 } from '../types/task';
 import taskService from './task-service';
-import backupService from './backup-service';
+import backupService, { BackupType } from './backup-service';
 import organizeService from './organize-service';
-import storageService from '../utils/storage-service';
 import bookmarkService from '../utils/bookmark-service';
-import githubService from './github-service';
+import storageProviderService from './storage-provider-service';
+import taskLogService, { TaskRunLogger } from './task-log-service';
+import { BookmarkMergeResult } from '../types/backup';
 
 // 任务执行配置
 interface TaskExecutionConfig {
   maxRetries: number;         // 最大重试次数
-  retryDelay: number;         // 重试延迟(毫秒)
+  retryBaseDelay: number;     // 首次重试延迟(毫秒)，之后每次翻倍
+  retryMaxDelay: number;      // 重试延迟上限(毫秒)
   timeout: number;            // 执行超时时间(毫秒)
   maxHistoryLength: number;   // 执行历史记录最大长度
 }
 
+// 执行选项
+export interface TaskExecutionOptions {
+  // 可重试的失败不在本次调用中等待重试，而是返回 retryAt 由执行队列按时重新执行
+  deferRetry?: boolean;
+}
+
 // 默认配置
 const DEFAULT_CONFIG: TaskExecutionConfig = {
   maxRetries: 3,              // 默认最多重试3次
-  retryDelay: 2000,           // 默认重试延迟2秒
+  retryBaseDelay: 5000,       // 默认首次重试延迟5秒
+  retryMaxDelay: 300000,      // 默认重试延迟最长5分钟
   timeout: 60000,             // 默认超时1分钟
   maxHistoryLength: 50        // 默认保留50条执行记录
 };
@@ -114,9 +128,16 @@ class TaskExecutor {
    * 执行任务
    * @param taskId 要执行的任务ID
    * @param retryCount 当前重试次数，默认为0
+   * @param triggerSummary 触发原因说明（如合并执行的书签变更），记录在执行详情开头
+   * @param options 执行选项
    * @returns 执行结果
    */
-  public async executeTask(taskId: string, retryCount: number = 0): Promise<TaskExecutionResult> {
+  public async executeTask(
+    taskId: string,
+    retryCount: number = 0,
+    triggerSummary?: string,
+    options: TaskExecutionOptions = {}
+  ): Promise<TaskExecutionResult> {
     // 创建初始执行结果对象
     let executionResult: TaskExecutionResult = {
       success: false,
@@ -124,7 +145,7 @@ class TaskExecutor {
       details: ''
     };
 
-    // 检查任务是否已在执行中
+    // 检查任务是否已在执行中（执行队列会等待该任务结束后再执行，不会走到这里）
     if (this.executingTasks.has(taskId)) {
       console.warn(`任务 ${taskId} 正在执行中，跳过...`);
       executionResult.error = '任务正在执行中';
@@ -137,6 +158,10 @@ class TaskExecutor {
     const executionStartTime = new Date();
     console.log(`[${executionStartTime.toLocaleString()}] 开始执行任务: ${taskId}${retryCount > 0 ? ` (重试 ${retryCount}/${this.config.maxRetries})` : ''}`);
 
+    // 本次执行的结构化日志
+    const logger = new TaskRunLogger();
+    let taskName = taskId;
+
     // 超时定时器句柄（用于清理，避免悬挂定时器导致资源泄漏）
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
 
@@ -152,6 +177,8 @@ class TaskExecutor {
       }
 
       const task = taskResult.data as Task;
+      taskName = task.name;
+      logger.info(`开始执行${triggerSummary ? `，${triggerSummary}` : ''}${retryCount > 0 ? `（第 ${retryCount} 次重试）` : ''}`);
 
       // 任务执行前更新任务状态为RUNNING
       await taskService.setTaskStatus(taskId, TaskStatus.RUNNING);
@@ -166,33 +193,25 @@ class TaskExecutor {
         details: ''
       };
 
-      // 创建超时Promise
+      // 创建超时Promise，多步骤任务的超时时间按步骤数累加
+      const timeout = this.config.timeout * getTaskSteps(task).length;
       const timeoutPromise = new Promise<TaskExecutionResult>((_, reject) => {
         timeoutId = setTimeout(() => {
-          reject(new Error(`任务执行超时(${this.config.timeout / 1000}秒)`));
-        }, this.config.timeout);
+          reject(new Error(`任务执行超时(${timeout / 1000}秒)`));
+        }, timeout);
       });
 
-      // 创建执行Promise
-      const executePromise = (async () => {
-        // 根据任务类型执行不同的操作
-        switch (task.action.type) {
-          case ActionType.BACKUP:
-            return await this.executeBackupAction(task);
-          case ActionType.ORGANIZE:
-            return await this.executeOrganizeAction(task);
-          case ActionType.PUSH:
-            return await this.executePushAction(task);
-          case ActionType.SELECTIVE_PUSH:
-            return await this.executeSelectivePush(task);
-          default:
-            throw new Error(`不支持的任务类型: ${(task.action as any).type}`);
-        }
-      })();
+      // 创建执行Promise，多步骤任务按顺序执行各步骤
+      const executePromise = this.executeTaskSteps(task, logger);
 
       // 竞争模式，哪个先完成就用哪个结果
       executionResult = await Promise.race([executePromise, timeoutPromise]);
 
+      // 操作处理函数捕获错误后返回失败结果，网络错误、5xx、429 等临时性失败交给下面的重试逻辑
+      if (!executionResult.success && this.isRetryableError(executionResult.error || '')) {
+        throw new Error(executionResult.error);
+      }
+
       // 清理超时定时器（避免后台悬挂定时器导致资源泄漏）
       if (timeoutId) {
         clearTimeout(timeoutId);
@@ -201,10 +220,15 @@ class TaskExecutor {
 
       // 添加执行持续时间
       executionResult.duration = Date.now() - startTime;
+      if (triggerSummary) {
+        executionResult.details = `${triggerSummary}；${executionResult.details || ''}`;
+      }
+      executionResult.logId = await this.saveRunLog(logger, taskId, taskName, executionResult);
 
       // 更新任务执行历史记录
       console.log(`更新任务 ${taskId} 执行历史记录...`);
       await taskService.updateTaskExecutionHistory(taskId, executionResult);
+      await this.emitTaskCompleted(taskId, executionResult);
 
       const executionEndTime = new Date();
       const executionTimeMessage = `开始: ${executionStartTime.toLocaleString()}, 结束: ${executionEndTime.toLocaleString()}, 耗时: ${Math.round((executionEndTime.getTime() - executionStartTime.getTime()) / 1000)}秒`;
@@ -220,23 +244,39 @@ class TaskExecutor {
 
       // 如果错误是由于超时或可重试的原因，尝试重试
       if (retryCount < this.config.maxRetries && this.isRetryableError(error)) {
-        console.log(`将在 ${this.config.retryDelay / 1000} 秒后重试任务 ${taskId}`);
+        const retryDelay = this.getRetryDelay(retryCount);
+        console.log(`将在 ${retryDelay / 1000} 秒后重试任务 ${taskId}`);
 
         // 从执行中任务集合中移除
         this.executingTasks.delete(taskId);
 
+        // 由执行队列持久化重试，Service Worker 在等待期间被回收也不会丢失
+        if (options.deferRetry) {
+          await taskService.setTaskStatus(taskId, TaskStatus.ENABLED);
+          return {
+            success: false,
+            timestamp: Date.now(),
+            error: errorMessage,
+            details: `将在 ${Math.round(retryDelay / 1000)} 秒后重试`,
+            retryAt: Date.now() + retryDelay
+          };
+        }
+
         // 等待重试延迟
-        await new Promise(resolve => setTimeout(resolve, this.config.retryDelay));
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
 
         // 重试任务
-        return this.executeTask(taskId, retryCount + 1);
+        return this.executeTask(taskId, retryCount + 1, triggerSummary);
       }
 
       // 记录错误信息
       executionResult.success = false;
       executionResult.error = errorMessage;
-      executionResult.details = `执行失败${retryCount > 0 ? `，已重试 ${retryCount} 次` : ''}`;
+      executionResult.details = `${triggerSummary ? `${triggerSummary}；` : ''}执行失败${retryCount > 0 ? `，已重试 ${retryCount} 次` : ''}`;
       executionResult.duration = Date.now() - startTime;
+      logger.setStep(undefined);
+      logger.error(`执行失败: ${errorMessage}`);
+      executionResult.logId = await this.saveRunLog(logger, taskId, taskName, executionResult);
 
       // 更新任务历史记录
       console.log(`更新任务 ${taskId} 执行历史(失败)...`);
@@ -245,6 +285,7 @@ class TaskExecutor {
       // 将任务状态设置为失败
       console.log(`更新任务 ${taskId} 状态为 FAILED`);
       await taskService.setTaskStatus(taskId, TaskStatus.FAILED);
+      await this.emitTaskCompleted(taskId, executionResult);
 
       const executionEndTime = new Date();
       const executionTimeMessage = `开始: ${executionStartTime.toLocaleString()}, 结束: ${executionEndTime.toLocaleString()}, 耗时: ${Math.round((executionEndTime.getTime() - executionStartTime.getTime()) / 1000)}秒`;
@@ -258,6 +299,7 @@ class TaskExecutor {
       // 无论结果如何，从执行中任务集合中移除
       this.executingTasks.delete(taskId);
       console.log(`任务 ${taskId} 已从执行队列移除`);
+      void this.resumeWaitingQueueEntries();
     }
 
     return executionResult;
@@ -293,6 +335,10 @@ class TaskExecutor {
     const executionStartTime = new Date();
     console.log(`[${executionStartTime.toLocaleString()}] 开始执行任务(带数据): ${taskId}${retryCount > 0 ? ` (重试 ${retryCount}/${this.config.maxRetries})` : ''}`);
 
+    // 本次执行的结构化日志
+    const logger = new TaskRunLogger();
+    logger.info(`开始执行${retryCount > 0 ? `（第 ${retryCount} 次重试）` : ''}`);
+
     // 超时定时器句柄（用于清理，避免悬挂定时器导致资源泄漏）
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
 
@@ -310,32 +356,25 @@ class TaskExecutor {
         details: ''
       };
 
-      // 创建超时Promise
+      // 创建超时Promise，多步骤任务的超时时间按步骤数累加
+      const timeout = this.config.timeout * getTaskSteps(task).length;
       const timeoutPromise = new Promise<TaskExecutionResult>((_, reject) => {
         timeoutId = setTimeout(() => {
-          reject(new Error(`任务执行超时(${this.config.timeout / 1000}秒)`));
-        }, this.config.timeout);
+          reject(new Error(`任务执行超时(${timeout / 1000}秒)`));
+        }, timeout);
       });
 
       // 创建执行Promise - 直接使用传入的 task 对象
-      const executePromise = (async () => {
-        switch (task.action.type) {
-          case ActionType.BACKUP:
-            return await this.executeBackupAction(task);
-          case ActionType.ORGANIZE:
-            return await this.executeOrganizeAction(task);
-          case ActionType.PUSH:
-            return await this.executePushAction(task);
-          case ActionType.SELECTIVE_PUSH:
-            return await this.executeSelectivePush(task);
-          default:
-            throw new Error(`不支持的任务类型: ${(task.action as any).type}`);
-        }
-      })();
+      const executePromise = this.executeTaskSteps(task, logger);
 
       // 竞争模式
       executionResult = await Promise.race([executePromise, timeoutPromise]);
 
+      // 操作处理函数捕获错误后返回失败结果，网络错误、5xx、429 等临时性失败交给下面的重试逻辑
+      if (!executionResult.success && this.isRetryableError(executionResult.error || '')) {
+        throw new Error(executionResult.error);
+      }
+
       // 清理超时定时器（避免后台悬挂定时器导致资源泄漏）
       if (timeoutId) {
         clearTimeout(timeoutId);
@@ -344,10 +383,12 @@ class TaskExecutor {
 
       // 添加执行持续时间
       executionResult.duration = Date.now() - startTime;
+      executionResult.logId = await this.saveRunLog(logger, taskId, task.name, executionResult);
 
       // 更新任务执行历史记录
       console.log(`更新任务 ${taskId} 执行历史记录...`);
       await taskService.updateTaskExecutionHistory(taskId, executionResult);
+      await this.emitTaskCompleted(taskId, executionResult);
 
       const executionEndTime = new Date();
       const executionTimeMessage = `开始: ${executionStartTime.toLocaleString()}, 结束: ${executionEndTime.toLocaleString()}, 耗时: ${Math.round((executionEndTime.getTime() - executionStartTime.getTime()) / 1000)}秒`;
@@ -361,9 +402,10 @@ class TaskExecutor {
 
       // 如果错误可重试，尝试重试
       if (retryCount < this.config.maxRetries && this.isRetryableError(error)) {
-        console.log(`将在 ${this.config.retryDelay / 1000} 秒后重试任务 ${taskId}`);
+        const retryDelay = this.getRetryDelay(retryCount);
+        console.log(`将在 ${retryDelay / 1000} 秒后重试任务 ${taskId}`);
         this.executingTasks.delete(taskId);
-        await new Promise(resolve => setTimeout(resolve, this.config.retryDelay));
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
         return this.executeTaskWithData(task, retryCount + 1);
       }
 
@@ -372,6 +414,9 @@ class TaskExecutor {
       executionResult.error = errorMessage;
       executionResult.details = `执行失败${retryCount > 0 ? `，已重试 ${retryCount} 次` : ''}`;
       executionResult.duration = Date.now() - startTime;
+      logger.setStep(undefined);
+      logger.error(`执行失败: ${errorMessage}`);
+      executionResult.logId = await this.saveRunLog(logger, taskId, task.name, executionResult);
 
       // 更新任务历史记录
       console.log(`更新任务 ${taskId} 执行历史(失败)...`);
@@ -380,6 +425,7 @@ class TaskExecutor {
       // 将任务状态设置为失败
       console.log(`更新任务 ${taskId} 状态为 FAILED`);
       await taskService.setTaskStatus(taskId, TaskStatus.FAILED);
+      await this.emitTaskCompleted(taskId, executionResult);
 
       const executionEndTime = new Date();
       const executionTimeMessage = `开始: ${executionStartTime.toLocaleString()}, 结束: ${executionEndTime.toLocaleString()}, 耗时: ${Math.round((executionEndTime.getTime() - executionStartTime.getTime()) / 1000)}秒`;
@@ -392,11 +438,67 @@ class TaskExecutor {
 
       this.executingTasks.delete(taskId);
       console.log(`任务 ${taskId} 已从执行队列移除`);
+      void this.resumeWaitingQueueEntries();
     }
 
     return executionResult;
   }
 
+  /**
+   * 任务是否正在执行
+   * @param taskId 任务ID
+   */
+  public isTaskExecuting(taskId: string): boolean {
+    return this.executingTasks.has(taskId);
+  }
+
+  /**
+   * 保存本次执行的结构化日志
+   * @returns 日志ID，保存失败时返回 undefined（不影响执行结果）
+   */
+  private async saveRunLog(
+    logger: TaskRunLogger,
+    taskId: string,
+    taskName: string,
+    result: TaskExecutionResult
+  ): Promise<string | undefined> {
+    const log = logger.build(taskId, taskName, result);
+    const saveResult = await taskLogService.saveRunLog(log);
+    if (!saveResult.success) {
+      console.warn(`保存任务 ${taskId} 的执行日志失败:`, saveResult.error);
+      return undefined;
+    }
+    return log.id;
+  }
+
+  /**
+   * 通知触发器服务任务已执行完成，执行依赖该任务的下游任务
+   * @param taskId 已完成的任务ID
+   * @param result 执行结果
+   */
+  private async emitTaskCompleted(taskId: string, result: TaskExecutionResult): Promise<void> {
+    try {
+      // 动态导入，避免与触发器服务循环依赖
+      const triggerService = (await import('./trigger-service')).default;
+      await triggerService.handleTaskCompleted(taskId, result);
+    } catch (error) {
+      console.error(`执行任务 ${taskId} 的下游任务失败:`, error);
+    }
+  }
+
+  /**
+   * 任务执行结束后处理执行队列，开始等待该任务结束的队列项
+   */
+  private async resumeWaitingQueueEntries(): Promise<void> {
+    try {
+      // 动态导入，避免与执行队列循环依赖
+      const taskQueueService = (await import('./task-queue-service')).default;
+      await taskQueueService.processQueue();
+    } catch (error) {
+      console.error('处理执行队列失败:', error);
+    }
+  }
+
   /**
    * 检查错误是否可重试
    * @param error 错误对象
@@ -423,6 +525,8 @@ class TaskExecutor {
     // 可重试的错误通常是网络或临时性错误
     const retryableErrors = [
       'timeout',
+      '超时',
+      'failed to fetch',
       'network',
       'connection',
       'temporarily',
@@ -439,22 +543,37 @@ class TaskExecutor {
       }
     }
 
+    // 存储服务返回 429 或 5xx，如 "GitHub API error: 503"、"WebDAV error: PUT ... - 503 Service Unavailable"
+    if (/error: (429|5\d\d)\b|\s-\s(429|5\d\d)\b/i.test(errorMessage)) {
+      return true;
+    }
+
     // 默认情况下，认为大多数错误都是不可重试的
     return false;
   }
 
+  /**
+   * 计算重试延迟：按重试次数指数退避，不超过上限
+   * @param retryCount 已重试次数
+   */
+  private getRetryDelay(retryCount: number): number {
+    return Math.min(this.config.retryBaseDelay * 2 ** retryCount, this.config.retryMaxDelay);
+  }
+
   /**
    * 执行备份操作
    * @param task 任务对象
+   * @param logger 本次执行的日志
+   * @param dryRun 试运行恢复操作，只返回计划的变更
    * @returns 执行结果
    */
-  private async executeBackupAction(task: Task): Promise<TaskExecutionResult> {
+  private async executeBackupAction(task: Task, logger: TaskRunLogger, dryRun: boolean = false): Promise<TaskExecutionResult> {
     console.log(`执行备份任务: ${task.id}, 操作类型: ${(task.action as BackupAction).operation || 'backup'}`);
     const backupAction = task.action as BackupAction;
 
     try {
-      // 安全策略：恢复属于高风险操作，必须是手动触发任务
-      if (backupAction.operation === 'restore' && task.trigger.type !== TriggerType.MANUAL) {
+      // 安全策略：恢复属于高风险操作，必须是手动触发任务（试运行不修改书签，不受限制）
+      if (!dryRun && backupAction.operation === 'restore' && task.trigger.type !== TriggerType.MANUAL) {
         return {
           success: false,
           timestamp: Date.now(),
@@ -463,94 +582,159 @@ class TaskExecutor {
         };
       }
 
-      // 获取GitHub凭据
-      const credentialsResult = await storageService.getGitHubCredentials();
-
-      if (!credentialsResult.success || !credentialsResult.data) {
-        console.error(`任务${task.id}执行失败: 未找到GitHub凭据`);
+      // 获取备份存储位置（加载并验证凭据）
+      const providerResult = await storageProviderService.createProvider(
+        backupAction.target,
+        undefined,
+        backupAction.options.owner
+      );
+      if (!providerResult.success || !providerResult.data) {
+        console.error(`任务${task.id}执行失败: ${providerResult.error}`);
         return {
           success: false,
           timestamp: Date.now(),
-          error: '未找到GitHub凭据，请先在“概览”页配置GitHub账号',
-          details: '请打开扩展的“概览”页面，完成GitHub账号授权后再执行此任务'
+          error: providerResult.error,
+          details: providerResult.details
         };
       }
 
-      const credentials = credentialsResult.data;
-
-      // 获取GitHub用户名并验证凭据有效性
-      let username = 'user'; // 默认占位符
-      try {
-        console.log(`验证GitHub凭据...`);
-        const userResult = await githubService.validateCredentials(credentials);
-        username = userResult.login;
-        console.log(`GitHub凭据验证成功，用户: ${username}`);
-      } catch (error) {
-        console.error(`GitHub凭据验证失败:`, error);
-        return {
-          success: false,
-          timestamp: Date.now(),
-          error: `GitHub凭据无效或已过期: ${error instanceof Error ? error.message : String(error)}`,
-          details: '请重新登录GitHub账号，更新授权信息后再执行此任务'
-        };
-      }
+      const provider = providerResult.data;
 
       // 根据操作类型执行不同的操作
       if (backupAction.operation === 'backup' || !backupAction.operation) {
         // 执行备份操作 (上传)
-        console.log(`开始执行备份操作，上传书签到GitHub...`);
-        const backupResult = await backupService.backupToGitHub(
-          credentials,
-          username
-        );
+        console.log(`开始执行备份操作，上传书签到${provider.name}...`);
+        logger.info(`开始备份书签到${provider.name}`);
+        const backupResult = backupAction.options?.includeSettings
+          // 书签、配置与清单在同一次提交中写入
+          ? await backupService.backupAllToStorage(provider, backupAction.options.commitMessage)
+          : await backupService.backupToStorage(provider);
 
         if (!backupResult.success) {
-          console.error(`GitHub备份失败:`, backupResult.error);
+          console.error(`${provider.name}备份失败:`, backupResult.error);
           return {
             success: false,
             timestamp: Date.now(),
-            error: `GitHub备份失败: ${backupResult.error}`,
-            details: '备份过程中发生错误，请检查网络连接和GitHub仓库权限'
+            error: `${provider.name}备份失败: ${backupResult.error}`,
+            details: `备份过程中发生错误，请检查网络连接和${provider.name}存储权限`
+          };
+        }
+
+        if (backupResult.data?.skipped) {
+          return {
+            success: true,
+            skipped: true,
+            timestamp: Date.now(),
+            details: `书签自上次备份到${provider.name}以来没有变化，已跳过备份`
           };
         }
 
         console.log(`备份成功完成，书签数:`, backupResult.data?.bookmarksCount);
+        logger.addUpload({
+          provider: provider.name,
+          filePath: backupResult.data?.filePath,
+          fileUrl: backupResult.data?.fileUrl,
+          commitSha: backupResult.data?.commitSha,
+          commitUrl: backupResult.data?.commitUrl,
+          bytes: backupResult.data?.bytesUploaded
+        });
+        const deletedBackups: string[] = backupResult.data?.deletedBackups || [];
+        deletedBackups.forEach(path => logger.info(`按保留策略删除旧备份: ${path}`));
         return {
           success: true,
           timestamp: Date.now(),
-          details: `成功备份书签到GitHub: ${backupResult.data?.fileUrl || '无文件URL'}${backupResult.data?.bookmarksCount ? `，包含 ${backupResult.data.bookmarksCount} 个书签` : ''
-            }`
+          details: `成功备份书签到${provider.name}: ${backupResult.data?.fileUrl || '无文件URL'}${backupResult.data?.bookmarksCount ? `，包含 ${backupResult.data.bookmarksCount} 个书签` : ''
+            }${deletedBackups.length > 0
+              ? `；按保留策略清理了 ${deletedBackups.length} 个旧备份: ${deletedBackups.map(path => path.split('/').pop()).join(', ')}`
+              : ''}`
+        };
+      } else if (backupAction.operation === 'restore' && backupAction.options?.restoreSelections?.length) {
+        // 部分恢复：只把选中的文件夹/书签恢复到目标文件夹
+        const targetFolderId = backupAction.options.restoreTargetFolderId;
+        if (!targetFolderId) {
+          return {
+            success: false,
+            timestamp: Date.now(),
+            error: '未指定恢复到的目标文件夹',
+            details: '请选择部分恢复的目标文件夹后再执行'
+          };
+        }
+
+        const partialResult = await backupService.restoreBookmarkSelections(
+          backupAction.options.restoreSelections,
+          targetFolderId,
+          { dryRun }
+        );
+
+        if (dryRun && partialResult.success) {
+          return this.toDryRunResult('将恢复到目标文件夹', partialResult.data?.plannedChanges);
+        }
+
+        if (!partialResult.success) {
+          console.error(`部分恢复失败:`, partialResult.error);
+          return {
+            success: false,
+            timestamp: Date.now(),
+            error: `部分恢复失败: ${partialResult.error}`,
+            details: '恢复过程中发生错误，已创建的书签已被删除，目标文件夹保持原样'
+          };
+        }
+
+        return {
+          success: true,
+          timestamp: Date.now(),
+          details: `成功从备份恢复 ${partialResult.data?.foldersCount || 0} 个文件夹、${partialResult.data?.bookmarksCount || 0} 个书签到目标文件夹`
         };
       } else if (backupAction.operation === 'restore') {
         // 执行恢复操作 (下载)
         const useTimestampedFile = !!backupAction.options?.backupFilePath;
         const timestampedFilePath = backupAction.options?.backupFilePath;
 
-        console.log(`开始执行恢复操作，从GitHub下载书签`,
+        console.log(`开始执行恢复操作，从${provider.name}下载书签`,
           useTimestampedFile ? `，使用指定文件: ${timestampedFilePath}` : '，使用最新文件');
 
-        const restoreResult = await backupService.restoreFromGitHub(
-          credentials,
-          username,
+        const restoreResult = await backupService.restoreFromStorage(
+          provider,
           useTimestampedFile,
-          timestampedFilePath
+          timestampedFilePath,
+          BackupType.BOOKMARKS,
+          {
+            strategy: backupAction.options?.restoreStrategy,
+            removeAbsent: backupAction.options?.removeAbsent,
+            roots: backupAction.options?.restoreRoots,
+            dryRun
+          }
         );
 
+        if (dryRun && restoreResult.success) {
+          return this.toDryRunResult(`将从${provider.name}恢复书签`, restoreResult.data?.plannedChanges);
+        }
+
         if (!restoreResult.success) {
-          console.error(`从GitHub恢复失败:`, restoreResult.error);
+          console.error(`从${provider.name}恢复失败:`, restoreResult.error);
           return {
             success: false,
             timestamp: Date.now(),
-            error: `从GitHub恢复失败: ${restoreResult.error}`,
+            error: `从${provider.name}恢复失败: ${restoreResult.error}`,
             details: '恢复过程中发生错误，请检查备份文件是否存在和有效'
           };
         }
 
         console.log(`恢复成功完成，书签数:`, restoreResult.data?.bookmarksCount);
+
+        const mergeResult = restoreResult.data?.merge as BookmarkMergeResult | undefined;
+        if (mergeResult) {
+          return {
+            success: true,
+            timestamp: Date.now(),
+            details: `成功从${provider.name}合并恢复书签：新增 ${mergeResult.created} 项，保留 ${mergeResult.kept} 项，删除 ${mergeResult.removed} 项`
+          };
+        }
+
         return {
           success: true,
           timestamp: Date.now(),
-          details: `成功从GitHub恢复书签${restoreResult.data?.bookmarksCount ? `，恢复了 ${restoreResult.data.bookmarksCount} 个书签` : ''
+          details: `成功从${provider.name}恢复书签${restoreResult.data?.bookmarksCount ? `，恢复了 ${restoreResult.data.bookmarksCount} 个书签` : ''
             }`
         };
       } else {
@@ -575,12 +759,29 @@ class TaskExecutor {
     }
   }
 
+  /**
+   * 生成恢复操作的试运行结果
+   * @param summary 结果描述的开头
+   * @param plannedChanges 计划的变更
+   */
+  private toDryRunResult(summary: string, plannedChanges: PlannedBookmarkChange[] = []): TaskExecutionResult {
+    return {
+      success: true,
+      dryRun: true,
+      timestamp: Date.now(),
+      details: `${summary}，计划变更 ${plannedChanges.length} 项`,
+      plannedChanges
+    };
+  }
+
   /**
    * 执行整理操作
    * @param task 任务对象
+   * @param logger 本次执行的日志
+   * @param dryRun 试运行，只返回计划的变更
    * @returns 执行结果
    */
-  private async executeOrganizeAction(task: Task): Promise<TaskExecutionResult> {
+  private async executeOrganizeAction(task: Task, logger: TaskRunLogger, dryRun: boolean = false): Promise<TaskExecutionResult> {
     console.log(`执行整理任务: ${task.id}`);
     const organizeAction = task.action as OrganizeAction;
 
@@ -591,7 +792,16 @@ class TaskExecutor {
       }
 
       // 使用organizeService执行书签整理操作
-      const results = await organizeService.organizeBookmarks(organizeAction.operations);
+      const results = await organizeService.organizeBookmarks(organizeAction.operations, { dryRun });
+      results.forEach((result, index) => {
+        const message = `第 ${index + 1} 个整理操作（${organizeAction.operations[index]?.operation ?? '未知'}）: ${result.details}`;
+        if (result.success) {
+          logger.info(message);
+        } else {
+          logger.error(message);
+        }
+        logger.addItems(result.items || []);
+      });
 
       // 汇总处理结果
       let successCount = 0;
@@ -611,6 +821,16 @@ class TaskExecutor {
 
       // 生成总结果
       const allOperationsSucceeded = failureCount === 0;
+      if (dryRun) {
+        return {
+          success: allOperationsSucceeded,
+          dryRun: true,
+          timestamp: Date.now(),
+          details: `试运行 ${organizeAction.operations.length} 个整理操作，计划处理 ${processedBookmarksCount} 个书签。详情: ${details.join(' | ')}`,
+          error: allOperationsSucceeded ? undefined : `${failureCount} 个操作无法执行，请检查详情`,
+          plannedChanges: results.flatMap(result => result.plannedChanges || [])
+        };
+      }
       return {
         success: allOperationsSucceeded,
         timestamp: Date.now(),
@@ -629,51 +849,37 @@ class TaskExecutor {
   /**
    * 执行推送书签操作
    * @param task 任务对象
+   * @param logger 本次执行的日志
    * @returns 执行结果
    */
-  private async executePushAction(task: Task): Promise<TaskExecutionResult> {
+  private async executePushAction(task: Task, logger: TaskRunLogger): Promise<TaskExecutionResult> {
     console.log(`执行推送书签任务: ${task.id}`);
     const pushAction = task.action as PushAction;
 
     try {
-      // 获取GitHub凭据
-      const credentialsResult = await storageService.getGitHubCredentials();
-
-      if (!credentialsResult.success || !credentialsResult.data) {
-        console.error(`任务${task.id}执行失败: 未找到GitHub凭据`);
+      // 获取推送目标存储位置（GitHub 为目标仓库）
+      const providerResult = await storageProviderService.createProvider(
+        pushAction.target,
+        pushAction.options.repoName,
+        pushAction.options.owner
+      );
+      if (!providerResult.success || !providerResult.data) {
+        console.error(`任务${task.id}执行失败: ${providerResult.error}`);
         return {
           success: false,
           timestamp: Date.now(),
-          error: '未找到GitHub凭据，请先在“概览”页配置GitHub账号',
-          details: '请打开扩展的“概览”页面，完成GitHub账号授权后再执行此任务'
+          error: providerResult.error,
+          details: providerResult.details
         };
       }
 
-      const credentials = credentialsResult.data;
-
-      // 获取GitHub用户名并验证凭据有效性
-      let username = 'user'; // 默认占位符
-      try {
-        console.log(`验证GitHub凭据...`);
-        const userResult = await githubService.validateCredentials(credentials);
-        username = userResult.login;
-        console.log(`GitHub凭据验证成功，用户: ${username}`);
-      } catch (error) {
-        console.error(`GitHub凭据验证失败:`, error);
-        return {
-          success: false,
-          timestamp: Date.now(),
-          error: `GitHub凭据无效或已过期: ${error instanceof Error ? error.message : String(error)}`,
-          details: '请重新登录GitHub账号，更新授权信息后再执行此任务'
-        };
-      }
+      const provider = providerResult.data;
 
       // 执行推送书签操作
       console.log(`开始执行推送书签操作，目标仓库: ${pushAction.options.repoName}/${pushAction.options.folderPath}...`);
-      const pushResult = await backupService.pushBookmarksToGitHub(
-        credentials,
-        username,
-        pushAction.options.repoName,
+      logger.info(`开始推送书签到${provider.name}: ${pushAction.options.folderPath || '根目录'}`);
+      const pushResult = await backupService.pushBookmarks(
+        provider,
         pushAction.options.folderPath,
         pushAction.options.commitMessage
       );
@@ -684,15 +890,23 @@ class TaskExecutor {
           success: false,
           timestamp: Date.now(),
           error: `推送书签失败: ${pushResult.error}`,
-          details: '推送过程中发生错误，请检查网络连接和GitHub仓库权限'
+          details: `推送过程中发生错误，请检查网络连接和${provider.name}存储权限`
         };
       }
 
       console.log(`推送书签成功完成，文件URL:`, pushResult.data?.fileUrl);
+      logger.addUpload({
+        provider: provider.name,
+        filePath: pushResult.data?.filePath,
+        fileUrl: pushResult.data?.fileUrl,
+        commitSha: pushResult.data?.commitSha,
+        commitUrl: pushResult.data?.commitUrl,
+        bytes: pushResult.data?.bytesUploaded
+      });
       return {
         success: true,
         timestamp: Date.now(),
-        details: `成功推送书签到GitHub: ${pushResult.data?.fileUrl || '无文件URL'}`
+        details: `成功推送书签到${provider.name}: ${pushResult.data?.fileUrl || '无文件URL'}`
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -710,9 +924,10 @@ class TaskExecutor {
   /**
    * 执行选择性推送
    * @param task 任务对象
+   * @param logger 本次执行的日志
    * @returns 执行结果
    */
-  private async executeSelectivePush(task: Task): Promise<TaskExecutionResult> {
+  private async executeSelectivePush(task: Task, logger: TaskRunLogger): Promise<TaskExecutionResult> {
     console.log(`执行选择性推送任务: ${task.id}`);
     const selectivePushAction = task.action as SelectivePushAction;
 
@@ -727,37 +942,23 @@ class TaskExecutor {
         };
       }
 
-      // 2. 获取GitHub凭据
-      const credentialsResult = await storageService.getGitHubCredentials();
-
-      if (!credentialsResult.success || !credentialsResult.data) {
-        console.error(`任务${task.id}执行失败: 未找到GitHub凭据`);
+      // 2. 获取推送目标存储位置（加载并验证凭据）
+      const providerResult = await storageProviderService.createProvider(
+        selectivePushAction.target,
+        selectivePushAction.options.repoName,
+        selectivePushAction.options.owner
+      );
+      if (!providerResult.success || !providerResult.data) {
+        console.error(`任务${task.id}执行失败: ${providerResult.error}`);
         return {
           success: false,
           timestamp: Date.now(),
-          error: '未找到GitHub凭据，请先在“概览”页配置GitHub账号',
-          details: '请打开扩展的“概览”页面，完成GitHub账号授权后再执行此任务'
+          error: providerResult.error,
+          details: providerResult.details
         };
       }
 
-      const credentials = credentialsResult.data;
-
-      // 3. 验证GitHub凭据
-      let username = 'user'; // 默认占位符
-      try {
-        console.log(`验证GitHub凭据...`);
-        const userResult = await githubService.validateCredentials(credentials);
-        username = userResult.login;
-        console.log(`GitHub凭据验证成功，用户: ${username}`);
-      } catch (error) {
-        console.error(`GitHub凭据验证失败:`, error);
-        return {
-          success: false,
-          timestamp: Date.now(),
-          error: `GitHub凭据无效或已过期: ${error instanceof Error ? error.message : String(error)}`,
-          details: '请重新登录GitHub账号，更新授权信息后再执行此任务'
-        };
-      }
+      const provider = providerResult.data;
 
       // 4. 使用BackupService生成HTML
       console.log(`生成选择性书签HTML，选中数量: ${selectivePushAction.options.selections.length}...`);
@@ -767,22 +968,24 @@ class TaskExecutor {
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
       const filename = `selective-bookmarks-${timestamp}.html`;
 
-      // 6. 使用GitHubService上传
+      // 6. 上传到存储位置
       const folderPath = selectivePushAction.options.folderPath || '';
       const filePath = folderPath ? `${folderPath}/${filename}` : filename;
       const commitMessage = selectivePushAction.options.commitMessage || '选择性推送书签';
 
-      console.log(`开始上传到GitHub，目标路径: ${filePath}...`);
-      const uploadResult = await githubService.createOrUpdateFile(
-        credentials,
-        username,
-        selectivePushAction.options.repoName,
-        filePath,
-        html,
-        commitMessage
-      );
+      console.log(`开始上传到${provider.name}，目标路径: ${filePath}...`);
+      logger.info(`生成了 ${selectivePushAction.options.selections.length} 个选中项的书签文件，开始上传到${provider.name}`);
+      const writeResult = await provider.writeFile(filePath, html, commitMessage);
 
       console.log(`选择性推送完成:`, filePath);
+      logger.addUpload({
+        provider: provider.name,
+        filePath,
+        fileUrl: writeResult.url,
+        commitSha: writeResult.commitSha,
+        commitUrl: writeResult.commitUrl,
+        bytes: new TextEncoder().encode(html).length
+      });
       return {
         success: true,
         timestamp: Date.now(),
@@ -801,24 +1004,177 @@ class TaskExecutor {
     }
   }
 
+  /**
+   * 试运行任务：计算整理与恢复步骤计划的书签变更，不修改书签，
+   * 也不记录执行历史、不更新任务状态
+   * 各步骤都基于当前的书签计算，不考虑前序步骤的变更
+   * @param task 任务对象（可以是尚未保存的表单数据）
+   * @returns 试运行结果，plannedChanges 为全部步骤计划的变更
+   */
+  public async previewTask(task: Task): Promise<TaskExecutionResult> {
+    const steps = getTaskSteps(task);
+    // 试运行的日志不保存
+    const logger = new TaskRunLogger();
+    const plannedChanges: PlannedBookmarkChange[] = [];
+    const details: string[] = [];
+
+    for (const [index, step] of steps.entries()) {
+      const prefix = steps.length > 1 ? `第 ${index + 1} 步: ` : '';
+      let result: TaskExecutionResult;
+      try {
+        result = await this.previewTaskAction({ ...task, action: step.action }, logger);
+      } catch (error) {
+        result = {
+          success: false,
+          timestamp: Date.now(),
+          error: `试运行失败: ${error instanceof Error ? error.message : String(error)}`
+        };
+      }
+
+      if (!result.success) {
+        return {
+          success: false,
+          dryRun: true,
+          timestamp: Date.now(),
+          error: `${prefix}${result.error || '试运行失败'}`,
+          details: details.join(' | ') || undefined,
+          plannedChanges
+        };
+      }
+
+      plannedChanges.push(...(result.plannedChanges || []));
+      details.push(`${prefix}${result.details || '无计划的变更'}`);
+    }
+
+    return {
+      success: true,
+      dryRun: true,
+      timestamp: Date.now(),
+      details: details.join(' | '),
+      plannedChanges
+    };
+  }
+
+  /**
+   * 试运行单个操作：只有整理和恢复会修改书签，其他操作不执行
+   * @param task 任务对象
+   * @param logger 本次试运行的日志
+   */
+  private async previewTaskAction(task: Task, logger: TaskRunLogger): Promise<TaskExecutionResult> {
+    if (isDryRunAction(task.action)) {
+      return task.action.type === ActionType.ORGANIZE
+        ? this.executeOrganizeAction(task, logger, true)
+        : this.executeBackupAction(task, logger, true);
+    }
+    return {
+      success: true,
+      dryRun: true,
+      timestamp: Date.now(),
+      details: '该操作不修改本地书签，试运行时不执行',
+      plannedChanges: []
+    };
+  }
+
+  /**
+   * 按顺序执行任务的全部步骤
+   * 单步骤任务直接返回该步骤的结果；多步骤任务汇总各步骤结果，
+   * 某一步失败且未设置“失败后继续”时，后续步骤不再执行
+   * @param task 任务对象
+   * @param logger 本次执行的日志
+   * @returns 执行结果
+   */
+  private async executeTaskSteps(task: Task, logger: TaskRunLogger): Promise<TaskExecutionResult> {
+    const steps = getTaskSteps(task);
+    if (steps.length === 1) {
+      return this.executeTaskAction(task, logger);
+    }
+
+    const stepResults: TaskStepResult[] = [];
+    let stopped = false;
+    let blockingFailure = false;
+
+    for (const [index, step] of steps.entries()) {
+      logger.setStep(index);
+      if (stopped) {
+        stepResults.push({ index, actionType: step.action.type, status: 'not_run' });
+        logger.warn(`第 ${index + 1} 步因前序步骤失败未执行`);
+        continue;
+      }
+
+      console.log(`执行任务 ${task.id} 的第 ${index + 1}/${steps.length} 步: ${step.action.type}`);
+      logger.info(`开始执行第 ${index + 1}/${steps.length} 步`);
+      const startTime = Date.now();
+      let result: TaskExecutionResult;
+      if (index > 0 && !isFollowUpStepAction(step.action)) {
+        const error = '恢复书签与选择性推送只能作为任务的第一步';
+        result = { success: false, timestamp: startTime, error };
+        logger.error(error);
+      } else {
+        result = await this.executeTaskAction({ ...task, action: step.action }, logger);
+      }
+
+      stepResults.push({
+        index,
+        actionType: step.action.type,
+        status: result.success ? (result.skipped ? 'skipped' : 'success') : 'failed',
+        details: result.details,
+        error: result.error,
+        duration: Date.now() - startTime
+      });
+
+      if (!result.success && !step.continueOnFailure) {
+        stopped = true;
+        blockingFailure = true;
+      }
+    }
+
+    logger.setStep(undefined);
+    const count = (status: TaskStepResult['status']) => stepResults.filter(result => result.status === status).length;
+    const failed = stepResults.filter(result => result.status === 'failed');
+    const summary = `执行 ${steps.length} 个步骤：成功 ${count('success') + count('skipped')} 个，失败 ${failed.length} 个${
+      count('not_run') > 0 ? `，未执行 ${count('not_run')} 个` : ''}`;
+
+    return {
+      success: !blockingFailure,
+      timestamp: Date.now(),
+      skipped: stepResults.every(result => result.status === 'skipped') || undefined,
+      details: `${summary}。${stepResults
+        .filter(result => result.status !== 'not_run')
+        .map(result => `第 ${result.index + 1} 步${result.status === 'failed' ? '失败' : ''}: ${result.details || result.error || '无详细信息'}`)
+        .join(' | ')}`,
+      error: failed.length > 0
+        ? failed.map(result => `第 ${result.index + 1} 步: ${result.error || '执行失败'}`).join('; ')
+        : undefined,
+      steps: stepResults
+    };
+  }
+
   /**
    * 执行任务的操作部分
    * @param task 任务对象
+   * @param logger 本次执行的日志
    * @returns 执行结果
    */
-  private async executeTaskAction(task: Task): Promise<TaskExecutionResult> {
+  private async executeTaskAction(task: Task, logger: TaskRunLogger): Promise<TaskExecutionResult> {
     console.log(`执行任务操作: ${task.id}, 类型: ${task.action.type}`);
 
+    let result: TaskExecutionResult;
     try {
       switch (task.action.type) {
         case ActionType.BACKUP:
-          return await this.executeBackupAction(task);
+          result = await this.executeBackupAction(task, logger);
+          break;
         case ActionType.ORGANIZE:
-          return await this.executeOrganizeAction(task);
+          result = await this.executeOrganizeAction(task, logger);
+          break;
         case ActionType.PUSH:
-          return await this.executePushAction(task);
+          result = await this.executePushAction(task, logger);
+          break;
+        case ActionType.SELECTIVE_PUSH:
+          result = await this.executeSelectivePush(task, logger);
+          break;
         default:
-          return {
+          result = {
             success: false,
             timestamp: Date.now(),
             error: `不支持的操作类型: ${(task.action as any).type}`
@@ -826,12 +1182,22 @@ class TaskExecutor {
       }
     } catch (error) {
       console.error(`执行任务操作异常:`, error);
-      return {
+      result = {
         success: false,
         timestamp: Date.now(),
         error: `执行失败: ${error instanceof Error ? error.message : String(error)}`
       };
     }
+
+    if (result.success) {
+      logger.info(result.details || '执行成功');
+    } else {
+      logger.error(result.error || '执行失败');
+      if (result.details) {
+        logger.info(result.details);
+      }
+    }
+    return result;
   }
 }
 
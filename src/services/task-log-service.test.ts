@@ -0,0 +1,64 @@
+import { browser } from 'wxt/browser';
+import taskLogService, { TaskRunLogger } from './task-log-service';
+import { TaskRunLog } from '../types/task';
+
+describe('task-log-service 执行日志', () => {
+  beforeEach(async () => {
+    await browser.storage.local.clear();
+  });
+
+  const buildLog = (taskId: string, message: string): TaskRunLog => {
+    const logger = new TaskRunLogger();
+    logger.info(message);
+    return logger.build(taskId, '夜间备份', { success: true, timestamp: Date.now() });
+  };
+
+  test('每个任务只保留最近 10 次执行的日志，删除任务时一并删除', async () => {
+    // 同时保存的日志不会互相覆盖
+    await Promise.all([
+      ...Array.from({ length: 12 }, (_, index) => taskLogService.saveRunLog(buildLog('task_a', `第 ${index + 1} 次`))),
+      taskLogService.saveRunLog(buildLog('task_b', '其他任务'))
+    ]);
+
+    const logs = (await taskLogService.getTaskRunLogs('task_a')).data as TaskRunLog[];
+    expect(logs).toHaveLength(10);
+    expect(logs[0].lines[0].message).toBe('第 12 次');
+    expect(logs[9].lines[0].message).toBe('第 3 次');
+
+    await taskLogService.deleteTaskRunLogs('task_a');
+    expect((await taskLogService.getTaskRunLogs('task_a')).data).toEqual([]);
+    expect((await taskLogService.getTaskRunLogs('task_b')).data).toHaveLength(1);
+  });
+
+  test('日志行与书签结果超过上限时截断，并可导出为 JSON', async () => {
+    const logger = new TaskRunLogger();
+    logger.setStep(1);
+    for (let i = 0; i < 250; i++) {
+      if (i === 100) {
+        logger.error('书签 100 删除失败');
+      }
+      logger.warn(`跳过书签 ${i}`);
+    }
+    logger.error('推送失败');
+    logger.addItems(Array.from({ length: 600 }, (_, i) => ({ id: String(i), title: `书签 ${i}`, operation: 'delete', status: 'success' as const })));
+    logger.addUpload({ provider: 'GitHub', filePath: 'bookmarks/a.json', commitSha: 'abc123', bytes: 2048 });
+
+    const log = logger.build('task_a', '夜间备份', { success: false, timestamp: Date.now(), error: '推送失败' });
+    expect(log.lines).toHaveLength(201);
+    expect(log.lines[0]).toMatchObject({ level: 'warn', step: 1, message: '跳过书签 0' });
+    expect(log.lines[50]).toMatchObject({ level: 'info', message: '…省略 52 行日志…' });
+    expect(log.lines[51]).toMatchObject({ level: 'error', message: '书签 100 删除失败' });
+    expect(log.lines[200]).toMatchObject({ level: 'error', message: '推送失败' });
+    expect(log.items).toHaveLength(500);
+    expect(log.truncated).toBe(true);
+
+    await taskLogService.saveRunLog(log);
+    const loaded = await taskLogService.getRunLog('task_a', log.id);
+    expect(loaded.data).toEqual(log);
+    expect((await taskLogService.getRunLog('task_a', 'missing')).success).toBe(false);
+
+    const exported = JSON.parse(taskLogService.exportRunLog(log));
+    expect(exported.app).toBe('MarksVault');
+    expect(exported.log).toMatchObject({ taskId: 'task_a', success: false, error: '推送失败', uploads: [{ commitSha: 'abc123', bytes: 2048 }] });
+  });
+});
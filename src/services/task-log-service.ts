@@ -0,0 +1,243 @@
+/**
+ * 任务执行日志服务
+ * 每次执行记录带时间戳的日志、各书签的处理结果以及写入的文件与提交，
+ * 按任务分别保存最近的若干次执行，可在任务卡片中查看并导出为 JSON
+ */
+
+import {
+  TaskExecutionResult,
+  TaskRunItemResult,
+  TaskRunLog,
+  TaskRunLogLevel,
+  TaskRunLogLine,
+  TaskRunUpload
+} from '../types/task';
+import storageService, { StorageResult } from '../utils/storage-service';
+
+// 执行日志在本地存储中的键名
+export const TASK_RUN_LOGS_STORAGE_KEY = 'task_run_logs';
+
+// 每个任务保留的执行日志数量
+const MAX_LOGS_PER_TASK = 10;
+// 单次执行最多保留的日志行数与书签结果数
+const MAX_LOG_LINES = 200;
+// 日志行超过上限时保留开头的行数，其余保留结尾（失败原因通常在最后）
+const HEAD_LOG_LINES = 50;
+const MAX_LOG_ITEMS = 500;
+
+// 按任务ID保存的执行日志，每个任务的日志按时间倒序排列
+type TaskRunLogStorage = Record<string, TaskRunLog[]>;
+
+/**
+ * 单次执行的日志收集器
+ * 由任务执行引擎在执行过程中写入，执行结束后生成 TaskRunLog
+ */
+export class TaskRunLogger {
+  private readonly startedAt = Date.now();
+  private readonly lines: TaskRunLogLine[] = [];
+  private readonly items: TaskRunItemResult[] = [];
+  private readonly uploads: TaskRunUpload[] = [];
+  private step?: number;
+
+  /**
+   * 设置后续日志所属的步骤，单步骤任务不需要设置
+   * @param index 步骤序号，0 为任务的 action
+   */
+  public setStep(index?: number): void {
+    this.step = index;
+  }
+
+  public info(message: string): void {
+    this.log('info', message);
+  }
+
+  public warn(message: string): void {
+    this.log('warn', message);
+  }
+
+  public error(message: string): void {
+    this.log('error', message);
+  }
+
+  /**
+   * 记录书签的处理结果
+   */
+  public addItems(items: TaskRunItemResult[]): void {
+    this.items.push(...items);
+  }
+
+  /**
+   * 记录写入存储位置的文件或提交
+   */
+  public addUpload(upload: TaskRunUpload): void {
+    this.uploads.push(upload);
+  }
+
+  /**
+   * 生成执行日志，超过上限的日志行与书签结果被截断
+   * 日志行保留开头与结尾并插入省略标记，中间的错误日志始终保留
+   * @param taskId 任务ID
+   * @param taskName 任务名称
+   * @param result 执行结果
+   */
+  public build(taskId: string, taskName: string, result: TaskExecutionResult): TaskRunLog {
+    const truncated = this.lines.length > MAX_LOG_LINES || this.items.length > MAX_LOG_ITEMS;
+    return {
+      id: `log_${this.startedAt}_${Math.random().toString(36).slice(2, 8)}`,
+      taskId,
+      taskName,
+      startedAt: this.startedAt,
+      finishedAt: Date.now(),
+      success: result.success,
+      error: result.error,
+      lines: this.truncateLines(),
+      items: this.items.slice(0, MAX_LOG_ITEMS),
+      uploads: this.uploads,
+      truncated: truncated || undefined
+    };
+  }
+
+  private truncateLines(): TaskRunLogLine[] {
+    if (this.lines.length <= MAX_LOG_LINES) {
+      return this.lines.slice();
+    }
+
+    // 省略标记占用一行
+    const tailStart = this.lines.length - (MAX_LOG_LINES - HEAD_LOG_LINES - 1);
+    const omitted = this.lines.slice(HEAD_LOG_LINES, tailStart);
+    const keptErrors = omitted.filter(line => line.level === 'error');
+    const marker: TaskRunLogLine = {
+      time: omitted[0].time,
+      level: 'info',
+      message: `…省略 ${omitted.length - keptErrors.length} 行日志…`
+    };
+    return [...this.lines.slice(0, HEAD_LOG_LINES), marker, ...keptErrors, ...this.lines.slice(tailStart)];
+  }
+
+  private log(level: TaskRunLogLevel, message: string): void {
+    this.lines.push({ time: Date.now(), level, message, step: this.step });
+  }
+}
+
+/**
+ * 任务执行日志服务
+ */
+class TaskLogService {
+  private static instance: TaskLogService;
+  // 串行化日志的读写，避免同时完成的任务互相覆盖
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {}
+
+  /**
+   * 获取TaskLogService实例
+   * @returns TaskLogService单例
+   */
+  public static getInstance(): TaskLogService {
+    if (!TaskLogService.instance) {
+      TaskLogService.instance = new TaskLogService();
+    }
+    return TaskLogService.instance;
+  }
+
+  /**
+   * 保存一次执行的日志，每个任务只保留最近的日志
+   * @param log 执行日志
+   */
+  public saveRunLog(log: TaskRunLog): Promise<StorageResult> {
+    return this.withStorage(async storage => {
+      storage[log.taskId] = [log, ...(storage[log.taskId] || [])].slice(0, MAX_LOGS_PER_TASK);
+      return storageService.setStorageData(TASK_RUN_LOGS_STORAGE_KEY, storage);
+    });
+  }
+
+  /**
+   * 获取任务的执行日志
+   * @param taskId 任务ID
+   * @returns 按时间倒序排列的执行日志
+   */
+  public async getTaskRunLogs(taskId: string): Promise<StorageResult> {
+    try {
+      const storage = await this.loadStorage();
+      return { success: true, data: storage[taskId] || [] };
+    } catch (error) {
+      return {
+        success: false,
+        error: `获取执行日志失败: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * 获取单次执行的日志
+   * @param taskId 任务ID
+   * @param logId 日志ID
+   */
+  public async getRunLog(taskId: string, logId: string): Promise<StorageResult> {
+    const result = await this.getTaskRunLogs(taskId);
+    if (!result.success) {
+      return result;
+    }
+
+    const log = (result.data as TaskRunLog[]).find(item => item.id === logId);
+    return log
+      ? { success: true, data: log }
+      : { success: false, error: '执行日志不存在，可能已被较新的日志替换' };
+  }
+
+  /**
+   * 删除任务的全部执行日志
+   * @param taskId 任务ID
+   */
+  public deleteTaskRunLogs(taskId: string): Promise<StorageResult> {
+    return this.withStorage(async storage => {
+      if (!storage[taskId]) {
+        return { success: true };
+      }
+      delete storage[taskId];
+      return storageService.setStorageData(TASK_RUN_LOGS_STORAGE_KEY, storage);
+    });
+  }
+
+  /**
+   * 将执行日志导出为 JSON 文本
+   * @param log 执行日志
+   */
+  public exportRunLog(log: TaskRunLog): string {
+    return JSON.stringify({
+      app: 'MarksVault',
+      exportedAt: new Date().toISOString(),
+      log
+    }, null, 2);
+  }
+
+  private withStorage(operation: (storage: TaskRunLogStorage) => Promise<StorageResult>): Promise<StorageResult> {
+    const run = this.writeChain.then(async () => {
+      try {
+        return await operation(await this.loadStorage());
+      } catch (error) {
+        return {
+          success: false,
+          error: `保存执行日志失败: ${error instanceof Error ? error.message : String(error)}`
+        };
+      }
+    });
+    this.writeChain = run;
+    return run;
+  }
+
+  private async loadStorage(): Promise<TaskRunLogStorage> {
+    const result = await storageService.getStorageData(TASK_RUN_LOGS_STORAGE_KEY);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    return result.data && typeof result.data === 'object' ? result.data as TaskRunLogStorage : {};
+  }
+}
+
+// 导出单例实例
+const taskLogService = TaskLogService.getInstance();
+export default taskLogService;
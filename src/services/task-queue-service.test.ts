@@ -0,0 +1,169 @@
+import { browser } from 'wxt/browser';
+import taskQueueService, { TASK_QUEUE_ALARM_NAME } from './task-queue-service';
+import taskService from './task-service';
+import taskExecutor from './task-executor';
+import storageService from '../utils/storage-service';
+import { TaskExecutionResult, TaskStatus } from '../types/task';
+
+jest.mock('./task-service', () => ({
+  __esModule: true,
+  default: {
+    setTaskStatus: jest.fn(),
+  },
+}));
+
+jest.mock('./task-executor', () => ({
+  __esModule: true,
+  default: {
+    executeTask: jest.fn(),
+    isTaskExecuting: jest.fn(),
+  },
+}));
+
+describe('task-queue-service 任务执行队列', () => {
+  const mockedTaskService = taskService as jest.Mocked<typeof taskService>;
+  const mockedExecutor = taskExecutor as jest.Mocked<typeof taskExecutor>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await browser.storage.local.clear();
+    await browser.alarms.clearAll();
+    mockedTaskService.setTaskStatus.mockResolvedValue({ success: true } as any);
+    mockedExecutor.executeTask.mockResolvedValue({ success: true, timestamp: Date.now() });
+    mockedExecutor.isTaskExecuting.mockReturnValue(false);
+    // 后台初始化后才处理队列
+    await taskQueueService.init();
+  });
+
+  test('执行完成后移出队列；可重试的失败按退避时间重新排队并由 alarm 唤醒', async () => {
+    const retryAt = Date.now() + 60 * 1000;
+    mockedExecutor.executeTask.mockResolvedValueOnce({ success: false, timestamp: Date.now(), error: 'network error', retryAt });
+
+    await taskQueueService.enqueue('task_push', '书签变更后触发');
+
+    expect(mockedExecutor.executeTask).toHaveBeenCalledWith('task_push', 0, '书签变更后触发', { deferRetry: true });
+    const queue = await taskQueueService.getQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ taskId: 'task_push', attempt: 1, runAfter: retryAt, startedAt: undefined });
+    expect((await browser.alarms.get(TASK_QUEUE_ALARM_NAME))?.scheduledTime).toBe(retryAt);
+
+    // 未到重试时间时 alarm 不会执行任务
+    expect(await taskQueueService.handleAlarm(TASK_QUEUE_ALARM_NAME)).toBe(true);
+    expect(mockedExecutor.executeTask).toHaveBeenCalledTimes(1);
+
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(retryAt + 1);
+    try {
+      await taskQueueService.handleAlarm(TASK_QUEUE_ALARM_NAME);
+    } finally {
+      nowSpy.mockRestore();
+    }
+
+    expect(mockedExecutor.executeTask).toHaveBeenLastCalledWith('task_push', 1, '书签变更后触发', { deferRetry: true });
+    expect(await taskQueueService.getQueue()).toEqual([]);
+    expect(await browser.alarms.get(TASK_QUEUE_ALARM_NAME)).toBeUndefined();
+  });
+
+  test('同一任务不会并行执行，执行期间的多次触发只保留一个等待项', async () => {
+    let finishFirst: (result: TaskExecutionResult) => void = () => undefined;
+    mockedExecutor.executeTask.mockImplementationOnce(() => new Promise(resolve => {
+      finishFirst = resolve;
+    }));
+
+    const first = taskQueueService.enqueue('task_backup');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(mockedExecutor.executeTask).toHaveBeenCalledTimes(1);
+
+    await taskQueueService.enqueue('task_backup', '第二次触发');
+    await taskQueueService.enqueue('task_backup', '第三次触发');
+    await taskQueueService.enqueue('task_other');
+
+    // 其他任务不受影响，同一任务等待当前执行结束
+    expect(mockedExecutor.executeTask.mock.calls.map(call => call[0])).toEqual(['task_backup', 'task_other']);
+    expect((await taskQueueService.getQueue()).map(entry => entry.taskId)).toEqual(['task_backup', 'task_backup']);
+
+    finishFirst({ success: true, timestamp: Date.now() });
+    await first;
+
+    expect(mockedExecutor.executeTask).toHaveBeenCalledTimes(3);
+    expect(mockedExecutor.executeTask).toHaveBeenLastCalledWith('task_backup', 0, '第二次触发', { deferRetry: true });
+    expect(await taskQueueService.getQueue()).toEqual([]);
+  });
+
+  test('任务在队列外执行期间队列项保持等待，不计入重试也不设置 alarm', async () => {
+    mockedExecutor.isTaskExecuting.mockImplementation(taskId => taskId === 'task_manual');
+
+    await taskQueueService.enqueue('task_manual', '书签变更后触发');
+
+    expect(mockedExecutor.executeTask).not.toHaveBeenCalled();
+    const queue = await taskQueueService.getQueue();
+    expect(queue.map(entry => [entry.taskId, entry.attempt, entry.startedAt])).toEqual([['task_manual', 0, undefined]]);
+    expect(await browser.alarms.get(TASK_QUEUE_ALARM_NAME)).toBeUndefined();
+
+    // 手动执行结束后，任务执行引擎再次处理队列
+    mockedExecutor.isTaskExecuting.mockReturnValue(false);
+    await taskQueueService.processQueue();
+
+    expect(mockedExecutor.executeTask).toHaveBeenCalledWith('task_manual', 0, '书签变更后触发', { deferRetry: true });
+    expect(await taskQueueService.getQueue()).toEqual([]);
+  });
+
+  test('初始化时被中断的执行重新排队，多次中断后不再重试，重试次数不受影响', async () => {
+    await storageService.setStorageData('task_execution_queue', [
+      { id: 'a', taskId: 'task_interrupted', enqueuedAt: 1, runAfter: 1, attempt: 2, startedAt: 2, owner: 'old_worker' },
+      { id: 'b', taskId: 'task_given_up', enqueuedAt: 1, runAfter: 1, attempt: 0, resumes: 3, startedAt: 2, owner: 'old_worker' },
+      { id: 'c', taskId: 'task_waiting', enqueuedAt: 1, runAfter: 1, attempt: 0 },
+    ]);
+    mockedTaskService.setTaskStatus.mockClear();
+
+    await taskQueueService.init();
+
+    const queue = await taskQueueService.getQueue();
+    expect(queue.map(entry => [entry.taskId, entry.attempt, entry.resumes, entry.startedAt])).toEqual([
+      ['task_interrupted', 2, 1, undefined],
+      ['task_waiting', 0, undefined, undefined],
+    ]);
+    // 放弃的任务保持 RUNNING，由任务执行引擎记录为中断失败
+    expect(mockedTaskService.setTaskStatus.mock.calls).toEqual([['task_interrupted', TaskStatus.ENABLED]]);
+    expect(mockedExecutor.executeTask).not.toHaveBeenCalled();
+
+    await taskQueueService.processQueue();
+    expect(mockedExecutor.executeTask.mock.calls.map(call => [call[0], call[1]])).toEqual([
+      ['task_interrupted', 2],
+      ['task_waiting', 0],
+    ]);
+  });
+
+  test('其他生命周期留下的执行中队列项不占用并发名额，处理队列时重新排队', async () => {
+    await storageService.setStorageData('task_execution_queue', [
+      { id: 'a', taskId: 'task_stale_a', enqueuedAt: 1, runAfter: 1, attempt: 0, startedAt: 2 },
+      { id: 'b', taskId: 'task_stale_b', enqueuedAt: 1, runAfter: 1, attempt: 0, startedAt: 2, owner: 'popup' },
+    ]);
+
+    await taskQueueService.enqueue('task_new');
+
+    expect(mockedExecutor.executeTask.mock.calls.map(call => call[0]).sort()).toEqual(['task_new', 'task_stale_a', 'task_stale_b']);
+    expect(mockedTaskService.setTaskStatus).toHaveBeenCalledWith('task_stale_a', TaskStatus.ENABLED);
+    expect(await taskQueueService.getQueue()).toEqual([]);
+  });
+
+  test('页面中加入队列时通过消息交给后台，不写入队列也不执行', async () => {
+    const sendMessage = jest.fn().mockResolvedValue({ success: true });
+    // 未调用 init 的新实例相当于弹窗等页面中的实例
+    let pageQueueService: typeof taskQueueService = taskQueueService;
+    await jest.isolateModulesAsync(async () => {
+      (await import('wxt/browser')).browser.runtime.sendMessage = sendMessage;
+      pageQueueService = (await import('./task-queue-service')).default;
+    });
+    mockedExecutor.executeTask.mockClear();
+
+    await pageQueueService.enqueue('task_downstream', '上游任务执行成功后触发');
+    await pageQueueService.processQueue();
+
+    expect(sendMessage).toHaveBeenCalledWith({
+      type: 'ENQUEUE_TASK',
+      payload: { taskId: 'task_downstream', triggerSummary: '上游任务执行成功后触发' }
+    });
+    expect(await pageQueueService.getQueue()).toEqual([]);
+    expect(mockedExecutor.executeTask).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * 任务执行队列
+ * 后台触发的任务（事件、定时、任务完成）先写入 chrome.storage 中的队列再执行，
+ * Service Worker 被回收后，未完成的执行在下次启动时重新排队；可重试的失败按指数退避
+ * 通过 alarm 重新执行，执行期间定时调用扩展 API 保持 Service Worker 活跃
+ * 队列只在后台处理：弹窗等页面中触发的任务通过消息交给后台加入队列，
+ * 页面关闭不会留下无人执行的队列项
+ */
+
+import { browser } from 'wxt/browser';
+import { TaskStatus } from '../types/task';
+import taskService from './task-service';
+import storageService from '../utils/storage-service';
+
+// 队列在本地存储中的键名
+export const TASK_QUEUE_STORAGE_KEY = 'task_execution_queue';
+
+// 队列唤醒 alarm：到达最早的重试时间时继续处理队列
+export const TASK_QUEUE_ALARM_NAME = 'marksvault_task_queue';
+
+// 保持 Service Worker 活跃的间隔（空闲约 30 秒后会被回收）
+const KEEP_ALIVE_INTERVAL_MS = 20 * 1000;
+
+// 页面请求后台加入队列的消息类型
+export const ENQUEUE_TASK_MESSAGE = 'ENQUEUE_TASK';
+
+// 队列中的一次执行
+export interface TaskQueueEntry {
+  id: string; // 队列项ID
+  taskId: string; // 任务ID
+  enqueuedAt: number; // 加入队列的时间
+  runAfter: number; // 最早执行时间（重试时为退避后的时间）
+  attempt: number; // 可重试的失败已重试的次数
+  resumes?: number; // 执行被中断后已重新排队的次数
+  triggerSummary?: string; // 触发原因，记录在执行详情开头
+  startedAt?: number; // 开始执行的时间，未开始时为空
+  owner?: string; // 正在执行该队列项的 Service Worker 生命周期ID
+}
+
+// 队列配置
+interface TaskQueueConfig {
+  maxConcurrent: number; // 同时执行的任务数上限
+  maxResumes: number; // 执行被中断后最多重新排队的次数
+}
+
+const DEFAULT_CONFIG: TaskQueueConfig = {
+  maxConcurrent: 2,
+  maxResumes: 3
+};
+
+/**
+ * 任务执行队列服务
+ * 同一任务同时只执行一次，并且最多只有一个等待中的队列项
+ */
+class TaskQueueService {
+  private static instance: TaskQueueService;
+  private config: TaskQueueConfig = { ...DEFAULT_CONFIG };
+  // 串行化队列的读写
+  private queueChain: Promise<unknown> = Promise.resolve();
+  // 本次 Service Worker 生命周期内正在执行的队列项数量
+  private runningCount = 0;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  // 本次生命周期的ID，其他生命周期开始的队列项已被中断
+  private readonly ownerId = `worker_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  // 是否由当前上下文处理队列，只有后台在 init 后处理
+  private isProcessor = false;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {}
+
+  /**
+   * 获取TaskQueueService实例
+   * @returns TaskQueueService单例
+   */
+  public static getInstance(): TaskQueueService {
+    if (!TaskQueueService.instance) {
+      TaskQueueService.instance = new TaskQueueService();
+    }
+    return TaskQueueService.instance;
+  }
+
+  /**
+   * 更新队列配置
+   * @param config 部分或完整的配置对象
+   */
+  public updateConfig(config: Partial<TaskQueueConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * 初始化队列并由当前上下文（后台）处理队列：
+   * 上次 Service Worker 被回收时正在执行的队列项重新排队，
+   * 对应任务恢复为启用状态，避免被任务执行引擎当作中断失败处理；
+   * 超过重新排队次数的队列项移出队列，任务仍按中断失败记录
+   * 需要在 TaskExecutor.init 之前调用；之后由 processQueue 继续执行
+   */
+  public async init(): Promise<void> {
+    this.isProcessor = true;
+    const { resumed } = await this.withQueue(async queue => this.recoverInterrupted(queue));
+
+    for (const entry of resumed) {
+      console.log(`任务 ${entry.taskId} 的执行被中断，已重新加入执行队列`);
+      await taskService.setTaskStatus(entry.taskId, TaskStatus.ENABLED);
+    }
+  }
+
+  /**
+   * 将任务加入队列并处理队列
+   * 任务已有等待中的队列项时不重复加入；在页面中调用时交给后台加入队列
+   * @param taskId 任务ID
+   * @param triggerSummary 触发原因
+   * @returns 等待本次可以开始的执行全部完成后返回（页面中为后台加入队列后返回）
+   */
+  public async enqueue(taskId: string, triggerSummary?: string): Promise<void> {
+    if (!this.isProcessor) {
+      const response = await browser.runtime.sendMessage({
+        type: ENQUEUE_TASK_MESSAGE,
+        payload: { taskId, triggerSummary }
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || '后台未能将任务加入执行队列');
+      }
+      return;
+    }
+
+    await this.withQueue(async queue => {
+      if (queue.some(entry => entry.taskId === taskId && !entry.startedAt)) {
+        console.log(`任务 ${taskId} 已在执行队列中等待，不重复加入`);
+        return;
+      }
+
+      const now = Date.now();
+      queue.push({
+        id: `${taskId}_${now}_${Math.random().toString(36).slice(2, 8)}`,
+        taskId,
+        enqueuedAt: now,
+        runAfter: now,
+        attempt: 0,
+        triggerSummary
+      });
+      await this.saveQueue(queue);
+    });
+
+    await this.processQueue();
+  }
+
+  /**
+   * 获取队列中的全部队列项
+   */
+  public getQueue(): Promise<TaskQueueEntry[]> {
+    return this.withQueue(async queue => queue);
+  }
+
+  /**
+   * 处理队列：在并发上限内开始所有已到时间、且同一任务没有在执行的队列项
+   * 任务正在队列外执行（如手动执行）时队列项保持等待，由任务执行引擎在执行结束后再次处理队列
+   * 没有可执行的队列项时，按最早的重试时间设置唤醒 alarm
+   * 只在 init 后的后台中处理，其他生命周期留下的执行中队列项视为已中断并重新排队
+   */
+  public async processQueue(): Promise<void> {
+    if (!this.isProcessor) {
+      return;
+    }
+
+    const taskExecutor = (await import('./task-executor')).default;
+    const { claimed, recovered } = await this.withQueue(async queue => {
+      const { queue: nextQueue, resumed, dropped } = await this.recoverInterrupted(queue);
+      const now = Date.now();
+      const runningTaskIds = new Set(nextQueue.filter(entry => entry.startedAt).map(entry => entry.taskId));
+      let available = this.config.maxConcurrent - runningTaskIds.size;
+      const entries: TaskQueueEntry[] = [];
+
+      for (const entry of [...nextQueue].sort((a, b) => a.runAfter - b.runAfter)) {
+        if (available <= 0) break;
+        if (entry.startedAt || entry.runAfter > now || runningTaskIds.has(entry.taskId)) continue;
+        if (taskExecutor.isTaskExecuting(entry.taskId)) continue;
+
+        entry.startedAt = now;
+        entry.owner = this.ownerId;
+        runningTaskIds.add(entry.taskId);
+        entries.push(entry);
+        available--;
+      }
+
+      if (entries.length > 0) {
+        await this.saveQueue(nextQueue);
+      }
+      // 等待队列外执行结束的队列项不需要 alarm 唤醒
+      await this.scheduleWakeUp(nextQueue.filter(entry => !taskExecutor.isTaskExecuting(entry.taskId)));
+      return { claimed: entries, recovered: [...resumed, ...dropped] };
+    });
+
+    // 任务执行引擎已初始化，被中断的任务直接恢复为启用状态
+    for (const entry of recovered) {
+      await taskService.setTaskStatus(entry.taskId, TaskStatus.ENABLED);
+    }
+
+    await Promise.all(claimed.map(entry => this.runEntry(entry)));
+  }
+
+  /**
+   * 处理队列唤醒 alarm
+   * @param alarmName alarm 名称
+   * @returns 是否为队列的 alarm
+   */
+  public async handleAlarm(alarmName: string): Promise<boolean> {
+    if (alarmName !== TASK_QUEUE_ALARM_NAME) {
+      return false;
+    }
+    await this.processQueue();
+    return true;
+  }
+
+  /**
+   * 执行队列项：执行完成后移出队列，可重试的失败按退避时间重新排队
+   */
+  private async runEntry(entry: TaskQueueEntry): Promise<void> {
+    this.runningCount++;
+    this.startKeepAlive();
+
+    try {
+      const taskExecutor = (await import('./task-executor')).default;
+      if (taskExecutor.isTaskExecuting(entry.taskId)) {
+        // 认领后任务在队列外开始执行，放回等待，执行结束后再处理
+        await this.withQueue(async queue => {
+          await this.saveQueue(queue.map(item => item.id === entry.id ? { ...item, startedAt: undefined, owner: undefined } : item));
+        });
+        return;
+      }
+      const result = await taskExecutor.executeTask(entry.taskId, entry.attempt, entry.triggerSummary, { deferRetry: true });
+
+      await this.withQueue(async queue => {
+        const index = queue.findIndex(item => item.id === entry.id);
+        if (index === -1) return;
+
+        if (result.retryAt) {
+          queue[index] = { ...entry, startedAt: undefined, owner: undefined, attempt: entry.attempt + 1, runAfter: result.retryAt };
+        } else {
+          queue.splice(index, 1);
+        }
+        await this.saveQueue(queue);
+      });
+    } catch (error) {
+      console.error(`执行队列中的任务 ${entry.taskId} 时出错:`, error);
+      await this.withQueue(async queue => {
+        await this.saveQueue(queue.filter(item => item.id !== entry.id));
+      });
+    } finally {
+      this.runningCount--;
+      if (this.runningCount === 0) {
+        this.stopKeepAlive();
+      }
+    }
+
+    // 释放了并发名额，继续执行等待中的队列项
+    await this.processQueue();
+  }
+
+  /**
+   * 不属于当前生命周期的执行中队列项已被中断（Service Worker 被回收），重新排队；
+   * 超过重新排队次数的移出队列。有变化时保存队列
+   * @returns 处理后的队列，以及重新排队与移出队列的队列项
+   */
+  private async recoverInterrupted(queue: TaskQueueEntry[]): Promise<{
+    queue: TaskQueueEntry[];
+    resumed: TaskQueueEntry[];
+    dropped: TaskQueueEntry[];
+  }> {
+    const resumed: TaskQueueEntry[] = [];
+    const dropped: TaskQueueEntry[] = [];
+    const nextQueue: TaskQueueEntry[] = [];
+
+    for (const entry of queue) {
+      if (!entry.startedAt || entry.owner === this.ownerId) {
+        nextQueue.push(entry);
+      } else if ((entry.resumes || 0) < this.config.maxResumes) {
+        const next = { ...entry, startedAt: undefined, owner: undefined, resumes: (entry.resumes || 0) + 1 };
+        nextQueue.push(next);
+        resumed.push(next);
+      } else {
+        console.warn(`任务 ${entry.taskId} 的执行多次被中断，不再重新排队`);
+        dropped.push(entry);
+      }
+    }
+
+    if (resumed.length > 0 || dropped.length > 0) {
+      await this.saveQueue(nextQueue);
+    }
+    return { queue: nextQueue, resumed, dropped };
+  }
+
+  /**
+   * 按最早的等待时间设置唤醒 alarm，队列为空时清除
+   * alarm 有最短间隔限制，重试可能比计划时间稍晚
+   */
+  private async scheduleWakeUp(queue: TaskQueueEntry[]): Promise<void> {
+    const waiting = queue.filter(entry => !entry.startedAt);
+    if (waiting.length === 0) {
+      await browser.alarms.clear(TASK_QUEUE_ALARM_NAME);
+      return;
+    }
+
+    const when = Math.max(Math.min(...waiting.map(entry => entry.runAfter)), Date.now());
+    await browser.alarms.create(TASK_QUEUE_ALARM_NAME, { when });
+  }
+
+  /**
+   * 执行期间定时调用扩展 API，重置 Service Worker 的空闲计时，避免长时间的推送被中断
+   */
+  private startKeepAlive(): void {
+    if (this.keepAliveTimer) return;
+    this.keepAliveTimer = setInterval(() => {
+      browser.runtime.getPlatformInfo().catch(() => undefined);
+    }, KEEP_ALIVE_INTERVAL_MS);
+  }
+
+  private stopKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  private withQueue<T>(operation: (queue: TaskQueueEntry[]) => Promise<T>): Promise<T> {
+    const run = this.queueChain.then(async () => operation(await this.loadQueue()));
+    // 失败不应阻塞后续操作
+    this.queueChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async loadQueue(): Promise<TaskQueueEntry[]> {
+    const result = await storageService.getStorageData(TASK_QUEUE_STORAGE_KEY);
+    return result.success && Array.isArray(result.data) ? result.data : [];
+  }
+
+  private async saveQueue(queue: TaskQueueEntry[]): Promise<void> {
+    await storageService.setStorageData(TASK_QUEUE_STORAGE_KEY, queue);
+  }
+}
+
+// 导出单例实例
+const taskQueueService = TaskQueueService.getInstance();
+export default taskQueueService;
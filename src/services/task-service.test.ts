@@ -1,5 +1,12 @@
 import taskService from './task-service';
 import storageService from '../utils/storage-service';
+import {
+  Task,
+  TaskStatus,
+  createBackupAction,
+  createManualTrigger,
+  createTaskCompletedTrigger
+} from '../types/task';
 
 jest.mock('../utils/storage-service', () => ({
   __esModule: true,
@@ -35,3 +42,61 @@ describe('task-service 持久化结果', () => {
     expect(result.success).toBe(true);
   });
 });
+
+describe('task-service 任务依赖', () => {
+  const mockedStorage = storageService as jest.Mocked<typeof storageService>;
+
+  const createTask = (id: string, name: string, trigger: Task['trigger']): Task => ({
+    id,
+    name,
+    status: TaskStatus.ENABLED,
+    createdAt: 0,
+    updatedAt: 0,
+    trigger,
+    action: createBackupAction('backup'),
+    history: { executions: [] },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedStorage.setStorageData.mockResolvedValue({ success: true } as any);
+    mockedStorage.getStorageData.mockResolvedValue({
+      success: true,
+      data: {
+        tasks: {
+          task_a: createTask('task_a', '整理', createManualTrigger()),
+          task_b: createTask('task_b', '备份', createTaskCompletedTrigger('task_a')),
+        },
+        lastUpdated: 1,
+      },
+    } as any);
+  });
+
+  test('依赖形成循环时拒绝保存', async () => {
+    const result = await taskService.updateTask('task_a', { trigger: createTaskCompletedTrigger('task_b', 'any') });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('任务依赖形成循环: 整理 → 备份 → 整理');
+    expect(mockedStorage.setStorageData).not.toHaveBeenCalled();
+  });
+
+  test('上游任务必须存在，合法的依赖可以保存', async () => {
+    const missing = await taskService.createTask(createTask('task_c', '推送', createTaskCompletedTrigger('task_x')));
+    expect(missing.success).toBe(false);
+    expect(missing.error).toContain('上游任务不存在');
+
+    const created = await taskService.createTask(createTask('task_c', '推送', createTaskCompletedTrigger('task_b')));
+    expect(created.success).toBe(true);
+  });
+
+  test('仍有下游任务时拒绝删除上游任务', async () => {
+    const blocked = await taskService.deleteTask('task_a');
+
+    expect(blocked.success).toBe(false);
+    expect(blocked.error).toContain('备份');
+    expect(mockedStorage.setStorageData).not.toHaveBeenCalled();
+
+    const deleted = await taskService.deleteTask('task_b');
+    expect(deleted.success).toBe(true);
+  });
+});
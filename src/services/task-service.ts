@@ -3,6 +3,7 @@ import {
   TaskStatus,
   TaskStorage,
   TaskExecutionResult,
+  TaskStep,
   createDefaultTask,
   createDefaultTaskStorage,
   TriggerType,
@@ -11,11 +12,13 @@ import {
   BackupAction,
 } from '../types/task';
 import storageService, { StorageResult } from '../utils/storage-service';
+import taskLogService from './task-log-service';
+import { findDependencyCycle, getDownstreamTasks, getUpstreamTaskId } from '../utils/task-dependencies';
 // 导入触发器服务 - 注意避免循环依赖
 // 仅在需要使用时动态导入
 
 // 任务存储的键名
-const TASKS_STORAGE_KEY = 'tasks_data';
+export const TASKS_STORAGE_KEY = 'tasks_data';
 
 // 内置系统任务（用于“任务页快捷操作”，不展示在任务列表中）
 export const SYSTEM_TASK_IDS = {
@@ -94,13 +97,24 @@ class TaskService {
     const triggerRaw = value['trigger'];
     const trigger =
       this.isPlainObject(triggerRaw) &&
-      (triggerRaw['type'] === TriggerType.EVENT || triggerRaw['type'] === TriggerType.MANUAL)
+      (triggerRaw['type'] === TriggerType.EVENT ||
+        triggerRaw['type'] === TriggerType.MANUAL ||
+        triggerRaw['type'] === TriggerType.SCHEDULE ||
+        triggerRaw['type'] === TriggerType.TASK_COMPLETED)
         ? (triggerRaw as unknown as Task['trigger'])
         : base.trigger;
 
     const actionRaw = value['action'];
     const action = this.isPlainObject(actionRaw) ? (actionRaw as unknown as Task['action']) : base.action;
 
+    // 多步骤任务的后续步骤：丢弃缺少 ID 或操作的步骤
+    const stepsRaw = value['steps'];
+    const steps = Array.isArray(stepsRaw)
+      ? stepsRaw.filter(step =>
+        this.isPlainObject(step) && typeof step['id'] === 'string' && this.isPlainObject(step['action'])
+      ) as TaskStep[]
+      : [];
+
     const history = this.coerceHistory(value['history']);
 
     return {
@@ -113,10 +127,31 @@ class TaskService {
       updatedAt,
       trigger,
       action,
+      ...(value['continueOnFailure'] === true ? { continueOnFailure: true } : {}),
+      ...(steps.length > 0 ? { steps } : {}),
       history,
     };
   }
 
+  /**
+   * 检查任务完成触发器的上游任务是否存在，以及任务依赖是否形成循环
+   * @param tasks 现有任务
+   * @param task 待保存的任务
+   * @returns 错误信息，没有问题时返回 null
+   */
+  private validateTaskDependency(tasks: Record<string, Task>, task: Task): string | null {
+    const upstreamId = getUpstreamTaskId(task);
+    if (upstreamId === undefined) {
+      return null;
+    }
+    if (!upstreamId || !tasks[upstreamId]) {
+      return '上游任务不存在，请重新选择';
+    }
+
+    const cycle = findDependencyCycle({ ...tasks, [task.id]: task }, task);
+    return cycle ? `任务依赖形成循环: ${cycle.map(item => item.name).join(' → ')}` : null;
+  }
+
   private normalizeTaskStorage(raw: unknown): { taskStorage: TaskStorage; migrated: boolean } {
     const now = Date.now();
 
@@ -428,6 +463,14 @@ class TaskService {
 
       const newTask: Task = { ...baseTask, id: taskId };
 
+      const dependencyError = this.validateTaskDependency(taskStorage.tasks, newTask);
+      if (dependencyError) {
+        return {
+          success: false,
+          error: dependencyError
+        };
+      }
+
       // 更新存储
       taskStorage.tasks[newTask.id] = newTask;
       taskStorage.lastUpdated = Date.now();
@@ -475,6 +518,20 @@ class TaskService {
         };
       }
 
+      // 修改触发器时检查任务依赖
+      if (taskData.trigger) {
+        const dependencyError = this.validateTaskDependency(
+          taskStorage.tasks,
+          { ...taskStorage.tasks[taskId], ...taskData, id: taskId }
+        );
+        if (dependencyError) {
+          return {
+            success: false,
+            error: dependencyError
+          };
+        }
+      }
+
       // 记录旧状态，用于检测状态变化
       const oldStatus = taskStorage.tasks[taskId].status;
 
@@ -508,7 +565,7 @@ class TaskService {
   }
 
   /**
-   * 删除任务
+   * 删除任务，仍有任务在该任务完成后触发时拒绝删除
    * @param taskId 任务ID
    * @returns 操作结果
    */
@@ -529,6 +586,15 @@ class TaskService {
         };
       }
 
+      // 仍有任务在该任务完成后触发时不允许删除，否则下游任务指向不存在的上游任务
+      const downstreamTasks = getDownstreamTasks(Object.values(taskStorage.tasks), taskId);
+      if (downstreamTasks.length > 0) {
+        return {
+          success: false,
+          error: `以下任务在该任务完成后触发，请先修改它们的触发条件: ${downstreamTasks.map(task => task.name).join('、')}`
+        };
+      }
+
       // 删除任务
       delete taskStorage.tasks[taskId];
       taskStorage.lastUpdated = Date.now();
@@ -540,6 +606,9 @@ class TaskService {
         return saveResult;
       }
 
+      // 任务的执行日志随任务一起删除
+      await taskLogService.deleteTaskRunLogs(taskId);
+
       return {
         success: true
       };
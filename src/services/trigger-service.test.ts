@@ -0,0 +1,258 @@
+import { browser } from 'wxt/browser';
+import triggerService, { EVENT_DEBOUNCE_ALARM_PREFIX, SCHEDULE_ALARM_PREFIX } from './trigger-service';
+import taskService from './task-service';
+import taskQueueService from './task-queue-service';
+import {
+  Task,
+  TaskStatus,
+  EventType,
+  ScheduleType,
+  createEventTrigger,
+  createScheduleTrigger,
+  createBackupAction,
+  createTaskCompletedTrigger
+} from '../types/task';
+
+jest.mock('./task-service', () => ({
+  __esModule: true,
+  default: {
+    getTasksByStatus: jest.fn(),
+    getTaskById: jest.fn(),
+    updateTask: jest.fn(),
+  },
+}));
+
+jest.mock('./task-queue-service', () => ({
+  __esModule: true,
+  default: {
+    enqueue: jest.fn(),
+  },
+}));
+
+describe('trigger-service 定时任务', () => {
+  const mockedTaskService = taskService as jest.Mocked<typeof taskService>;
+  const mockedQueue = taskQueueService as jest.Mocked<typeof taskQueueService>;
+
+  const createTask = (overrides: Partial<Task> = {}): Task => ({
+    id: 'task_schedule',
+    name: '夜间备份',
+    status: TaskStatus.ENABLED,
+    createdAt: 0,
+    updatedAt: 0,
+    trigger: { ...createScheduleTrigger(ScheduleType.INTERVAL), intervalMinutes: 60 },
+    action: createBackupAction('backup'),
+    history: { executions: [] },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await browser.alarms.clearAll();
+    mockedTaskService.updateTask.mockResolvedValue({ success: true } as any);
+    mockedQueue.enqueue.mockResolvedValue(undefined);
+  });
+
+  test('新建的定时任务会计算并持久化下次执行时间，并创建 alarm', async () => {
+    mockedTaskService.getTasksByStatus.mockResolvedValue({ success: true, data: [createTask()] });
+
+    const dueTaskIds = await triggerService.syncScheduledTasks();
+
+    expect(dueTaskIds).toEqual([]);
+    const savedTrigger = (mockedTaskService.updateTask.mock.calls[0][1] as Partial<Task>).trigger as any;
+    expect(savedTrigger.nextRunAt).toBeGreaterThan(Date.now());
+
+    const alarm = await browser.alarms.get(`${SCHEDULE_ALARM_PREFIX}task_schedule`);
+    expect(alarm?.scheduledTime).toBe(savedTrigger.nextRunAt);
+  });
+
+  test('浏览器关闭期间错过的执行只补跑一次', async () => {
+    const task = createTask();
+    task.trigger = { ...task.trigger, nextRunAt: Date.now() - 3 * 60 * 60 * 1000 } as any;
+    mockedTaskService.getTasksByStatus.mockResolvedValue({ success: true, data: [task] });
+
+    const dueTaskIds = await triggerService.syncScheduledTasks();
+
+    expect(dueTaskIds).toEqual(['task_schedule']);
+    const savedTrigger = (mockedTaskService.updateTask.mock.calls[0][1] as Partial<Task>).trigger as any;
+    expect(savedTrigger.nextRunAt).toBeGreaterThan(Date.now());
+    expect(savedTrigger.lastTriggered).toBeDefined();
+  });
+
+  test('关闭补跑时错过的执行直接跳过', async () => {
+    const task = createTask();
+    task.trigger = { ...task.trigger, catchUpMissed: false, nextRunAt: Date.now() - 1000 * 60 } as any;
+    mockedTaskService.getTasksByStatus.mockResolvedValue({ success: true, data: [task] });
+
+    expect(await triggerService.syncScheduledTasks()).toEqual([]);
+  });
+
+  test('alarm 到期时执行任务，即使关闭了补跑', async () => {
+    const task = createTask();
+    task.trigger = { ...task.trigger, catchUpMissed: false, nextRunAt: Date.now() } as any;
+    mockedTaskService.getTasksByStatus.mockResolvedValue({ success: true, data: [task] });
+
+    const handled = await triggerService.handleAlarm(`${SCHEDULE_ALARM_PREFIX}task_schedule`);
+
+    expect(handled).toBe(true);
+    expect(mockedQueue.enqueue).toHaveBeenCalledWith('task_schedule');
+  });
+
+  test('禁用或删除的任务会清理 alarm', async () => {
+    await browser.alarms.create(`${SCHEDULE_ALARM_PREFIX}deleted_task`, { when: Date.now() + 1000 });
+    const task = createTask({ status: TaskStatus.DISABLED });
+    task.trigger = { ...task.trigger, nextRunAt: Date.now() + 1000 } as any;
+    mockedTaskService.getTasksByStatus.mockResolvedValue({ success: true, data: [task] });
+
+    await triggerService.syncScheduledTasks();
+
+    expect(await browser.alarms.getAll()).toEqual([]);
+    const savedTrigger = (mockedTaskService.updateTask.mock.calls[0][1] as Partial<Task>).trigger as any;
+    expect(savedTrigger.nextRunAt).toBeUndefined();
+  });
+
+  test('非定时任务的 alarm 不处理', async () => {
+    expect(await triggerService.handleAlarm('other_alarm')).toBe(false);
+    expect(mockedTaskService.getTasksByStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('trigger-service 事件静默期', () => {
+  const mockedTaskService = taskService as jest.Mocked<typeof taskService>;
+  const mockedQueue = taskQueueService as jest.Mocked<typeof taskQueueService>;
+  const alarmName = `${EVENT_DEBOUNCE_ALARM_PREFIX}task_event`;
+
+  const task: Task = {
+    id: 'task_event',
+    name: '书签变更备份',
+    status: TaskStatus.ENABLED,
+    createdAt: 0,
+    updatedAt: 0,
+    trigger: createEventTrigger(EventType.BOOKMARK_CHANGED),
+    action: createBackupAction('backup'),
+    history: { executions: [] },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await browser.alarms.clearAll();
+    await browser.storage.local.clear();
+    mockedTaskService.getTasksByStatus.mockResolvedValue({ success: true, data: [task] });
+    mockedTaskService.getTaskById.mockResolvedValue({ success: true, data: task });
+    mockedTaskService.updateTask.mockResolvedValue({ success: true } as any);
+    mockedQueue.enqueue.mockResolvedValue(undefined);
+  });
+
+  test('静默期内的事件合并为一次执行，执行详情列出变更', async () => {
+    await Promise.all([
+      triggerService.handleEventTrigger(EventType.BOOKMARK_CHANGED, { id: '1', bookmark: { id: '1', title: 'A' } }),
+      triggerService.handleEventTrigger(EventType.BOOKMARK_CHANGED, { id: '2', removeInfo: { parentId: '0', node: { title: 'B' } } }),
+      triggerService.handleEventTrigger(EventType.BOOKMARK_CHANGED, { id: '1', moveInfo: { parentId: '3' } }),
+    ]);
+
+    expect(mockedQueue.enqueue).not.toHaveBeenCalled();
+    const alarm = await browser.alarms.get(alarmName);
+    expect(alarm?.scheduledTime).toBeGreaterThan(Date.now() + 60 * 1000);
+
+    expect(await triggerService.handleAlarm(alarmName)).toBe(true);
+    expect(mockedQueue.enqueue).toHaveBeenCalledTimes(1);
+    expect(mockedQueue.enqueue).toHaveBeenCalledWith(
+      'task_event',
+      '合并执行 3 个事件（新增 1，删除 1，移动 1）：A、B'
+    );
+
+    // 批次执行后清空，重复的 alarm 不会再次执行
+    await triggerService.handleAlarm(alarmName);
+    expect(mockedQueue.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  test('未设置静默期的任务立即执行；重启后为等待中的批次补齐 alarm', async () => {
+    const immediateTask = { ...task, id: 'task_now', trigger: { ...task.trigger, debounceMinutes: 0 } } as Task;
+    mockedTaskService.getTasksByStatus.mockResolvedValue({ success: true, data: [task, immediateTask] });
+
+    await triggerService.handleEventTrigger(EventType.BOOKMARK_CHANGED, { id: '1', changeInfo: { title: 'C' } });
+
+    expect(mockedQueue.enqueue).toHaveBeenCalledWith('task_now');
+    expect(mockedQueue.enqueue).toHaveBeenCalledTimes(1);
+
+    await browser.alarms.clearAll();
+    await triggerService.syncDeferredEvents();
+    expect(await browser.alarms.get(alarmName)).toBeDefined();
+  });
+
+  test('条件表达式按变更种类与所在文件夹（含子文件夹）过滤事件', async () => {
+    const conditionalTask = {
+      ...task,
+      id: 'task_conditional',
+      trigger: {
+        ...task.trigger,
+        debounceMinutes: 0,
+        condition: {
+          kind: 'group',
+          logic: 'and',
+          children: [
+            { kind: 'rule', field: 'changeKind', operator: 'equals', value: 'removed' },
+            { kind: 'rule', field: 'folder', operator: 'inside', value: '3' }
+          ]
+        }
+      }
+    } as Task;
+    mockedTaskService.getTasksByStatus.mockResolvedValue({ success: true, data: [conditionalTask] });
+    const parents: Record<string, string> = { '5': '3', '3': '1' };
+    const getSpy = jest.spyOn(browser.bookmarks, 'get')
+      .mockImplementation(async (id: any) => [{ id, title: '', parentId: parents[id] }] as any);
+
+    try {
+      await triggerService.handleEventTrigger(EventType.BOOKMARK_CHANGED, { id: '9', removeInfo: { parentId: '1', node: { title: 'A' } } });
+      await triggerService.handleEventTrigger(EventType.BOOKMARK_CHANGED, { id: '8', bookmark: { id: '8', parentId: '5', title: 'B' } });
+      expect(mockedQueue.enqueue).not.toHaveBeenCalled();
+
+      await triggerService.handleEventTrigger(EventType.BOOKMARK_CHANGED, { id: '7', removeInfo: { parentId: '5', node: { title: 'C' } } });
+      expect(mockedQueue.enqueue).toHaveBeenCalledWith('task_conditional');
+    } finally {
+      getSpy.mockRestore();
+    }
+  });
+});
+
+describe('trigger-service 任务完成触发', () => {
+  const mockedTaskService = taskService as jest.Mocked<typeof taskService>;
+  const mockedQueue = taskQueueService as jest.Mocked<typeof taskQueueService>;
+
+  const createTask = (id: string, trigger: Task['trigger']): Task => ({
+    id,
+    name: id,
+    status: TaskStatus.ENABLED,
+    createdAt: 0,
+    updatedAt: 0,
+    trigger,
+    action: createBackupAction('backup'),
+    history: { executions: [] },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedTaskService.getTasksByStatus.mockResolvedValue({
+      success: true,
+      data: [
+        createTask('on_success', createTaskCompletedTrigger('upstream', 'success')),
+        createTask('on_failure', createTaskCompletedTrigger('upstream', 'failure')),
+        createTask('on_any', createTaskCompletedTrigger('upstream', 'any')),
+        createTask('other', createTaskCompletedTrigger('another', 'any')),
+      ],
+    });
+    mockedTaskService.getTaskById.mockResolvedValue({ success: true, data: { name: '夜间整理' } });
+    mockedTaskService.updateTask.mockResolvedValue({ success: true } as any);
+    mockedQueue.enqueue.mockResolvedValue(undefined);
+  });
+
+  test('按上游任务的执行结果触发下游任务', async () => {
+    await triggerService.handleTaskCompleted('upstream', { success: false, timestamp: Date.now() });
+
+    expect(mockedQueue.enqueue.mock.calls).toEqual([
+      ['on_failure', '上游任务“夜间整理”执行失败后触发'],
+      ['on_any', '上游任务“夜间整理”执行失败后触发'],
+    ]);
+    const savedTrigger = (mockedTaskService.updateTask.mock.calls[0][1] as Partial<Task>).trigger as any;
+    expect(savedTrigger.lastTriggered).toBeDefined();
+  });
+});
@@ -1,13 +1,78 @@
 /**
  * 触发器服务
- * 管理基于事件的触发器
+ * 管理基于事件的触发器与定时触发器
  */
 
-import { Task, TaskStatus, TriggerType, EventType } from '../types/task';
+import { browser } from 'wxt/browser';
+import {
+  Task,
+  TaskStatus,
+  TriggerType,
+  EventType,
+  EventTrigger,
+  ScheduleTrigger,
+  BookmarkChangeKind,
+  TaskExecutionResult
+} from '../types/task';
 import taskService from './task-service';
+import taskQueueService from './task-queue-service';
+import storageService from '../utils/storage-service';
+import bookmarkService from '../utils/bookmark-service';
+import {
+  TriggerEventContext,
+  buildTriggerEventContext,
+  conditionUsesAncestors,
+  evaluateTriggerCondition,
+  getEffectiveCondition
+} from '../utils/trigger-conditions';
+import { computeNextRunTime } from '../utils/schedule-utils';
+import { matchesTaskCompletion } from '../utils/task-dependencies';
+
+// 定时任务 alarm 名称前缀，alarm 名称为 前缀 + 任务ID
+export const SCHEDULE_ALARM_PREFIX = 'marksvault_schedule_';
+
+// 事件静默期 alarm 名称前缀，alarm 名称为 前缀 + 任务ID
+export const EVENT_DEBOUNCE_ALARM_PREFIX = 'marksvault_debounce_';
+
+// 等待合并执行的事件批次，保存在本地存储中，Service Worker 重启后仍可继续执行
+export const PENDING_EVENTS_STORAGE_KEY = 'event_trigger_pending';
+
+// 每个批次最多记录的变更标题数量，超出部分只计数
+const MAX_PENDING_EVENT_TITLES = 10;
+
+// alarm 到期时任务仍在执行，延后重试的时间
+const DEBOUNCE_BUSY_RETRY_MS = 60 * 1000;
+
+// alarm 可能略早于计划时间触发，在该容差内视为已到期
+const SCHEDULE_DUE_TOLERANCE_MS = 1000;
+
+// 事件的变更种类，非书签事件为 other
+type EventChangeKind = BookmarkChangeKind | 'other';
+
+const CHANGE_KIND_LABELS: Record<EventChangeKind, string> = {
+  created: '新增',
+  removed: '删除',
+  changed: '修改',
+  moved: '移动',
+  other: '其他'
+};
+
+// 一个任务在静默期内累积的事件
+interface PendingEventBatch {
+  count: number; // 事件总数
+  firstEventAt: number; // 第一个事件的时间
+  runAt: number; // 计划执行时间（最后一个事件时间 + 静默期）
+  kinds: Partial<Record<EventChangeKind, number>>; // 各类变更的数量
+  titles: string[]; // 发生变化的书签标题（最多 MAX_PENDING_EVENT_TITLES 个）
+  moreTitles?: boolean; // 是否有超出数量限制而未记录的标题
+}
 
 class TriggerService {
   private static instance: TriggerService;
+  // 串行化定时任务同步，避免 alarm 与存储变更同时计算导致重复执行
+  private scheduleSyncChain: Promise<unknown> = Promise.resolve();
+  // 串行化事件批次的读写，书签批量变更时多个事件回调会同时到达
+  private pendingEventsChain: Promise<unknown> = Promise.resolve();
 
   /**
    * 私有构造函数，防止直接实例化
@@ -35,6 +100,16 @@ class TriggerService {
       
       // 尝试恢复失败的任务
       await this.tryRecoverFailedTasks();
+
+      // 同步定时任务：补齐 alarm，并补跑浏览器关闭期间错过的执行
+      // 补跑不阻塞初始化，避免长时间任务卡住其他事件
+      const missedTaskIds = await this.syncScheduledTasks();
+      if (missedTaskIds.length > 0) {
+        void this.executeScheduledTasks(missedTaskIds);
+      }
+
+      // 补齐等待合并执行的事件批次的 alarm（浏览器重启后 alarm 可能被清除）
+      await this.syncDeferredEvents();
       
       console.log('触发器服务初始化完成');
     } catch (error) {
@@ -118,25 +193,45 @@ class TriggerService {
       }
 
       const enabledTasks = result.data as Task[];
+
+      // 同一事件的上下文只构建一次，需要上级文件夹时再补充查询
+      const contexts = new Map<boolean, Promise<TriggerEventContext>>();
+      const getContext = (withAncestors: boolean) => {
+        if (!contexts.has(withAncestors)) {
+          contexts.set(withAncestors, this.buildEventContext(eventData, withAncestors));
+        }
+        return contexts.get(withAncestors) as Promise<TriggerEventContext>;
+      };
       
       // 筛选与事件类型匹配的事件触发器任务
-      const matchingTasks = enabledTasks.filter(task => {
-        return task.trigger.type === TriggerType.EVENT &&
-               task.trigger.event === eventType &&
-               this.matchesConditions(task, eventData);
-      });
+      const matchingTasks: Task[] = [];
+      for (const task of enabledTasks) {
+        if (task.trigger.type === TriggerType.EVENT &&
+            task.trigger.event === eventType &&
+            await this.matchesConditions(task, eventData, getContext)) {
+          matchingTasks.push(task);
+        }
+      }
       
       if (matchingTasks.length === 0) {
         return;
       }
       
       console.log(`找到 ${matchingTasks.length} 个匹配事件 ${eventType} 的任务, 准备执行...`);
-      
-      // 导入任务执行器
-      const taskExecutor = (await import('./task-executor')).default;
+
+      // 设置了静默期的任务先记录事件，在最后一个事件之后统一执行一次
+      const deferredTasks = matchingTasks.filter(task => this.getDebounceMinutes(task) > 0);
+      if (deferredTasks.length > 0) {
+        await this.deferEventTasks(deferredTasks, eventData);
+      }
+
+      const immediateTasks = matchingTasks.filter(task => this.getDebounceMinutes(task) <= 0);
+      if (immediateTasks.length === 0) {
+        return;
+      }
       
       // 执行匹配的任务
-      for (const task of matchingTasks) {
+      for (const task of immediateTasks) {
         console.log(`开始执行事件触发任务: ${task.name} (${task.id})`);
         
         // 更新上次触发时间
@@ -148,13 +243,7 @@ class TriggerService {
         }
         
         try {
-          const result = await taskExecutor.executeTask(task.id);
-          
-          if (result.success) {
-            console.log(`事件触发任务 ${task.name} (${task.id}) 执行成功: ${result.details || '无详细信息'}`);
-          } else {
-            console.error(`事件触发任务 ${task.name} (${task.id}) 执行失败: ${result.error || '未知错误'}`);
-          }
+          await taskQueueService.enqueue(task.id);
         } catch (error) {
           console.error(`执行事件触发任务 ${task.name} (${task.id}) 时出错:`, error);
         }
@@ -165,86 +254,434 @@ class TriggerService {
   }
 
   /**
-   * 检查任务条件是否与事件数据匹配
-   * @param task 任务对象
-   * @param eventData 事件数据
-   * @returns 是否匹配
+   * 处理任务完成：执行以该任务为上游、且执行结果满足触发条件的已启用任务
+   * 由 TaskExecutor 在记录执行历史后调用；依赖循环在保存任务时已被拒绝
+   * @param taskId 已完成的任务ID
+   * @param result 执行结果
    */
-  private matchesConditions(task: Task, eventData?: any): boolean {
-    // 如果没有事件数据或没有条件，则视为匹配
-    if (!eventData || !task.trigger.type || task.trigger.type !== TriggerType.EVENT) {
-      return true;
+  public async handleTaskCompleted(taskId: string, result: TaskExecutionResult): Promise<void> {
+    try {
+      const tasksResult = await taskService.getTasksByStatus(TaskStatus.ENABLED);
+      if (!tasksResult.success) {
+        console.error('获取已启用任务失败:', tasksResult.error);
+        return;
+      }
+
+      const downstreamTasks = (tasksResult.data as Task[]).filter(task =>
+        task.trigger.type === TriggerType.TASK_COMPLETED &&
+        task.trigger.upstreamTaskId === taskId &&
+        matchesTaskCompletion(task.trigger.on, result)
+      );
+      if (downstreamTasks.length === 0) {
+        return;
+      }
+
+      const upstreamResult = await taskService.getTaskById(taskId);
+      const upstreamName = upstreamResult.success ? (upstreamResult.data as Task).name : taskId;
+      const summary = `上游任务“${upstreamName}”执行${result.success ? '成功' : '失败'}后触发`;
+
+      for (const task of downstreamTasks) {
+        console.log(`开始执行下游任务: ${task.name} (${task.id})，上游任务: ${upstreamName}`);
+
+        if (task.trigger.type === TriggerType.TASK_COMPLETED) {
+          task.trigger.lastTriggered = Date.now();
+          await taskService.updateTask(task.id, {
+            trigger: task.trigger
+          });
+        }
+
+        try {
+          await taskQueueService.enqueue(task.id, summary);
+        } catch (error) {
+          console.error(`执行下游任务 ${task.name} (${task.id}) 时出错:`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`处理任务完成触发失败: ${taskId}`, error);
     }
-    
-    const trigger = task.trigger;
-    const conditions = trigger.conditions;
-    
-    // 如果没有设置条件，则视为匹配
-    if (!conditions || Object.keys(conditions).length === 0) {
+  }
+
+  /**
+   * 获取定时任务对应的 alarm 名称
+   * @param taskId 任务ID
+   * @returns alarm 名称
+   */
+  public getScheduleAlarmName(taskId: string): string {
+    return `${SCHEDULE_ALARM_PREFIX}${taskId}`;
+  }
+
+  /**
+   * 获取事件静默期对应的 alarm 名称
+   * @param taskId 任务ID
+   * @returns alarm 名称
+   */
+  public getDebounceAlarmName(taskId: string): string {
+    return `${EVENT_DEBOUNCE_ALARM_PREFIX}${taskId}`;
+  }
+
+  /**
+   * 处理 alarm 触发
+   * @param alarmName alarm 名称
+   * @returns 是否为定时任务或事件静默期 alarm
+   */
+  public async handleAlarm(alarmName: string): Promise<boolean> {
+    if (alarmName.startsWith(EVENT_DEBOUNCE_ALARM_PREFIX)) {
+      await this.executeDeferredEvents(alarmName.slice(EVENT_DEBOUNCE_ALARM_PREFIX.length));
       return true;
     }
-    
-    console.log(`检查任务 ${task.id} 的条件是否匹配`, conditions);
-    
-    // 根据不同事件类型检查不同条件
-    switch (trigger.event) {
-      // 书签变更事件（包括创建、删除、修改、移动）
-      case EventType.BOOKMARK_CHANGED:
-        return this.matchBookmarkConditions(conditions, eventData);
-      
-      // 浏览器和扩展事件
-      case EventType.BROWSER_STARTUP:
-      case EventType.EXTENSION_CLICKED:
-        // 这些事件通常不需要特定条件匹配
-        return true;
-      
-      default:
-        // 未知事件类型默认匹配
-        return true;
+
+    if (!alarmName.startsWith(SCHEDULE_ALARM_PREFIX)) {
+      return false;
     }
+
+    const taskId = alarmName.slice(SCHEDULE_ALARM_PREFIX.length);
+    const dueTaskIds = await this.syncScheduledTasks(taskId);
+    await this.executeScheduledTasks(dueTaskIds);
+    return true;
   }
-  
+
   /**
-   * 检查书签条件是否匹配
-   * @param conditions 条件配置
-   * @param bookmarkData 书签数据
-   * @returns 是否匹配
+   * 同步所有定时任务的下次执行时间与 alarm
+   * - 缺少 nextRunAt 的任务（新建或刚修改计划）计算并持久化下次执行时间
+   * - 已到期的任务推进到下一次执行时间，并返回需要执行的任务ID
+   * - 清理已删除、已禁用或不再是定时触发的任务的 alarm
+   * @param alarmTaskId 本次由 alarm 触发的任务ID；其余到期任务视为“错过的执行”
+   * @returns 需要立即执行的任务ID列表
    */
-  private matchBookmarkConditions(conditions: Record<string, any>, bookmarkData: any): boolean {
-    // 如果没有书签数据，则视为不匹配
-    if (!bookmarkData || (!bookmarkData.bookmark && !bookmarkData.removeInfo)) {
-      return false;
+  public syncScheduledTasks(alarmTaskId?: string): Promise<string[]> {
+    const run = this.scheduleSyncChain.then(() => this.doSyncScheduledTasks(alarmTaskId));
+    // 同步失败不应阻塞后续同步
+    this.scheduleSyncChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async doSyncScheduledTasks(alarmTaskId?: string): Promise<string[]> {
+    const dueTaskIds: string[] = [];
+
+    try {
+      const result = await taskService.getTasksByStatus();
+      if (!result.success) {
+        console.error('获取任务列表失败，无法同步定时任务:', result.error);
+        return dueTaskIds;
+      }
+
+      const tasks = result.data as Task[];
+      const alarms = await browser.alarms.getAll();
+      const alarmsByName = new Map(alarms.map(alarm => [alarm.name, alarm]));
+      const activeAlarmNames = new Set<string>();
+      const now = Date.now();
+
+      for (const task of tasks) {
+        if (task.trigger.type !== TriggerType.SCHEDULE) {
+          continue;
+        }
+
+        const trigger = task.trigger;
+        const alarmName = this.getScheduleAlarmName(task.id);
+
+        // 已禁用的任务不保留计划，重新启用时从当前时间重新计算，避免“启用即补跑”
+        if (!trigger.enabled || task.status === TaskStatus.DISABLED) {
+          if (trigger.nextRunAt !== undefined) {
+            await this.saveScheduleTrigger(task.id, { ...trigger, nextRunAt: undefined });
+          }
+          continue;
+        }
+
+        let nextRunAt = trigger.nextRunAt;
+        let lastTriggered = trigger.lastTriggered;
+
+        if (nextRunAt === undefined) {
+          nextRunAt = computeNextRunTime(trigger, now) ?? undefined;
+        } else if (nextRunAt <= now + SCHEDULE_DUE_TOLERANCE_MS) {
+          const isAlarmRun = task.id === alarmTaskId;
+          const shouldRun = task.status === TaskStatus.ENABLED &&
+            (isAlarmRun || trigger.catchUpMissed !== false);
+
+          if (shouldRun) {
+            dueTaskIds.push(task.id);
+            lastTriggered = now;
+            console.log(isAlarmRun
+              ? `定时任务 ${task.name} (${task.id}) 到期`
+              : `定时任务 ${task.name} (${task.id}) 错过了 ${new Date(nextRunAt).toLocaleString()} 的执行，准备补跑`);
+          } else {
+            console.log(`定时任务 ${task.name} (${task.id}) 到期但跳过执行，当前状态: ${task.status}`);
+          }
+
+          // 多次错过只补跑一次，下一次执行时间从当前时间起算
+          nextRunAt = computeNextRunTime(trigger, now) ?? undefined;
+        }
+
+        if (nextRunAt !== trigger.nextRunAt || lastTriggered !== trigger.lastTriggered) {
+          await this.saveScheduleTrigger(task.id, { ...trigger, nextRunAt, lastTriggered });
+        }
+
+        if (nextRunAt === undefined) {
+          console.warn(`定时任务 ${task.id} 的计划无效或没有可用的执行时间`);
+          continue;
+        }
+
+        activeAlarmNames.add(alarmName);
+        if (alarmsByName.get(alarmName)?.scheduledTime !== nextRunAt) {
+          await browser.alarms.create(alarmName, { when: nextRunAt });
+        }
+      }
+
+      // 清理失效的 alarm
+      for (const alarm of alarms) {
+        if (alarm.name.startsWith(SCHEDULE_ALARM_PREFIX) && !activeAlarmNames.has(alarm.name)) {
+          await browser.alarms.clear(alarm.name);
+        }
+      }
+    } catch (error) {
+      console.error('同步定时任务失败:', error);
+    }
+
+    return dueTaskIds;
+  }
+
+  /**
+   * 持久化定时触发器（下次执行时间 / 上次触发时间）
+   */
+  private async saveScheduleTrigger(taskId: string, trigger: ScheduleTrigger): Promise<void> {
+    const result = await taskService.updateTask(taskId, { trigger });
+    if (!result.success) {
+      console.error(`保存定时任务 ${taskId} 的计划失败:`, result.error);
+    }
+  }
+
+  /**
+   * 依次执行到期的定时任务
+   * @param taskIds 任务ID列表
+   */
+  private async executeScheduledTasks(taskIds: string[]): Promise<void> {
+    if (taskIds.length === 0) {
+      return;
+    }
+
+    for (const taskId of taskIds) {
+      try {
+        console.log(`开始执行定时任务: ${taskId}`);
+        await taskQueueService.enqueue(taskId);
+      } catch (error) {
+        console.error(`执行定时任务 ${taskId} 时出错:`, error);
+      }
+    }
+  }
+
+  /**
+   * 获取事件触发任务的静默期（分钟），非事件触发或未设置时为 0
+   */
+  private getDebounceMinutes(task: Task): number {
+    return task.trigger.type === TriggerType.EVENT ? task.trigger.debounceMinutes || 0 : 0;
+  }
+
+  /**
+   * 串行执行对事件批次的读写
+   */
+  private withPendingEvents<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.pendingEventsChain.then(operation);
+    // 失败不应阻塞后续操作
+    this.pendingEventsChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async getPendingEventBatches(): Promise<Record<string, PendingEventBatch>> {
+    const result = await storageService.getStorageData(PENDING_EVENTS_STORAGE_KEY);
+    return result.success && result.data ? result.data : {};
+  }
+
+  /**
+   * 从事件数据中识别变更种类与书签标题
+   */
+  private describeEvent(eventData?: any): { kind: EventChangeKind; title?: string } {
+    if (eventData?.bookmark) {
+      return { kind: 'created', title: eventData.bookmark.title };
+    }
+    if (eventData?.removeInfo) {
+      return { kind: 'removed', title: eventData.removeInfo.node?.title };
+    }
+    if (eventData?.changeInfo) {
+      return { kind: 'changed', title: eventData.changeInfo.title };
     }
-    
-    // 书签删除事件特殊处理
-    if (bookmarkData.removeInfo) {
-      // 对于删除事件，可能只能检查父文件夹ID
-      if (conditions.parentFolder && bookmarkData.removeInfo.parentId) {
-        return bookmarkData.removeInfo.parentId === conditions.parentFolder;
+    if (eventData?.moveInfo) {
+      return { kind: 'moved' };
+    }
+    return { kind: 'other' };
+  }
+
+  /**
+   * 记录事件到各任务的批次中，并把执行时间推迟到静默期结束
+   * 重新创建同名 alarm 会替换原有 alarm，因此只有最后一个事件之后的静默期会生效
+   */
+  private deferEventTasks(tasks: Task[], eventData?: any): Promise<void> {
+    return this.withPendingEvents(async () => {
+      const batches = await this.getPendingEventBatches();
+      const { kind, title } = this.describeEvent(eventData);
+      const now = Date.now();
+
+      for (const task of tasks) {
+        const batch: PendingEventBatch = batches[task.id] || { count: 0, firstEventAt: now, runAt: now, kinds: {}, titles: [] };
+        batch.count++;
+        batch.kinds[kind] = (batch.kinds[kind] || 0) + 1;
+        if (title && !batch.titles.includes(title)) {
+          if (batch.titles.length < MAX_PENDING_EVENT_TITLES) {
+            batch.titles.push(title);
+          } else {
+            batch.moreTitles = true;
+          }
+        }
+        batch.runAt = now + this.getDebounceMinutes(task) * 60 * 1000;
+        batches[task.id] = batch;
+
+        await browser.alarms.create(this.getDebounceAlarmName(task.id), { when: batch.runAt });
+        console.log(`任务 ${task.name} (${task.id}) 将在 ${new Date(batch.runAt).toLocaleString()} 合并执行，已累积 ${batch.count} 个事件`);
       }
-      // 如果没有指定父文件夹条件，则视为匹配
+
+      await storageService.setStorageData(PENDING_EVENTS_STORAGE_KEY, batches);
+    });
+  }
+
+  /**
+   * 生成合并执行的说明，列出静默期内发生的变更
+   */
+  private summarizeEventBatch(batch: PendingEventBatch): string {
+    const kinds = (Object.keys(CHANGE_KIND_LABELS) as EventChangeKind[])
+      .filter(kind => batch.kinds[kind])
+      .map(kind => `${CHANGE_KIND_LABELS[kind]} ${batch.kinds[kind]}`);
+    const titles = batch.titles.length > 0
+      ? `：${batch.titles.join('、')}${batch.moreTitles ? ' 等' : ''}`
+      : '';
+    return `合并执行 ${batch.count} 个事件${kinds.length > 0 ? `（${kinds.join('，')}）` : ''}${titles}`;
+  }
+
+  /**
+   * 静默期结束后执行任务，一个批次只执行一次
+   * @param taskId 任务ID
+   */
+  private async executeDeferredEvents(taskId: string): Promise<void> {
+    const batch = await this.withPendingEvents(async () => {
+      const batches = await this.getPendingEventBatches();
+      const pending = batches[taskId];
+      if (!pending) {
+        return null;
+      }
+
+      // 任务仍在执行时保留批次，稍后再试
+      const taskResult = await taskService.getTaskById(taskId);
+      if (taskResult.success && taskResult.data?.status === TaskStatus.RUNNING) {
+        await browser.alarms.create(this.getDebounceAlarmName(taskId), { when: Date.now() + DEBOUNCE_BUSY_RETRY_MS });
+        return null;
+      }
+
+      delete batches[taskId];
+      await storageService.setStorageData(PENDING_EVENTS_STORAGE_KEY, batches);
+
+      const task = taskResult.success ? taskResult.data as Task : null;
+      if (!task || task.status !== TaskStatus.ENABLED || task.trigger.type !== TriggerType.EVENT) {
+        console.log(`任务 ${taskId} 已删除、禁用或不再是事件触发，丢弃 ${pending.count} 个待执行事件`);
+        return null;
+      }
+
+      await taskService.updateTask(taskId, {
+        trigger: { ...task.trigger, lastTriggered: Date.now() } as EventTrigger
+      });
+      return pending;
+    });
+
+    if (!batch) {
+      return;
+    }
+
+    const summary = this.summarizeEventBatch(batch);
+    console.log(`静默期结束，开始执行事件触发任务 ${taskId}: ${summary}`);
+
+    try {
+      await taskQueueService.enqueue(taskId, summary);
+    } catch (error) {
+      console.error(`执行事件触发任务 ${taskId} 时出错:`, error);
+    }
+  }
+
+  /**
+   * 为等待执行的事件批次补齐 alarm，已过计划时间的批次立即到期
+   */
+  public syncDeferredEvents(): Promise<void> {
+    return this.withPendingEvents(async () => {
+      const batches = await this.getPendingEventBatches();
+      const now = Date.now();
+
+      for (const [taskId, batch] of Object.entries(batches)) {
+        const alarmName = this.getDebounceAlarmName(taskId);
+        if (!(await browser.alarms.get(alarmName))) {
+          await browser.alarms.create(alarmName, { when: Math.max(batch.runAt, now) });
+        }
+      }
+    });
+  }
+
+  /**
+   * 从书签事件数据中提取条件计算所需的信息
+   * 修改与移动事件不包含书签内容，需要查询书签节点；删除事件使用事件中的节点快照
+   * @param eventData 书签事件数据
+   * @param withAncestors 是否查询上级文件夹（只有“位于文件夹（含子文件夹）”规则需要）
+   */
+  private async buildEventContext(eventData: any, withAncestors: boolean): Promise<TriggerEventContext> {
+    const { kind } = this.describeEvent(eventData);
+    let title: string | undefined;
+    let url: string | undefined;
+    let parentIds: string[] = [];
+
+    if (eventData.bookmark) {
+      ({ title, url } = eventData.bookmark);
+      parentIds = [eventData.bookmark.parentId];
+    } else if (eventData.removeInfo) {
+      title = eventData.removeInfo.node?.title;
+      url = eventData.removeInfo.node?.url;
+      parentIds = [eventData.removeInfo.parentId];
+    } else {
+      const nodeResult = await bookmarkService.getBookmarkById(eventData.id);
+      const node = nodeResult.success ? nodeResult.data : null;
+      title = eventData.changeInfo?.title ?? node?.title;
+      url = eventData.changeInfo?.url ?? node?.url;
+      parentIds = eventData.moveInfo
+        ? [eventData.moveInfo.parentId, eventData.moveInfo.oldParentId]
+        : [node?.parentId];
+    }
+
+    return buildTriggerEventContext(
+      { kind: kind === 'other' ? 'changed' : kind, title, url, parentIds: parentIds.filter(Boolean) },
+      withAncestors
+    );
+  }
+
+  /**
+   * 检查任务条件是否与事件数据匹配
+   * 只有书签变更事件支持条件，旧版 url/title/parentFolder 条件会转换为条件表达式
+   * @param task 任务对象
+   * @param eventData 事件数据
+   * @param getContext 获取事件上下文（同一事件的多个任务共用）
+   * @returns 是否匹配
+   */
+  private async matchesConditions(
+    task: Task,
+    eventData: any,
+    getContext: (withAncestors: boolean) => Promise<TriggerEventContext>
+  ): Promise<boolean> {
+    if (!eventData || task.trigger.type !== TriggerType.EVENT || task.trigger.event !== EventType.BOOKMARK_CHANGED) {
+      return true;
+    }
+
+    const condition = getEffectiveCondition(task.trigger);
+    if (!condition) {
       return true;
     }
-    
-    const bookmark = bookmarkData.bookmark;
-    let isMatch = true;
-    
-    // URL匹配
-    if (conditions.url && bookmark.url) {
-      isMatch = isMatch && bookmark.url.includes(conditions.url);
-    }
-    
-    // 标题匹配
-    if (conditions.title && bookmark.title) {
-      isMatch = isMatch && bookmark.title.includes(conditions.title);
-    }
-    
-    // 父文件夹匹配
-    if (conditions.parentFolder && bookmark.parentId) {
-      isMatch = isMatch && bookmark.parentId === conditions.parentFolder;
-    }
-    
-    return isMatch;
+
+    try {
+      return evaluateTriggerCondition(condition, await getContext(conditionUsesAncestors(condition)));
+    } catch (error) {
+      console.error(`计算任务 ${task.id} 的触发条件失败:`, error);
+      return false;
+    }
   }
 }
 
@@ -0,0 +1,238 @@
+import { WebDAVCredentials } from '../utils/storage-service';
+import { fromBase64, toBase64 } from '../utils/backup-crypto';
+
+export class WebDAVError extends Error {
+  public readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'WebDAVError';
+    this.status = status;
+  }
+}
+
+// PROPFIND 返回的资源信息
+export interface WebDAVEntry {
+  name: string; // 资源名称（已解码）
+  size: number; // 文件大小(字节)，文件夹为 0
+  isCollection: boolean; // 是否为文件夹
+  etag?: string;
+}
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:resourcetype/>
+    <d:getcontentlength/>
+    <d:getetag/>
+  </d:prop>
+</d:propfind>`;
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// 读取 XML 元素内容，兼容任意命名空间前缀（d:、D: 或无前缀）
+const readElement = (xml: string, name: string): string | undefined => {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`));
+  return match ? decodeXmlEntities(match[1].trim()) : undefined;
+};
+
+const getTextContentType = (path: string): string => {
+  if (path.endsWith('.json')) return 'application/json; charset=utf-8';
+  if (path.endsWith('.html')) return 'text/html; charset=utf-8';
+  return 'text/plain; charset=utf-8';
+};
+
+/**
+ * 解析 PROPFIND 返回的 multistatus 响应
+ * Service Worker 中没有 DOMParser，这里只按元素名提取所需的少量属性
+ */
+export const parseMultistatus = (xml: string): Array<WebDAVEntry & { href: string }> => {
+  const responses = xml.match(/<(?:[\w-]+:)?response(?:\s[^>]*)?>[\s\S]*?<\/(?:[\w-]+:)?response>/g) || [];
+
+  return responses.map(response => {
+    const href = readElement(response, 'href') || '';
+    const segments = href.replace(/\/+$/, '').split('/');
+    const resourceType = readElement(response, 'resourcetype') || '';
+
+    return {
+      href,
+      name: decodeURIComponent(segments[segments.length - 1] || ''),
+      size: Number(readElement(response, 'getcontentlength')) || 0,
+      isCollection: /<(?:[\w-]+:)?collection\b/.test(resourceType),
+      etag: readElement(response, 'getetag')
+    };
+  });
+};
+
+/**
+ * WebDAV 服务
+ * 路径均相对于连接配置中的文件夹地址，适用于 Nextcloud、ownCloud 与常见 NAS
+ */
+export class WebDAVService {
+  private static instance: WebDAVService;
+
+  private constructor() {}
+
+  static getInstance(): WebDAVService {
+    if (!WebDAVService.instance) {
+      WebDAVService.instance = new WebDAVService();
+    }
+    return WebDAVService.instance;
+  }
+
+  /**
+   * 获取资源的完整地址
+   * @param credentials WebDAV连接配置
+   * @param path 相对路径，文件夹以 / 结尾
+   */
+  getUrl(credentials: WebDAVCredentials, path: string = ''): string {
+    const base = credentials.url.replace(/\/+$/, '');
+    const encodedPath = path
+      .split('/')
+      .map(segment => encodeURIComponent(segment))
+      .join('/');
+    return encodedPath ? `${base}/${encodedPath}` : `${base}/`;
+  }
+
+  /**
+   * 获取认证头信息
+   */
+  private getAuthHeaders(credentials: WebDAVCredentials): Headers {
+    const headers = new Headers();
+    const token = toBase64(new TextEncoder().encode(`${credentials.username}:${credentials.password}`));
+    headers.append('Authorization', `Basic ${token}`);
+    return headers;
+  }
+
+  /**
+   * 发送 WebDAV 请求，非预期状态码时抛出 WebDAVError
+   */
+  private async request(
+    credentials: WebDAVCredentials,
+    method: string,
+    path: string,
+    options: { body?: BodyInit; headers?: Record<string, string>; allowStatus?: number[] } = {}
+  ): Promise<Response> {
+    const headers = this.getAuthHeaders(credentials);
+    for (const [key, value] of Object.entries(options.headers || {})) {
+      headers.append(key, value);
+    }
+
+    const response = await fetch(this.getUrl(credentials, path), {
+      method,
+      headers,
+      body: options.body
+    });
+
+    if (!response.ok && !(options.allowStatus || []).includes(response.status)) {
+      throw new WebDAVError(response.status, `WebDAV error: ${method} ${path || '/'} - ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+
+  /**
+   * 验证连接配置：地址可访问、账号有效且指向一个文件夹
+   */
+  async validateCredentials(credentials: WebDAVCredentials): Promise<void> {
+    try {
+      const response = await this.request(credentials, 'PROPFIND', '', {
+        body: PROPFIND_BODY,
+        headers: { Depth: '0', 'Content-Type': 'application/xml; charset=utf-8' }
+      });
+      const [entry] = parseMultistatus(await response.text());
+      if (entry && !entry.isCollection) {
+        throw new Error('WebDAV地址指向的不是文件夹');
+      }
+    } catch (error) {
+      console.error('WebDAV connection failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 检查资源是否存在
+   */
+  async exists(credentials: WebDAVCredentials, path: string): Promise<boolean> {
+    const response = await this.request(credentials, 'PROPFIND', `${path}/`, {
+      body: PROPFIND_BODY,
+      headers: { Depth: '0', 'Content-Type': 'application/xml; charset=utf-8' },
+      allowStatus: [404]
+    });
+    return response.status !== 404;
+  }
+
+  /**
+   * 列出文件夹中的直接子资源（不含文件夹本身）
+   */
+  async listFolder(credentials: WebDAVCredentials, path: string): Promise<WebDAVEntry[]> {
+    const response = await this.request(credentials, 'PROPFIND', `${path}/`, {
+      body: PROPFIND_BODY,
+      headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' }
+    });
+
+    // 第一个响应是文件夹本身
+    const folderPath = new URL(this.getUrl(credentials, `${path}/`)).pathname.replace(/\/+$/, '');
+    return parseMultistatus(await response.text())
+      .filter(entry => {
+        const entryPath = (entry.href.startsWith('http') ? new URL(entry.href).pathname : entry.href).replace(/\/+$/, '');
+        return decodeURIComponent(entryPath) !== decodeURIComponent(folderPath);
+      })
+      .map(entry => ({ name: entry.name, size: entry.size, isCollection: entry.isCollection, etag: entry.etag }));
+  }
+
+  /**
+   * 创建文件夹，文件夹已存在时不报错
+   */
+  async createFolder(credentials: WebDAVCredentials, path: string): Promise<void> {
+    // 405 表示资源已存在
+    await this.request(credentials, 'MKCOL', `${path}/`, { allowStatus: [405] });
+  }
+
+  /**
+   * 读取文件内容
+   * @param encoding utf-8 返回文本，base64 返回 Base64 编码的二进制内容
+   */
+  async getFile(
+    credentials: WebDAVCredentials,
+    path: string,
+    encoding: 'utf-8' | 'base64' = 'utf-8'
+  ): Promise<string> {
+    const response = await this.request(credentials, 'GET', path);
+    if (encoding === 'base64') {
+      return toBase64(new Uint8Array(await response.arrayBuffer()));
+    }
+    return response.text();
+  }
+
+  /**
+   * 写入文件（不存在时创建，存在时覆盖），上级文件夹必须已存在
+   * @param encoding 内容编码，base64 时按二进制写入
+   */
+  async putFile(
+    credentials: WebDAVCredentials,
+    path: string,
+    content: string,
+    encoding: 'utf-8' | 'base64' = 'utf-8'
+  ): Promise<void> {
+    await this.request(credentials, 'PUT', path, {
+      body: encoding === 'base64' ? fromBase64(content) : content,
+      headers: { 'Content-Type': encoding === 'base64' ? 'application/octet-stream' : getTextContentType(path) }
+    });
+  }
+
+  /**
+   * 删除文件，文件不存在时不报错
+   */
+  async deleteFile(credentials: WebDAVCredentials, path: string): Promise<void> {
+    await this.request(credentials, 'DELETE', path, { allowStatus: [404] });
+  }
+}
+
+const webdavService = WebDAVService.getInstance();
+export default webdavService;
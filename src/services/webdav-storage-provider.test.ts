@@ -0,0 +1,154 @@
+import { WebDAVStorageProvider } from './webdav-storage-provider';
+import webdavService, { parseMultistatus } from './webdav-service';
+
+const BASE_URL = 'https://dav.example.com/remote.php/dav/files/alice';
+const credentials = { url: `${BASE_URL}/`, username: 'alice', password: 'secret' };
+
+/**
+ * 内存中的 WebDAV 服务器，实现 PROPFIND/MKCOL/PUT/GET/DELETE 的基本语义
+ */
+const createWebDAVStandIn = () => {
+  const basePath = new URL(BASE_URL).pathname;
+  const folders = new Set<string>([basePath]);
+  const files = new Map<string, Uint8Array>();
+  const expectedAuth = `Basic ${btoa('alice:secret')}`;
+
+  const parentOf = (path: string) => path.slice(0, path.lastIndexOf('/'));
+  const responseXml = (path: string, isFolder: boolean) => `
+    <d:response>
+      <d:href>${encodeURI(isFolder ? `${path}/` : path)}</d:href>
+      <d:propstat><d:prop>
+        <d:resourcetype>${isFolder ? '<d:collection/>' : ''}</d:resourcetype>
+        ${isFolder ? '' : `<d:getcontentlength>${files.get(path)?.length}</d:getcontentlength>`}
+      </d:prop></d:propstat>
+    </d:response>`;
+
+  const handle = async (url: string, init: RequestInit): Promise<Response> => {
+    const headers = init.headers as Headers;
+    if (headers.get('Authorization') !== expectedAuth) {
+      return new Response(null, { status: 401, statusText: 'Unauthorized' });
+    }
+
+    const path = decodeURIComponent(new URL(url).pathname).replace(/\/+$/, '');
+    const exists = folders.has(path) || files.has(path);
+
+    switch (init.method) {
+      case 'PROPFIND': {
+        if (!exists) return new Response(null, { status: 404 });
+        const children = headers.get('Depth') === '1'
+          ? [
+            ...[...folders].filter(folder => parentOf(folder) === path).map(folder => responseXml(folder, true)),
+            ...[...files.keys()].filter(file => parentOf(file) === path).map(file => responseXml(file, false))
+          ]
+          : [];
+        const body = `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${responseXml(path, folders.has(path))}${children.join('')}</d:multistatus>`;
+        return new Response(body, { status: 207 });
+      }
+      case 'MKCOL':
+        if (exists) return new Response(null, { status: 405 });
+        if (!folders.has(parentOf(path))) return new Response(null, { status: 409 });
+        folders.add(path);
+        return new Response(null, { status: 201 });
+      case 'PUT': {
+        if (!folders.has(parentOf(path))) return new Response(null, { status: 409 });
+        const body = init.body as string | Uint8Array;
+        files.set(path, typeof body === 'string' ? new TextEncoder().encode(body) : body);
+        return new Response(null, { status: 201 });
+      }
+      case 'GET': {
+        const file = files.get(path);
+        return file ? new Response(file, { status: 200 }) : new Response(null, { status: 404 });
+      }
+      case 'DELETE':
+        if (!exists) return new Response(null, { status: 404 });
+        files.delete(path);
+        folders.delete(path);
+        return new Response(null, { status: 204 });
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+
+  return { folders, files, fetch: jest.fn(handle) };
+};
+
+describe('webdav-storage-provider WebDAV 存储位置', () => {
+  let server: ReturnType<typeof createWebDAVStandIn>;
+
+  beforeEach(() => {
+    server = createWebDAVStandIn();
+    (global as any).fetch = server.fetch;
+  });
+
+  test('写入时自动创建容器与 bookmarks/ 文件夹，可列出、读取和删除文件', async () => {
+    const provider = new WebDAVStorageProvider(credentials);
+
+    expect(await provider.containerExists()).toBe(false);
+    await provider.ensureContainer();
+    expect(await provider.containerExists()).toBe(true);
+
+    const content = JSON.stringify({ bookmarks: [] });
+    const result = await provider.writeFile('bookmarks/bookmarks_backup_20250101000000.json', content, '添加书签备份');
+    expect(result.url).toBe(`${BASE_URL}/marksvault-backups/bookmarks/bookmarks_backup_20250101000000.json`);
+
+    const files = await provider.listFiles('bookmarks');
+    expect(files).toEqual([
+      {
+        name: 'bookmarks_backup_20250101000000.json',
+        path: 'bookmarks/bookmarks_backup_20250101000000.json',
+        size: content.length
+      }
+    ]);
+    await expect(provider.readFile(files[0].path)).resolves.toBe(content);
+
+    await provider.deleteFile(files[0]);
+    await expect(provider.listFiles('bookmarks')).resolves.toEqual([]);
+  });
+
+  test('base64 内容按二进制写入并原样读回', async () => {
+    const provider = new WebDAVStorageProvider(credentials);
+    await provider.ensureContainer();
+    const base64 = btoa(String.fromCharCode(0x1f, 0x8b, 0x08, 0x00, 0xff));
+
+    await provider.writeFiles(
+      [{ path: 'settings/settings_backup_20250101000000.json.gz', content: base64, encoding: 'base64' }],
+      '添加配置备份'
+    );
+
+    expect(server.files.get('/remote.php/dav/files/alice/marksvault-backups/settings/settings_backup_20250101000000.json.gz'))
+      .toEqual(new Uint8Array([0x1f, 0x8b, 0x08, 0x00, 0xff]));
+    await expect(provider.readFile('settings/settings_backup_20250101000000.json.gz', 'base64')).resolves.toBe(base64);
+  });
+
+  test('文件夹不存在时列出文件报错，密码错误时连接验证失败', async () => {
+    const provider = new WebDAVStorageProvider(credentials);
+    await expect(provider.listFiles('settings')).rejects.toMatchObject({ name: 'WebDAVError', status: 404 });
+    await expect(webdavService.validateCredentials({ ...credentials, password: 'wrong' }))
+      .rejects.toMatchObject({ status: 401 });
+    await expect(webdavService.validateCredentials(credentials)).resolves.toBeUndefined();
+  });
+
+  test('解析不同命名空间前缀和绝对地址的 PROPFIND 响应', () => {
+    const entries = parseMultistatus(`<?xml version="1.0"?>
+      <D:multistatus xmlns:D="DAV:">
+        <D:response>
+          <D:href>https://nas.local/dav/%E4%B9%A6%E7%AD%BE%20backup.json</D:href>
+          <D:propstat><D:prop>
+            <D:resourcetype/>
+            <D:getcontentlength>42</D:getcontentlength>
+            <D:getetag>"abc"</D:getetag>
+          </D:prop></D:propstat>
+        </D:response>
+      </D:multistatus>`);
+
+    expect(entries).toEqual([
+      {
+        href: 'https://nas.local/dav/%E4%B9%A6%E7%AD%BE%20backup.json',
+        name: '书签 backup.json',
+        size: 42,
+        isCollection: false,
+        etag: '"abc"'
+      }
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { WebDAVCredentials } from '../utils/storage-service';
+import {
+  StorageContentEncoding,
+  StorageFile,
+  StorageFileChange,
+  StorageProvider,
+  StorageWriteResult
+} from '../types/storage-provider';
+import { DEFAULT_BACKUP_REPO } from './github-storage-provider';
+import webdavService from './webdav-service';
+
+/**
+ * WebDAV 存储提供方：以连接地址下的子文件夹作为容器，
+ * 通过 PROPFIND 列出文件、GET/PUT/DELETE 读写文件，写入前用 MKCOL 创建所需的文件夹
+ */
+export class WebDAVStorageProvider implements StorageProvider {
+  readonly type = 'webdav' as const;
+  readonly name = 'WebDAV';
+
+  // 本实例中已确认存在的文件夹，避免每次写入都重复 MKCOL
+  private readonly knownFolders = new Set<string>();
+
+  /**
+   * @param credentials WebDAV连接配置
+   * @param container 容器文件夹名称
+   */
+  constructor(
+    private readonly credentials: WebDAVCredentials,
+    private readonly container: string = DEFAULT_BACKUP_REPO
+  ) { }
+
+  private resolvePath(path: string): string {
+    return `${this.container}/${path}`;
+  }
+
+  /**
+   * 逐级创建文件所在的文件夹
+   */
+  private async ensureParentFolders(path: string): Promise<void> {
+    const segments = this.resolvePath(path).split('/').slice(0, -1);
+    for (let i = 1; i <= segments.length; i++) {
+      const folder = segments.slice(0, i).join('/');
+      if (!this.knownFolders.has(folder)) {
+        await webdavService.createFolder(this.credentials, folder);
+        this.knownFolders.add(folder);
+      }
+    }
+  }
+
+  async containerExists(): Promise<boolean> {
+    return webdavService.exists(this.credentials, this.container);
+  }
+
+  async ensureContainer(): Promise<void> {
+    if (!(await this.containerExists())) {
+      await webdavService.createFolder(this.credentials, this.container);
+    }
+    this.knownFolders.add(this.container);
+  }
+
+  async listFiles(folder: string): Promise<StorageFile[]> {
+    const entries = await webdavService.listFolder(this.credentials, this.resolvePath(folder));
+    return entries
+      .filter(entry => !entry.isCollection)
+      .map(entry => ({ name: entry.name, path: `${folder}/${entry.name}`, size: entry.size }));
+  }
+
+  async readFile(path: string, encoding: StorageContentEncoding = 'utf-8'): Promise<string> {
+    return webdavService.getFile(this.credentials, this.resolvePath(path), encoding);
+  }
+
+  async writeFile(
+    path: string,
+    content: string,
+    _message: string,
+    encoding: StorageContentEncoding = 'utf-8'
+  ): Promise<StorageWriteResult> {
+    await this.ensureParentFolders(path);
+    await webdavService.putFile(this.credentials, this.resolvePath(path), content, encoding);
+    return { url: webdavService.getUrl(this.credentials, this.resolvePath(path)) };
+  }
+
+  async writeFiles(changes: StorageFileChange[], message: string): Promise<StorageWriteResult> {
+    // WebDAV 没有事务，按顺序逐个写入或删除
+    const fileUrls: Record<string, string> = {};
+    for (const change of changes) {
+      if (change.delete) {
+        await webdavService.deleteFile(this.credentials, this.resolvePath(change.path));
+      } else {
+        const result = await this.writeFile(change.path, change.content || '', message, change.encoding);
+        fileUrls[change.path] = result.url as string;
+      }
+    }
+    return { url: webdavService.getUrl(this.credentials, `${this.container}/`), fileUrls };
+  }
+
+  async deleteFile(file: StorageFile): Promise<void> {
+    await webdavService.deleteFile(this.credentials, this.resolvePath(file.path));
+  }
+}
@@ -10,25 +10,25 @@ import Divider from '@mui/material/Divider';
 import Radio from '@mui/material/Radio';
 import RadioGroup from '@mui/material/RadioGroup';
 import FormControlLabel from '@mui/material/FormControlLabel';
-import Dialog from '@mui/material/Dialog';
-import DialogTitle from '@mui/material/DialogTitle';
-import DialogContent from '@mui/material/DialogContent';
-import DialogContentText from '@mui/material/DialogContentText';
-import DialogActions from '@mui/material/DialogActions';
+import Checkbox from '@mui/material/Checkbox';
+import Autocomplete from '@mui/material/Autocomplete';
+import TextField from '@mui/material/TextField';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 import WarningIcon from '@mui/icons-material/Warning';
 import FolderOpenIcon from '@mui/icons-material/FolderOpen';
 
 import BackupSelectionDialog from '../../popup/components/SyncView/BackupSelectionDialog';
-import { Task, BackupAction, ActionType } from '../../types/task';
-import storageService, { GitHubCredentials } from '../../utils/storage-service';
-import githubService from '../../services/github-service';
+import RestorePreviewDialog from '../../popup/components/SyncView/RestorePreviewDialog';
+import BookmarkSelector from '../../popup/components/shared/BookmarkSelector';
+import { Task, BackupAction, ActionType, BookmarkSelection } from '../../types/task';
+import { BookmarkRootKind, RestoreRootMapping } from '../../types/backup';
+import { StorageProvider } from '../../types/storage-provider';
+import bookmarkService, { BookmarkItem } from '../../utils/bookmark-service';
+import backupService from '../../services/backup-service';
+import storageProviderService, { getStorageProviderLabel } from '../../services/storage-provider-service';
 import taskExecutor from '../../services/task-executor';
 import { browser } from 'wxt/browser';
 
-// 备份仓库名称常量
-const BACKUP_REPO_NAME = 'marksvault-backups';
-
 interface BackupRestoreExecutorProps {
   task: Task;
   onComplete: () => void;
@@ -36,18 +36,26 @@ interface BackupRestoreExecutorProps {
 }
 
 type RestoreMode = 'latest' | 'select';
+type RestoreStrategy = 'replace' | 'merge';
+type RestoreScope = 'all' | 'partial';
+
+interface FolderOption {
+  id: string;
+  title: string;
+  fullPath: string;
+}
 
 /**
  * 备份恢复执行器（高风险操作）
  * - 仅用于 TaskConfigPage 的 execute 模式
- * - 提供备份选择 + 二次确认
+ * - 提供备份选择 + 变更预览与二次确认
  */
 const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onComplete, onCancel }) => {
   const action = task.action as BackupAction;
+  const targetLabel = getStorageProviderLabel(action.target);
 
   const [loading, setLoading] = useState(true);
-  const [credentials, setCredentials] = useState<GitHubCredentials | null>(null);
-  const [username, setUsername] = useState<string>('');
+  const [provider, setProvider] = useState<StorageProvider | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [executing, setExecuting] = useState(false);
@@ -59,6 +67,26 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
   const [selectedBackupPath, setSelectedBackupPath] = useState<string>(initialBackupFilePath);
   const [backupSelectionOpen, setBackupSelectionOpen] = useState(false);
   const [confirmOpen, setConfirmOpen] = useState(false);
+  const [restoreStrategy, setRestoreStrategy] = useState<RestoreStrategy>(
+    action.options?.restoreStrategy || 'replace'
+  );
+  const [removeAbsent, setRemoveAbsent] = useState<boolean>(!!action.options?.removeAbsent);
+
+  // 恢复整个书签时选择要恢复的根目录，默认只恢复书签栏
+  const [rootMappings, setRootMappings] = useState<RestoreRootMapping[] | null>(null);
+  const [rootMappingsLoading, setRootMappingsLoading] = useState(false);
+  const [selectedRoots, setSelectedRoots] = useState<BookmarkRootKind[]>(
+    action.options?.restoreRoots?.length ? action.options.restoreRoots : ['toolbar']
+  );
+
+  // 部分恢复：浏览备份内容，选择文件夹/书签与目标文件夹
+  const [restoreScope, setRestoreScope] = useState<RestoreScope>('all');
+  const [backupTree, setBackupTree] = useState<BookmarkItem[] | null>(null);
+  const [backupTreeLoading, setBackupTreeLoading] = useState(false);
+  const [backupTreeError, setBackupTreeError] = useState<string | null>(null);
+  const [restoreSelections, setRestoreSelections] = useState<BookmarkSelection[]>([]);
+  const [targetFolders, setTargetFolders] = useState<FolderOption[]>([]);
+  const [targetFolder, setTargetFolder] = useState<FolderOption | null>(null);
 
   useEffect(() => {
     const init = async () => {
@@ -66,17 +94,17 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
       setError(null);
 
       try {
-        const credentialsResult = await storageService.getGitHubCredentials();
-        if (!credentialsResult.success || !credentialsResult.data) {
-          setError('未找到 GitHub 凭据，请先在“概览”页完成授权');
+        // 使用任务的存储位置与设置中的备份位置
+        const providerResult = await storageProviderService.createProvider(
+          action.target,
+          undefined,
+          action.options?.owner
+        );
+        if (!providerResult.success || !providerResult.data) {
+          setError(providerResult.error || `无法连接${targetLabel}`);
           return;
         }
-
-        const creds = credentialsResult.data;
-        setCredentials(creds);
-
-        const user = await githubService.validateCredentials(creds);
-        setUsername(user.login);
+        setProvider(providerResult.data);
       } catch (e) {
         console.error('初始化恢复执行器失败:', e);
         setError(e instanceof Error ? e.message : '初始化失败');
@@ -88,12 +116,106 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
     init();
   }, []);
 
+  // 加载所选备份中的根目录及其在当前浏览器中的对应位置
+  useEffect(() => {
+    if (restoreScope !== 'all' || !provider) return;
+
+    const filePath = restoreMode === 'select' ? selectedBackupPath : undefined;
+    if (restoreMode === 'select' && !filePath) {
+      setRootMappings(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadRootMappings = async () => {
+      setRootMappingsLoading(true);
+      const result = await backupService.getRestoreRootMappings(
+        provider,
+        filePath
+      );
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setRootMappings(result.data as RestoreRootMapping[]);
+      } else {
+        console.error('加载根目录映射失败:', result.error);
+        setRootMappings(null);
+      }
+      setRootMappingsLoading(false);
+    };
+
+    loadRootMappings();
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreScope, restoreMode, selectedBackupPath, provider]);
+
+  const handleRootToggle = (kind: BookmarkRootKind, checked: boolean) => {
+    setSelectedRoots(prev => (checked ? [...prev, kind] : prev.filter(item => item !== kind)));
+  };
+
+  // 部分恢复时加载所选备份的书签树
+  useEffect(() => {
+    if (restoreScope !== 'partial' || !provider) return;
+
+    const filePath = restoreMode === 'select' ? selectedBackupPath : undefined;
+    if (restoreMode === 'select' && !filePath) {
+      setBackupTree(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadBackupTree = async () => {
+      setBackupTreeLoading(true);
+      setBackupTreeError(null);
+      setBackupTree(null);
+      setRestoreSelections([]);
+
+      const result = await backupService.loadBookmarksBackupTree(
+        provider,
+        filePath
+      );
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setBackupTree(result.data.bookmarks as BookmarkItem[]);
+      } else {
+        setBackupTreeError(result.error || '加载备份内容失败');
+      }
+      setBackupTreeLoading(false);
+    };
+
+    loadBackupTree();
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreScope, restoreMode, selectedBackupPath, provider]);
+
+  // 部分恢复时加载当前浏览器中的文件夹，作为恢复目标
+  useEffect(() => {
+    if (restoreScope !== 'partial' || targetFolders.length > 0) return;
+
+    const loadTargetFolders = async () => {
+      const result = await bookmarkService.getAllBookmarkFolders();
+      if (result.success && result.data) {
+        // 根节点没有标题，不能直接在其下创建书签
+        setTargetFolders((result.data as FolderOption[]).filter(folder => !!folder.fullPath));
+      } else {
+        console.error('加载书签文件夹失败:', result.error);
+      }
+    };
+
+    loadTargetFolders();
+  }, [restoreScope, targetFolders.length]);
+
   const canExecute =
     !loading &&
     !executing &&
-    !!credentials &&
-    !!username &&
-    (restoreMode === 'latest' || (restoreMode === 'select' && !!selectedBackupPath));
+    !!provider &&
+    (restoreMode === 'latest' || (restoreMode === 'select' && !!selectedBackupPath)) &&
+    (restoreScope === 'all'
+      ? selectedRoots.length > 0
+      : restoreSelections.length > 0 && !!targetFolder);
 
   const handleExecuteConfirm = async () => {
     setConfirmOpen(false);
@@ -110,6 +232,11 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
           options: {
             ...(action.options || {}),
             ...(restoreMode === 'select' ? { backupFilePath: selectedBackupPath } : {}),
+            restoreStrategy,
+            removeAbsent: restoreStrategy === 'merge' ? removeAbsent : undefined,
+            ...(restoreScope === 'partial'
+              ? { restoreSelections, restoreTargetFolderId: targetFolder?.id }
+              : { restoreRoots: selectedRoots }),
           },
         } as BackupAction,
       };
@@ -188,7 +315,7 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
             任务: {task.name}
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ ml: 4 }}>
-            GitHub: {username ? username : '未连接'}
+            存储位置: {targetLabel}{provider ? '' : '（未连接）'}
           </Typography>
         </Box>
 
@@ -208,16 +335,70 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
 
         {!loading && success && (
           <Alert severity="success" sx={{ mb: 2 }}>
-            恢复成功，页面即将关闭...
+            {restoreScope === 'partial'
+              ? '部分恢复成功，页面即将关闭...'
+              : '恢复成功，撤销时限内可在快捷操作中撤销本次恢复。页面即将关闭...'}
           </Alert>
         )}
 
         {!loading && !success && (
           <>
-            <Alert severity="warning" icon={<WarningIcon />} sx={{ mb: 2 }}>
-              此操作会覆盖当前浏览器中的书签，且不可撤销。建议先执行一次“立即备份”。
+            <Alert
+              severity={restoreScope === 'partial' ? 'info' : 'warning'}
+              icon={restoreScope === 'partial' ? undefined : <WarningIcon />}
+              sx={{ mb: 2 }}
+            >
+              {restoreScope === 'partial'
+                ? '部分恢复会把选中的文件夹/书签添加到目标文件夹中，不会修改其他书签。'
+                : restoreStrategy === 'merge'
+                  ? '合并恢复只会补齐备份中缺失的书签，已有书签保持不变。建议先执行一次“立即备份”。'
+                  : '此操作会覆盖当前浏览器中的书签。建议先执行一次“立即备份”。'}
             </Alert>
 
+            <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+              恢复范围
+            </Typography>
+
+            <RadioGroup
+              row
+              value={restoreScope}
+              onChange={(e) => setRestoreScope(e.target.value as RestoreScope)}
+            >
+              <FormControlLabel value="all" control={<Radio />} label="整个书签栏" />
+              <FormControlLabel value="partial" control={<Radio />} label="部分文件夹/书签" />
+            </RadioGroup>
+
+            {restoreScope === 'all' && (
+              <>
+                <Typography variant="subtitle1" sx={{ fontWeight: 600, mt: 1, mb: 1 }}>
+                  恢复方式
+                </Typography>
+
+                <RadioGroup
+                  row
+                  value={restoreStrategy}
+                  onChange={(e) => setRestoreStrategy(e.target.value as RestoreStrategy)}
+                >
+                  <FormControlLabel value="replace" control={<Radio />} label="覆盖（清空后重建）" />
+                  <FormControlLabel value="merge" control={<Radio />} label="合并（只补齐缺失）" />
+                </RadioGroup>
+              </>
+            )}
+
+            {restoreScope === 'all' && restoreStrategy === 'merge' && (
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={removeAbsent}
+                    onChange={(e) => setRemoveAbsent(e.target.checked)}
+                  />
+                }
+                label="删除备份中不存在的书签"
+              />
+            )}
+
+            <Divider sx={{ my: 2 }} />
+
             <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
               选择恢复来源
             </Typography>
@@ -238,7 +419,7 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
                     variant="outlined"
                     startIcon={<FolderOpenIcon />}
                     onClick={() => setBackupSelectionOpen(true)}
-                    disabled={!credentials || !username || executing}
+                    disabled={!provider || executing}
                   >
                     选择备份文件
                   </Button>
@@ -255,11 +436,95 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
                 </Box>
 
                 <Typography variant="caption" color="text.secondary">
-                  说明：仅展示 GitHub 仓库 {BACKUP_REPO_NAME}/bookmarks/ 下的备份文件
+                  说明：仅展示{targetLabel}备份位置中书签备份文件夹下的备份文件（可在“设置 → 备份位置”中修改）
                 </Typography>
               </Box>
             )}
 
+            {restoreScope === 'all' && (rootMappingsLoading || (rootMappings && rootMappings.length > 0)) && (
+              <>
+                <Divider sx={{ my: 2 }} />
+
+                <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+                  恢复的根目录
+                </Typography>
+
+                {rootMappingsLoading ? (
+                  <CircularProgress size={20} />
+                ) : (
+                  <Box sx={{ display: 'flex', flexDirection: 'column' }}>
+                    {(rootMappings || []).map(mapping => (
+                      <FormControlLabel
+                        key={mapping.kind}
+                        control={
+                          <Checkbox
+                            checked={selectedRoots.includes(mapping.kind)}
+                            onChange={(e) => handleRootToggle(mapping.kind, e.target.checked)}
+                          />
+                        }
+                        label={
+                          <Typography variant="body2">
+                            {mapping.sourceTitle}（{mapping.bookmarksCount} 个书签）→{' '}
+                            {mapping.wrapped ? `${mapping.targetTitle} / ${mapping.sourceTitle}` : mapping.targetTitle}
+                          </Typography>
+                        }
+                      />
+                    ))}
+                    <Typography variant="caption" color="text.secondary">
+                      当前浏览器没有对应根目录时，将恢复到目标根目录下的同名文件夹中，不影响该根目录中的其他书签。
+                    </Typography>
+                  </Box>
+                )}
+              </>
+            )}
+
+            {restoreScope === 'partial' && (
+              <>
+                <Divider sx={{ my: 2 }} />
+
+                <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+                  选择要恢复的内容
+                </Typography>
+
+                {backupTreeLoading ? (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                    <CircularProgress size={24} />
+                  </Box>
+                ) : backupTreeError ? (
+                  <Alert severity="error">{backupTreeError}</Alert>
+                ) : backupTree ? (
+                  <BookmarkSelector
+                    source={backupTree}
+                    selections={restoreSelections}
+                    onChange={setRestoreSelections}
+                    maxHeight="400px"
+                  />
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    请先选择备份文件
+                  </Typography>
+                )}
+
+                <Autocomplete
+                  options={targetFolders}
+                  value={targetFolder}
+                  onChange={(_, newValue) => setTargetFolder(newValue)}
+                  getOptionLabel={(option) => option.fullPath}
+                  isOptionEqualToValue={(option, value) => option.id === value.id}
+                  size="small"
+                  sx={{ mt: 2 }}
+                  renderInput={(params) => (
+                    <TextField
+                      {...params}
+                      label="恢复到文件夹"
+                      placeholder="输入文件夹名称筛选"
+                      helperText="选中的文件夹/书签将作为该文件夹的子项创建"
+                    />
+                  )}
+                />
+              </>
+            )}
+
             <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5, mt: 3 }}>
               <Button variant="outlined" onClick={onCancel} disabled={executing}>
                 取消
@@ -269,7 +534,7 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
                 color="error"
                 disabled={!canExecute}
                 startIcon={executing ? <CircularProgress size={16} color="inherit" /> : null}
-                onClick={() => setConfirmOpen(true)}
+                onClick={() => (restoreScope === 'partial' ? handleExecuteConfirm() : setConfirmOpen(true))}
               >
                 {executing ? '恢复中...' : '开始恢复'}
               </Button>
@@ -278,7 +543,7 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
         )}
 
         {/* 备份选择对话框 */}
-        {backupSelectionOpen && credentials && username && (
+        {backupSelectionOpen && provider && (
           <BackupSelectionDialog
             open={backupSelectionOpen}
             onClose={() => setBackupSelectionOpen(false)}
@@ -286,43 +551,29 @@ const BackupRestoreExecutor: React.FC<BackupRestoreExecutorProps> = ({ task, onC
               setSelectedBackupPath(filePath);
               setBackupSelectionOpen(false);
             }}
-            credentials={credentials}
-            username={username}
-            repoName={BACKUP_REPO_NAME}
+            provider={provider}
           />
         )}
 
-        {/* 二次确认对话框 */}
-        <Dialog open={confirmOpen} onClose={() => setConfirmOpen(false)}>
-          <DialogTitle>
-            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-              <WarningIcon color="warning" />
-              <span>确认恢复书签</span>
-            </Box>
-          </DialogTitle>
-          <DialogContent>
-            <DialogContentText>
-              此操作将从 GitHub 恢复书签，并覆盖当前浏览器中的书签。此操作不可撤销。
-              <br />
-              <br />
-              {restoreMode === 'select' && selectedBackupPath ? (
-                <>
-                  备份文件: <strong>{selectedBackupPath}</strong>
-                </>
-              ) : (
-                '将使用最新备份文件。'
-              )}
-            </DialogContentText>
-          </DialogContent>
-          <DialogActions>
-            <Button onClick={() => setConfirmOpen(false)} color="inherit">
-              取消
-            </Button>
-            <Button onClick={handleExecuteConfirm} color="error" variant="contained" autoFocus>
-              确认恢复
-            </Button>
-          </DialogActions>
-        </Dialog>
+        {/* 变更预览与二次确认对话框 */}
+        {confirmOpen && provider && (
+          <RestorePreviewDialog
+            open={confirmOpen}
+            onClose={() => setConfirmOpen(false)}
+            provider={provider}
+            filePath={restoreMode === 'select' ? selectedBackupPath : undefined}
+            roots={selectedRoots}
+            onConfirm={handleExecuteConfirm}
+            description={
+              <Alert severity="warning" icon={<WarningIcon />}>
+                {restoreStrategy === 'merge'
+                  ? `此操作将从 ${targetLabel} 合并恢复书签：只新增缺失的书签，已有书签保留原标题与位置${removeAbsent ? '，“删除”项将被移除' : '，不会删除任何书签'}。`
+                  : `此操作将从 ${targetLabel} 恢复书签，并覆盖当前浏览器中的书签。`}
+                请确认以下变化后再继续。
+              </Alert>
+            }
+          />
+        )}
       </Paper>
     </Box>
   );
@@ -4,6 +4,7 @@ import Grid from '@mui/material/Grid';
 import TaskBasicForm from '../../popup/components/TasksView/TaskForm/TaskBasicForm';
 import TaskTriggerForm from '../../popup/components/TasksView/TaskForm/TaskTriggerForm';
 import TaskActionForm from '../../popup/components/TasksView/TaskForm/TaskActionForm';
+import TaskStepsEditor from '../../popup/components/TasksView/TaskForm/TaskStepsEditor';
 import { Task } from '../../types/task';
 import { ConfigCard } from './ConfigCard';
 
@@ -12,6 +13,7 @@ import EditIcon from '@mui/icons-material/Edit';
 import TimerIcon from '@mui/icons-material/Timer';
 import CategoryIcon from '@mui/icons-material/Category';
 import SettingsIcon from '@mui/icons-material/Settings';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
 
 interface TaskFormContainerProps {
   taskData: Task;
@@ -32,12 +34,13 @@ const TaskFormContainer: React.FC<TaskFormContainerProps> = ({
   const [basicValid, setBasicValid] = useState(false);
   const [triggerValid, setTriggerValid] = useState(true);
   const [actionValid, setActionValid] = useState(true);
+  const [stepsValid, setStepsValid] = useState(true);
 
   // 当任何子表单验证状态变化时，通知父组件
   useEffect(() => {
-    const isFormValid = basicValid && triggerValid && actionValid;
+    const isFormValid = basicValid && triggerValid && actionValid && stepsValid;
     onValidityChange(isFormValid);
-  }, [basicValid, triggerValid, actionValid, onValidityChange]);
+  }, [basicValid, triggerValid, actionValid, stepsValid, onValidityChange]);
 
   // 处理基本信息更新
   const handleBasicInfoChange = (updatedBasicInfo: Partial<Task>, isValid: boolean) => {
@@ -57,6 +60,12 @@ const TaskFormContainer: React.FC<TaskFormContainerProps> = ({
     setActionValid(isValid);
   };
 
+  // 处理后续步骤更新
+  const handleStepsChange = (changes: Pick<Task, 'continueOnFailure' | 'steps'>, isValid: boolean) => {
+    onChange(changes);
+    setStepsValid(isValid);
+  };
+
   return (
     <Box sx={{ width: '100%' }}>
       <Grid container spacing={3}>
@@ -84,6 +93,7 @@ const TaskFormContainer: React.FC<TaskFormContainerProps> = ({
               trigger={taskData.trigger}
               onChange={handleTriggerChange}
               currentAction={taskData.action}
+              taskId={taskData.id}
             />
           </ConfigCard>
         </Grid>
@@ -117,6 +127,21 @@ const TaskFormContainer: React.FC<TaskFormContainerProps> = ({
             />
           </ConfigCard>
         </Grid>
+
+        {/* Row 3: Follow-up Steps */}
+        <Grid item xs={12}>
+          <ConfigCard
+            title="后续步骤"
+            icon={<PlaylistAddIcon fontSize="small" />}
+            description="在任务操作之后依次执行的操作"
+          >
+            <TaskStepsEditor
+              continueOnFailure={taskData.continueOnFailure}
+              steps={taskData.steps}
+              onChange={handleStepsChange}
+            />
+          </ConfigCard>
+        </Grid>
       </Grid>
     </Box>
   );
@@ -10,6 +10,9 @@ jest.mock('wxt/browser', () => ({
       onMessage: { addListener: jest.fn() },
       getManifest: jest.fn(() => ({ version: '1.0.0' })),
     },
+    alarms: {
+      onAlarm: { addListener: jest.fn() },
+    },
     bookmarks: {
       onCreated: { addListener: jest.fn() },
       onRemoved: { addListener: jest.fn() },
@@ -20,6 +23,7 @@ jest.mock('wxt/browser', () => ({
       local: {
         set: jest.fn(),
       },
+      onChanged: { addListener: jest.fn() },
     },
   },
 }));
@@ -31,6 +35,18 @@ jest.mock('../services/task-service', () => ({
   },
 }));
 
+jest.mock('../services/task-queue-service', () => ({
+  __esModule: true,
+  TASK_QUEUE_ALARM_NAME: 'marksvault_task_queue',
+  ENQUEUE_TASK_MESSAGE: 'ENQUEUE_TASK',
+  default: {
+    init: jest.fn(),
+    enqueue: jest.fn(),
+    processQueue: jest.fn(),
+    handleAlarm: jest.fn(),
+  },
+}));
+
 jest.mock('../services/task-executor', () => ({
   __esModule: true,
   default: {
@@ -46,6 +62,7 @@ jest.mock('../services/trigger-service', () => ({
 }));
 
 import taskExecutor from '../services/task-executor';
+import taskQueueService from '../services/task-queue-service';
 import taskService from '../services/task-service';
 import triggerService from '../services/trigger-service';
 import {
@@ -57,6 +74,7 @@ describe('background 初始化门闩', () => {
   const mockedTaskService = taskService as jest.Mocked<typeof taskService>;
   const mockedTaskExecutor = taskExecutor as jest.Mocked<typeof taskExecutor>;
   const mockedTriggerService = triggerService as jest.Mocked<typeof triggerService>;
+  const mockedTaskQueueService = taskQueueService as jest.Mocked<typeof taskQueueService>;
 
   beforeEach(() => {
     resetServicesInitStateForTesting();
@@ -64,6 +82,8 @@ describe('background 初始化门闩', () => {
     mockedTaskService.init.mockResolvedValue(undefined);
     mockedTaskExecutor.init.mockResolvedValue(undefined);
     mockedTriggerService.init.mockResolvedValue(undefined);
+    mockedTaskQueueService.init.mockResolvedValue(undefined);
+    mockedTaskQueueService.processQueue.mockResolvedValue(undefined);
   });
 
   test('初始化失败后下一次调用会重试', async () => {
@@ -88,5 +108,7 @@ describe('background 初始化门闩', () => {
     expect(mockedTaskService.init).toHaveBeenCalledTimes(1);
     expect(mockedTaskExecutor.init).toHaveBeenCalledTimes(1);
     expect(mockedTriggerService.init).toHaveBeenCalledTimes(1);
+    expect(mockedTaskQueueService.init).toHaveBeenCalledTimes(1);
+    expect(mockedTaskQueueService.processQueue).toHaveBeenCalledTimes(1);
   });
 });
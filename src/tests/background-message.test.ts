@@ -16,6 +16,9 @@ jest.mock('wxt/browser', () => ({
       },
       getManifest: jest.fn(() => ({ version: '1.0.0' })),
     },
+    alarms: {
+      onAlarm: { addListener: jest.fn() },
+    },
     bookmarks: {
       onCreated: { addListener: jest.fn() },
       onRemoved: { addListener: jest.fn() },
@@ -26,6 +29,7 @@ jest.mock('wxt/browser', () => ({
       local: {
         set: jest.fn(),
       },
+      onChanged: { addListener: jest.fn() },
     },
   },
 }));
@@ -35,6 +39,13 @@ jest.mock('../services/favicon-warmup-service', () => ({
   warmupBookmarkFavicons: jest.fn(),
 }));
 
+jest.mock('../services/backup-service', () => ({
+  __esModule: true,
+  default: {
+    undoLastRestore: jest.fn(),
+  },
+}));
+
 jest.mock('../services/task-service', () => ({
   __esModule: true,
   default: {
@@ -43,6 +54,18 @@ jest.mock('../services/task-service', () => ({
   },
 }));
 
+jest.mock('../services/task-queue-service', () => ({
+  __esModule: true,
+  TASK_QUEUE_ALARM_NAME: 'marksvault_task_queue',
+  ENQUEUE_TASK_MESSAGE: 'ENQUEUE_TASK',
+  default: {
+    init: jest.fn(),
+    enqueue: jest.fn(),
+    processQueue: jest.fn(),
+    handleAlarm: jest.fn(),
+  },
+}));
+
 jest.mock('../services/task-executor', () => ({
   __esModule: true,
   default: {
@@ -58,8 +81,11 @@ jest.mock('../services/trigger-service', () => ({
   },
 }));
 
-import background from '../entrypoints/background';
+import background, { resetServicesInitStateForTesting } from '../entrypoints/background';
 import { warmupBookmarkFavicons } from '../services/favicon-warmup-service';
+import backupService from '../services/backup-service';
+import taskQueueService from '../services/task-queue-service';
+import taskService from '../services/task-service';
 
 describe('background runtime.onMessage', () => {
   const mockedWarmup = warmupBookmarkFavicons as jest.MockedFunction<typeof warmupBookmarkFavicons>;
@@ -113,4 +139,78 @@ describe('background runtime.onMessage', () => {
       error: undefined,
     });
   });
+
+  test('UNDO_LAST_RESTORE 在后台撤销上次恢复并返回结果', async () => {
+    const mockedUndo = backupService.undoLastRestore as jest.MockedFunction<typeof backupService.undoLastRestore>;
+    mockedUndo.mockResolvedValue({ success: false, error: '没有可撤销的恢复，或已超过撤销时限' });
+
+    (background as any).main();
+
+    const listener = onMessageListener;
+    if (!listener) {
+      throw new Error('runtime.onMessage listener 未注册');
+    }
+
+    const sendResponse = jest.fn();
+    const returned = listener({ type: 'UNDO_LAST_RESTORE' }, null, sendResponse);
+
+    expect(returned).toBe(true);
+
+    await new Promise<void>((resolve) => setImmediate(resolve));
+
+    expect(mockedUndo).toHaveBeenCalledTimes(1);
+    expect(sendResponse).toHaveBeenCalledWith({
+      success: false,
+      error: '没有可撤销的恢复，或已超过撤销时限',
+    });
+  });
+
+  test('UNDO_LAST_RESTORE 在后台服务初始化失败时不执行撤销', async () => {
+    resetServicesInitStateForTesting();
+    (taskService.init as jest.Mock).mockRejectedValueOnce(new Error('init failed'));
+
+    (background as any).main();
+
+    const listener = onMessageListener;
+    if (!listener) {
+      throw new Error('runtime.onMessage listener 未注册');
+    }
+
+    const sendResponse = jest.fn();
+    listener({ type: 'UNDO_LAST_RESTORE' }, null, sendResponse);
+
+    await new Promise<void>((resolve) => setImmediate(resolve));
+
+    expect(backupService.undoLastRestore).not.toHaveBeenCalled();
+    expect(sendResponse).toHaveBeenCalledWith({
+      success: false,
+      error: '后台服务尚未准备就绪，请稍后重试',
+    });
+  });
+
+  test('ENQUEUE_TASK 由后台将页面中触发的任务加入执行队列', async () => {
+    const mockedEnqueue = taskQueueService.enqueue as jest.MockedFunction<typeof taskQueueService.enqueue>;
+    mockedEnqueue.mockResolvedValue(undefined);
+
+    (background as any).main();
+
+    const listener = onMessageListener;
+    if (!listener) {
+      throw new Error('runtime.onMessage listener 未注册');
+    }
+
+    const sendResponse = jest.fn();
+    const returned = listener(
+      { type: 'ENQUEUE_TASK', payload: { taskId: 'task_downstream', triggerSummary: '上游任务执行成功后触发' } },
+      null,
+      sendResponse,
+    );
+
+    expect(returned).toBe(true);
+
+    await new Promise<void>((resolve) => setImmediate(resolve));
+
+    expect(mockedEnqueue).toHaveBeenCalledWith('task_downstream', '上游任务执行成功后触发');
+    expect(sendResponse).toHaveBeenCalledWith({ success: true });
+  });
 });
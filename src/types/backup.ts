@@ -18,6 +18,8 @@ export interface BookmarkBackup {
     totalBookmarks: number;
     /** 总文件夹数量 */
     totalFolders: number;
+    /** 书签内容哈希，用于判断书签是否发生变化 */
+    contentHash?: string;
     /** 其他可能的元数据 */
     [key: string]: any;
   };
@@ -49,6 +51,8 @@ export interface BackupStatus {
   backupFileUrl?: string;
   /** 最后备份的文件路径 */
   lastBackupFilePath?: string;
+  /** 最后备份的书签内容哈希，书签未变化时跳过备份 */
+  contentHash?: string;
   /** 最后操作状态 */
   lastOperationStatus?: 'success' | 'failed';
   /** 错误信息 */
@@ -68,4 +72,262 @@ export interface BackupStatus {
     /** 是否来自缓存数据 */
     isFromCache?: boolean;
   };
-} 
\ No newline at end of file
+} 
+
+/**
+ * 书签增量差异中的单个节点（不含子节点）
+ */
+export interface BookmarkDiffNode {
+  /** 书签或文件夹ID */
+  id: string;
+  /** 父文件夹ID（顶层节点为空字符串） */
+  parentId: string;
+  /** 标题 */
+  title: string;
+  /** URL（仅书签有） */
+  url?: string;
+  /** 是否为文件夹 */
+  isFolder: boolean;
+  /** 创建时间 */
+  dateAdded?: number;
+}
+
+/**
+ * 两次备份之间的书签结构差异
+ */
+export interface BookmarkDiff {
+  /** 新增的节点（包括新增文件夹内的所有子节点） */
+  added: BookmarkDiffNode[];
+  /** 删除的节点（只记录最外层，子节点随之删除） */
+  removed: BookmarkDiffNode[];
+  /** 移动到其他文件夹的节点 */
+  moved: Array<{ id: string; title: string; fromParentId: string; toParentId: string }>;
+  /** 标题或 URL 发生变化的节点 */
+  updated: Array<{ id: string; title: string; url?: string; previousTitle: string; previousUrl?: string }>;
+  /** 子节点顺序发生变化的文件夹：文件夹ID（顶层为空字符串）到子节点ID列表 */
+  order: Record<string, string[]>;
+}
+
+/**
+ * 增量备份数据结构
+ * 记录相对上一个备份文件的差异，恢复时从完整检查点开始依次回放
+ */
+export interface BookmarkDeltaBackup {
+  /** 备份版本号 */
+  version: string;
+  /** 固定为 delta，用于区分完整备份 */
+  type: 'delta';
+  /** 备份创建时间戳 */
+  timestamp: number;
+  /** 备份设备/来源信息 */
+  source: string;
+  /** 差异所基于的上一个备份文件路径 */
+  baseFile: string;
+  /** 所属完整检查点的文件路径 */
+  checkpointFile: string;
+  /** 自检查点起的增量序号（从 1 开始） */
+  sequence: number;
+  /** 书签差异 */
+  diff: BookmarkDiff;
+  /** 备份元数据（描述回放后的完整书签树） */
+  metadata?: BookmarkBackup['metadata'];
+}
+
+/**
+ * 恢复预览中节点的变化类型
+ */
+export type RestoreChangeKind = 'added' | 'removed' | 'moved' | 'renamed' | 'unchanged';
+
+/**
+ * 恢复预览树节点
+ * 以备份中的书签树为主体，并把恢复后将被删除的当前书签挂到原位置
+ */
+export interface RestorePreviewNode {
+  /** 节点唯一键（用于渲染与展开状态） */
+  key: string;
+  /** 标题（恢复后的标题；删除项为当前标题） */
+  title: string;
+  /** URL（仅书签有） */
+  url?: string;
+  /** 是否为文件夹 */
+  isFolder: boolean;
+  /** 变化类型 */
+  change: RestoreChangeKind;
+  /** 重命名或移动前的标题 */
+  previousTitle?: string;
+  /** 移动前所在的文件夹路径 */
+  previousPath?: string;
+  /** 子节点（仅文件夹有） */
+  children?: RestorePreviewNode[];
+}
+
+/**
+ * 恢复预览结果：当前书签与备份之间的差异
+ */
+export interface RestorePreview {
+  /** 预览的备份文件路径 */
+  filePath: string;
+  /** 备份创建时间戳 */
+  timestamp?: number;
+  /** 差异树 */
+  nodes: RestorePreviewNode[];
+  /** 各类变化的数量统计 */
+  summary: Record<RestoreChangeKind, number>;
+}
+
+/**
+ * 书签恢复策略
+ * - replace：清空书签栏后按备份重建（默认）
+ * - merge：按 URL + 文件夹路径匹配，只创建缺失的书签，已有书签保持原ID
+ */
+export type BookmarkRestoreStrategy = 'replace' | 'merge';
+
+/**
+ * 书签恢复选项
+ */
+export interface BookmarkRestoreOptions {
+  /** 恢复策略，默认为 replace */
+  strategy?: BookmarkRestoreStrategy;
+  /** 合并恢复时是否删除备份中不存在的书签 */
+  removeAbsent?: boolean;
+  /** 要恢复的根目录，默认只恢复书签栏 */
+  roots?: BookmarkRootKind[];
+  /** 试运行：只返回计划的变更，不修改书签 */
+  dryRun?: boolean;
+}
+
+/**
+ * 合并恢复的统计结果
+ */
+export interface BookmarkMergeResult {
+  /** 新建的书签与文件夹数量 */
+  created: number;
+  /** 已存在而保留的书签与文件夹数量 */
+  kept: number;
+  /** 删除的书签与文件夹数量（仅在 removeAbsent 时） */
+  removed: number;
+}
+
+/**
+ * 恢复前的本地安全快照，保存在 browser.storage.local 中
+ */
+export interface RestoreSnapshot {
+  /** 快照创建时间（即恢复开始时间） */
+  timestamp: number;
+  /** 恢复涉及的各个根目录在恢复前的完整书签树 */
+  roots: Array<{
+    /** 根目录ID */
+    rootId: string;
+    /** 根目录下的书签树 */
+    bookmarks: BookmarkItem[];
+  }>;
+  /** 本次恢复使用的备份文件 */
+  filePath?: string;
+  /** 本次恢复对书签的改动，撤销时只回退这些改动；没有时（旧版本的快照）按 roots 重建根目录 */
+  changes?: RestoreChangeLog;
+}
+
+/**
+ * 恢复过程中对书签的改动记录
+ */
+export interface RestoreChangeLog {
+  /** 新建的书签与文件夹ID，新建的文件夹只记录文件夹本身 */
+  created: string[];
+  /** 删除的书签与文件夹，以及它们原来所在的文件夹和位置 */
+  removed: Array<{
+    parentId: string;
+    index: number;
+    node: BookmarkItem;
+  }>;
+}
+
+/**
+ * 仍在撤销时限内的上次恢复
+ */
+export interface UndoableRestore {
+  /** 恢复开始时间 */
+  timestamp: number;
+  /** 撤销截止时间 */
+  expiresAt: number;
+  /** 本次恢复使用的备份文件 */
+  filePath?: string;
+}
+
+/**
+ * 书签根目录类型
+ * - toolbar：书签栏（Chrome/Edge "1"，Firefox toolbar_____）
+ * - other：其他书签（Chrome/Edge "2"，Firefox unfiled_____）
+ * - mobile：移动设备书签（Chrome/Edge "3"，Firefox mobile______）
+ * - menu：书签菜单（仅 Firefox menu________）
+ */
+export type BookmarkRootKind = 'toolbar' | 'other' | 'mobile' | 'menu';
+
+/**
+ * 备份中的根目录与当前浏览器根目录的对应关系
+ */
+export interface RestoreRootMapping {
+  /** 根目录类型 */
+  kind: BookmarkRootKind;
+  /** 备份中的根目录ID */
+  sourceId: string;
+  /** 备份中的根目录标题 */
+  sourceTitle: string;
+  /** 恢复到的当前浏览器根目录ID */
+  targetId: string;
+  /** 恢复到的当前浏览器根目录标题 */
+  targetTitle: string;
+  /** 当前浏览器没有对应根目录时，恢复到目标根目录下与备份根目录同名的文件夹中 */
+  wrapped: boolean;
+  /** 备份根目录下的书签数量（不含文件夹） */
+  bookmarksCount: number;
+}
+
+/**
+ * 加密备份文件的信封格式
+ * 备份内容在本地用口令派生的密钥加密后再上传，未加密的旧备份不含 format 字段
+ */
+export interface EncryptedBackupEnvelope {
+  /** 固定为 marksvault-encrypted，用于识别加密备份 */
+  format: 'marksvault-encrypted';
+  /** 信封格式版本号 */
+  version: number;
+  /** 密钥派生参数 */
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    /** 迭代次数 */
+    iterations: number;
+    /** Base64 编码的盐 */
+    salt: string;
+  };
+  /** 加密算法参数 */
+  cipher: {
+    name: 'AES-GCM';
+    /** Base64 编码的初始向量 */
+    iv: string;
+  };
+  /** Base64 编码的密文（含认证标签） */
+  data: string;
+}
+
+/**
+ * 备份清单
+ * 书签与配置同时备份时与备份文件在同一次提交中写入，记录本次提交包含的文件
+ */
+export interface BackupManifest {
+  /** 固定为 MarksVault */
+  app: 'MarksVault';
+  /** 清单格式版本号 */
+  version: number;
+  /** 备份创建时间戳 */
+  timestamp: number;
+  /** 本次提交写入的备份文件 */
+  files: Record<'bookmarks' | 'settings', {
+    /** 仓库中的文件路径 */
+    path: string;
+    /** 是否为增量备份 */
+    incremental: boolean;
+    /** 是否已加密 */
+    encrypted: boolean;
+  }>;
+}
@@ -10,6 +10,16 @@ export interface GitHubUser {
   html_url: string;
 }
 
+/**
+ * 当前账号所属的组织
+ */
+export interface GitHubOrganization {
+  login: string;
+  avatar_url: string;
+  /** 当前账号在组织中的角色，管理员总是可以创建仓库 */
+  role: 'admin' | 'member';
+}
+
 export interface GitHubRepo {
   id: number;
   name: string;
@@ -19,6 +29,30 @@ export interface GitHubRepo {
   description: string | null;
 }
 
+/**
+ * 原子提交中的单个文件变更
+ * - 写入：提供 content（encoding 为 base64 时 content 已是 Base64 数据）
+ * - 删除：delete 为 true
+ */
+export interface GitFileChange {
+  path: string;
+  content?: string;
+  encoding?: 'utf-8' | 'base64';
+  delete?: boolean;
+}
+
+/**
+ * 原子提交的结果
+ */
+export interface GitCommitResult {
+  /** 新提交的 SHA */
+  sha: string;
+  /** 提交所在的分支 */
+  branch: string;
+  /** 提交页面地址 */
+  htmlUrl: string;
+}
+
 // 认证状态枚举
 export enum AuthStatus {
   INITIAL = 'initial',
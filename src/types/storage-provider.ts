@@ -0,0 +1,78 @@
+/**
+ * 备份存储位置类型
+ */
+export type StorageProviderType = 'github' | 'gitea' | 'gitlab' | 'webdav' | 'local';
+
+/**
+ * 文件内容编码：utf-8 为文本，base64 表示内容是 Base64 编码的二进制数据
+ */
+export type StorageContentEncoding = 'utf-8' | 'base64';
+
+/**
+ * 存储位置中的文件
+ */
+export interface StorageFile {
+  /** 文件名 */
+  name: string;
+  /** 相对容器根目录的完整路径 */
+  path: string;
+  /** 文件大小(字节) */
+  size: number;
+  /** 文件版本标识（GitHub 为 blob SHA），删除文件时使用 */
+  sha?: string;
+}
+
+/**
+ * 批量写入中的单个文件变更
+ */
+export interface StorageFileChange {
+  /** 文件路径 */
+  path: string;
+  /** 文件内容（删除时省略） */
+  content?: string;
+  /** 内容编码，默认为 utf-8 */
+  encoding?: StorageContentEncoding;
+  /** 是否删除该文件 */
+  delete?: boolean;
+}
+
+/**
+ * 写入文件的结果
+ */
+export interface StorageWriteResult {
+  /** 写入结果的查看地址（单个文件地址或提交地址） */
+  url?: string;
+  /** 各个文件的查看地址 */
+  fileUrls?: Record<string, string>;
+  /** 提交的 SHA（Git 类存储位置） */
+  commitSha?: string;
+  /** 提交的查看地址 */
+  commitUrl?: string;
+}
+
+/**
+ * 备份存储提供方
+ * 备份、恢复与清理逻辑只通过该接口读写文件，新增存储位置时只需实现该接口
+ */
+export interface StorageProvider {
+  /** 存储位置类型 */
+  readonly type: StorageProviderType;
+  /** 显示名称 */
+  readonly name: string;
+  /** 只能写入、无法读回文件（如浏览器下载），此类存储位置不生成增量备份 */
+  readonly writeOnly?: boolean;
+  /** 容器（GitHub 仓库等）是否存在 */
+  containerExists(): Promise<boolean>;
+  /** 确保容器存在，不存在时自动创建 */
+  ensureContainer(): Promise<void>;
+  /** 列出文件夹中的文件（不含子文件夹），文件夹不存在时抛出错误 */
+  listFiles(folder: string): Promise<StorageFile[]>;
+  /** 读取文件内容 */
+  readFile(path: string, encoding?: StorageContentEncoding): Promise<string>;
+  /** 写入单个文件 */
+  writeFile(path: string, content: string, message: string, encoding?: StorageContentEncoding): Promise<StorageWriteResult>;
+  /** 批量写入或删除文件，支持的存储位置会在一次原子操作中完成 */
+  writeFiles(changes: StorageFileChange[], message: string): Promise<StorageWriteResult>;
+  /** 删除单个文件 */
+  deleteFile(file: StorageFile, message: string): Promise<void>;
+}
@@ -3,6 +3,8 @@
  * 用于自动化任务功能
  */
 
+import { StorageProviderType } from './storage-provider';
+
 // 任务状态枚举
 export enum TaskStatus {
   ENABLED = 'enabled',   // 已启用，等待执行
@@ -15,7 +17,9 @@ export enum TaskStatus {
 // 触发器类型枚举
 export enum TriggerType {
   EVENT = 'event',     // 基于事件的触发器
-  MANUAL = 'manual'    // 手动触发
+  MANUAL = 'manual',   // 手动触发
+  SCHEDULE = 'schedule', // 定时触发（基于 browser.alarms）
+  TASK_COMPLETED = 'task_completed' // 其他任务执行完成后触发
 }
 
 // 基础触发器接口
@@ -31,19 +35,57 @@ export enum EventType {
   EXTENSION_CLICKED = 'extension_clicked' // 扩展图标点击 - 已废弃：已配置 action.default_popup，此事件永远不会触发
 }
 
+// 书签变更种类
+export type BookmarkChangeKind = 'created' | 'removed' | 'changed' | 'moved';
+
+// 条件规则可检查的字段：URL、标题、变更种类、所在文件夹
+export type TriggerConditionField = 'url' | 'title' | 'changeKind' | 'folder';
+
+/**
+ * 条件规则的匹配方式
+ * - contains / equals / glob / regex：用于 URL 与标题，均不区分大小写；glob 支持 * 与 ?
+ * - equals：用于变更种类；用于文件夹时表示直接位于该文件夹中
+ * - inside：用于文件夹，表示位于该文件夹或其任意子文件夹中
+ */
+export type TriggerConditionOperator = 'contains' | 'equals' | 'glob' | 'regex' | 'inside';
+
+// 单条条件规则
+export interface TriggerConditionRule {
+  kind: 'rule';
+  field: TriggerConditionField;
+  operator: TriggerConditionOperator;
+  value: string;                // 匹配值；变更种类为 BookmarkChangeKind，文件夹为文件夹ID
+  negate?: boolean;             // 取反（NOT）
+}
+
+// 条件组：全部满足（AND）或任一满足（OR），可嵌套
+export interface TriggerConditionGroup {
+  kind: 'group';
+  logic: 'and' | 'or';
+  children: TriggerCondition[];
+  negate?: boolean;             // 取反（NOT）
+}
+
+export type TriggerCondition = TriggerConditionRule | TriggerConditionGroup;
+
 // 事件触发器接口
 export interface EventTrigger extends BaseTrigger {
   type: TriggerType.EVENT;
   event: EventType;             // 事件类型
-  conditions?: {                // 可选的条件过滤
+  condition?: TriggerCondition; // 条件表达式，设置后取代 conditions
+  conditions?: {                // 旧版条件过滤，匹配时转换为条件表达式
     url?: string;               // URL匹配模式
     title?: string;             // 标题匹配
     parentFolder?: string;      // 父文件夹ID (适用于书签事件)
     [key: string]: any;         // 其他条件过滤键值对
   };
+  debounceMinutes?: number;     // 静默期（分钟）：最后一次事件后等待该时长再合并执行一次，0 或不设置表示立即执行
   lastTriggered?: number;       // 上次触发时间戳
 }
 
+// 新建书签变更触发器的默认静默期（分钟）
+export const DEFAULT_EVENT_DEBOUNCE_MINUTES = 2;
+
 /**
  * 手动触发器接口
  * 用于需要用户手动执行的任务，例如选择性推送书签
@@ -53,8 +95,48 @@ export interface ManualTrigger extends BaseTrigger {
   description: string;  // 触发器描述
 }
 
+// 定时计划类型枚举
+export enum ScheduleType {
+  INTERVAL = 'interval', // 固定间隔
+  DAILY = 'daily',       // 每天指定时间
+  WEEKLY = 'weekly',     // 每周指定日期的指定时间
+  CRON = 'cron'          // 类 cron 表达式（分 时 日 月 周）
+}
+
+/**
+ * 定时触发器接口
+ * 由后台的 browser.alarms 驱动，nextRunAt 持久化在任务中，
+ * 浏览器关闭期间错过的执行会在下次启动时补跑一次。
+ */
+export interface ScheduleTrigger extends BaseTrigger {
+  type: TriggerType.SCHEDULE;
+  schedule: ScheduleType;       // 计划类型
+  intervalMinutes?: number;     // 间隔分钟数（INTERVAL）
+  time?: string;                // 执行时间 HH:mm（DAILY / WEEKLY）
+  daysOfWeek?: number[];        // 星期几，0 表示周日（WEEKLY）
+  cronExpression?: string;      // cron 表达式（CRON）
+  catchUpMissed?: boolean;      // 是否补跑错过的执行，默认 true
+  nextRunAt?: number;           // 下次执行时间戳（由 TriggerService 计算并持久化）
+  lastTriggered?: number;       // 上次触发时间戳
+}
+
+// 上游任务的哪种执行结果触发下游任务
+export type TaskCompletionCondition = 'success' | 'failure' | 'any';
+
+/**
+ * 任务完成触发器接口
+ * 上游任务执行完成并记录执行历史后，由 TaskExecutor 通知 TriggerService 触发，
+ * 保存任务时由 TaskService 检查依赖是否形成循环
+ */
+export interface TaskCompletedTrigger extends BaseTrigger {
+  type: TriggerType.TASK_COMPLETED;
+  upstreamTaskId: string;       // 上游任务ID
+  on: TaskCompletionCondition;  // 上游任务成功、失败或任意结果时触发
+  lastTriggered?: number;       // 上次触发时间戳
+}
+
 // 触发器联合类型
-export type Trigger = EventTrigger | ManualTrigger;
+export type Trigger = EventTrigger | ManualTrigger | ScheduleTrigger | TaskCompletedTrigger;
 
 // 任务操作类型枚举
 export enum ActionType {
@@ -74,20 +156,28 @@ export interface BaseAction {
 export interface BackupAction extends BaseAction {
   type: ActionType.BACKUP;
   operation: 'backup' | 'restore';  // 备份操作类型（上传/恢复）
-  target: 'github';          // 备份目标（目前仅支持GitHub）
+  target: StorageProviderType; // 备份存储位置
   options: {
     commitMessage?: string;  // 提交消息
     includeMetadata?: boolean; // 是否包含元数据
+    includeSettings?: boolean; // 是否同时备份配置（书签、配置与清单在同一次提交中写入）
     backupFilePath?: string;  // 用于恢复操作时指定备份文件路径
+    restoreStrategy?: 'replace' | 'merge'; // 恢复策略：覆盖（默认）或合并
+    removeAbsent?: boolean;   // 合并恢复时是否删除备份中不存在的书签
+    restoreRoots?: Array<'toolbar' | 'other' | 'mobile' | 'menu'>; // 要恢复的根目录，默认只恢复书签栏
+    restoreSelections?: BookmarkSelection[]; // 部分恢复：从备份中选中的文件夹/书签（执行时才选择）
+    restoreTargetFolderId?: string; // 部分恢复：恢复到的目标文件夹ID
+    owner?: string;           // 备份仓库所有者（用户或组织），留空时使用设置中的备份位置
   };
 }
 
 // 推送书签操作接口
 export interface PushAction extends BaseAction {
   type: ActionType.PUSH;
-  target: 'github';          // 推送目标（目前仅支持GitHub）
+  target: StorageProviderType; // 推送目标存储位置
   options: {
     repoName: string;        // 目标仓库名称，默认为 'menav'
+    owner?: string;          // 目标仓库所有者（用户或组织），留空时使用当前账号
     folderPath: string;      // 目标文件夹路径，默认为 'bookmarks'
     format: 'html';          // 书签格式（目前仅支持html）
     commitMessage?: string;  // 提交消息
@@ -113,9 +203,10 @@ export interface BookmarkSelection {
  */
 export interface SelectivePushAction extends BaseAction {
   type: ActionType.SELECTIVE_PUSH;
-  target: 'github';          // 推送目标（目前仅支持GitHub）
+  target: StorageProviderType; // 推送目标存储位置
   options: {
     repoName: string;        // 目标仓库名称
+    owner?: string;          // 目标仓库所有者（用户或组织），留空时使用当前账号
     folderPath: string;      // 目标文件夹路径
     format: 'html';          // 书签格式（目前仅支持html）
     commitMessage?: string;  // 提交消息
@@ -142,6 +233,26 @@ export interface OrganizeAction extends BaseAction {
 // 操作联合类型
 export type Action = BackupAction | OrganizeAction | PushAction | SelectivePushAction;
 
+/**
+ * 多步骤任务的后续步骤
+ * 任务的 action 是第一步，steps 在其之后按顺序执行
+ */
+export interface TaskStep {
+  id: string;               // 步骤唯一ID
+  action: Action;           // 步骤的操作
+  continueOnFailure?: boolean; // 本步骤失败后是否继续执行后续步骤
+}
+
+// 多步骤任务中单个步骤的执行结果
+export interface TaskStepResult {
+  index: number;            // 步骤序号，0 为任务的 action
+  actionType: ActionType;   // 步骤的操作类型
+  status: 'success' | 'failed' | 'skipped' | 'not_run'; // skipped：内容没有变化而跳过；not_run：因前序步骤失败未执行
+  details?: string;         // 执行详情
+  error?: string;           // 错误信息
+  duration?: number;        // 执行持续时间（毫秒）
+}
+
 // 任务执行结果接口
 export interface TaskExecutionResult {
   success: boolean;         // 执行是否成功
@@ -149,6 +260,69 @@ export interface TaskExecutionResult {
   duration?: number;        // 执行持续时间（毫秒）
   details?: string;         // 执行详情
   error?: string;           // 错误信息（如果失败）
+  skipped?: boolean;        // 内容没有变化而跳过了执行
+  steps?: TaskStepResult[]; // 多步骤任务各步骤的执行结果
+  retryAt?: number;         // 可重试的失败由执行队列重新执行的时间
+  logId?: string;           // 本次执行的结构化日志ID
+  dryRun?: boolean;         // 试运行：只计算计划的变更，没有修改书签
+  plannedChanges?: PlannedBookmarkChange[]; // 试运行计划的书签变更
+}
+
+// 试运行中计划的单个书签变更
+export interface PlannedBookmarkChange {
+  id?: string;              // 书签ID，新建的书签没有
+  title: string;            // 书签或文件夹标题
+  url?: string;             // 书签URL
+  isFolder?: boolean;       // 是否为文件夹
+  operation: string;        // 变更类型（move、delete、rename、validate、tag、create、remove）
+  current: string;          // 当前的位置或标题，新建时为空
+  planned: string;          // 计划的结果
+}
+
+// 执行日志级别
+export type TaskRunLogLevel = 'info' | 'warn' | 'error';
+
+// 执行日志中的一行
+export interface TaskRunLogLine {
+  time: number;             // 记录时间戳
+  level: TaskRunLogLevel;   // 日志级别
+  message: string;          // 日志内容
+  step?: number;            // 多步骤任务的步骤序号，0 为任务的 action
+}
+
+// 单个书签的处理结果
+export interface TaskRunItemResult {
+  id: string;               // 书签ID
+  title: string;            // 书签标题
+  url?: string;             // 书签URL
+  operation: string;        // 执行的操作（move、delete、rename、validate、tag）
+  status: 'success' | 'failed' | 'skipped'; // skipped：无需处理（如已有该标签）
+  reason?: string;          // 失败或跳过的原因
+}
+
+// 执行中写入存储位置的文件
+export interface TaskRunUpload {
+  provider: string;         // 存储位置名称
+  filePath?: string;        // 文件路径
+  fileUrl?: string;         // 文件查看地址
+  commitSha?: string;       // 提交 SHA（Git 类存储位置）
+  commitUrl?: string;       // 提交查看地址
+  bytes?: number;           // 上传的字节数
+}
+
+// 一次执行的结构化日志
+export interface TaskRunLog {
+  id: string;               // 日志ID，与执行结果的 logId 对应
+  taskId: string;           // 任务ID
+  taskName: string;         // 执行时的任务名称
+  startedAt: number;        // 开始时间戳
+  finishedAt: number;       // 结束时间戳
+  success: boolean;         // 执行是否成功
+  error?: string;           // 错误信息（如果失败）
+  lines: TaskRunLogLine[];  // 按时间排列的日志
+  items: TaskRunItemResult[]; // 各书签的处理结果
+  uploads: TaskRunUpload[]; // 写入的文件与提交
+  truncated?: boolean;      // 日志或书签结果超过上限，只保留了前面的部分
 }
 
 // 任务执行历史记录接口
@@ -166,7 +340,9 @@ export interface Task {
   createdAt: number;        // 创建时间戳
   updatedAt: number;        // 更新时间戳
   trigger: Trigger;         // 触发器
-  action: Action;           // 任务操作
+  action: Action;           // 任务操作（多步骤任务的第一步）
+  continueOnFailure?: boolean; // 第一步失败后是否继续执行后续步骤
+  steps?: TaskStep[];       // 后续步骤，为空时为单步骤任务
   history: TaskExecutionHistory; // 执行历史
 }
 
@@ -202,10 +378,102 @@ export const createEventTrigger = (eventType: EventType, conditions?: Record<str
     type: TriggerType.EVENT,
     enabled: true,
     event: eventType,
-    conditions
+    conditions,
+    // 书签变更通常成批发生（如导入书签），默认合并为一次执行
+    ...(eventType === EventType.BOOKMARK_CHANGED ? { debounceMinutes: DEFAULT_EVENT_DEBOUNCE_MINUTES } : {})
+  };
+};
+
+/**
+ * 创建条件规则工厂函数
+ * @param field 检查的字段，默认为 URL
+ * @returns 条件规则对象
+ */
+export const createConditionRule = (field: TriggerConditionField = 'url'): TriggerConditionRule => {
+  return {
+    kind: 'rule',
+    field,
+    operator: field === 'folder' ? 'inside' : field === 'changeKind' ? 'equals' : 'contains',
+    value: field === 'changeKind' ? 'created' : ''
   };
 };
 
+/**
+ * 创建条件组工厂函数
+ * @param logic 组合方式，默认为全部满足
+ * @returns 条件组对象
+ */
+export const createConditionGroup = (logic: 'and' | 'or' = 'and'): TriggerConditionGroup => {
+  return {
+    kind: 'group',
+    logic,
+    children: []
+  };
+};
+
+/**
+ * 创建任务完成触发器工厂函数
+ * @param upstreamTaskId 上游任务ID，默认为空（需要在表单中选择）
+ * @param on 触发条件，默认为上游任务成功后
+ * @returns 任务完成触发器对象
+ */
+export const createTaskCompletedTrigger = (
+  upstreamTaskId: string = '',
+  on: TaskCompletionCondition = 'success'
+): TaskCompletedTrigger => {
+  return {
+    type: TriggerType.TASK_COMPLETED,
+    enabled: true,
+    upstreamTaskId,
+    on
+  };
+};
+
+/**
+ * 创建任务步骤工厂函数
+ * @param action 步骤的操作，默认为备份
+ * @returns 任务步骤对象
+ */
+export const createTaskStep = (action: Action = createBackupAction('backup')): TaskStep => {
+  return {
+    id: `step_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    action
+  };
+};
+
+/**
+ * 获取任务按顺序执行的全部步骤，第一步为任务的 action
+ * @param task 任务对象
+ * @returns 步骤列表
+ */
+export const getTaskSteps = (task: Pick<Task, 'action' | 'continueOnFailure' | 'steps'>): TaskStep[] => {
+  return [
+    { id: 'action', action: task.action, continueOnFailure: task.continueOnFailure },
+    ...(task.steps || [])
+  ];
+};
+
+/**
+ * 操作能否作为后续步骤执行
+ * 恢复书签需要执行前确认、选择性推送需要执行时选择书签，只能作为任务的第一步
+ * @param action 步骤的操作
+ * @returns 是否允许
+ */
+export const isFollowUpStepAction = (action: Action): boolean => {
+  return action.type !== ActionType.SELECTIVE_PUSH &&
+    !(action.type === ActionType.BACKUP && (action as BackupAction).operation === 'restore');
+};
+
+/**
+ * 操作是否会修改本地书签，可以试运行预览计划的变更
+ * @param action 任务或步骤的操作
+ * @returns 整理与恢复书签返回 true
+ */
+export const isDryRunAction = (action: Action): boolean => {
+  return action.type === ActionType.ORGANIZE ||
+    (action.type === ActionType.BACKUP && (action as BackupAction).operation === 'restore');
+};
+
 /**
  * 创建手动触发器工厂函数
  * @param description 触发器描述，默认为'手动触发'
@@ -219,6 +487,24 @@ export const createManualTrigger = (description: string = '手动触发'): Manua
   };
 };
 
+/**
+ * 创建定时触发器工厂函数
+ * @param schedule 计划类型，默认为每天
+ * @returns 定时触发器对象（nextRunAt 由后台计算）
+ */
+export const createScheduleTrigger = (schedule: ScheduleType = ScheduleType.DAILY): ScheduleTrigger => {
+  return {
+    type: TriggerType.SCHEDULE,
+    enabled: true,
+    schedule,
+    intervalMinutes: 60,
+    time: '02:00',
+    daysOfWeek: [0],
+    cronExpression: '0 2 * * *',
+    catchUpMissed: true
+  };
+};
+
 // 创建备份操作工厂函数
 export const createBackupAction = (operation: 'backup' | 'restore' = 'backup'): BackupAction => {
   return {
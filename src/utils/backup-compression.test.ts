@@ -0,0 +1,46 @@
+import {
+  compressBackupContent,
+  decompressBackupContent,
+  hasBackupFileExtension,
+  isCompressedBackupContent,
+  isCompressedBackupFile,
+  readCompressedBackupFile
+} from './backup-compression';
+import { toBase64 } from './backup-crypto';
+
+describe('backup-compression 备份压缩', () => {
+  test('压缩后可还原原文，重复内容显著变小', async () => {
+    const content = JSON.stringify(
+      Array.from({ length: 200 }, (_, i) => ({ id: String(i), title: '示例书签', url: `https://example.com/${i}` })),
+      null,
+      2
+    );
+
+    const compressed = await compressBackupContent(content);
+
+    expect(compressed.length).toBeLessThan(content.length / 4);
+    await expect(decompressBackupContent(compressed)).resolves.toBe(content);
+  });
+
+  test('损坏的数据给出明确错误', async () => {
+    await expect(decompressBackupContent(btoa('not gzip'))).rejects.toThrow('解压备份失败');
+  });
+
+  test('读取 .json.gz 文件时区分 gzip 数据与加密信封', async () => {
+    const compressed = await compressBackupContent('{"bookmarks":[]}');
+    const envelope = '{"format":"marksvault-encrypted","data":"..."}';
+
+    expect(isCompressedBackupContent(compressed)).toBe(true);
+    expect(isCompressedBackupContent(envelope)).toBe(false);
+    await expect(readCompressedBackupFile(compressed)).resolves.toBe('{"bookmarks":[]}');
+    await expect(readCompressedBackupFile(toBase64(new TextEncoder().encode(envelope)))).resolves.toBe(envelope);
+  });
+
+  test('识别压缩备份扩展名', () => {
+    expect(isCompressedBackupFile('bookmarks_backup_20250101000000.json.gz')).toBe(true);
+    expect(isCompressedBackupFile('bookmarks_backup_20250101000000.json')).toBe(false);
+    expect(hasBackupFileExtension('bookmarks_delta_20250101000000.json.gz')).toBe(true);
+    expect(hasBackupFileExtension('bookmarks_backup_20250101000000.json')).toBe(true);
+    expect(hasBackupFileExtension('README.md')).toBe(false);
+  });
+});
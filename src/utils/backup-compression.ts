@@ -0,0 +1,100 @@
+/**
+ * 备份压缩工具
+ * 开启压缩后备份文件以 gzip 格式上传，并使用 .json.gz 扩展名与普通 JSON 备份区分；
+ * 压缩在加密之前进行：先压缩明文，开启加密时再加密压缩后的数据（密文几乎无法压缩），
+ * 此时文件内容为加密信封，解密后再解压。以前先加密后压缩的备份仍可读取
+ */
+
+import { fromBase64, toBase64 } from './backup-crypto';
+
+export const BACKUP_FILE_EXTENSION = '.json';
+export const COMPRESSED_BACKUP_FILE_EXTENSION = '.json.gz';
+
+/**
+ * 是否为 gzip 压缩的备份文件
+ */
+export const isCompressedBackupFile = (filename: string): boolean =>
+  filename.endsWith(COMPRESSED_BACKUP_FILE_EXTENSION);
+
+/**
+ * 是否带有备份文件扩展名（普通 JSON 或 gzip 压缩）
+ */
+export const hasBackupFileExtension = (filename: string): boolean =>
+  filename.endsWith(BACKUP_FILE_EXTENSION) || isCompressedBackupFile(filename);
+
+const transform = async (
+  bytes: BufferSource,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const writer = stream.writable.getWriter();
+  // 写入错误会同时体现在读取端，这里忽略以免产生未处理的 Promise 拒绝
+  writer.write(bytes).then(() => writer.close()).catch(() => undefined);
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * gzip 压缩备份内容
+ * @param content 备份文件内容
+ * @returns Base64 编码的 gzip 数据，可直接作为 GitHub 文件内容上传
+ */
+export const compressBackupContent = async (content: string): Promise<string> => {
+  const compressed = await transform(new TextEncoder().encode(content), new CompressionStream('gzip'));
+  return toBase64(compressed);
+};
+
+// gzip 数据以 1f 8b 开头
+const isGzipData = (bytes: Uint8Array): boolean => bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+/**
+ * 是否为 Base64 编码的 gzip 数据（先压缩后加密的备份解密后得到）
+ * @param content 备份内容
+ */
+export const isCompressedBackupContent = (content: string): boolean => {
+  try {
+    return isGzipData(fromBase64(content.slice(0, 4)));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 解压 gzip 备份内容
+ * @param base64Content Base64 编码的 gzip 数据
+ * @returns 备份文件内容
+ */
+export const decompressBackupContent = async (base64Content: string): Promise<string> => {
+  try {
+    const decompressed = await transform(fromBase64(base64Content), new DecompressionStream('gzip'));
+    return new TextDecoder().decode(decompressed);
+  } catch {
+    throw new Error('解压备份失败：备份文件已损坏');
+  }
+};
+
+/**
+ * 读取 .json.gz 备份文件的内容
+ * 未加密（或以前先加密后压缩）的备份为 gzip 数据，直接解压；先压缩后加密的备份为加密信封文本
+ * @param base64Content Base64 编码的文件内容
+ * @returns 备份文件内容或加密信封
+ */
+export const readCompressedBackupFile = async (base64Content: string): Promise<string> => {
+  const bytes = fromBase64(base64Content);
+  return isGzipData(bytes) ? decompressBackupContent(base64Content) : new TextDecoder().decode(bytes);
+};
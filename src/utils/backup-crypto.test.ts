@@ -0,0 +1,27 @@
+import { decryptBackupContent, encryptBackupContent, isEncryptedBackupContent } from './backup-crypto';
+
+describe('backup-crypto 备份加密', () => {
+  const plaintext = JSON.stringify({ timestamp: 1, bookmarks: [{ id: '1', title: '书签栏', isFolder: true }] });
+
+  test('加密后可用同一口令解密，每次加密使用不同的盐和初始向量', async () => {
+    const first = await encryptBackupContent(plaintext, 'passphrase');
+    const second = await encryptBackupContent(plaintext, 'passphrase');
+
+    expect(isEncryptedBackupContent(first)).toBe(true);
+    expect(first).not.toContain('书签栏');
+    expect(JSON.parse(first).kdf.salt).not.toBe(JSON.parse(second).kdf.salt);
+    await expect(decryptBackupContent(first, 'passphrase')).resolves.toBe(plaintext);
+  });
+
+  test('口令错误或缺失时给出明确错误', async () => {
+    const encrypted = await encryptBackupContent(plaintext, 'passphrase');
+
+    await expect(decryptBackupContent(encrypted, 'wrong')).rejects.toThrow('加密口令错误');
+    await expect(decryptBackupContent(encrypted, null)).rejects.toThrow('请先在设置中填写加密口令');
+  });
+
+  test('未加密的旧备份原样返回', async () => {
+    expect(isEncryptedBackupContent(plaintext)).toBe(false);
+    await expect(decryptBackupContent(plaintext)).resolves.toBe(plaintext);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * 备份客户端加密工具
+ * 使用 WebCrypto 的 PBKDF2 从口令派生 AES-GCM 密钥，备份内容在上传前加密，
+ * 加密结果封装为带版本号的 JSON 信封；读取时未加密的旧备份原样返回
+ */
+
+import { EncryptedBackupEnvelope } from '../types/backup';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'marksvault-encrypted';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+// 信封的 format 字段位于开头，只检查前若干字符即可判断，避免对大文件重复解析
+const FORMAT_PROBE_LENGTH = 200;
+
+/**
+ * 将二进制数据编码为 Base64
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // 分块转换，避免大文件展开参数时栈溢出
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * 将 Base64 解码为二进制数据
+ */
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * 解析加密信封，内容不是加密备份时返回 null
+ */
+export const parseEncryptedBackup = (content: string): EncryptedBackupEnvelope | null => {
+  if (!content.slice(0, FORMAT_PROBE_LENGTH).includes(ENCRYPTED_BACKUP_FORMAT)) {
+    return null;
+  }
+
+  try {
+    const envelope = JSON.parse(content);
+    if (envelope?.format === ENCRYPTED_BACKUP_FORMAT && typeof envelope.data === 'string') {
+      return envelope as EncryptedBackupEnvelope;
+    }
+  } catch {
+    // 不是合法 JSON，按未加密内容处理
+  }
+  return null;
+};
+
+/**
+ * 判断备份文件内容是否已加密
+ */
+export const isEncryptedBackupContent = (content: string): boolean =>
+  parseEncryptedBackup(content) !== null;
+
+/**
+ * 用口令加密备份内容
+ * @param plaintext 备份文件原文
+ * @param passphrase 加密口令
+ * @returns 加密信封的 JSON 字符串
+ */
+export const encryptBackupContent = async (plaintext: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  const envelope: EncryptedBackupEnvelope = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: ENVELOPE_VERSION,
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt)
+    },
+    cipher: {
+      name: 'AES-GCM',
+      iv: toBase64(iv)
+    },
+    data: toBase64(new Uint8Array(ciphertext))
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+/**
+ * 解密备份内容，未加密的旧备份原样返回
+ * @param content 备份文件内容
+ * @param passphrase 加密口令
+ * @returns 备份文件原文
+ */
+export const decryptBackupContent = async (content: string, passphrase?: string | null): Promise<string> => {
+  const envelope = parseEncryptedBackup(content);
+  if (!envelope) {
+    return content;
+  }
+
+  if (envelope.version > ENVELOPE_VERSION) {
+    throw new Error(`不支持的加密备份版本: ${envelope.version}，请升级扩展后重试`);
+  }
+  if (!passphrase) {
+    throw new Error('备份已加密，请先在设置中填写加密口令');
+  }
+
+  try {
+    const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) },
+      key,
+      fromBase64(envelope.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('解密备份失败：加密口令错误或备份文件已损坏');
+  }
+};
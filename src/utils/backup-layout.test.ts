@@ -0,0 +1,38 @@
+import {
+  DEFAULT_BACKUP_LAYOUT,
+  getBackupFolder,
+  getBackupManifestPath,
+  resolveBackupLayout,
+  validateBackupPathTemplate
+} from './backup-layout';
+
+describe('backup-layout 备份文件布局', () => {
+  test('默认布局与早期版本的目录结构一致', () => {
+    expect(getBackupFolder(DEFAULT_BACKUP_LAYOUT, 'bookmarks')).toBe('bookmarks');
+    expect(getBackupFolder(DEFAULT_BACKUP_LAYOUT, 'settings')).toBe('settings');
+    expect(getBackupManifestPath(DEFAULT_BACKUP_LAYOUT)).toBe('manifest.json');
+    expect(resolveBackupLayout({ maxBackupsPerType: 10 })).toEqual(DEFAULT_BACKUP_LAYOUT);
+  });
+
+  test('按设备名称与类型展开路径模板，清单放在公共上级目录', () => {
+    const layout = resolveBackupLayout({
+      maxBackupsPerType: 10,
+      pathTemplate: ' backups/{device}/{type}/{timestamp} ',
+      deviceName: 'work/laptop'
+    });
+
+    expect(layout.device).toBe('work-laptop');
+    expect(getBackupFolder(layout, 'bookmarks')).toBe('backups/work-laptop/bookmarks');
+    expect(getBackupManifestPath(layout)).toBe('backups/work-laptop/manifest.json');
+    expect(getBackupManifestPath({ pathTemplate: '{type}/{device}/{timestamp}', device: 'pc' })).toBe('manifest.json');
+  });
+
+  test('拒绝无法定位备份文件的路径模板', () => {
+    expect(validateBackupPathTemplate('{device}/{type}/{timestamp}')).toBeNull();
+    expect(validateBackupPathTemplate('{type}/{timestamp}/latest')).toContain('最后一段');
+    expect(validateBackupPathTemplate('{type}//{timestamp}')).toContain('空的层级');
+    expect(validateBackupPathTemplate('../{type}/{timestamp}')).toContain('..');
+    expect(validateBackupPathTemplate('{user}/{timestamp}')).toBe('不支持的变量: {user}');
+    expect(() => resolveBackupLayout({ maxBackupsPerType: 10, pathTemplate: '{type}' })).toThrow('备份路径模板无效');
+  });
+});
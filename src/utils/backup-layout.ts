@@ -0,0 +1,97 @@
+/**
+ * 备份文件布局
+ * 路径模板描述备份文件在仓库中的位置，最后一段必须是 {timestamp}，代表带时间戳的备份文件名
+ * （如 bookmarks_backup_20250101120000.json）；默认模板 {type}/{timestamp} 与早期版本的目录结构一致
+ */
+
+import { UserSettings } from './storage-service';
+
+export const DEFAULT_BACKUP_PATH_TEMPLATE = '{type}/{timestamp}';
+export const DEFAULT_DEVICE_NAME = 'default';
+
+// 清单文件名，位于书签与配置备份文件夹的公共上级目录
+const BACKUP_MANIFEST_FILE = 'manifest.json';
+
+const SUPPORTED_VARIABLES = ['{device}', '{type}', '{timestamp}'];
+
+export interface BackupLayout {
+  pathTemplate: string;
+  device: string;
+}
+
+export const DEFAULT_BACKUP_LAYOUT: BackupLayout = {
+  pathTemplate: DEFAULT_BACKUP_PATH_TEMPLATE,
+  device: DEFAULT_DEVICE_NAME
+};
+
+/**
+ * 校验路径模板
+ * @returns 错误信息，模板有效时返回 null
+ */
+export const validateBackupPathTemplate = (template: string): string | null => {
+  const segments = template.trim().split('/');
+  if (segments.some(segment => !segment.trim())) {
+    return '路径模板中不能有空的层级';
+  }
+  if (segments.some(segment => segment === '.' || segment === '..')) {
+    return '路径模板中不能包含 . 或 ..';
+  }
+  if (segments[segments.length - 1] !== '{timestamp}') {
+    return '路径模板的最后一段必须是 {timestamp}';
+  }
+  if (segments.slice(0, -1).some(segment => segment.includes('{timestamp}'))) {
+    return '{timestamp} 只能出现在最后一段';
+  }
+
+  const unknown = (template.match(/\{[^}]*\}/g) || []).find(variable => !SUPPORTED_VARIABLES.includes(variable));
+  return unknown ? `不支持的变量: ${unknown}` : null;
+};
+
+/**
+ * 根据备份设置得到备份文件布局，模板无效时抛出错误
+ */
+export const resolveBackupLayout = (settings?: UserSettings['backup']): BackupLayout => {
+  const pathTemplate = settings?.pathTemplate?.trim() || DEFAULT_BACKUP_PATH_TEMPLATE;
+  const error = validateBackupPathTemplate(pathTemplate);
+  if (error) {
+    throw new Error(`备份路径模板无效: ${error}`);
+  }
+
+  return {
+    pathTemplate,
+    // 设备名称作为单个路径层级使用，不能包含斜杠
+    device: settings?.deviceName?.trim().replace(/[\\/]+/g, '-') || DEFAULT_DEVICE_NAME
+  };
+};
+
+/**
+ * 拼接文件夹与文件名，文件夹为空时表示仓库根目录
+ */
+export const joinBackupPath = (folder: string, name: string): string =>
+  folder ? `${folder}/${name}` : name;
+
+/**
+ * 获取指定类型备份文件所在的文件夹
+ * @param type 备份类型（bookmarks 或 settings）
+ */
+export const getBackupFolder = (layout: BackupLayout, type: string): string =>
+  layout.pathTemplate
+    .split('/')
+    .slice(0, -1)
+    .join('/')
+    .replace(/\{type\}/g, type)
+    .replace(/\{device\}/g, layout.device);
+
+/**
+ * 获取清单文件路径：书签与配置备份文件夹的公共上级目录下的 manifest.json
+ */
+export const getBackupManifestPath = (layout: BackupLayout): string => {
+  const bookmarksSegments = getBackupFolder(layout, 'bookmarks').split('/');
+  const settingsSegments = getBackupFolder(layout, 'settings').split('/');
+
+  const common: string[] = [];
+  for (let i = 0; i < bookmarksSegments.length && bookmarksSegments[i] === settingsSegments[i]; i++) {
+    common.push(bookmarksSegments[i]);
+  }
+  return joinBackupPath(common.join('/'), BACKUP_MANIFEST_FILE);
+};
@@ -0,0 +1,62 @@
+import { DEFAULT_GFS_RETENTION, RetentionCandidate, resolveGfsRetention, selectBackupsToDelete } from './backup-retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date(2025, 5, 30, 12, 0, 0).getTime();
+
+const backup = (daysAgo: number, incremental = false): RetentionCandidate => ({
+  path: `bookmarks/${incremental ? 'delta' : 'backup'}_${daysAgo}`,
+  timestamp: now - daysAgo * DAY_MS,
+  incremental
+});
+
+describe('backup-retention 备份保留策略', () => {
+  test('GFS 策略保留最近全部备份，更早的按天、按周、按月各保留一个', () => {
+    const candidates = [
+      backup(1), backup(1.2), // 全部保留
+      backup(10), backup(10.1), // 同一天只保留较新的一个
+      backup(60), backup(61), // 同一周只保留一个
+      backup(200), backup(240), backup(400) // 每月一个，永久保留
+    ];
+
+    const deleted = selectBackupsToDelete(candidates, { mode: 'gfs', maxBackups: 0, gfs: DEFAULT_GFS_RETENTION, now });
+
+    expect(deleted.map(item => item.path)).toEqual(['bookmarks/backup_10.1', 'bookmarks/backup_61']);
+  });
+
+  test('同一天中优先保留完整备份，保留的增量备份连带保留其检查点', () => {
+    const candidates = [
+      backup(20.1, true), backup(20.2), backup(20.3, true),
+      backup(21.1, true), backup(21.2, true), backup(21.3)
+    ];
+
+    const deleted = selectBackupsToDelete(candidates, {
+      mode: 'gfs',
+      maxBackups: 0,
+      gfs: { ...DEFAULT_GFS_RETENTION, keepAllDays: 0 },
+      now
+    });
+
+    // 最新的增量备份始终保留，因此 20.2 的检查点也被保留；21 日保留完整备份 21.3
+    expect(deleted.map(item => item.path)).toEqual([
+      'bookmarks/delta_20.3', 'bookmarks/delta_21.1', 'bookmarks/delta_21.2'
+    ]);
+  });
+
+  test('固定的备份在任何策略下都不会被删除，未设置的参数使用默认值', () => {
+    const candidates = [backup(1), backup(2), backup(3), backup(500)];
+
+    expect(selectBackupsToDelete(candidates, { mode: 'count', maxBackups: 1, pinned: ['bookmarks/backup_3'] })
+      .map(item => item.path)).toEqual(['bookmarks/backup_2', 'bookmarks/backup_500']);
+    expect(selectBackupsToDelete(candidates, {
+      mode: 'gfs',
+      maxBackups: 0,
+      gfs: { ...DEFAULT_GFS_RETENTION, monthlyMonths: 12 },
+      pinned: ['bookmarks/backup_500'],
+      now
+    })).toEqual([]);
+    expect(resolveGfsRetention({ maxBackupsPerType: 10, gfs: { keepAllDays: 3, dailyDays: -1 } })).toEqual({
+      ...DEFAULT_GFS_RETENTION,
+      keepAllDays: 3
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * 备份保留策略
+ * count：只保留最新的 N 个备份；gfs：按时间分层保留（祖父-父-子轮换），
+ * 最近几天的备份全部保留，更早的备份按天、按周、按月各保留一个
+ * 两种策略都不会删除已固定的备份，也不会删除被保留的增量备份所依赖的检查点和中间增量
+ */
+
+import { UserSettings } from './storage-service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GfsRetentionPolicy {
+  keepAllDays: number; // 最近多少天内的备份全部保留
+  dailyDays: number; // 多少天内每天保留一个
+  weeklyDays: number; // 多少天内每周保留一个
+  monthlyMonths: number; // 多少个月内每月保留一个，0 表示永久保留
+}
+
+export const DEFAULT_GFS_RETENTION: GfsRetentionPolicy = {
+  keepAllDays: 7,
+  dailyDays: 30,
+  weeklyDays: 90,
+  monthlyMonths: 0
+};
+
+// 参与保留策略计算的备份文件
+export interface RetentionCandidate {
+  path: string;
+  timestamp: number; // 文件名中的备份时间，无法解析时为 0
+  incremental: boolean; // 是否为增量备份
+}
+
+/**
+ * 根据备份设置得到 GFS 保留策略，未设置的项使用默认值
+ */
+export const resolveGfsRetention = (settings?: UserSettings['backup']): GfsRetentionPolicy => {
+  const value = (key: keyof GfsRetentionPolicy): number => {
+    const configured = settings?.gfs?.[key];
+    return typeof configured === 'number' && configured >= 0 ? Math.floor(configured) : DEFAULT_GFS_RETENTION[key];
+  };
+
+  return {
+    keepAllDays: value('keepAllDays'),
+    dailyDays: value('dailyDays'),
+    weeklyDays: value('weeklyDays'),
+    monthlyMonths: value('monthlyMonths')
+  };
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const dayKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// 以所在周的周一作为分组键
+const weekKey = (date: Date): string => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(monday);
+};
+
+const monthKey = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+
+/**
+ * 按 GFS 策略选出要保留的备份下标（candidates 已按时间从新到旧排序）
+ * 同一天/周/月中优先保留最新的完整备份，避免为了保留一个增量备份而连带保留整条增量链
+ */
+const selectGfsKept = (candidates: RetentionCandidate[], policy: GfsRetentionPolicy, now: number): Set<number> => {
+  const kept = new Set<number>();
+  const tiers = [
+    { maxAge: policy.dailyDays * DAY_MS, key: dayKey, chosen: new Map<string, number>() },
+    { maxAge: policy.weeklyDays * DAY_MS, key: weekKey, chosen: new Map<string, number>() },
+    { maxAge: policy.monthlyMonths > 0 ? policy.monthlyMonths * 31 * DAY_MS : Infinity, key: monthKey, chosen: new Map<string, number>() }
+  ];
+
+  candidates.forEach((candidate, index) => {
+    const age = now - candidate.timestamp;
+    // 无法识别时间的文件和最近的备份全部保留
+    if (!candidate.timestamp || age < policy.keepAllDays * DAY_MS) {
+      kept.add(index);
+      return;
+    }
+
+    const tier = tiers.find(item => age < item.maxAge);
+    if (!tier) return;
+
+    const key = tier.key(new Date(candidate.timestamp));
+    const chosen = tier.chosen.get(key);
+    if (chosen === undefined || (candidates[chosen].incremental && !candidate.incremental)) {
+      tier.chosen.set(key, index);
+    }
+  });
+
+  tiers.forEach(tier => tier.chosen.forEach(index => kept.add(index)));
+  return kept;
+};
+
+/**
+ * 计算需要删除的旧备份
+ * @param candidates 同一文件夹中的备份文件
+ * @param options.mode 保留策略
+ * @param options.maxBackups count 策略下保留的数量，0 表示不限制
+ * @param options.gfs gfs 策略的参数
+ * @param options.pinned 已固定、永不删除的备份路径
+ * @param options.now 当前时间
+ * @returns 要删除的文件，按时间从新到旧排列
+ */
+export const selectBackupsToDelete = (
+  candidates: RetentionCandidate[],
+  options: {
+    mode: 'count' | 'gfs';
+    maxBackups: number;
+    gfs?: GfsRetentionPolicy;
+    pinned?: string[];
+    now?: number;
+  }
+): RetentionCandidate[] => {
+  if (options.mode === 'count' && options.maxBackups <= 0) {
+    return [];
+  }
+
+  const sorted = [...candidates].sort((a, b) => b.timestamp - a.timestamp);
+  const kept = options.mode === 'gfs'
+    ? selectGfsKept(sorted, options.gfs || DEFAULT_GFS_RETENTION, options.now ?? Date.now())
+    : new Set(sorted.slice(0, options.maxBackups).map((_, index) => index));
+
+  // 最新的备份与固定的备份始终保留
+  if (sorted.length > 0) {
+    kept.add(0);
+  }
+  const pinned = new Set(options.pinned || []);
+  sorted.forEach((candidate, index) => {
+    if (pinned.has(candidate.path)) {
+      kept.add(index);
+    }
+  });
+
+  // 保留的增量备份需要一并保留它之前的中间增量与检查点
+  for (let index = 0; index < sorted.length - 1; index++) {
+    if (kept.has(index) && sorted[index].incremental) {
+      kept.add(index + 1);
+    }
+  }
+
+  return sorted.filter((_, index) => !kept.has(index));
+};
@@ -0,0 +1,88 @@
+import { BookmarkItem } from './bookmark-service';
+import { compareBookmarkTrees, filterChangedNodes } from './bookmark-compare';
+
+describe('bookmark-compare 恢复预览对比', () => {
+  const bookmark = (id: string, title: string, url: string): BookmarkItem => ({
+    id,
+    title,
+    url,
+    isFolder: false
+  });
+
+  const folder = (id: string, title: string, children: BookmarkItem[]): BookmarkItem => ({
+    id,
+    title,
+    isFolder: true,
+    children
+  });
+
+  const current: BookmarkItem[] = [
+    bookmark('1', 'Example', 'https://example.com'),
+    folder('2', '工作', [
+      bookmark('3', 'Docs', 'https://docs.example.com'),
+      bookmark('4', 'Wiki', 'https://wiki.example.com')
+    ]),
+    bookmark('5', 'News', 'https://news.example.com'),
+    folder('6', '临时', [bookmark('7', 'Tmp', 'https://tmp.example.com')])
+  ];
+
+  test('ID 不同但内容相同时视为未变化', () => {
+    const target: BookmarkItem[] = [
+      bookmark('a', 'Example', 'https://example.com'),
+      folder('b', '工作', [
+        bookmark('c', 'Docs', 'https://docs.example.com'),
+        bookmark('d', 'Wiki', 'https://wiki.example.com')
+      ]),
+      bookmark('e', 'News', 'https://news.example.com'),
+      folder('f', '临时', [bookmark('g', 'Tmp', 'https://tmp.example.com')])
+    ];
+
+    const { summary } = compareBookmarkTrees(current, target);
+
+    expect(summary).toEqual({ added: 0, removed: 0, moved: 0, renamed: 0, unchanged: 7 });
+  });
+
+  test('识别新增、删除、移动与重命名', () => {
+    const target: BookmarkItem[] = [
+      bookmark('a', 'Example 首页', 'https://example.com'),
+      folder('b', '工作项目', [
+        bookmark('c', 'Docs', 'https://docs.example.com'),
+        bookmark('d', 'Wiki', 'https://wiki.example.com'),
+        bookmark('e', 'News', 'https://news.example.com')
+      ]),
+      bookmark('f', 'New', 'https://new.example.com')
+    ];
+
+    const { nodes, summary } = compareBookmarkTrees(current, target);
+
+    expect(summary).toEqual({ added: 1, removed: 2, moved: 1, renamed: 2, unchanged: 2 });
+    expect(nodes[0]).toMatchObject({ change: 'renamed', previousTitle: 'Example' });
+    // 文件夹重命名后，子书签仍按原文件夹匹配
+    expect(nodes[1]).toMatchObject({ change: 'renamed', previousTitle: '工作' });
+    expect(nodes[1].children?.map(node => node.change)).toEqual(['unchanged', 'unchanged', 'moved']);
+    expect(nodes[1].children?.[2].previousPath).toBe('/');
+    expect(nodes[2]).toMatchObject({ title: 'New', change: 'added' });
+    // 被删除的文件夹连同子项挂在原位置
+    expect(nodes[3]).toMatchObject({ title: '临时', change: 'removed' });
+    expect(nodes[3].children?.[0]).toMatchObject({ title: 'Tmp', change: 'removed' });
+  });
+
+  test('仅显示变化时保留变化项所在的文件夹', () => {
+    const target: BookmarkItem[] = [
+      bookmark('a', 'Example', 'https://example.com'),
+      folder('b', '工作', [
+        bookmark('c', 'Docs', 'https://docs.example.com')
+      ]),
+      bookmark('e', 'News', 'https://news.example.com'),
+      folder('f', '临时', [bookmark('g', 'Tmp', 'https://tmp.example.com')])
+    ];
+
+    const changed = filterChangedNodes(compareBookmarkTrees(current, target).nodes);
+
+    expect(changed).toHaveLength(1);
+    expect(changed[0]).toMatchObject({ title: '工作', change: 'unchanged' });
+    expect(changed[0].children).toEqual([
+      expect.objectContaining({ title: 'Wiki', change: 'removed' })
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * 书签内容对比工具
+ * 按内容（URL、文件夹标题与位置）而不是ID对比两棵书签树，
+ * 用于恢复前预览：备份可能来自其他设备，或恢复后书签ID已全部变化
+ */
+
+import { RestoreChangeKind, RestorePreview, RestorePreviewNode } from '../types/backup';
+import { BookmarkItem } from './bookmark-service';
+import { PlannedBookmarkChange } from '../types/task';
+
+// 顶层节点使用的父级键
+const ROOT_KEY = '';
+
+// 文件夹内书签 URL 重合度达到该比例时，视为同一个文件夹（重命名或移动）
+const FOLDER_OVERLAP_THRESHOLD = 0.5;
+
+interface CurrentEntry {
+  node: BookmarkItem;
+  parentKey: string;
+  path: string;
+  urls: Set<string>;
+  matched: boolean;
+}
+
+const emptySummary = (): Record<RestoreChangeKind, number> => ({
+  added: 0,
+  removed: 0,
+  moved: 0,
+  renamed: 0,
+  unchanged: 0
+});
+
+const joinPath = (parentPath: string, title: string): string =>
+  parentPath ? `${parentPath} / ${title}` : title;
+
+/**
+ * 收集文件夹子树中的全部书签 URL
+ */
+const collectUrls = (items: BookmarkItem[] = [], urls: Set<string> = new Set()): Set<string> => {
+  for (const item of items) {
+    if (item.isFolder) {
+      collectUrls(item.children, urls);
+    } else if (item.url) {
+      urls.add(item.url);
+    }
+  }
+  return urls;
+};
+
+const overlapRatio = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let common = 0;
+  a.forEach(url => {
+    if (b.has(url)) common++;
+  });
+  return common / Math.max(a.size, b.size);
+};
+
+/**
+ * 对比当前书签与恢复目标
+ * @param current 当前浏览器中的书签（书签栏子节点）
+ * @param target 恢复后的书签（备份中的书签栏子节点）
+ * @returns 以恢复目标为主体、附带被删除项的差异树及统计
+ */
+export const compareBookmarkTrees = (
+  current: BookmarkItem[],
+  target: BookmarkItem[]
+): Pick<RestorePreview, 'nodes' | 'summary'> => {
+  // 1. 索引当前书签
+  const entries = new Map<string, CurrentEntry>();
+  const childrenByParent = new Map<string, CurrentEntry[]>();
+  const bookmarksByUrl = new Map<string, CurrentEntry[]>();
+  const folders: CurrentEntry[] = [];
+
+  const indexCurrent = (items: BookmarkItem[], parentKey: string, parentPath: string) => {
+    const siblings: CurrentEntry[] = [];
+    for (const node of items) {
+      const entry: CurrentEntry = {
+        node,
+        parentKey,
+        path: parentPath,
+        urls: node.isFolder ? collectUrls(node.children) : new Set(),
+        matched: false
+      };
+      entries.set(node.id, entry);
+      siblings.push(entry);
+
+      if (node.isFolder) {
+        folders.push(entry);
+        indexCurrent(node.children || [], node.id, joinPath(parentPath, node.title));
+      } else if (node.url) {
+        bookmarksByUrl.set(node.url, [...(bookmarksByUrl.get(node.url) || []), entry]);
+      }
+    }
+    childrenByParent.set(parentKey, siblings);
+  };
+  indexCurrent(current, ROOT_KEY, '');
+
+  // 2. 以恢复目标为主体逐层匹配；parentKey 为已匹配的当前文件夹ID，父级为新增文件夹时为 null
+  const previewFolders = new Map<string, RestorePreviewNode[]>();
+  let keySeq = 0;
+
+  const matchFolder = (item: BookmarkItem, parentKey: string | null): CurrentEntry | undefined => {
+    const siblings = parentKey === null
+      ? []
+      : (childrenByParent.get(parentKey) || []).filter(entry => entry.node.isFolder && !entry.matched);
+    const urls = collectUrls(item.children);
+
+    return siblings.find(entry => entry.node.title === item.title)
+      || siblings.find(entry => overlapRatio(entry.urls, urls) >= FOLDER_OVERLAP_THRESHOLD)
+      || folders.find(entry => !entry.matched
+        && entry.node.title === item.title
+        && overlapRatio(entry.urls, urls) >= FOLDER_OVERLAP_THRESHOLD);
+  };
+
+  const matchBookmark = (item: BookmarkItem, parentKey: string | null): CurrentEntry | undefined => {
+    const candidates = (bookmarksByUrl.get(item.url || '') || []).filter(entry => !entry.matched);
+    return candidates.find(entry => entry.parentKey === parentKey && entry.node.title === item.title)
+      || candidates.find(entry => entry.parentKey === parentKey)
+      || candidates.find(entry => entry.node.title === item.title)
+      || candidates[0];
+  };
+
+  const visit = (items: BookmarkItem[], parentKey: string | null): RestorePreviewNode[] => {
+    const result: RestorePreviewNode[] = [];
+
+    for (const item of items) {
+      const match = item.isFolder ? matchFolder(item, parentKey) : matchBookmark(item, parentKey);
+      const node: RestorePreviewNode = {
+        key: `target-${item.id}-${keySeq++}`,
+        title: item.title,
+        url: item.url,
+        isFolder: item.isFolder,
+        change: 'added'
+      };
+
+      if (match) {
+        match.matched = true;
+        if (match.parentKey !== parentKey) {
+          node.change = 'moved';
+          node.previousPath = match.path || '/';
+        } else {
+          node.change = match.node.title === item.title ? 'unchanged' : 'renamed';
+        }
+        if (match.node.title !== item.title) {
+          node.previousTitle = match.node.title;
+        }
+      }
+
+      if (item.isFolder) {
+        node.children = visit(item.children || [], match ? match.node.id : null);
+        if (match) {
+          previewFolders.set(match.node.id, node.children);
+        }
+      }
+
+      result.push(node);
+    }
+
+    return result;
+  };
+
+  const nodes = visit(target, ROOT_KEY);
+  previewFolders.set(ROOT_KEY, nodes);
+
+  // 3. 未匹配的当前书签会在恢复后被删除：挂到其父文件夹在预览树中的位置
+  const toRemovedNode = (entry: CurrentEntry): RestorePreviewNode => ({
+    key: `current-${entry.node.id}`,
+    title: entry.node.title,
+    url: entry.node.url,
+    isFolder: entry.node.isFolder,
+    change: 'removed',
+    children: entry.node.isFolder
+      ? (childrenByParent.get(entry.node.id) || []).filter(child => !child.matched).map(toRemovedNode)
+      : undefined
+  });
+
+  entries.forEach(entry => {
+    if (entry.matched) return;
+    const container = previewFolders.get(entry.parentKey);
+    // 父文件夹同样被删除时，已包含在父文件夹的删除子树中
+    if (container) {
+      container.push(toRemovedNode(entry));
+    }
+  });
+
+  // 4. 统计
+  const summary = emptySummary();
+  const count = (items: RestorePreviewNode[]) => {
+    for (const item of items) {
+      summary[item.change]++;
+      if (item.children) count(item.children);
+    }
+  };
+  count(nodes);
+
+  return { nodes, summary };
+};
+
+/**
+ * 只保留有变化的节点（及其所在的文件夹），用于“仅显示变化”视图
+ */
+export const filterChangedNodes = (nodes: RestorePreviewNode[]): RestorePreviewNode[] =>
+  nodes.reduce<RestorePreviewNode[]>((result, node) => {
+    const children = node.children ? filterChangedNodes(node.children) : undefined;
+    if (node.change !== 'unchanged' || (children && children.length > 0)) {
+      result.push({ ...node, children });
+    }
+    return result;
+  }, []);
+
+/**
+ * 把差异树展开为计划的书签变更列表，用于恢复任务的试运行
+ * @param nodes 差异树
+ * @param parentPath 差异树顶层所在的文件夹路径
+ */
+export const toPlannedChanges = (nodes: RestorePreviewNode[], parentPath: string = ''): PlannedBookmarkChange[] =>
+  nodes.flatMap(node => {
+    const base = { title: node.title, url: node.url, isFolder: node.isFolder || undefined };
+    const location = parentPath || '/';
+    const changes: PlannedBookmarkChange[] = [];
+    switch (node.change) {
+      case 'added':
+        changes.push({ ...base, operation: 'create', current: '', planned: `新建于 ${location}` });
+        break;
+      case 'removed':
+        changes.push({ ...base, operation: 'remove', current: location, planned: '删除' });
+        break;
+      case 'moved':
+        changes.push({ ...base, operation: 'move', current: node.previousPath || '/', planned: `移动到 ${location}` });
+        break;
+      case 'renamed':
+        changes.push({ ...base, operation: 'rename', current: node.previousTitle || '', planned: `重命名为 "${node.title}"` });
+        break;
+    }
+    return [...changes, ...toPlannedChanges(node.children || [], joinPath(parentPath, node.title))];
+  });
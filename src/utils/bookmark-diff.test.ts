@@ -0,0 +1,129 @@
+import { BookmarkItem } from './bookmark-service';
+import { applyBookmarkDiff, diffBookmarkTrees, isBookmarkDiffEmpty } from './bookmark-diff';
+
+describe('bookmark-diff 书签树差异', () => {
+  const bookmark = (id: string, title: string, url: string): BookmarkItem => ({
+    id,
+    title,
+    url,
+    isFolder: false
+  });
+
+  const folder = (id: string, title: string, children: BookmarkItem[]): BookmarkItem => ({
+    id,
+    title,
+    isFolder: true,
+    children
+  });
+
+  const previous: BookmarkItem[] = [
+    folder('0', '', [
+      folder('1', '书签栏', [
+        bookmark('10', 'Example', 'https://example.com'),
+        folder('11', '工作', [
+          bookmark('110', 'Docs', 'https://docs.example.com'),
+          bookmark('111', 'Old', 'https://old.example.com')
+        ]),
+        bookmark('12', 'News', 'https://news.example.com')
+      ]),
+      folder('2', '其他书签', [])
+    ])
+  ];
+
+  // 只比较结构与内容，忽略由位置推导出的 parentId/index
+  const strip = (items: BookmarkItem[]): unknown[] => items.map(item => ({
+    id: item.id,
+    title: item.title,
+    url: item.url,
+    children: item.isFolder ? strip(item.children || []) : undefined
+  }));
+
+  test('相同的书签树没有差异', () => {
+    const diff = diffBookmarkTrees(previous, JSON.parse(JSON.stringify(previous)));
+    expect(isBookmarkDiffEmpty(diff)).toBe(true);
+  });
+
+  test('识别新增、删除、移动、重命名与排序', () => {
+    const current: BookmarkItem[] = [
+      folder('0', '', [
+        folder('1', '书签栏', [
+          bookmark('12', 'News', 'https://news.example.com'),
+          bookmark('10', 'Example (new)', 'https://example.com'),
+          folder('13', '新文件夹', [bookmark('130', 'New', 'https://new.example.com')])
+        ]),
+        folder('2', '其他书签', [
+          folder('11', '工作', [bookmark('110', 'Docs', 'https://docs.example.com')])
+        ])
+      ])
+    ];
+
+    const diff = diffBookmarkTrees(previous, current);
+
+    expect(diff.added.map(item => item.id)).toEqual(['13', '130']);
+    expect(diff.removed.map(item => item.id)).toEqual(['111']);
+    expect(diff.moved).toEqual([{ id: '11', title: '工作', fromParentId: '1', toParentId: '2' }]);
+    expect(diff.updated).toEqual([
+      expect.objectContaining({ id: '10', title: 'Example (new)', previousTitle: 'Example' })
+    ]);
+    expect(Object.keys(diff.order).sort()).toEqual(['1', '11', '13', '2']);
+  });
+
+  test('删除文件夹时只记录最外层节点', () => {
+    const current: BookmarkItem[] = [
+      folder('0', '', [
+        folder('1', '书签栏', [bookmark('10', 'Example', 'https://example.com')]),
+        folder('2', '其他书签', [])
+      ])
+    ];
+
+    const diff = diffBookmarkTrees(previous, current);
+
+    expect(diff.removed.map(item => item.id)).toEqual(['11', '12']);
+  });
+
+  test('回放差异可以还原出新的书签树', () => {
+    const current: BookmarkItem[] = [
+      folder('0', '', [
+        folder('1', '书签栏', [
+          folder('13', '新文件夹', [bookmark('130', 'New', 'https://new.example.com')]),
+          bookmark('10', 'Example', 'https://example.org')
+        ]),
+        folder('2', '其他书签', [
+          bookmark('110', 'Docs', 'https://docs.example.com'),
+          bookmark('12', 'News', 'https://news.example.com')
+        ])
+      ])
+    ];
+
+    const diff = diffBookmarkTrees(previous, current);
+    const restored = applyBookmarkDiff(previous, JSON.parse(JSON.stringify(diff)));
+
+    expect(strip(restored)).toEqual(strip(current));
+    expect(restored[0].children?.[1].children?.[0]).toMatchObject({ id: '110', parentId: '2', index: 0 });
+  });
+
+  test('连续回放多个差异', () => {
+    const second: BookmarkItem[] = [
+      folder('0', '', [
+        folder('1', '书签栏', [bookmark('10', 'Example', 'https://example.com')]),
+        folder('2', '其他书签', [bookmark('20', 'Later', 'https://later.example.com')])
+      ])
+    ];
+    const third: BookmarkItem[] = [
+      folder('0', '', [
+        folder('1', '书签栏', []),
+        folder('2', '其他书签', [
+          bookmark('20', 'Later', 'https://later.example.com'),
+          bookmark('10', 'Example', 'https://example.com')
+        ])
+      ])
+    ];
+
+    const replayed = [diffBookmarkTrees(previous, second), diffBookmarkTrees(second, third)]
+      .reduce((tree, diff) => applyBookmarkDiff(tree, diff), previous);
+
+    expect(strip(replayed)).toEqual(strip(third));
+    // 原始书签树不会被修改
+    expect(previous[0].children?.[0].children).toHaveLength(3);
+  });
+});
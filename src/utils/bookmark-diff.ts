@@ -0,0 +1,179 @@
+/**
+ * 书签树差异工具
+ * 计算两棵书签树之间的结构差异（新增、删除、移动、修改、排序），
+ * 并能将差异回放到旧树上得到新树，用于增量备份
+ */
+
+import { BookmarkDiff, BookmarkDiffNode } from '../types/backup';
+import { BookmarkItem } from './bookmark-service';
+
+// 顶层节点在差异中使用的父级ID
+const ROOT_PARENT_ID = '';
+
+interface FlatEntry {
+  node: BookmarkItem;
+  parentId: string;
+}
+
+interface FlatTree {
+  entries: Map<string, FlatEntry>;
+  childIds: Map<string, string[]>;
+}
+
+/**
+ * 将书签树展开为 ID 索引与每个文件夹的子节点ID列表
+ */
+const flattenTree = (bookmarks: BookmarkItem[]): FlatTree => {
+  const entries = new Map<string, FlatEntry>();
+  const childIds = new Map<string, string[]>();
+
+  const walk = (items: BookmarkItem[], parentId: string) => {
+    childIds.set(parentId, items.map(item => item.id));
+    for (const item of items) {
+      entries.set(item.id, { node: item, parentId });
+      if (item.isFolder) {
+        walk(item.children || [], item.id);
+      }
+    }
+  };
+
+  walk(bookmarks, ROOT_PARENT_ID);
+  return { entries, childIds };
+};
+
+const toDiffNode = (node: BookmarkItem, parentId: string): BookmarkDiffNode => ({
+  id: node.id,
+  parentId,
+  title: node.title,
+  url: node.url,
+  isFolder: node.isFolder,
+  dateAdded: node.dateAdded
+});
+
+const sameIds = (a: string[] = [], b: string[] = []): boolean =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+/**
+ * 计算书签树差异
+ * @param previous 上一次备份的书签树
+ * @param current 当前书签树
+ * @returns 从 previous 变为 current 的差异
+ */
+export const diffBookmarkTrees = (previous: BookmarkItem[], current: BookmarkItem[]): BookmarkDiff => {
+  const before = flattenTree(previous);
+  const after = flattenTree(current);
+
+  const diff: BookmarkDiff = { added: [], removed: [], moved: [], updated: [], order: {} };
+
+  after.entries.forEach(({ node, parentId }, id) => {
+    const old = before.entries.get(id);
+    if (!old) {
+      diff.added.push(toDiffNode(node, parentId));
+      return;
+    }
+
+    if (old.parentId !== parentId) {
+      diff.moved.push({ id, title: node.title, fromParentId: old.parentId, toParentId: parentId });
+    }
+
+    if (old.node.title !== node.title || (old.node.url || '') !== (node.url || '')) {
+      diff.updated.push({
+        id,
+        title: node.title,
+        url: node.url,
+        previousTitle: old.node.title,
+        previousUrl: old.node.url
+      });
+    }
+  });
+
+  before.entries.forEach(({ node, parentId }, id) => {
+    // 只记录最外层被删除的节点，父文件夹仍存在时才需要单独记录
+    if (!after.entries.has(id) && (parentId === ROOT_PARENT_ID || after.entries.has(parentId))) {
+      diff.removed.push(toDiffNode(node, parentId));
+    }
+  });
+
+  after.childIds.forEach((ids, folderId) => {
+    if (ids.length === 0 && !before.childIds.has(folderId)) return;
+    if (!sameIds(before.childIds.get(folderId), ids)) {
+      diff.order[folderId] = ids;
+    }
+  });
+
+  return diff;
+};
+
+/**
+ * 判断差异是否为空（书签没有任何变化）
+ */
+export const isBookmarkDiffEmpty = (diff: BookmarkDiff): boolean =>
+  diff.added.length === 0
+  && diff.removed.length === 0
+  && diff.moved.length === 0
+  && diff.updated.length === 0
+  && Object.keys(diff.order).length === 0;
+
+/**
+ * 将差异回放到书签树上
+ * @param bookmarks 差异所基于的书签树（不会被修改）
+ * @param diff 书签差异
+ * @returns 回放后的新书签树
+ */
+export const applyBookmarkDiff = (bookmarks: BookmarkItem[], diff: BookmarkDiff): BookmarkItem[] => {
+  const { entries, childIds } = flattenTree(bookmarks);
+  const nodes = new Map<string, BookmarkItem>();
+  entries.forEach(({ node }, id) => {
+    const copy = { ...node };
+    delete copy.children;
+    nodes.set(id, copy);
+  });
+
+  // 1. 删除节点：子节点不再可达，随之从结果中消失（已移出的子节点会出现在新父级的顺序里）
+  diff.removed.forEach(item => nodes.delete(item.id));
+
+  // 2. 新增节点
+  diff.added.forEach(item => {
+    nodes.set(item.id, {
+      id: item.id,
+      parentId: item.parentId || undefined,
+      title: item.title,
+      url: item.url,
+      dateAdded: item.dateAdded,
+      isFolder: item.isFolder
+    });
+  });
+
+  // 3. 更新标题与 URL
+  diff.updated.forEach(item => {
+    const node = nodes.get(item.id);
+    if (node) {
+      node.title = item.title;
+      node.url = item.url;
+    }
+  });
+
+  // 4. 调整子节点顺序（移动也体现在新旧父文件夹的顺序变化中）
+  Object.entries(diff.order).forEach(([folderId, ids]) => childIds.set(folderId, ids));
+
+  const build = (parentId: string): BookmarkItem[] => {
+    const result: BookmarkItem[] = [];
+    for (const id of childIds.get(parentId) || []) {
+      const node = nodes.get(id);
+      if (!node) continue;
+
+      const item: BookmarkItem = {
+        ...node,
+        parentId: parentId === ROOT_PARENT_ID ? node.parentId : parentId,
+        index: result.length
+      };
+      if (node.isFolder) {
+        item.children = build(id);
+      }
+      result.push(item);
+    }
+    return result;
+  };
+
+  return build(ROOT_PARENT_ID);
+};
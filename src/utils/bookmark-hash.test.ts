@@ -0,0 +1,34 @@
+import { hashBookmarkTree } from './bookmark-hash';
+import { BookmarkItem } from './bookmark-service';
+
+const tree = (overrides: Partial<BookmarkItem> = {}): BookmarkItem[] => [
+  {
+    id: '1',
+    title: '书签栏',
+    isFolder: true,
+    dateGroupModified: 1000,
+    children: [
+      { id: '10', parentId: '1', title: 'A', url: 'https://a.example.com', isFolder: false, dateAdded: 1, index: 0 },
+      { id: '11', parentId: '1', title: 'B', url: 'https://b.example.com', isFolder: false, dateAdded: 2, index: 1, ...overrides }
+    ]
+  }
+];
+
+describe('bookmark-hash 书签内容哈希', () => {
+  test('忽略 ID、时间与索引等字段', async () => {
+    const hash = await hashBookmarkTree(tree());
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashBookmarkTree(tree({ id: '99', dateAdded: 3, index: 5 }))).toBe(hash);
+  });
+
+  test('标题、URL 或顺序变化时哈希不同', async () => {
+    const hash = await hashBookmarkTree(tree());
+    const reordered = tree();
+    reordered[0].children?.reverse();
+
+    expect(await hashBookmarkTree(tree({ title: 'B2' }))).not.toBe(hash);
+    expect(await hashBookmarkTree(tree({ url: 'https://c.example.com' }))).not.toBe(hash);
+    expect(await hashBookmarkTree(reordered)).not.toBe(hash);
+  });
+});
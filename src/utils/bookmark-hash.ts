@@ -0,0 +1,31 @@
+/**
+ * 书签树内容哈希
+ * 只对标题、URL 和层级顺序计算 SHA-256，忽略 ID、添加时间等随浏览器或恢复操作变化的字段，
+ * 用于判断书签自上次备份以来是否发生了变化
+ */
+
+import { BookmarkItem } from './bookmark-service';
+
+interface NormalizedBookmark {
+  title: string;
+  url?: string;
+  children?: NormalizedBookmark[];
+}
+
+/**
+ * 规范化书签树：只保留决定书签内容的字段，子节点保持原有顺序
+ */
+export const normalizeBookmarkTree = (items: BookmarkItem[]): NormalizedBookmark[] =>
+  items.map(item => item.isFolder
+    ? { title: item.title, children: normalizeBookmarkTree(item.children || []) }
+    : { title: item.title, url: item.url || '' });
+
+/**
+ * 计算书签树的内容哈希
+ * @returns 十六进制的 SHA-256 摘要
+ */
+export const hashBookmarkTree = async (items: BookmarkItem[]): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(normalizeBookmarkTree(items)));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,60 @@
+import { BookmarkItem } from './bookmark-service';
+import { getBookmarkRootKind, mapBookmarkRoots } from './bookmark-roots';
+
+describe('bookmark-roots 根目录映射', () => {
+  const root = (id: string, title: string, children: BookmarkItem[] = []): BookmarkItem => ({
+    id,
+    title,
+    isFolder: true,
+    children
+  });
+
+  const bookmark = (id: string, url: string): BookmarkItem => ({
+    id,
+    title: url,
+    url,
+    isFolder: false
+  });
+
+  test('识别 Chrome/Edge 与 Firefox 的根目录类型', () => {
+    expect(getBookmarkRootKind({ id: '1', title: 'Bookmarks bar' })).toBe('toolbar');
+    expect(getBookmarkRootKind({ id: '2', title: '其他书签' })).toBe('other');
+    expect(getBookmarkRootKind({ id: '3', title: '移动设备书签' })).toBe('mobile');
+    expect(getBookmarkRootKind({ id: 'toolbar_____', title: 'Bookmarks Toolbar' })).toBe('toolbar');
+    expect(getBookmarkRootKind({ id: 'unfiled_____', title: 'Other Bookmarks' })).toBe('other');
+    expect(getBookmarkRootKind({ id: 'mobile______', title: 'Mobile Bookmarks' })).toBe('mobile');
+    expect(getBookmarkRootKind({ id: 'menu________', title: 'Bookmarks Menu' })).toBe('menu');
+    expect(getBookmarkRootKind({ id: 'abc', title: '自定义' })).toBeUndefined();
+  });
+
+  test('Firefox 备份恢复到 Chrome：书签菜单放入“其他书签”下的同名文件夹', () => {
+    const backupRoots = [
+      root('menu________', 'Bookmarks Menu', [bookmark('m1', 'https://menu.example.com')]),
+      root('toolbar_____', 'Bookmarks Toolbar', [bookmark('t1', 'https://a.example.com'), bookmark('t2', 'https://b.example.com')]),
+      root('unfiled_____', 'Other Bookmarks'),
+      root('mobile______', 'Mobile Bookmarks')
+    ];
+    const liveRoots = [root('1', '书签栏'), root('2', '其他书签'), root('3', '移动设备书签')];
+
+    const mappings = mapBookmarkRoots(backupRoots, liveRoots);
+
+    expect(mappings.map(mapping => [mapping.kind, mapping.targetId, mapping.wrapped])).toEqual([
+      ['toolbar', '1', false],
+      ['other', '2', false],
+      ['mobile', '3', false],
+      ['menu', '2', true]
+    ]);
+    expect(mappings[0].bookmarksCount).toBe(2);
+  });
+
+  test('当前浏览器缺少“其他书签”时回退到书签栏', () => {
+    const mappings = mapBookmarkRoots(
+      [root('2', 'Other bookmarks', [bookmark('o1', 'https://other.example.com')])],
+      [root('toolbar_____', 'Bookmarks Toolbar')]
+    );
+
+    expect(mappings).toEqual([
+      expect.objectContaining({ kind: 'other', targetId: 'toolbar_____', wrapped: true, bookmarksCount: 1 })
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * 书签根目录映射工具
+ * 不同浏览器的根目录ID与名称不同（Chrome/Edge 使用 "1"/"2"/"3"，Firefox 使用 toolbar_____ 等），
+ * 恢复时需要把备份中的每个根目录对应到当前浏览器中的等价根目录
+ */
+
+import { BookmarkRootKind, RestoreRootMapping } from '../types/backup';
+import { BookmarkItem, findBookmarkBar, isBookmarkBarNode } from './bookmark-service';
+
+const OTHER_ROOT_TITLES = new Set(['其他书签', '其他書籤', 'other bookmarks']);
+const MOBILE_ROOT_TITLES = new Set(['移动设备书签', '行動裝置書籤', 'mobile bookmarks']);
+const MENU_ROOT_TITLES = new Set(['书签菜单', '書籤選單', 'bookmarks menu']);
+
+// 根目录类型的显示顺序，同时用于选择恢复目标
+export const BOOKMARK_ROOT_KINDS: BookmarkRootKind[] = ['toolbar', 'other', 'mobile', 'menu'];
+
+/**
+ * 判断根目录的类型，无法识别时返回 undefined
+ */
+export const getBookmarkRootKind = (root: Pick<BookmarkItem, 'id' | 'title'>): BookmarkRootKind | undefined => {
+  if (isBookmarkBarNode(root)) {
+    return 'toolbar';
+  }
+
+  const normalizedId = root.id.toLowerCase();
+  const normalizedTitle = root.title.trim().toLowerCase();
+
+  if (normalizedId === '2' || normalizedId.startsWith('unfiled') || OTHER_ROOT_TITLES.has(normalizedTitle)) {
+    return 'other';
+  }
+  if (normalizedId === '3' || normalizedId.startsWith('mobile') || MOBILE_ROOT_TITLES.has(normalizedTitle)) {
+    return 'mobile';
+  }
+  if (normalizedId.startsWith('menu') || MENU_ROOT_TITLES.has(normalizedTitle)) {
+    return 'menu';
+  }
+  return undefined;
+};
+
+const countBookmarks = (items: BookmarkItem[] = []): number =>
+  items.reduce((sum, item) => sum + (item.isFolder ? countBookmarks(item.children) : item.url ? 1 : 0), 0);
+
+/**
+ * 将备份中的根目录映射到当前浏览器的根目录
+ * 当前浏览器没有同类根目录时（如 Firefox 的书签菜单恢复到 Chrome），
+ * 映射到“其他书签”（没有时为书签栏），并在其中以备份根目录标题建立同名文件夹
+ * @param backupRoots 备份中的根目录（顶层节点的子节点）
+ * @param liveRoots 当前浏览器的根目录
+ * @returns 每个可识别的备份根目录的映射，按根目录类型排序
+ */
+export const mapBookmarkRoots = (backupRoots: BookmarkItem[], liveRoots: BookmarkItem[]): RestoreRootMapping[] => {
+  const liveByKind = new Map<BookmarkRootKind, BookmarkItem>();
+  for (const root of liveRoots) {
+    const kind = getBookmarkRootKind(root);
+    if (kind && !liveByKind.has(kind)) {
+      liveByKind.set(kind, root);
+    }
+  }
+  const fallback = liveByKind.get('other') || findBookmarkBar(liveRoots);
+
+  const mappings: RestoreRootMapping[] = [];
+  const seenKinds = new Set<BookmarkRootKind>();
+
+  for (const source of backupRoots) {
+    const kind = getBookmarkRootKind(source);
+    if (!kind || seenKinds.has(kind)) continue;
+
+    const target = liveByKind.get(kind) || fallback;
+    if (!target) continue;
+
+    seenKinds.add(kind);
+    mappings.push({
+      kind,
+      sourceId: source.id,
+      sourceTitle: source.title,
+      targetId: target.id,
+      targetTitle: target.title,
+      wrapped: !liveByKind.has(kind),
+      bookmarksCount: countBookmarks(source.children)
+    });
+  }
+
+  return mappings.sort((a, b) => BOOKMARK_ROOT_KINDS.indexOf(a.kind) - BOOKMARK_ROOT_KINDS.indexOf(b.kind));
+};
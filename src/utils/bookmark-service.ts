@@ -181,6 +181,34 @@ class BookmarkService {
     }
   }
 
+  /**
+   * 获取文件夹自身及其所有上级文件夹的ID（由近到远）
+   * @param folderId 文件夹ID
+   */
+  async getAncestorFolderIds(folderId: string): Promise<BookmarkResult> {
+    try {
+      const ids: string[] = [];
+      let currentId: string | undefined = folderId;
+      // 书签树层级有限，限制步数防止异常数据导致死循环
+      while (currentId && ids.length < 100 && !ids.includes(currentId)) {
+        ids.push(currentId);
+        const nodes: Browser.bookmarks.BookmarkTreeNode[] = await browser.bookmarks.get(currentId);
+        currentId = nodes[0]?.parentId;
+      }
+
+      return {
+        success: true,
+        data: ids
+      };
+    } catch (error) {
+      console.error('获取上级文件夹失败:', error);
+      return {
+        success: false,
+        error: '获取上级文件夹失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
   /**
    * 转换Chrome书签树到应用所需格式
    */
@@ -289,7 +317,7 @@ class BookmarkService {
    * @param bookmark 书签信息
    * @returns Promise<BookmarkResult>
    */
-  async createBookmark(bookmark: { parentId?: string; title: string; url: string }): Promise<BookmarkResult> {
+  async createBookmark(bookmark: { parentId?: string; title: string; url: string; index?: number }): Promise<BookmarkResult> {
     try {
       const newBookmark = await browser.bookmarks.create(bookmark);
       this.invalidateSearchIndexCache();
@@ -319,7 +347,7 @@ class BookmarkService {
    * @param folder 文件夹信息
    * @returns Promise<BookmarkResult>
    */
-  async createFolder(folder: { parentId?: string; title: string }): Promise<BookmarkResult> {
+  async createFolder(folder: { parentId?: string; title: string; index?: number }): Promise<BookmarkResult> {
     try {
       const newFolder = await browser.bookmarks.create(folder);
       this.invalidateSearchIndexCache();
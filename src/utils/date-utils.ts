@@ -78,11 +78,12 @@ export const formatTimestamp = (timestamp?: number): string => {
  * @param timestamp 执行时间戳
  * @param success 是否执行成功
  * @param error 可选的错误信息
+ * @param skipped 是否因书签没有变化而跳过（优先于 success 显示）
  * @returns 格式化后的执行结果文本
  */
-export const getExecutionResultText = (timestamp: number, success: boolean, error?: string): string => {
+export const getExecutionResultText = (timestamp: number, success: boolean, error?: string, skipped?: boolean): string => {
   const dateStr = formatDate(timestamp);
-  const result = success ? '成功' : '失败';
+  const result = skipped ? '无变化，已跳过' : success ? '成功' : '失败';
   
   return `${dateStr} - ${result}${error ? `: ${error}` : ''}`;
 }; 
\ No newline at end of file
@@ -0,0 +1,143 @@
+import {
+  ScheduleType,
+  Task,
+  TaskStatus,
+  TaskStorage,
+  createBackupAction,
+  createEventTrigger,
+  createScheduleTrigger,
+  EventType,
+} from '../types/task';
+import {
+  computeNextRunTime,
+  describeSchedule,
+  hasScheduleChanges,
+  parseCronExpression,
+  validateScheduleTrigger,
+} from './schedule-utils';
+
+describe('schedule-utils 定时计划计算', () => {
+  // 2024-03-06 10:30（周三，本地时区）
+  const from = new Date(2024, 2, 6, 10, 30, 0).getTime();
+
+  test('固定间隔从起始时间往后推', () => {
+    const trigger = { ...createScheduleTrigger(ScheduleType.INTERVAL), intervalMinutes: 90 };
+    expect(computeNextRunTime(trigger, from)).toBe(from + 90 * 60 * 1000);
+  });
+
+  test('每天指定时间：当天已过则顺延到次日', () => {
+    const trigger = { ...createScheduleTrigger(ScheduleType.DAILY), time: '02:00' };
+    expect(computeNextRunTime(trigger, from)).toBe(new Date(2024, 2, 7, 2, 0).getTime());
+
+    const later = { ...trigger, time: '23:15' };
+    expect(computeNextRunTime(later, from)).toBe(new Date(2024, 2, 6, 23, 15).getTime());
+  });
+
+  test('每周指定日期选择最近的一天', () => {
+    const trigger = {
+      ...createScheduleTrigger(ScheduleType.WEEKLY),
+      time: '08:00',
+      daysOfWeek: [0, 5],
+    };
+    // 周三之后最近的是周五
+    expect(computeNextRunTime(trigger, from)).toBe(new Date(2024, 2, 8, 8, 0).getTime());
+  });
+
+  test('cron 支持步长、区间与列表', () => {
+    const trigger = {
+      ...createScheduleTrigger(ScheduleType.CRON),
+      cronExpression: '*/15 9-17 * * 1-5',
+    };
+    expect(computeNextRunTime(trigger, from)).toBe(new Date(2024, 2, 6, 10, 45).getTime());
+
+    const weekend = { ...trigger, cronExpression: '0 2 * * 0,6' };
+    expect(computeNextRunTime(weekend, from)).toBe(new Date(2024, 2, 9, 2, 0).getTime());
+  });
+
+  test('cron 日与周同时受限时满足其一即可', () => {
+    const trigger = {
+      ...createScheduleTrigger(ScheduleType.CRON),
+      cronExpression: '0 0 10 * 4',
+    };
+    // 周四（3 月 7 日）早于 10 号
+    expect(computeNextRunTime(trigger, from)).toBe(new Date(2024, 2, 7, 0, 0).getTime());
+  });
+
+  test('cron 低频表达式（2 月 29 日）也能计算', () => {
+    const trigger = {
+      ...createScheduleTrigger(ScheduleType.CRON),
+      cronExpression: '0 0 29 2 *',
+    };
+    expect(computeNextRunTime(trigger, from)).toBe(new Date(2028, 1, 29, 0, 0).getTime());
+  });
+
+  test('无效配置返回错误且不计算执行时间', () => {
+    expect(parseCronExpression('0 2 * *')).toBeNull();
+    expect(parseCronExpression('61 * * * *')).toBeNull();
+
+    const invalidCron = { ...createScheduleTrigger(ScheduleType.CRON), cronExpression: 'every day' };
+    expect(validateScheduleTrigger(invalidCron)).toContain('cron');
+    expect(computeNextRunTime(invalidCron, from)).toBeNull();
+
+    const noDays = { ...createScheduleTrigger(ScheduleType.WEEKLY), daysOfWeek: [] };
+    expect(validateScheduleTrigger(noDays)).toBe('请至少选择一天');
+
+    const tooShort = { ...createScheduleTrigger(ScheduleType.INTERVAL), intervalMinutes: 0 };
+    expect(validateScheduleTrigger(tooShort)).not.toBeNull();
+  });
+
+  test('生成可读描述', () => {
+    expect(describeSchedule({ ...createScheduleTrigger(ScheduleType.INTERVAL), intervalMinutes: 120 }))
+      .toBe('每 2 小时');
+    expect(describeSchedule({ ...createScheduleTrigger(ScheduleType.WEEKLY), daysOfWeek: [1, 0], time: '03:30' }))
+      .toBe('每周周日、周一 03:30');
+  });
+});
+
+describe('schedule-utils 定时任务变化检测', () => {
+  const scheduledTask = {
+    id: 'task-1',
+    name: '定时备份',
+    status: TaskStatus.ENABLED,
+    createdAt: 1,
+    updatedAt: 1,
+    trigger: { ...createScheduleTrigger(ScheduleType.DAILY), time: '02:00', nextRunAt: 1000 },
+    action: createBackupAction(),
+    history: { executions: [] }
+  } as unknown as Task;
+  const storageOf = (...tasks: Task[]): TaskStorage => ({
+    tasks: Object.fromEntries(tasks.map(task => [task.id, task])),
+    lastUpdated: 1
+  });
+
+  test('执行时写入的状态、历史与触发时间不需要重新同步', () => {
+    const executed = {
+      ...scheduledTask,
+      status: TaskStatus.RUNNING,
+      trigger: { ...scheduledTask.trigger, lastTriggered: 2000, nextRunAt: 3000 },
+      history: { executions: [], lastExecution: { id: 'e1', timestamp: 2000, success: true } }
+    } as unknown as Task;
+
+    expect(hasScheduleChanges(storageOf(scheduledTask), storageOf(executed))).toBe(false);
+  });
+
+  test('计划修改、启用状态变化、新增与删除定时任务需要重新同步', () => {
+    const edited = { ...scheduledTask, trigger: { ...scheduledTask.trigger, time: '03:00', nextRunAt: undefined } };
+    const disabled = { ...scheduledTask, status: TaskStatus.DISABLED };
+
+    expect(hasScheduleChanges(storageOf(scheduledTask), storageOf(edited))).toBe(true);
+    expect(hasScheduleChanges(storageOf(scheduledTask), storageOf(disabled))).toBe(true);
+    expect(hasScheduleChanges(undefined, storageOf(scheduledTask))).toBe(true);
+    expect(hasScheduleChanges(storageOf(scheduledTask), storageOf())).toBe(true);
+  });
+
+  test('非定时任务的变化不需要重新同步', () => {
+    const eventTask = {
+      ...scheduledTask,
+      id: 'task-2',
+      trigger: createEventTrigger(EventType.BOOKMARK_CHANGED)
+    } as Task;
+
+    expect(hasScheduleChanges(storageOf(), storageOf(eventTask))).toBe(false);
+  });
+});
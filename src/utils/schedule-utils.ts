@@ -0,0 +1,312 @@
+/**
+ * 定时计划工具
+ * 负责解析定时触发器配置、计算下次执行时间以及生成可读描述
+ */
+
+import { ScheduleTrigger, ScheduleType, Task, TaskStatus, TaskStorage, TriggerType } from '../types/task';
+
+// 最小执行间隔（分钟）：chrome.alarms 在发布版扩展中不允许小于 1 分钟
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 1;
+
+// 向后搜索下次执行时间的最大范围（覆盖 2 月 29 日这类低频表达式）
+const MAX_SEARCH_YEARS = 5;
+
+export const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+/**
+ * cron 表达式解析结果
+ * 每个字段都展开为允许值集合，restricted 标记该字段是否为非 "*"
+ */
+export interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+/**
+ * 解析 HH:mm 格式的时间
+ * @param time 时间字符串
+ * @returns 小时与分钟，格式无效时返回 null
+ */
+export const parseTimeOfDay = (time?: string): { hour: number; minute: number } | null => {
+  const match = (time || '').trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) return null;
+
+  return { hour, minute };
+};
+
+/**
+ * 解析 cron 单个字段（支持 *、数字、a-b 区间、/n 步长与逗号列表）
+ */
+const parseCronField = (field: string, min: number, max: number): Set<number> | null => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const [, range, stepRaw] = match;
+    const step = stepRaw ? Number(stepRaw) : 1;
+    if (step <= 0) return null;
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startRaw, endRaw] = range.split('-');
+      start = Number(startRaw);
+      // "5/15" 这种写法表示从 5 开始到最大值
+      end = endRaw !== undefined ? Number(endRaw) : (stepRaw ? max : start);
+    }
+
+    if (start < min || end > max || start > end) return null;
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values.size > 0 ? values : null;
+};
+
+/**
+ * 解析 5 段 cron 表达式：分 时 日 月 周
+ * 周字段中 0 与 7 都表示周日
+ * @param expression cron 表达式
+ * @returns 解析结果，格式无效时返回 null
+ */
+export const parseCronExpression = (expression?: string): CronFields | null => {
+  const parts = (expression || '').trim().split(/\s+/);
+  if (parts.length !== 5) return null;
+
+  const [minuteField, hourField, domField, monthField, dowField] = parts;
+
+  const minutes = parseCronField(minuteField, 0, 59);
+  const hours = parseCronField(hourField, 0, 23);
+  const daysOfMonth = parseCronField(domField, 1, 31);
+  const months = parseCronField(monthField, 1, 12);
+  const rawDaysOfWeek = parseCronField(dowField, 0, 7);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !rawDaysOfWeek) {
+    return null;
+  }
+
+  const daysOfWeek = new Set<number>();
+  rawDaysOfWeek.forEach(day => daysOfWeek.add(day === 7 ? 0 : day));
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: domField !== '*',
+    dowRestricted: dowField !== '*'
+  };
+};
+
+/**
+ * 将 DAILY / WEEKLY / CRON 计划统一转换为 cron 字段
+ */
+const toCronFields = (trigger: ScheduleTrigger): CronFields | null => {
+  if (trigger.schedule === ScheduleType.CRON) {
+    return parseCronExpression(trigger.cronExpression);
+  }
+
+  const time = parseTimeOfDay(trigger.time);
+  if (!time) return null;
+
+  const allDays = new Set([0, 1, 2, 3, 4, 5, 6]);
+  const weekDays = trigger.schedule === ScheduleType.WEEKLY
+    ? new Set((trigger.daysOfWeek || []).filter(day => day >= 0 && day <= 6))
+    : allDays;
+
+  if (weekDays.size === 0) return null;
+
+  return {
+    minutes: new Set([time.minute]),
+    hours: new Set([time.hour]),
+    daysOfMonth: new Set(Array.from({ length: 31 }, (_, i) => i + 1)),
+    months: new Set(Array.from({ length: 12 }, (_, i) => i + 1)),
+    daysOfWeek: weekDays,
+    domRestricted: false,
+    dowRestricted: trigger.schedule === ScheduleType.WEEKLY
+  };
+};
+
+/**
+ * 判断日期是否满足 cron 的日/周字段
+ * 与标准 cron 一致：日和周同时受限时满足其一即可
+ */
+const matchesCronDay = (fields: CronFields, date: Date): boolean => {
+  const domMatch = fields.daysOfMonth.has(date.getDate());
+  const dowMatch = fields.daysOfWeek.has(date.getDay());
+
+  if (fields.domRestricted && fields.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+};
+
+/**
+ * 按 cron 字段计算严格晚于 from 的下一次执行时间（本地时区）
+ */
+const computeNextCronTime = (fields: CronFields, from: number): number | null => {
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(from);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (date.getTime() <= limit.getTime()) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesCronDay(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date.getTime();
+  }
+
+  return null;
+};
+
+/**
+ * 校验定时触发器配置
+ * @param trigger 定时触发器
+ * @returns 错误信息，配置有效时返回 null
+ */
+export const validateScheduleTrigger = (trigger: ScheduleTrigger): string | null => {
+  switch (trigger.schedule) {
+    case ScheduleType.INTERVAL: {
+      const interval = Number(trigger.intervalMinutes);
+      if (!Number.isFinite(interval) || interval < MIN_SCHEDULE_INTERVAL_MINUTES) {
+        return `执行间隔不能小于 ${MIN_SCHEDULE_INTERVAL_MINUTES} 分钟`;
+      }
+      return null;
+    }
+    case ScheduleType.DAILY:
+      return parseTimeOfDay(trigger.time) ? null : '请输入有效的执行时间（HH:mm）';
+    case ScheduleType.WEEKLY:
+      if (!parseTimeOfDay(trigger.time)) return '请输入有效的执行时间（HH:mm）';
+      return trigger.daysOfWeek && trigger.daysOfWeek.length > 0 ? null : '请至少选择一天';
+    case ScheduleType.CRON:
+      return parseCronExpression(trigger.cronExpression)
+        ? null
+        : 'cron 表达式无效，格式为“分 时 日 月 周”，例如 0 2 * * *';
+    default:
+      return '不支持的计划类型';
+  }
+};
+
+/**
+ * 计算定时触发器严格晚于 from 的下一次执行时间
+ * @param trigger 定时触发器
+ * @param from 起始时间戳，默认为当前时间
+ * @returns 下次执行时间戳，配置无效或无可用时间时返回 null
+ */
+export const computeNextRunTime = (trigger: ScheduleTrigger, from: number = Date.now()): number | null => {
+  if (validateScheduleTrigger(trigger)) {
+    return null;
+  }
+
+  if (trigger.schedule === ScheduleType.INTERVAL) {
+    return from + Number(trigger.intervalMinutes) * 60 * 1000;
+  }
+
+  const fields = toCronFields(trigger);
+  return fields ? computeNextCronTime(fields, from) : null;
+};
+
+/**
+ * 生成定时计划的可读描述
+ * @param trigger 定时触发器
+ * @returns 描述文本，例如“每天 02:00”
+ */
+export const describeSchedule = (trigger: ScheduleTrigger): string => {
+  switch (trigger.schedule) {
+    case ScheduleType.INTERVAL: {
+      const interval = Number(trigger.intervalMinutes) || 0;
+      if (interval >= 60 && interval % 60 === 0) {
+        return `每 ${interval / 60} 小时`;
+      }
+      return `每 ${interval} 分钟`;
+    }
+    case ScheduleType.DAILY:
+      return `每天 ${trigger.time || '--:--'}`;
+    case ScheduleType.WEEKLY: {
+      const days = [...(trigger.daysOfWeek || [])]
+        .sort((a, b) => a - b)
+        .map(day => WEEKDAY_LABELS[day])
+        .filter(Boolean)
+        .join('、');
+      return `每周${days || '（未选择）'} ${trigger.time || '--:--'}`;
+    }
+    case ScheduleType.CRON:
+      return `cron: ${trigger.cronExpression || ''}`;
+    default:
+      return '未知计划';
+  }
+};
+
+/**
+ * 生成任务与定时计划相关的特征，非定时任务返回 undefined
+ * 上次触发时间由后台自己维护，不参与比较；nextRunAt 只关心是否等待计算
+ */
+const getScheduleSignature = (task?: Task): string | undefined => {
+  if (!task || task.trigger.type !== TriggerType.SCHEDULE) {
+    return undefined;
+  }
+
+  return JSON.stringify({
+    ...task.trigger,
+    nextRunAt: undefined,
+    lastTriggered: undefined,
+    pending: task.trigger.nextRunAt === undefined,
+    disabled: task.status === TaskStatus.DISABLED
+  });
+};
+
+/**
+ * 判断两次任务存储之间是否有需要重新同步定时 alarm 的变化：
+ * 定时任务的新增、删除、计划修改、启用状态变化
+ * 任务执行时写入的状态与历史记录不算在内
+ * @param oldStorage 变化前的任务存储
+ * @param newStorage 变化后的任务存储
+ */
+export const hasScheduleChanges = (oldStorage?: TaskStorage, newStorage?: TaskStorage): boolean => {
+  const oldTasks = oldStorage?.tasks || {};
+  const newTasks = newStorage?.tasks || {};
+  const taskIds = new Set([...Object.keys(oldTasks), ...Object.keys(newTasks)]);
+
+  for (const taskId of taskIds) {
+    if (getScheduleSignature(oldTasks[taskId]) !== getScheduleSignature(newTasks[taskId])) {
+      return true;
+    }
+  }
+  return false;
+};
@@ -4,14 +4,19 @@ jest.mock('wxt/browser', () => ({
       local: {
         get: jest.fn(),
         set: jest.fn(),
+        remove: jest.fn(),
         clear: jest.fn(),
       },
       sync: {
         get: jest.fn(),
         set: jest.fn(),
+        remove: jest.fn(),
         clear: jest.fn(),
       },
     },
+    runtime: {
+      getManifest: jest.fn(() => ({ version: '1.0.0' })),
+    },
   },
 }));
 
@@ -47,3 +52,73 @@ describe('storage-service getStorageData', () => {
     expect(result.data).toBeNull();
   });
 });
+
+describe('storage-service 配置导入导出', () => {
+  const mockedLocalGet = browser.storage.local.get as jest.Mock;
+  const mockedLocalSet = browser.storage.local.set as jest.Mock;
+  const mockedSyncGet = browser.storage.sync.get as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('导出时不包含本机运行状态', async () => {
+    mockedLocalGet.mockResolvedValueOnce({
+      tasks: [{ id: 'task_1' }],
+      bookmarks_incremental_base: { bookmarks: [] },
+      bookmarks_restore_snapshot: { bookmarks: [] },
+      task_execution_queue: [],
+      task_run_logs: {},
+      event_trigger_pending: [],
+    });
+    mockedSyncGet.mockResolvedValueOnce({});
+
+    const result = await storageService.exportConfig();
+
+    expect(result.success).toBe(true);
+    expect(result.data.local).toEqual({ tasks: [{ id: 'task_1' }] });
+  });
+
+  test('导入时忽略文件中的运行状态并保留本机的值', async () => {
+    mockedLocalGet.mockResolvedValueOnce({ task_execution_queue: [{ taskId: 'local_task' }] });
+
+    const result = await storageService.importConfig({
+      schemaVersion: 1,
+      app: 'MarksVault',
+      local: { tasks: [], task_execution_queue: [{ taskId: 'imported_task' }], task_run_logs: {} },
+      sync: {},
+    });
+
+    expect(result.success).toBe(true);
+    expect(browser.storage.local.clear).toHaveBeenCalled();
+    expect(mockedLocalSet).toHaveBeenCalledWith({ tasks: [], task_execution_queue: [{ taskId: 'local_task' }] });
+  });
+});
+
+describe('storage-service 备份加密口令', () => {
+  const mockedLocalGet = browser.storage.local.get as jest.Mock;
+  const mockedSyncGet = browser.storage.sync.get as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('口令只保存在本机存储中', async () => {
+    await storageService.saveBackupPassphrase('correct horse');
+
+    expect(browser.storage.local.set).toHaveBeenCalledWith({ backup_passphrase: 'correct horse' });
+    expect(browser.storage.sync.set).not.toHaveBeenCalled();
+    expect(browser.storage.sync.remove).toHaveBeenCalledWith('backup_passphrase');
+  });
+
+  test('读取时把旧版本保存在同步存储中的口令迁移到本机存储', async () => {
+    mockedLocalGet.mockResolvedValueOnce({});
+    mockedSyncGet.mockResolvedValueOnce({ backup_passphrase: 'correct horse' });
+
+    const result = await storageService.getBackupPassphrase();
+
+    expect(result).toEqual({ success: true, data: 'correct horse' });
+    expect(browser.storage.local.set).toHaveBeenCalledWith({ backup_passphrase: 'correct horse' });
+    expect(browser.storage.sync.remove).toHaveBeenCalledWith('backup_passphrase');
+  });
+});
@@ -11,6 +11,24 @@ export interface UserSettings {
   };
   backup?: {
     maxBackupsPerType: number; // 每种类型备份的最大保留数量，0表示不限制
+    retention?: 'count' | 'gfs'; // 旧备份保留策略：按数量（maxBackupsPerType）或按时间分层（GFS），默认按数量
+    gfs?: { // GFS 保留策略参数，见 utils/backup-retention
+      keepAllDays?: number;
+      dailyDays?: number;
+      weeklyDays?: number;
+      monthlyMonths?: number; // 0 表示每月一个永久保留
+    };
+    mode?: 'full' | 'incremental'; // 书签备份模式：每次完整备份或增量备份
+    checkpointInterval?: number; // 增量模式下每隔多少次备份写入一次完整检查点
+    undoWindowMinutes?: number; // 恢复后允许撤销的时限（分钟），0 表示不允许撤销
+    encryption?: boolean; // 是否在上传前用口令加密备份内容
+    compression?: boolean; // 是否以 gzip 压缩格式（.json.gz）上传备份
+    localFolder?: string; // 本地下载存储位置使用的下载目录子文件夹
+    owner?: string; // 备份仓库所有者（用户或组织），留空时使用当前登录的账号
+    repo?: string; // 备份仓库名称（WebDAV 为文件夹名称），留空时使用 marksvault-backups
+    branch?: string; // 备份分支，留空时使用仓库的默认分支
+    pathTemplate?: string; // 备份文件路径模板，支持 {device}、{type}、{timestamp}
+    deviceName?: string; // 路径模板中 {device} 对应的设备名称
   };
   // 更多设置项...
 }
@@ -20,6 +38,22 @@ export interface GitHubCredentials {
   token: string;
 }
 
+// 自建代码托管平台类型
+export type ForgeType = 'gitea' | 'gitlab';
+
+// Gitea / GitLab 连接配置类型
+export interface ForgeCredentials {
+  baseUrl: string; // 实例地址，例如 https://gitea.example.com
+  token: string; // 访问令牌
+}
+
+// WebDAV连接配置类型
+export interface WebDAVCredentials {
+  url: string; // 服务器上用于存放备份的文件夹地址
+  username: string;
+  password: string; // 密码或应用专用密码
+}
+
 // 备份统计信息缓存类型
 export interface BackupStatsCache {
   data: {
@@ -47,7 +81,7 @@ export interface MarksVaultConfigBackupV1 {
   exportedAt: string; // ISO 字符串
   // chrome.storage.local 全量数据
   local: Record<string, any>;
-  // chrome.storage.sync 全量数据（默认不包含 github_credentials）
+  // chrome.storage.sync 全量数据（默认不包含各平台的连接凭据）
   sync: Record<string, any>;
   // popup 页面 localStorage（可选，当前仅用于版本检查等轻量状态）
   localStorage?: Record<string, string>;
@@ -63,6 +97,10 @@ export interface StorageResult {
 // 导入备份状态类型
 import { BackupStatus } from '../types/backup';
 import { browser } from 'wxt/browser';
+import { INCREMENTAL_BASE_CACHE_KEY, RESTORE_SNAPSHOT_STORAGE_KEY } from '../services/backup-service';
+import { TASK_RUN_LOGS_STORAGE_KEY } from '../services/task-log-service';
+import { TASK_QUEUE_STORAGE_KEY } from '../services/task-queue-service';
+import { PENDING_EVENTS_STORAGE_KEY } from '../services/trigger-service';
 
 class StorageService {
   // 备份统计信息缓存的过期时间（毫秒）
@@ -71,6 +109,25 @@ class StorageService {
   // 配置导入/导出的 schemaVersion
   private readonly CONFIG_BACKUP_SCHEMA_VERSION = 1 as const;
 
+  // 备份加密口令在 local 中的键名
+  private readonly BACKUP_PASSPHRASE_KEY = 'backup_passphrase';
+
+  /**
+   * 配置导入/导出时跳过的 local 数据：加密口令，以及增量备份基准、恢复快照、任务队列、运行日志与待处理事件
+   * 口令不能随配置备份上传；其余是本机的运行状态而非配置，体积可能很大，导入到其他设备也没有意义
+   * 键名由各服务导出，而这些服务又依赖本模块，因此在调用时读取，避免循环依赖下的初始化顺序问题
+   */
+  private getConfigBackupExcludedLocalKeys(): string[] {
+    return [
+      this.BACKUP_PASSPHRASE_KEY,
+      INCREMENTAL_BASE_CACHE_KEY,
+      RESTORE_SNAPSHOT_STORAGE_KEY,
+      TASK_QUEUE_STORAGE_KEY,
+      TASK_RUN_LOGS_STORAGE_KEY,
+      PENDING_EVENTS_STORAGE_KEY
+    ];
+  }
+
   /**
    * 获取用户设置
    * @returns Promise<StorageResult>
@@ -87,7 +144,10 @@ class StorageService {
           backupReminders: true
         },
         backup: {
-          maxBackupsPerType: 10 // 默认每种类型最多保留10个备份
+          maxBackupsPerType: 10, // 默认每种类型最多保留10个备份
+          mode: 'full',
+          checkpointInterval: 10,
+          undoWindowMinutes: 30
         }
       };
 
@@ -321,6 +381,251 @@ class StorageService {
     }
   }
 
+  /**
+   * 保存 Gitea / GitLab 连接配置
+   * @param type 平台类型
+   * @param credentials 连接配置
+   * @returns Promise<StorageResult>
+   */
+  async saveForgeCredentials(type: ForgeType, credentials: ForgeCredentials): Promise<StorageResult> {
+    try {
+      await browser.storage.sync.set({ [`${type}_credentials`]: credentials });
+      return {
+        success: true
+      };
+    } catch (error) {
+      console.error(`保存${type}连接配置失败:`, error);
+      return {
+        success: false,
+        error: `保存${type}连接配置失败: ` + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 获取 Gitea / GitLab 连接配置
+   * @param type 平台类型
+   * @returns Promise<StorageResult>
+   */
+  async getForgeCredentials(type: ForgeType): Promise<StorageResult> {
+    try {
+      const key = `${type}_credentials`;
+      const result = await browser.storage.sync.get(key);
+      return {
+        success: true,
+        data: result[key] || null
+      };
+    } catch (error) {
+      console.error(`获取${type}连接配置失败:`, error);
+      return {
+        success: false,
+        error: `获取${type}连接配置失败: ` + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 清除 Gitea / GitLab 连接配置
+   * @param type 平台类型
+   * @returns Promise<StorageResult>
+   */
+  async clearForgeCredentials(type: ForgeType): Promise<StorageResult> {
+    try {
+      await browser.storage.sync.remove(`${type}_credentials`);
+      return {
+        success: true
+      };
+    } catch (error) {
+      console.error(`清除${type}连接配置失败:`, error);
+      return {
+        success: false,
+        error: `清除${type}连接配置失败: ` + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 保存WebDAV连接配置
+   * @param credentials WebDAV连接配置
+   * @returns Promise<StorageResult>
+   */
+  async saveWebDAVCredentials(credentials: WebDAVCredentials): Promise<StorageResult> {
+    try {
+      await browser.storage.sync.set({ 'webdav_credentials': credentials });
+      return {
+        success: true
+      };
+    } catch (error) {
+      console.error('保存WebDAV连接配置失败:', error);
+      return {
+        success: false,
+        error: '保存WebDAV连接配置失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 获取WebDAV连接配置
+   * @returns Promise<StorageResult>
+   */
+  async getWebDAVCredentials(): Promise<StorageResult> {
+    try {
+      const result = await browser.storage.sync.get('webdav_credentials');
+      return {
+        success: true,
+        data: result.webdav_credentials || null
+      };
+    } catch (error) {
+      console.error('获取WebDAV连接配置失败:', error);
+      return {
+        success: false,
+        error: '获取WebDAV连接配置失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 清除WebDAV连接配置
+   * @returns Promise<StorageResult>
+   */
+  async clearWebDAVCredentials(): Promise<StorageResult> {
+    try {
+      await browser.storage.sync.remove('webdav_credentials');
+      return {
+        success: true
+      };
+    } catch (error) {
+      console.error('清除WebDAV连接配置失败:', error);
+      return {
+        success: false,
+        error: '清除WebDAV连接配置失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 保存备份加密口令
+   * 口令只保存在本机存储中，不会同步到其他设备，也不会随配置导出或备份上传
+   * @param passphrase 加密口令
+   * @returns Promise<StorageResult>
+   */
+  async saveBackupPassphrase(passphrase: string): Promise<StorageResult> {
+    try {
+      await browser.storage.local.set({ [this.BACKUP_PASSPHRASE_KEY]: passphrase });
+      // 旧版本保存在同步存储中的口令一并删除
+      await browser.storage.sync.remove(this.BACKUP_PASSPHRASE_KEY);
+      return {
+        success: true
+      };
+    } catch (error) {
+      console.error('保存加密口令失败:', error);
+      return {
+        success: false,
+        error: '保存加密口令失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 获取备份加密口令
+   * 旧版本把口令保存在同步存储中，读取时迁移到本机存储并从同步存储中删除
+   * @returns Promise<StorageResult>，data 为口令，未设置时为 null
+   */
+  async getBackupPassphrase(): Promise<StorageResult> {
+    try {
+      const key = this.BACKUP_PASSPHRASE_KEY;
+      const result = await browser.storage.local.get(key);
+      if (result[key]) {
+        return { success: true, data: result[key] };
+      }
+
+      const legacy = await browser.storage.sync.get(key);
+      if (legacy[key]) {
+        await browser.storage.local.set({ [key]: legacy[key] });
+        await browser.storage.sync.remove(key);
+      }
+      return {
+        success: true,
+        data: legacy[key] || null
+      };
+    } catch (error) {
+      console.error('获取加密口令失败:', error);
+      return {
+        success: false,
+        error: '获取加密口令失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 清除备份加密口令
+   * @returns Promise<StorageResult>
+   */
+  async clearBackupPassphrase(): Promise<StorageResult> {
+    try {
+      await browser.storage.local.remove(this.BACKUP_PASSPHRASE_KEY);
+      await browser.storage.sync.remove(this.BACKUP_PASSPHRASE_KEY);
+      return {
+        success: true
+      };
+    } catch (error) {
+      console.error('清除加密口令失败:', error);
+      return {
+        success: false,
+        error: '清除加密口令失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 获取已固定的备份文件路径
+   * 固定记录保存在浏览器同步存储中，使用同一备份仓库的其他设备清理旧备份时也会跳过这些文件
+   * @returns Promise<StorageResult>，data 为文件路径列表
+   */
+  async getPinnedBackups(): Promise<StorageResult> {
+    try {
+      const result = await browser.storage.sync.get('pinned_backups');
+      return {
+        success: true,
+        data: Array.isArray(result.pinned_backups) ? result.pinned_backups : []
+      };
+    } catch (error) {
+      console.error('获取固定的备份失败:', error);
+      return {
+        success: false,
+        error: '获取固定的备份失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
+  /**
+   * 固定或取消固定备份文件，固定的备份不会被自动清理
+   * @param path 备份文件路径
+   * @param pinned 是否固定
+   * @returns Promise<StorageResult>，data 为更新后的文件路径列表
+   */
+  async setBackupPinned(path: string, pinned: boolean): Promise<StorageResult> {
+    try {
+      const currentResult = await this.getPinnedBackups();
+      const current: string[] = currentResult.success ? currentResult.data : [];
+      const next = pinned
+        ? [...new Set([...current, path])]
+        : current.filter(item => item !== path);
+
+      await browser.storage.sync.set({ 'pinned_backups': next });
+      return {
+        success: true,
+        data: next
+      };
+    } catch (error) {
+      console.error('更新固定的备份失败:', error);
+      return {
+        success: false,
+        error: '更新固定的备份失败: ' + (error instanceof Error ? error.message : String(error))
+      };
+    }
+  }
+
   /**
    * 保存备份状态信息
    * @param status 备份状态
@@ -525,8 +830,8 @@ class StorageService {
 
   /**
    * 导出配置到 JSON（默认不包含 GitHub 凭据）
-   * - local: chrome.storage.local 全量
-   * - sync: chrome.storage.sync 全量（默认剔除 github_credentials）
+   * - local: chrome.storage.local 全量（剔除加密口令与本机运行状态，见 getConfigBackupExcludedLocalKeys）
+   * - sync: chrome.storage.sync 全量（默认剔除各平台的连接凭据，始终剔除旧版本保存的 backup_passphrase）
    * - localStorage: popup localStorage（可选）
    */
   async exportConfig(options?: {
@@ -534,17 +839,27 @@ class StorageService {
     includeLocalStorage?: boolean;
   }): Promise<StorageResult> {
     try {
-      const [local, syncAll] = await Promise.all([
+      const [localAll, syncAll] = await Promise.all([
         browser.storage.local.get(null),
         browser.storage.sync.get(null)
       ]);
 
+      const local: Record<string, any> = { ...localAll };
+      for (const key of this.getConfigBackupExcludedLocalKeys()) {
+        delete local[key];
+      }
+
       const includeGitHubCredentials = options?.includeGitHubCredentials === true;
       const sync: Record<string, any> = { ...syncAll };
       if (!includeGitHubCredentials) {
-        // 默认不导出 token，避免用户误分享备份文件导致泄露
+        // 默认不导出 token 与 WebDAV 密码，避免用户误分享备份文件导致泄露
         delete sync.github_credentials;
+        delete sync.webdav_credentials;
+        delete sync.gitea_credentials;
+        delete sync.gitlab_credentials;
       }
+      // 加密口令始终不导出，否则配置备份会连同口令一起上传
+      delete sync.backup_passphrase;
 
       let localStorageData: Record<string, string> | undefined;
       if (options?.includeLocalStorage && typeof localStorage !== 'undefined') {
@@ -578,7 +893,7 @@ class StorageService {
 
   /**
    * 从 JSON 导入配置
-   * - local 会先 clear，再 set（覆盖导入）
+   * - local 会先 clear，再 set（覆盖导入）；本机运行状态不导入，保留当前的值
    * - sync 默认不 clear，仅 set 备份文件中包含的 key（避免意外清空 GitHub 凭据）
    * - localStorage（可选）仅 set 备份文件中包含的 key
    *
@@ -612,8 +927,14 @@ class StorageService {
       }
 
       // 1) 覆盖导入 local
+      const localData: Record<string, any> = { ...data.local };
+      const excludedLocalKeys = this.getConfigBackupExcludedLocalKeys();
+      for (const key of excludedLocalKeys) {
+        delete localData[key];
+      }
+      const runtimeState = await browser.storage.local.get(excludedLocalKeys);
       await browser.storage.local.clear();
-      await browser.storage.local.set(data.local as Record<string, any>);
+      await browser.storage.local.set({ ...localData, ...runtimeState });
 
       // 2) 合并导入 sync（不清空）
       if (data.sync && typeof data.sync === 'object' && !Array.isArray(data.sync)) {
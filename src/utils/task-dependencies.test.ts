@@ -0,0 +1,48 @@
+import { findDependencyCycle, getDownstreamTasks, matchesTaskCompletion } from './task-dependencies';
+import { Task, TaskStatus, Trigger, createBackupAction, createManualTrigger, createTaskCompletedTrigger } from '../types/task';
+
+const createTask = (id: string, trigger: Trigger = createManualTrigger()): Task => ({
+  id,
+  name: id.toUpperCase(),
+  status: TaskStatus.ENABLED,
+  createdAt: 0,
+  updatedAt: 0,
+  trigger,
+  action: createBackupAction('backup'),
+  history: { executions: [] }
+});
+
+describe('task-dependencies 任务依赖', () => {
+  // a → b → c：b 在 a 完成后执行，c 在 b 完成后执行
+  const tasks: Record<string, Task> = {
+    a: createTask('a'),
+    b: createTask('b', createTaskCompletedTrigger('a')),
+    c: createTask('c', createTaskCompletedTrigger('b'))
+  };
+
+  test('沿上游任务查找依赖循环，按触发顺序返回', () => {
+    expect(findDependencyCycle(tasks, tasks.c)).toBeNull();
+
+    const cycle = findDependencyCycle(tasks, { ...tasks.a, trigger: createTaskCompletedTrigger('c') });
+    expect(cycle?.map(task => task.id)).toEqual(['a', 'b', 'c', 'a']);
+
+    const selfCycle = findDependencyCycle(tasks, { ...tasks.a, trigger: createTaskCompletedTrigger('a') });
+    expect(selfCycle?.map(task => task.id)).toEqual(['a', 'a']);
+
+    // 上游任务已删除时不视为循环
+    expect(findDependencyCycle(tasks, createTask('d', createTaskCompletedTrigger('x')))).toBeNull();
+  });
+
+  test('下游任务与触发条件', () => {
+    expect(getDownstreamTasks(Object.values(tasks), 'a').map(task => task.id)).toEqual(['b']);
+
+    const failed = { success: false, timestamp: 0 };
+    expect(matchesTaskCompletion('success', failed)).toBe(false);
+    expect(matchesTaskCompletion('failure', failed)).toBe(true);
+    expect(matchesTaskCompletion('any', failed)).toBe(true);
+
+    const skipped = { success: true, skipped: true, timestamp: 0 };
+    expect(matchesTaskCompletion('success', skipped)).toBe(false);
+    expect(matchesTaskCompletion('any', skipped)).toBe(false);
+  });
+});
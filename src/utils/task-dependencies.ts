@@ -0,0 +1,66 @@
+/**
+ * 任务依赖工具
+ * 任务完成触发器把任务连接成依赖关系：每个任务至多有一个上游任务，可以有多个下游任务
+ */
+
+import {
+  Task,
+  TaskCompletionCondition,
+  TaskExecutionResult,
+  TriggerType
+} from '../types/task';
+
+export const TASK_COMPLETION_OPTIONS: Array<{ value: TaskCompletionCondition; label: string }> = [
+  { value: 'success', label: '执行成功后' },
+  { value: 'failure', label: '执行失败后' },
+  { value: 'any', label: '执行完成后（无论成败）' }
+];
+
+/**
+ * 获取任务的上游任务ID
+ * @returns 不是任务完成触发器时返回 undefined
+ */
+export const getUpstreamTaskId = (task: Pick<Task, 'trigger'>): string | undefined =>
+  task.trigger.type === TriggerType.TASK_COMPLETED ? task.trigger.upstreamTaskId : undefined;
+
+/**
+ * 获取在指定任务完成后触发的下游任务
+ */
+export const getDownstreamTasks = (tasks: Task[], taskId: string): Task[] =>
+  tasks.filter(task => getUpstreamTaskId(task) === taskId);
+
+/**
+ * 上游任务的执行结果是否满足触发条件
+ * 内容没有变化而跳过的执行什么也没做，不触发任何下游任务
+ */
+export const matchesTaskCompletion = (on: TaskCompletionCondition, result: TaskExecutionResult): boolean =>
+  !result.skipped && (on === 'any' || (on === 'success') === result.success);
+
+/**
+ * 检查任务的依赖是否形成循环
+ * 沿上游任务逐级查找，回到该任务时即形成循环
+ * @param tasks 所有任务（按ID索引），其中该任务使用待保存的版本
+ * @param task 待保存的任务
+ * @returns 循环中的任务，按触发顺序从该任务开始、到再次回到该任务为止；没有循环时返回 null
+ */
+export const findDependencyCycle = (tasks: Record<string, Task>, task: Task): Task[] | null => {
+  const path: Task[] = [task];
+  const visited = new Set<string>([task.id]);
+  let upstreamId = getUpstreamTaskId(task);
+
+  while (upstreamId) {
+    if (upstreamId === task.id) {
+      return [...path, task].reverse();
+    }
+    const upstream = tasks[upstreamId];
+    // 上游任务不存在，或者进入了不包含该任务的循环
+    if (!upstream || visited.has(upstreamId)) {
+      return null;
+    }
+    path.push(upstream);
+    visited.add(upstreamId);
+    upstreamId = getUpstreamTaskId(upstream);
+  }
+
+  return null;
+};
@@ -0,0 +1,92 @@
+import { browser } from 'wxt/browser';
+import {
+  TriggerEventContext,
+  buildTriggerEventContext,
+  evaluateTriggerCondition,
+  getEffectiveCondition,
+  validateTriggerCondition
+} from './trigger-conditions';
+import { EventType, TriggerCondition, createEventTrigger } from '../types/task';
+
+// 文件夹层级：0 > 1（书签栏）> 3（工作）> 5（项目）
+const PARENTS: Record<string, string | undefined> = { '5': '3', '3': '1', '1': '0', '0': undefined };
+
+const context = (overrides: Partial<TriggerEventContext> = {}): TriggerEventContext => ({
+  kind: 'created',
+  title: 'GitHub Docs',
+  url: 'https://docs.github.com/en/actions',
+  parentIds: ['5'],
+  ancestorIds: ['5'],
+  ...overrides
+});
+
+describe('trigger-conditions 事件触发条件', () => {
+  beforeEach(() => {
+    jest.spyOn(browser.bookmarks, 'get').mockImplementation(async (id: any) => [{ id, title: '', parentId: PARENTS[id] }] as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('通配符与正则匹配不区分大小写', () => {
+    const glob: TriggerCondition = { kind: 'rule', field: 'url', operator: 'glob', value: 'https://*.GITHUB.com/*' };
+    const regex: TriggerCondition = { kind: 'rule', field: 'title', operator: 'regex', value: '^github\\s' };
+
+    expect(evaluateTriggerCondition(glob, context())).toBe(true);
+    expect(evaluateTriggerCondition(glob, context({ url: 'https://github.io/a' }))).toBe(false);
+    expect(evaluateTriggerCondition(regex, context())).toBe(true);
+    expect(evaluateTriggerCondition(regex, context({ title: 'Docs GitHub' }))).toBe(false);
+  });
+
+  test('AND/OR/NOT 条件组组合变更种类与文件夹规则', async () => {
+    // 位于“工作”文件夹（含子文件夹）中，且不是删除操作，或者标题包含 important
+    const condition: TriggerCondition = {
+      kind: 'group',
+      logic: 'or',
+      children: [
+        {
+          kind: 'group',
+          logic: 'and',
+          children: [
+            { kind: 'rule', field: 'folder', operator: 'inside', value: '3' },
+            { kind: 'rule', field: 'changeKind', operator: 'equals', value: 'removed', negate: true }
+          ]
+        },
+        { kind: 'rule', field: 'title', operator: 'contains', value: 'important' }
+      ]
+    };
+
+    const created = await buildTriggerEventContext({ kind: 'created', title: 'A', parentIds: ['5'] }, true);
+    expect(created.ancestorIds).toEqual(['5', '3', '1', '0']);
+    expect(evaluateTriggerCondition(condition, created)).toBe(true);
+    expect(evaluateTriggerCondition(condition, { ...created, kind: 'removed' })).toBe(false);
+    expect(evaluateTriggerCondition(condition, { ...created, kind: 'removed', title: 'Important' })).toBe(true);
+
+    // 直接位于只检查所在文件夹
+    const direct: TriggerCondition = { kind: 'rule', field: 'folder', operator: 'equals', value: '3' };
+    expect(evaluateTriggerCondition(direct, created)).toBe(false);
+    expect(evaluateTriggerCondition({ ...condition, negate: true }, created)).toBe(false);
+  });
+
+  test('旧版条件转换为条件组，并校验无效的条件', () => {
+    const trigger = createEventTrigger(EventType.BOOKMARK_CHANGED, { url: 'github', parentFolder: '5' });
+
+    expect(getEffectiveCondition(trigger)).toEqual({
+      kind: 'group',
+      logic: 'and',
+      children: [
+        { kind: 'rule', field: 'url', operator: 'contains', value: 'github' },
+        { kind: 'rule', field: 'folder', operator: 'equals', value: '5' }
+      ]
+    });
+    expect(getEffectiveCondition(createEventTrigger(EventType.BOOKMARK_CHANGED))).toBeUndefined();
+
+    expect(validateTriggerCondition({
+      kind: 'group',
+      logic: 'and',
+      children: [{ kind: 'rule', field: 'url', operator: 'regex', value: '([a-z' }]
+    })).toBe('无效的正则表达式: ([a-z');
+    expect(validateTriggerCondition({ kind: 'rule', field: 'folder', operator: 'inside', value: '' })).toBe('请选择文件夹');
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * 事件触发条件工具
+ * 在书签变更事件的上下文中计算条件表达式（规则与 AND/OR/NOT 条件组），
+ * 以及校验条件、兼容旧版的 url/title/parentFolder 条件
+ */
+
+import {
+  BookmarkChangeKind,
+  EventTrigger,
+  TriggerCondition,
+  TriggerConditionField,
+  TriggerConditionOperator,
+  TriggerConditionRule
+} from '../types/task';
+import bookmarkService from './bookmark-service';
+
+/**
+ * 计算条件所需的书签变更事件信息
+ */
+export interface TriggerEventContext {
+  kind: BookmarkChangeKind;
+  title?: string;
+  url?: string;
+  parentIds: string[]; // 直接所在的文件夹（移动事件包含新旧两个位置）
+  ancestorIds: string[]; // parentIds 及其所有上级文件夹
+}
+
+export const CHANGE_KIND_OPTIONS: Array<{ value: BookmarkChangeKind; label: string }> = [
+  { value: 'created', label: '新增' },
+  { value: 'removed', label: '删除' },
+  { value: 'changed', label: '修改' },
+  { value: 'moved', label: '移动' }
+];
+
+export const CONDITION_FIELD_OPTIONS: Array<{ value: TriggerConditionField; label: string }> = [
+  { value: 'url', label: 'URL' },
+  { value: 'title', label: '标题' },
+  { value: 'changeKind', label: '变更种类' },
+  { value: 'folder', label: '文件夹' }
+];
+
+const OPERATOR_LABELS: Record<TriggerConditionOperator, string> = {
+  contains: '包含',
+  equals: '等于',
+  glob: '通配符匹配',
+  regex: '正则匹配',
+  inside: '位于（含子文件夹）'
+};
+
+/**
+ * 各字段可用的匹配方式
+ */
+export const getConditionOperators = (field: TriggerConditionField): Array<{ value: TriggerConditionOperator; label: string }> => {
+  const operators: TriggerConditionOperator[] = field === 'folder'
+    ? ['inside', 'equals']
+    : field === 'changeKind'
+      ? ['equals']
+      : ['contains', 'equals', 'glob', 'regex'];
+  return operators.map(value => ({
+    value,
+    label: field === 'folder' && value === 'equals' ? '直接位于' : OPERATOR_LABELS[value]
+  }));
+};
+
+/**
+ * 构建事件上下文
+ * @param event 变更种类、书签内容与直接所在的文件夹
+ * @param withAncestors 是否查询所有上级文件夹；不查询时 ancestorIds 只包含直接所在的文件夹
+ */
+export const buildTriggerEventContext = async (
+  event: Omit<TriggerEventContext, 'ancestorIds'>,
+  withAncestors: boolean
+): Promise<TriggerEventContext> => {
+  const ancestorIds = new Set(event.parentIds);
+  if (withAncestors) {
+    for (const parentId of event.parentIds) {
+      const result = await bookmarkService.getAncestorFolderIds(parentId);
+      if (result.success) {
+        (result.data as string[]).forEach(id => ancestorIds.add(id));
+      }
+    }
+  }
+  return { ...event, ancestorIds: [...ancestorIds] };
+};
+
+/**
+ * 将 glob 模式转换为正则表达式：* 匹配任意字符，? 匹配单个字符，整体匹配且不区分大小写
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+const matchText = (operator: TriggerConditionOperator, pattern: string, text?: string): boolean => {
+  if (text === undefined) return false;
+
+  switch (operator) {
+    case 'contains':
+      return text.toLowerCase().includes(pattern.toLowerCase());
+    case 'equals':
+      return text.toLowerCase() === pattern.toLowerCase();
+    case 'glob':
+      return globToRegExp(pattern).test(text);
+    case 'regex':
+      try {
+        return new RegExp(pattern, 'i').test(text);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+};
+
+const matchRule = (rule: TriggerConditionRule, context: TriggerEventContext): boolean => {
+  switch (rule.field) {
+    case 'url':
+      return matchText(rule.operator, rule.value, context.url);
+    case 'title':
+      return matchText(rule.operator, rule.value, context.title);
+    case 'changeKind':
+      return context.kind === rule.value;
+    case 'folder':
+      return rule.operator === 'inside'
+        ? context.ancestorIds.includes(rule.value)
+        : context.parentIds.includes(rule.value);
+    default:
+      return false;
+  }
+};
+
+/**
+ * 计算条件表达式，空条件组视为满足
+ */
+export const evaluateTriggerCondition = (condition: TriggerCondition, context: TriggerEventContext): boolean => {
+  const matched = condition.kind === 'group'
+    ? condition.logic === 'or'
+      ? condition.children.length === 0 || condition.children.some(child => evaluateTriggerCondition(child, context))
+      : condition.children.every(child => evaluateTriggerCondition(child, context))
+    : matchRule(condition, context);
+  return condition.negate ? !matched : matched;
+};
+
+/**
+ * 条件中是否包含“位于文件夹（含子文件夹）”规则，需要查询上级文件夹
+ */
+export const conditionUsesAncestors = (condition: TriggerCondition): boolean =>
+  condition.kind === 'group'
+    ? condition.children.some(conditionUsesAncestors)
+    : condition.field === 'folder' && condition.operator === 'inside';
+
+/**
+ * 校验条件表达式
+ * @returns 第一个错误信息，有效时返回 null
+ */
+export const validateTriggerCondition = (condition: TriggerCondition): string | null => {
+  if (condition.kind === 'group') {
+    for (const child of condition.children) {
+      const error = validateTriggerCondition(child);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (!condition.value.trim()) {
+    return condition.field === 'folder' ? '请选择文件夹' : '条件的匹配值不能为空';
+  }
+  if (condition.operator === 'regex') {
+    try {
+      new RegExp(condition.value);
+    } catch {
+      return `无效的正则表达式: ${condition.value}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * 获取事件触发器实际使用的条件表达式
+ * 旧版 conditions 转换为“全部满足”的条件组：url/title 为包含匹配，parentFolder 为直接位于
+ */
+export const getEffectiveCondition = (trigger: EventTrigger): TriggerCondition | undefined => {
+  if (trigger.condition) {
+    return trigger.condition;
+  }
+
+  const legacy = trigger.conditions;
+  if (!legacy) return undefined;
+
+  const rules: TriggerConditionRule[] = [];
+  if (legacy.url) rules.push({ kind: 'rule', field: 'url', operator: 'contains', value: legacy.url });
+  if (legacy.title) rules.push({ kind: 'rule', field: 'title', operator: 'contains', value: legacy.title });
+  if (legacy.parentFolder) rules.push({ kind: 'rule', field: 'folder', operator: 'equals', value: legacy.parentFolder });
+
+  return rules.length > 0 ? { kind: 'group', logic: 'and', children: rules } : undefined;
+};
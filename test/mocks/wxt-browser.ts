@@ -65,6 +65,8 @@ const createEvent = () => {
   };
 };
 
+const alarmStore = new Map<string, { name: string; scheduledTime: number; periodInMinutes?: number }>();
+
 let nextTabId = 1;
 let nextWindowId = 1;
 
@@ -77,6 +79,20 @@ export const browser = {
     sync: createStorageArea(syncStore),
     onChanged: createOnChanged(),
   },
+  alarms: {
+    create: async (name: string, info: { when?: number; delayInMinutes?: number; periodInMinutes?: number }) => {
+      const scheduledTime = info.when ?? Date.now() + (info.delayInMinutes ?? 0) * 60 * 1000;
+      alarmStore.set(name, { name, scheduledTime, periodInMinutes: info.periodInMinutes });
+    },
+    get: async (name: string) => alarmStore.get(name),
+    getAll: async () => Array.from(alarmStore.values()),
+    clear: async (name: string) => alarmStore.delete(name),
+    clearAll: async () => {
+      alarmStore.clear();
+      return true;
+    },
+    onAlarm: createEvent(),
+  },
   tabs: {
     onUpdated: createEvent(),
     create: async () => ({ id: nextTabId++ }),
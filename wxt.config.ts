@@ -72,8 +72,11 @@ export default defineConfig({
       name: 'MarksVault',
       description: '智能管理、整理和安全备份您的书签数据',
       // Firefox 不支持 Chromium 的 `_favicon` 端点，也不需要 `favicon` 权限，避免 AMO 审核噪音
-      permissions: ['bookmarks', 'storage', ...(isFirefox ? [] : ['favicon'])],
+      // 增量备份基准与恢复快照保存完整的书签树，书签较多时会超过 storage.local 默认的 10MB 限额
+      permissions: ['bookmarks', 'storage', 'unlimitedStorage', 'alarms', 'downloads', ...(isFirefox ? [] : ['favicon'])],
       host_permissions: ['https://api.github.com/*'],
+      // WebDAV 服务器与自建 Gitea / GitLab 的地址由用户填写，连接时再按需申请对应站点的访问权限
+      optional_host_permissions: ['https://*/*', 'http://*/*'],
       action: {
         default_icon: {
           16: 'assets/icons/logo/icon16.png',